@@ -4,50 +4,138 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { HashRouter, Routes, Route, Navigate } from "react-router-dom"; // 👈 Cambio aquí
 import { ProtectedRoute } from "./components/ProtectedRoute";
+import { AcademicYearProvider } from "./hooks/use-academic-year";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import Students from "./pages/Students";
 import StudentDetail from "./pages/StudentDetail";
+import StudentImport from "./pages/StudentImport";
+import Duplicates from "./pages/Duplicates";
+import IdCards from "./pages/IdCards";
+import FamilyDetail from "./pages/FamilyDetail";
 import Payments from "./pages/Payments";
+import FeePlans from "./pages/FeePlans";
+import FeeConcepts from "./pages/FeeConcepts";
+import Discounts from "./pages/Discounts";
+import LateFees from "./pages/LateFees";
+import CashRegister from "./pages/CashRegister";
+import ReceivablesAging from "./pages/ReceivablesAging";
 import Grades from "./pages/Grades";
+import AcademicYears from "./pages/AcademicYears";
+import Promotion from "./pages/Promotion";
+import GradeLevels from "./pages/GradeLevels";
+import EmergencySheet from "./pages/EmergencySheet";
+import Staff from "./pages/Staff";
+import CustomFields from "./pages/CustomFields";
+import SchoolSettings from "./pages/SchoolSettings";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      {/* 👇 Cambio BrowserRouter → HashRouter */}
-      <HashRouter>
-        <Routes>
-          <Route path="/" element={<Navigate to="/auth" replace />} />
-          <Route path="/auth" element={<Auth />} />
-          <Route
-            path="/dashboard"
-            element={<ProtectedRoute><Dashboard /></ProtectedRoute>}
-          />
-          <Route
-            path="/students"
-            element={<ProtectedRoute><Students /></ProtectedRoute>}
-          />
-          <Route
-            path="/student/:id"
-            element={<ProtectedRoute><StudentDetail /></ProtectedRoute>}
-          />
-          <Route
-            path="/payments"
-            element={<ProtectedRoute><Payments /></ProtectedRoute>}
-          />
-          <Route
-            path="/grades"
-            element={<ProtectedRoute><Grades /></ProtectedRoute>}
-          />
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </HashRouter>
-    </TooltipProvider>
+    <AcademicYearProvider>
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        {/* 👇 Cambio BrowserRouter → HashRouter */}
+        <HashRouter>
+          <Routes>
+            <Route path="/" element={<Navigate to="/auth" replace />} />
+            <Route path="/auth" element={<Auth />} />
+            <Route
+              path="/dashboard"
+              element={<ProtectedRoute><Dashboard /></ProtectedRoute>}
+            />
+            <Route
+              path="/students"
+              element={<ProtectedRoute><Students /></ProtectedRoute>}
+            />
+            <Route
+              path="/students/import"
+              element={<ProtectedRoute><StudentImport /></ProtectedRoute>}
+            />
+            <Route
+              path="/students/duplicates"
+              element={<ProtectedRoute><Duplicates /></ProtectedRoute>}
+            />
+            <Route
+              path="/students/id-cards"
+              element={<ProtectedRoute><IdCards /></ProtectedRoute>}
+            />
+            <Route
+              path="/student/:id"
+              element={<ProtectedRoute><StudentDetail /></ProtectedRoute>}
+            />
+            <Route
+              path="/family/:id"
+              element={<ProtectedRoute><FamilyDetail /></ProtectedRoute>}
+            />
+            <Route
+              path="/payments"
+              element={<ProtectedRoute><Payments /></ProtectedRoute>}
+            />
+            <Route
+              path="/payments/fee-plans"
+              element={<ProtectedRoute><FeePlans /></ProtectedRoute>}
+            />
+            <Route
+              path="/payments/fee-concepts"
+              element={<ProtectedRoute><FeeConcepts /></ProtectedRoute>}
+            />
+            <Route
+              path="/payments/discounts"
+              element={<ProtectedRoute><Discounts /></ProtectedRoute>}
+            />
+            <Route
+              path="/payments/late-fees"
+              element={<ProtectedRoute><LateFees /></ProtectedRoute>}
+            />
+            <Route
+              path="/payments/cash"
+              element={<ProtectedRoute><CashRegister /></ProtectedRoute>}
+            />
+            <Route
+              path="/payments/aging"
+              element={<ProtectedRoute><ReceivablesAging /></ProtectedRoute>}
+            />
+            <Route
+              path="/grades"
+              element={<ProtectedRoute><Grades /></ProtectedRoute>}
+            />
+            <Route
+              path="/academic-years"
+              element={<ProtectedRoute><AcademicYears /></ProtectedRoute>}
+            />
+            <Route
+              path="/promotion"
+              element={<ProtectedRoute><Promotion /></ProtectedRoute>}
+            />
+            <Route
+              path="/grade-levels"
+              element={<ProtectedRoute><GradeLevels /></ProtectedRoute>}
+            />
+            <Route
+              path="/emergency-sheet"
+              element={<ProtectedRoute><EmergencySheet /></ProtectedRoute>}
+            />
+            <Route
+              path="/custom-fields"
+              element={<ProtectedRoute><CustomFields /></ProtectedRoute>}
+            />
+            <Route
+              path="/school-settings"
+              element={<ProtectedRoute><SchoolSettings /></ProtectedRoute>}
+            />
+            <Route
+              path="/staff"
+              element={<ProtectedRoute><Staff /></ProtectedRoute>}
+            />
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </HashRouter>
+      </TooltipProvider>
+    </AcademicYearProvider>
   </QueryClientProvider>
 );
 
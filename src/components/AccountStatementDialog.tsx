@@ -0,0 +1,185 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAcademicYear } from "@/hooks/use-academic-year";
+import {
+  AccountStatement,
+  StatementTarget,
+  accountStatementSchema,
+  formatStatementDate,
+  generateAccountStatementPdf,
+  getMovementDetail,
+  loadAccountStatement,
+  movementTypeLabels,
+  sumStatementLines,
+} from "@/lib/accountStatement";
+import { toast } from "sonner";
+import { z } from "zod";
+import { FileText } from "lucide-react";
+
+interface AccountStatementDialogProps {
+  target: StatementTarget | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Defaults to the selected academic year up to today
+const defaultRange = (startDate?: string) => {
+  const today = new Date().toISOString().split("T")[0];
+  return { from: startDate && startDate < today ? startDate : today, to: today };
+};
+
+export const AccountStatementDialog = ({ target, onOpenChange }: AccountStatementDialogProps) => {
+  const { selectedYear } = useAcademicYear();
+  const [range, setRange] = useState(defaultRange(selectedYear?.start_date));
+  const [statement, setStatement] = useState<AccountStatement | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (target) {
+      const initial = defaultRange(selectedYear?.start_date);
+      setRange(initial);
+      loadStatement(initial);
+    } else {
+      setStatement(null);
+    }
+  }, [target?.id]);
+
+  const loadStatement = async (values = range) => {
+    setLoading(true);
+    try {
+      const validated = accountStatementSchema.parse(values);
+      setStatement(await loadAccountStatement(target, validated.from, validated.to));
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error("Error loading account statement: " + error.message);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    loadStatement();
+  };
+
+  const consolidated = target?.kind === "family";
+  const totals = statement ? sumStatementLines(statement.lines) : null;
+
+  return (
+    <Dialog open={!!target} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Estado de cuenta</DialogTitle>
+          <DialogDescription>
+            {target?.name}
+            {consolidated && " · Consolidado de todos los hermanos"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="statementFrom">Desde</Label>
+            <Input
+              id="statementFrom"
+              type="date"
+              value={range.from}
+              onChange={(e) => setRange({ ...range, from: e.target.value })}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="statementTo">Hasta</Label>
+            <Input
+              id="statementTo"
+              type="date"
+              value={range.to}
+              onChange={(e) => setRange({ ...range, to: e.target.value })}
+              required
+            />
+          </div>
+          <Button type="submit" variant="outline" disabled={loading}>
+            {loading ? "Cargando..." : "Consultar"}
+          </Button>
+          <Button
+            type="button"
+            className="ml-auto"
+            disabled={!statement || loading}
+            onClick={() => generateAccountStatementPdf(statement)}
+          >
+            <FileText className="mr-2 h-4 w-4" />
+            Descargar PDF
+          </Button>
+        </form>
+
+        {statement && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Fecha</TableHead>
+                <TableHead>Tipo</TableHead>
+                {consolidated && <TableHead>Estudiante</TableHead>}
+                <TableHead>Detalle</TableHead>
+                <TableHead className="text-right">Cargos</TableHead>
+                <TableHead className="text-right">Abonos</TableHead>
+                <TableHead className="text-right">Saldo</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              <TableRow className="font-semibold">
+                <TableCell>{formatStatementDate(statement.from)}</TableCell>
+                <TableCell colSpan={consolidated ? 5 : 4}>Saldo inicial</TableCell>
+                <TableCell className="text-right">${statement.openingBalance.toFixed(2)}</TableCell>
+              </TableRow>
+              {statement.lines.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={consolidated ? 7 : 6} className="text-center text-muted-foreground">
+                    No hay movimientos en el período
+                  </TableCell>
+                </TableRow>
+              ) : (
+                statement.lines.map((line) => {
+                  const amount = Number(line.amount);
+                  return (
+                    <TableRow key={line.movement_key}>
+                      <TableCell>{formatStatementDate(line.movement_date)}</TableCell>
+                      <TableCell>
+                        <Badge variant={line.movement_type === "void" ? "destructive" : "secondary"}>
+                          {movementTypeLabels[line.movement_type]}
+                        </Badge>
+                      </TableCell>
+                      {consolidated && <TableCell>{line.student_name}</TableCell>}
+                      <TableCell>{getMovementDetail(line)}</TableCell>
+                      <TableCell className="text-right">{amount > 0 ? `$${amount.toFixed(2)}` : ""}</TableCell>
+                      <TableCell className="text-right text-success">
+                        {amount < 0 ? `$${(-amount).toFixed(2)}` : ""}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">${line.balance.toFixed(2)}</TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+              <TableRow className="font-semibold">
+                <TableCell>{formatStatementDate(statement.to)}</TableCell>
+                <TableCell colSpan={consolidated ? 3 : 2}>Saldo final</TableCell>
+                <TableCell className="text-right">${totals.debits.toFixed(2)}</TableCell>
+                <TableCell className="text-right text-success">${totals.credits.toFixed(2)}</TableCell>
+                <TableCell
+                  className={`text-right ${statement.closingBalance > 0 ? "text-destructive" : "text-success"}`}
+                >
+                  ${statement.closingBalance.toFixed(2)}
+                </TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
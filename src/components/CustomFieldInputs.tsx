@@ -0,0 +1,72 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FieldError } from "@/components/FieldError";
+import { CustomField, CustomFieldValues } from "@/lib/customFields";
+
+interface CustomFieldInputsProps {
+  fields: CustomField[];
+  values: CustomFieldValues;
+  onChange: (values: CustomFieldValues) => void;
+  // Form path of the values, e.g. "customFields" or "guardians.0.customFields"
+  path: string;
+  errors?: Record<string, string>;
+}
+
+export const CustomFieldInputs = ({ fields, values, onChange, path, errors = {} }: CustomFieldInputsProps) => {
+  if (fields.length === 0) return null;
+
+  const set = (key: string, value: string | boolean) => onChange({ ...values, [key]: value });
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      {fields.map((field) => {
+        const id = `${path}.${field.key}`;
+        const label = `${field.label}${field.is_required ? "" : " (opcional)"}`;
+        const value = values[field.key];
+
+        if (field.field_type === "checkbox") {
+          return (
+            <div key={field.id} className="space-y-2">
+              <div className="flex items-center gap-2 pt-8">
+                <Checkbox id={id} checked={value === true} onCheckedChange={(checked) => set(field.key, checked === true)} />
+                <Label htmlFor={id}>{label}</Label>
+              </div>
+              <FieldError message={errors[id]} />
+            </div>
+          );
+        }
+
+        return (
+          <div key={field.id} className="space-y-2">
+            <Label htmlFor={id}>{label}</Label>
+            {field.field_type === "select" ? (
+              <Select value={String(value ?? "")} onValueChange={(v) => set(field.key, v)}>
+                <SelectTrigger id={id}>
+                  <SelectValue placeholder="Seleccionar" />
+                </SelectTrigger>
+                <SelectContent>
+                  {field.options.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {option}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                id={id}
+                type={field.field_type === "number" ? "number" : field.field_type === "date" ? "date" : "text"}
+                step={field.field_type === "number" ? "any" : undefined}
+                value={String(value ?? "")}
+                onChange={(e) => set(field.key, e.target.value)}
+              />
+            )}
+            <FieldError message={errors[id]} />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
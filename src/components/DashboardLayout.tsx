@@ -1,8 +1,14 @@
-import { ReactNode } from "react";
+import { ReactNode, useState } from "react";
 import { Link, useLocation, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { QrScannerDialog } from "@/components/QrScannerDialog";
 import { cn } from "@/lib/utils";
 import { supabase } from "@/integrations/supabase/client";
+import { useAcademicYear } from "@/hooks/use-academic-year";
+import { useUserRole } from "@/hooks/use-user-role";
+import { canViewMedicalInfo } from "@/lib/roles";
 import { toast } from "sonner";
 import { 
   GraduationCap, 
@@ -10,7 +16,15 @@ import {
   DollarSign, 
   BookOpen, 
   LayoutDashboard,
-  LogOut 
+  CalendarRange,
+  ArrowUpCircle,
+  Layers,
+  LogOut,
+  ScanLine,
+  HeartPulse,
+  ShieldCheck,
+  SlidersHorizontal,
+  School
 } from "lucide-react";
 
 interface DashboardLayoutProps {
@@ -20,6 +34,9 @@ interface DashboardLayoutProps {
 export const DashboardLayout = ({ children }: DashboardLayoutProps) => {
   const location = useLocation();
   const navigate = useNavigate();
+  const { years, selectedYear, selectYear } = useAcademicYear();
+  const { role } = useUserRole();
+  const [scannerOpen, setScannerOpen] = useState(false);
 
   const handleLogout = async () => {
     const { error } = await supabase.auth.signOut();
@@ -36,12 +53,23 @@ export const DashboardLayout = ({ children }: DashboardLayoutProps) => {
     { path: "/students", label: "Estudiantes", icon: Users },
     { path: "/payments", label: "Pagos", icon: DollarSign },
     { path: "/grades", label: "Calificaciones", icon: BookOpen },
+    { path: "/promotion", label: "Promoción", icon: ArrowUpCircle },
+    { path: "/grade-levels", label: "Grados y secciones", icon: Layers },
+    { path: "/academic-years", label: "Años académicos", icon: CalendarRange },
+    ...(canViewMedicalInfo(role) ? [{ path: "/emergency-sheet", label: "Ficha de emergencia", icon: HeartPulse }] : []),
+    ...(role === "admin"
+      ? [
+          { path: "/custom-fields", label: "Campos personalizados", icon: SlidersHorizontal },
+          { path: "/school-settings", label: "Escuela", icon: School },
+          { path: "/staff", label: "Personal", icon: ShieldCheck },
+        ]
+      : []),
   ];
 
   return (
     <div className="min-h-screen bg-background">
       {/* Sidebar */}
-      <aside className="fixed left-0 top-0 z-40 h-screen w-64 border-r bg-card">
+      <aside className="fixed left-0 top-0 z-40 h-screen w-64 border-r bg-card print:hidden">
         <div className="flex h-full flex-col">
           {/* Logo */}
           <div className="flex h-16 items-center border-b px-6">
@@ -86,11 +114,40 @@ export const DashboardLayout = ({ children }: DashboardLayoutProps) => {
       </aside>
 
       {/* Main Content */}
-      <main className="ml-64">
-        <div className="container py-8 px-8">
+      <main className="ml-64 print:ml-0">
+        {/* Header */}
+        <header className="flex h-16 items-center justify-end gap-3 border-b bg-card px-8 print:hidden">
+          <Button variant="outline" size="sm" className="mr-auto" onClick={() => setScannerOpen(true)}>
+            <ScanLine className="mr-2 h-4 w-4" />
+            Escanear carnet
+          </Button>
+          {selectedYear && !selectedYear.is_current && (
+            <Badge variant="outline" className="text-warning border-warning">
+              Consultando un año anterior
+            </Badge>
+          )}
+          <span className="text-sm text-muted-foreground">Año académico</span>
+          <Select value={selectedYear?.id || ""} onValueChange={selectYear} disabled={years.length === 0}>
+            <SelectTrigger className="w-40">
+              <SelectValue placeholder="Sin años" />
+            </SelectTrigger>
+            <SelectContent>
+              {years.map((year) => (
+                <SelectItem key={year.id} value={year.id}>
+                  {year.name}
+                  {year.is_current && " (actual)"}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </header>
+
+        <div className="container py-8 px-8 print:p-0">
           {children}
         </div>
       </main>
+
+      <QrScannerDialog open={scannerOpen} onOpenChange={setScannerOpen} />
     </div>
   );
 };
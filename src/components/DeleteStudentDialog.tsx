@@ -0,0 +1,167 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { AlertTriangle } from "lucide-react";
+
+interface DeleteStudentDialogProps {
+  student: {
+    id: string;
+    first_name: string;
+    last_name: string;
+    id_number: string;
+  } | null;
+  onOpenChange: (open: boolean) => void;
+  onDeleted: () => void;
+}
+
+// Row of student_delete_preview
+interface CascadeCounts {
+  enrollments: number;
+  installments: number;
+  charges: number;
+  discounts: number;
+  payments: number;
+  // Payments in a closed cash session cannot be deleted, so neither can the student
+  closed_session_payments: number;
+  grades: number;
+  documents: number;
+  medical_records: number;
+  emergency_contacts: number;
+  status_changes: number;
+  merges: number;
+}
+
+const cascadeLabels: [Exclude<keyof CascadeCounts, "closed_session_payments">, string][] = [
+  ["enrollments", "matrícula(s)"],
+  ["installments", "cuota(s)"],
+  ["charges", "cargo(s)"],
+  ["discounts", "descuento(s)"],
+  ["payments", "pago(s)"],
+  ["grades", "calificación(es)"],
+  ["documents", "documento(s)"],
+  ["medical_records", "ficha(s) médica(s)"],
+  ["emergency_contacts", "contacto(s) de emergencia"],
+  ["status_changes", "cambio(s) de estado"],
+  ["merges", "fusión(es) registrada(s)"],
+];
+
+export const DeleteStudentDialog = ({ student, onOpenChange, onDeleted }: DeleteStudentDialogProps) => {
+  const [counts, setCounts] = useState<CascadeCounts | null>(null);
+  const [confirmation, setConfirmation] = useState("");
+  const [deleting, setDeleting] = useState(false);
+
+  useEffect(() => {
+    setConfirmation("");
+    setCounts(null);
+    if (student) {
+      loadCascadeCounts(student.id);
+    }
+  }, [student]);
+
+  // Every row removed by the ON DELETE CASCADE chain; guardians stay with the family
+  const loadCascadeCounts = async (studentId: string) => {
+    try {
+      const { data, error } = await supabase.rpc("student_delete_preview", { p_student_id: studentId });
+      if (error) throw error;
+      setCounts(data[0]);
+    } catch (error: any) {
+      toast.error("Error loading related records: " + error.message);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!student || confirmation !== student.id_number) return;
+
+    setDeleting(true);
+    try {
+      const { error } = await supabase.from("students").delete().eq("id", student.id);
+      if (error) throw error;
+
+      toast.success("Estudiante eliminado correctamente");
+      onOpenChange(false);
+      onDeleted();
+    } catch (error: any) {
+      toast.error(error.message || "Error deleting student");
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={!!student} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-destructive" />
+            Eliminar estudiante
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            Esta acción no se puede deshacer. Se eliminará a {student?.first_name} {student?.last_name} junto con
+            todos sus registros relacionados. Si el estudiante dejó la institución, cambie su estado en lugar de
+            eliminarlo para conservar su historial.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {counts === null ? (
+          <div className="text-center py-4">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+          </div>
+        ) : counts.closed_session_payments > 0 ? (
+          <div className="rounded-lg border border-destructive/50 bg-destructive/10 p-4 text-sm space-y-1">
+            <p className="font-semibold">No se puede eliminar</p>
+            <p>
+              {counts.closed_session_payments} pago(s) pertenecen a cajas cerradas. Cambie el estado del estudiante en
+              lugar de eliminarlo.
+            </p>
+          </div>
+        ) : (
+          <div className="rounded-lg border border-destructive/50 bg-destructive/10 p-4 text-sm space-y-1">
+            <p className="font-semibold">También se eliminarán:</p>
+            {cascadeLabels.map(([key, label]) => (
+              <p key={key}>
+                {counts[key]} {label}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="deleteConfirmation">
+            Escriba el DNI del estudiante (<span className="font-mono">{student?.id_number}</span>) para confirmar
+          </Label>
+          <Input
+            id="deleteConfirmation"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            autoComplete="off"
+          />
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={deleting}>Cancel</AlertDialogCancel>
+          <Button
+            variant="destructive"
+            onClick={handleDelete}
+            disabled={
+              deleting || counts === null || counts.closed_session_payments > 0 || confirmation !== student?.id_number
+            }
+          >
+            {deleting ? "Eliminando..." : "Eliminar estudiante"}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
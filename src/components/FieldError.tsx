@@ -0,0 +1,6 @@
+interface FieldErrorProps {
+  message?: string;
+}
+
+export const FieldError = ({ message }: FieldErrorProps) =>
+  message ? <p className="text-sm text-destructive">{message}</p> : null;
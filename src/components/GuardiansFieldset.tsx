@@ -0,0 +1,175 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { FieldError } from "@/components/FieldError";
+import { CustomFieldInputs } from "@/components/CustomFieldInputs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  GUARDIAN_RELATIONSHIPS,
+  GuardianFormData,
+  GuardianRelationship,
+  emptyGuardian,
+  guardianRelationshipLabels,
+} from "@/lib/guardians";
+import { CustomField } from "@/lib/customFields";
+import { Plus, Trash2 } from "lucide-react";
+
+interface GuardiansFieldsetProps {
+  guardians: GuardianFormData[];
+  onChange: (guardians: GuardianFormData[]) => void;
+  // Keyed by form path, e.g. "guardians.0.phone"
+  errors?: Record<string, string>;
+  customFields?: CustomField[];
+}
+
+export const GuardiansFieldset = ({ guardians, onChange, errors = {}, customFields = [] }: GuardiansFieldsetProps) => {
+  const update = (index: number, changes: Partial<GuardianFormData>) => {
+    onChange(guardians.map((g, i) => (i === index ? { ...g, ...changes } : g)));
+  };
+
+  // Only one guardian can be the primary contact
+  const setPrimary = (index: number) => {
+    onChange(guardians.map((g, i) => ({ ...g, isPrimaryContact: i === index })));
+  };
+
+  const remove = (index: number) => {
+    const remaining = guardians.filter((_, i) => i !== index);
+    if (guardians[index].isPrimaryContact && remaining.length > 0) {
+      remaining[0] = { ...remaining[0], isPrimaryContact: true };
+    }
+    onChange(remaining);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-lg">Apoderados</h3>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...guardians, emptyGuardian(guardians.length === 0)])}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Agregar apoderado
+        </Button>
+      </div>
+      <FieldError message={errors.guardians} />
+
+      {guardians.map((guardian, index) => (
+        <div key={guardian.id || index} className="rounded-lg border p-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-muted-foreground">Apoderado {index + 1}</span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="text-destructive hover:text-destructive hover:bg-destructive/10"
+              onClick={() => remove(index)}
+              disabled={guardians.length === 1}
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Quitar
+            </Button>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor={`guardianName-${index}`}>Nombre completo</Label>
+              <Input
+                id={`guardianName-${index}`}
+                value={guardian.fullName}
+                onChange={(e) => update(index, { fullName: e.target.value })}
+                required
+              />
+              <FieldError message={errors[`guardians.${index}.fullName`]} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`guardianRelationship-${index}`}>Parentesco</Label>
+              <Select
+                value={guardian.relationship}
+                onValueChange={(value) => update(index, { relationship: value as GuardianRelationship })}
+              >
+                <SelectTrigger id={`guardianRelationship-${index}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {GUARDIAN_RELATIONSHIPS.map((relationship) => (
+                    <SelectItem key={relationship} value={relationship}>
+                      {guardianRelationshipLabels[relationship]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FieldError message={errors[`guardians.${index}.relationship`]} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`guardianIdNumber-${index}`}>DNI</Label>
+              <Input
+                id={`guardianIdNumber-${index}`}
+                value={guardian.idNumber}
+                onChange={(e) => update(index, { idNumber: e.target.value })}
+                required
+              />
+              <FieldError message={errors[`guardians.${index}.idNumber`]} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`guardianPhone-${index}`}>Celular</Label>
+              <Input
+                id={`guardianPhone-${index}`}
+                type="tel"
+                value={guardian.phone}
+                onChange={(e) => update(index, { phone: e.target.value })}
+                required
+              />
+              <FieldError message={errors[`guardians.${index}.phone`]} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`guardianEmail-${index}`}>Email (opcional)</Label>
+              <Input
+                id={`guardianEmail-${index}`}
+                type="email"
+                value={guardian.email}
+                onChange={(e) => update(index, { email: e.target.value })}
+              />
+              <FieldError message={errors[`guardians.${index}.email`]} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`guardianAddress-${index}`}>Direcciòn (Optional)</Label>
+              <Input
+                id={`guardianAddress-${index}`}
+                value={guardian.address}
+                onChange={(e) => update(index, { address: e.target.value })}
+              />
+            </div>
+          </div>
+          <CustomFieldInputs
+            fields={customFields}
+            values={guardian.customFields}
+            onChange={(values) => update(index, { customFields: values })}
+            path={`guardians.${index}.customFields`}
+            errors={errors}
+          />
+          <div className="flex gap-6">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={`guardianPrimary-${index}`}
+                checked={guardian.isPrimaryContact}
+                onCheckedChange={(checked) => checked === true && setPrimary(index)}
+              />
+              <Label htmlFor={`guardianPrimary-${index}`}>Contacto principal</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={`guardianFinancial-${index}`}
+                checked={guardian.isFinanciallyResponsible}
+                onCheckedChange={(checked) => update(index, { isFinanciallyResponsible: checked === true })}
+              />
+              <Label htmlFor={`guardianFinancial-${index}`}>Responsable financiero</Label>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
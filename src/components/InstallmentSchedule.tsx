@@ -0,0 +1,128 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { ScheduledInstallment, getInstallmentStatusColor, getInstallmentStatusLabel } from "@/lib/installments";
+import { toast } from "sonner";
+
+interface InstallmentScheduleProps {
+  enrollment: {
+    id: string;
+    academic_year_id: string;
+    fee_plan_id: string | null;
+  } | null;
+  installments: ScheduledInstallment[];
+  onPlanApplied: () => void;
+}
+
+export const InstallmentSchedule = ({ enrollment, installments, onPlanApplied }: InstallmentScheduleProps) => {
+  const [plans, setPlans] = useState<{ id: string; name: string }[]>([]);
+  const [planId, setPlanId] = useState("");
+  const [applying, setApplying] = useState(false);
+
+  useEffect(() => {
+    setPlanId(enrollment?.fee_plan_id || "");
+    if (enrollment) {
+      loadPlans(enrollment.academic_year_id);
+    }
+  }, [enrollment?.id, enrollment?.fee_plan_id]);
+
+  const loadPlans = async (academicYearId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from("fee_plans")
+        .select("id, name")
+        .eq("academic_year_id", academicYearId)
+        .order("name");
+
+      if (error) throw error;
+      setPlans(data || []);
+    } catch (error: any) {
+      toast.error("Error loading fee plans: " + error.message);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!enrollment || !planId) return;
+
+    setApplying(true);
+    try {
+      const { error } = await supabase.rpc("apply_fee_plan", {
+        p_fee_plan_id: planId,
+        p_enrollment_ids: [enrollment.id],
+      });
+      if (error) throw error;
+
+      toast.success("Plan de pagos aplicado");
+      onPlanApplied();
+    } catch (error: any) {
+      toast.error(error.message || "Error applying fee plan");
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="font-semibold">Cuotas</h3>
+        {enrollment && plans.length > 0 && (
+          <div className="flex gap-2">
+            <Select value={planId} onValueChange={setPlanId}>
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Plan de pagos" />
+              </SelectTrigger>
+              <SelectContent>
+                {plans.map((plan) => (
+                  <SelectItem key={plan.id} value={plan.id}>
+                    {plan.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={handleApply} disabled={applying || !planId}>
+              {enrollment.fee_plan_id ? "Reaplicar plan" : "Aplicar plan"}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {installments.length === 0 ? (
+        <p className="text-muted-foreground">No hay cuotas para este año</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Concepto</TableHead>
+              <TableHead>Vence</TableHead>
+              <TableHead>Monto</TableHead>
+              <TableHead>Descuento</TableHead>
+              <TableHead>Pagado</TableHead>
+              <TableHead>Saldo</TableHead>
+              <TableHead>Estado</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {installments.map((installment) => (
+              <TableRow key={`${installment.sequence}-${installment.due_date}`}>
+                <TableCell className="font-medium">{installment.label}</TableCell>
+                <TableCell>{new Date(`${installment.due_date}T00:00:00`).toLocaleDateString()}</TableCell>
+                <TableCell>${Number(installment.amount).toFixed(2)}</TableCell>
+                <TableCell>${Number(installment.discount_amount).toFixed(2)}</TableCell>
+                <TableCell>${Number(installment.paid_amount).toFixed(2)}</TableCell>
+                <TableCell>${Number(installment.balance).toFixed(2)}</TableCell>
+                <TableCell>
+                  <Badge className={getInstallmentStatusColor(installment.status)}>
+                    {getInstallmentStatusLabel(installment.status)}
+                  </Badge>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,218 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  PaymentAdjustmentAction,
+  buildRefundPaymentSchema,
+  editPaymentSchema,
+  paymentAdjustmentLabels,
+  voidPaymentSchema,
+} from "@/lib/payments";
+import { toast } from "sonner";
+import { Ban, Pencil, Undo2 } from "lucide-react";
+import { z } from "zod";
+
+export interface AdjustablePayment {
+  id: string;
+  amount: number;
+  payment_date: string;
+  notes: string | null;
+  status: string;
+  refund_of: string | null;
+  // What is left to refund after earlier refunds
+  refundable: number;
+}
+
+interface PaymentAdjustmentDialogProps {
+  adjustment: { action: PaymentAdjustmentAction; payment: AdjustablePayment } | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const today = () => new Date().toISOString().split("T")[0];
+
+export const PaymentAdjustmentDialog = ({ adjustment, onOpenChange, onSaved }: PaymentAdjustmentDialogProps) => {
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState({ amount: 0, paymentDate: today(), notes: "", reason: "" });
+
+  useEffect(() => {
+    if (adjustment) {
+      const { action, payment } = adjustment;
+      setFormData({
+        amount: action === "refund" ? payment.refundable : Number(payment.amount),
+        paymentDate: action === "refund" ? today() : payment.payment_date.split("T")[0],
+        notes: payment.notes || "",
+        reason: "",
+      });
+    }
+  }, [adjustment]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!adjustment) return;
+
+    const { action, payment } = adjustment;
+    setSaving(true);
+    try {
+      let error;
+      if (action === "edit") {
+        const validated = editPaymentSchema.parse(formData);
+        ({ error } = await supabase.rpc("edit_payment", {
+          p_payment_id: payment.id,
+          p_amount: validated.amount,
+          p_payment_date: validated.paymentDate,
+          p_notes: validated.notes,
+          p_reason: validated.reason,
+        }));
+      } else if (action === "void") {
+        const validated = voidPaymentSchema.parse(formData);
+        ({ error } = await supabase.rpc("void_payment", {
+          p_payment_id: payment.id,
+          p_reason: validated.reason,
+        }));
+      } else {
+        const validated = buildRefundPaymentSchema(payment.refundable).parse(formData);
+        ({ error } = await supabase.rpc("refund_payment", {
+          p_payment_id: payment.id,
+          p_amount: validated.amount,
+          p_payment_date: validated.paymentDate,
+          p_reason: validated.reason,
+        }));
+      }
+
+      if (error) throw error;
+
+      toast.success(
+        action === "edit" ? "Pago corregido" : action === "void" ? "Pago anulado" : "Reembolso registrado"
+      );
+      onOpenChange(false);
+      onSaved();
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error(error.message || "Error updating payment");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const action = adjustment?.action;
+  const payment = adjustment?.payment;
+
+  return (
+    <Dialog open={!!adjustment} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{action && paymentAdjustmentLabels[action]}</DialogTitle>
+          <DialogDescription>
+            Pago de ${Number(payment?.amount || 0).toFixed(2)} del{" "}
+            {payment && new Date(payment.payment_date).toLocaleDateString()}.
+            {action === "void" && " El pago se conserva en el historial pero deja de contar en el saldo."}
+            {action === "refund" && ` Reembolsable: $${Number(payment?.refundable || 0).toFixed(2)}.`}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {action !== "void" && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="adjustmentAmount">{action === "refund" ? "Monto a reembolsar" : "Cantidad"}</Label>
+                <Input
+                  id="adjustmentAmount"
+                  type="number"
+                  step="0.01"
+                  value={formData.amount}
+                  onChange={(e) => setFormData({ ...formData, amount: parseFloat(e.target.value) })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="adjustmentDate">{action === "refund" ? "Fecha del reembolso" : "Fecha de pago"}</Label>
+                <Input
+                  id="adjustmentDate"
+                  type="date"
+                  value={formData.paymentDate}
+                  onChange={(e) => setFormData({ ...formData, paymentDate: e.target.value })}
+                  required
+                />
+              </div>
+            </div>
+          )}
+
+          {action === "edit" && (
+            <div className="space-y-2">
+              <Label htmlFor="adjustmentNotes">Notas (opcional)</Label>
+              <Textarea
+                id="adjustmentNotes"
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                rows={2}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="adjustmentReason">Motivo</Label>
+            <Textarea
+              id="adjustmentReason"
+              value={formData.reason}
+              onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+              rows={3}
+              required
+            />
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" variant={action === "void" ? "destructive" : "default"} disabled={saving}>
+              {action && paymentAdjustmentLabels[action]}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface PaymentActionsProps {
+  payment: AdjustablePayment;
+  onSelect: (action: PaymentAdjustmentAction) => void;
+}
+
+// Voided movements are final; refunds can only be voided
+export const PaymentActions = ({ payment, onSelect }: PaymentActionsProps) => {
+  if (payment.status === "voided") return null;
+
+  const isRefund = payment.refund_of !== null;
+
+  return (
+    <div className="flex justify-end">
+      {!isRefund && (
+        <Button variant="ghost" size="sm" title="Corregir" onClick={() => onSelect("edit")}>
+          <Pencil className="h-4 w-4" />
+        </Button>
+      )}
+      {!isRefund && payment.refundable > 0 && (
+        <Button variant="ghost" size="sm" title="Reembolsar" onClick={() => onSelect("refund")}>
+          <Undo2 className="h-4 w-4" />
+        </Button>
+      )}
+      <Button
+        variant="ghost"
+        size="sm"
+        title="Anular"
+        className="text-destructive hover:text-destructive hover:bg-destructive/10"
+        onClick={() => onSelect("void")}
+      >
+        <Ban className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,30 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { generateReceiptPdf, loadPaymentReceipt } from "@/lib/receipts";
+import { toast } from "sonner";
+import { Receipt } from "lucide-react";
+
+interface PaymentReceiptButtonProps {
+  paymentId: string;
+}
+
+export const PaymentReceiptButton = ({ paymentId }: PaymentReceiptButtonProps) => {
+  const [generating, setGenerating] = useState(false);
+
+  const handleClick = async () => {
+    setGenerating(true);
+    try {
+      generateReceiptPdf(await loadPaymentReceipt(paymentId));
+    } catch (error: any) {
+      toast.error(error.message || "Error generating receipt");
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <Button variant="ghost" size="sm" title="Recibo" onClick={handleClick} disabled={generating}>
+      <Receipt className="h-4 w-4" />
+    </Button>
+  );
+};
@@ -0,0 +1,80 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import jsQR from "jsqr";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { parseStudentQr } from "@/lib/idCards";
+
+interface QrScannerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const QrScannerDialog = ({ open, onOpenChange }: QrScannerDialogProps) => {
+  const navigate = useNavigate();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    let stream: MediaStream | null = null;
+    let frame = 0;
+    let stopped = false;
+    const canvas = document.createElement("canvas");
+
+    const scan = () => {
+      const video = videoRef.current;
+      if (stopped || !video) return;
+
+      if (video.readyState === video.HAVE_ENOUGH_DATA) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const context = canvas.getContext("2d", { willReadFrequently: true });
+        context.drawImage(video, 0, 0, canvas.width, canvas.height);
+        const image = context.getImageData(0, 0, canvas.width, canvas.height);
+        const code = jsQR(image.data, image.width, image.height);
+        const studentId = code && parseStudentQr(code.data);
+        if (studentId) {
+          onOpenChange(false);
+          navigate(`/student/${studentId}`);
+          return;
+        }
+      }
+      frame = requestAnimationFrame(scan);
+    };
+
+    setCameraError(null);
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" } })
+      .then((mediaStream) => {
+        stream = mediaStream;
+        if (stopped || !videoRef.current) return;
+        videoRef.current.srcObject = mediaStream;
+        videoRef.current.play();
+        frame = requestAnimationFrame(scan);
+      })
+      .catch(() => setCameraError("No se pudo acceder a la cámara"));
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Escanear carnet</DialogTitle>
+          <DialogDescription>Apunte la cámara al código QR del carnet estudiantil</DialogDescription>
+        </DialogHeader>
+        {cameraError ? (
+          <p className="text-center py-8 text-destructive">{cameraError}</p>
+        ) : (
+          <video ref={videoRef} className="w-full rounded-md bg-muted" muted playsInline />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
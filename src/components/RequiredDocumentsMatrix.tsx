@@ -0,0 +1,157 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { GradeLevel } from "@/hooks/use-grade-levels";
+import { useDocumentTypes } from "@/hooks/use-document-types";
+import { toast } from "sonner";
+import { Plus } from "lucide-react";
+import { z } from "zod";
+
+const documentTypeSchema = z.object({
+  name: z.string().trim().min(1, "El nombre del documento es requerido"),
+  hasExpiry: z.boolean(),
+});
+
+interface RequiredDocumentsMatrixProps {
+  gradeLevels: GradeLevel[];
+}
+
+const requirementKey = (gradeLevelId: string, documentTypeId: string) => `${gradeLevelId}:${documentTypeId}`;
+
+export const RequiredDocumentsMatrix = ({ gradeLevels }: RequiredDocumentsMatrixProps) => {
+  const { documentTypes, reloadDocumentTypes } = useDocumentTypes();
+  const [required, setRequired] = useState<Set<string>>(new Set());
+  const [typeForm, setTypeForm] = useState({ name: "", hasExpiry: false });
+
+  useEffect(() => {
+    loadRequirements();
+  }, []);
+
+  const loadRequirements = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("grade_level_required_documents")
+        .select("grade_level_id, document_type_id");
+
+      if (error) throw error;
+
+      setRequired(new Set((data || []).map((r) => requirementKey(r.grade_level_id, r.document_type_id))));
+    } catch (error: any) {
+      toast.error("Error loading required documents: " + error.message);
+    }
+  };
+
+  const toggleRequirement = async (gradeLevelId: string, documentTypeId: string, checked: boolean) => {
+    try {
+      const { error } = checked
+        ? await supabase
+            .from("grade_level_required_documents")
+            .insert({ grade_level_id: gradeLevelId, document_type_id: documentTypeId })
+        : await supabase
+            .from("grade_level_required_documents")
+            .delete()
+            .eq("grade_level_id", gradeLevelId)
+            .eq("document_type_id", documentTypeId);
+
+      if (error) throw error;
+
+      loadRequirements();
+    } catch (error: any) {
+      toast.error(error.message || "Error saving required documents");
+    }
+  };
+
+  const handleAddType = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const validated = documentTypeSchema.parse(typeForm);
+
+      const { error } = await supabase
+        .from("document_types")
+        .insert({ name: validated.name, has_expiry: validated.hasExpiry });
+
+      if (error) throw error;
+
+      toast.success("Tipo de documento creado correctamente");
+      setTypeForm({ name: "", hasExpiry: false });
+      reloadDocumentTypes();
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error(error.message || "Error saving document type");
+      }
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Documentos requeridos por grado</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleAddType} className="flex items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="documentTypeName">Nuevo tipo de documento</Label>
+            <Input
+              id="documentTypeName"
+              value={typeForm.name}
+              onChange={(e) => setTypeForm({ ...typeForm, name: e.target.value })}
+              placeholder="Ej: Carnet de vacunación"
+            />
+          </div>
+          <div className="flex items-center gap-2 pb-2">
+            <Checkbox
+              id="documentTypeHasExpiry"
+              checked={typeForm.hasExpiry}
+              onCheckedChange={(checked) => setTypeForm({ ...typeForm, hasExpiry: checked === true })}
+            />
+            <Label htmlFor="documentTypeHasExpiry">Tiene vencimiento</Label>
+          </div>
+          <Button type="submit">
+            <Plus className="mr-2 h-4 w-4" />
+            Agregar
+          </Button>
+        </form>
+
+        {gradeLevels.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">Aún no hay grados en el catálogo</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Grado</TableHead>
+                {documentTypes.map((type) => (
+                  <TableHead key={type.id} className="text-center">
+                    {type.name}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {gradeLevels.map((level) => (
+                <TableRow key={level.id}>
+                  <TableCell className="font-medium">{level.name}</TableCell>
+                  {documentTypes.map((type) => (
+                    <TableCell key={type.id} className="text-center">
+                      <Checkbox
+                        checked={required.has(requirementKey(level.id, type.id))}
+                        onCheckedChange={(checked) => toggleRequirement(level.id, type.id, checked === true)}
+                      />
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,346 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useUserRole } from "@/hooks/use-user-role";
+import { ChargeBalance, FeeConcept, assignChargeSchema, getConceptAmount } from "@/lib/charges";
+import { getInstallmentStatusColor, getInstallmentStatusLabel } from "@/lib/installments";
+import { WaivedLateFee, waiveLateFeeSchema } from "@/lib/lateFees";
+import { canManageLateFees } from "@/lib/roles";
+import { toast } from "sonner";
+import { Plus, Trash2, Ban } from "lucide-react";
+import { z } from "zod";
+
+interface StudentChargesProps {
+  enrollment: {
+    id: string;
+    grade_level_id: string | null;
+  } | null;
+  charges: ChargeBalance[];
+  waivedLateFees: WaivedLateFee[];
+  onChanged: () => void;
+}
+
+interface ConceptOption extends FeeConcept {
+  fee_concept_grade_amounts: {
+    grade_level_id: string;
+    amount: number;
+  }[];
+}
+
+const emptyForm = { feeConceptId: "", dueDate: "", amount: "", description: "" };
+
+export const StudentCharges = ({ enrollment, charges, waivedLateFees, onChanged }: StudentChargesProps) => {
+  const { role } = useUserRole();
+  const canWaive = canManageLateFees(role);
+  const [concepts, setConcepts] = useState<ConceptOption[]>([]);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+  const [waiving, setWaiving] = useState<ChargeBalance | null>(null);
+  const [waiveReason, setWaiveReason] = useState("");
+
+  useEffect(() => {
+    if (isDialogOpen && concepts.length === 0) {
+      loadConcepts();
+    }
+  }, [isDialogOpen]);
+
+  const loadConcepts = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("fee_concepts")
+        .select("id, name, default_amount, is_active, fee_concept_grade_amounts(grade_level_id, amount)")
+        .eq("is_active", true)
+        .order("name");
+
+      if (error) throw error;
+      setConcepts(data || []);
+    } catch (error: any) {
+      toast.error("Error loading fee concepts: " + error.message);
+    }
+  };
+
+  const handleConceptChange = (conceptId: string) => {
+    const concept = concepts.find((c) => c.id === conceptId);
+    const amount = concept ? getConceptAmount(concept, enrollment?.grade_level_id) : 0;
+    setFormData({ ...formData, feeConceptId: conceptId, amount: amount > 0 ? String(amount) : "" });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!enrollment) return;
+
+    setSaving(true);
+    try {
+      const validated = assignChargeSchema.parse({
+        feeConceptId: formData.feeConceptId,
+        dueDate: formData.dueDate,
+        amount: parseFloat(formData.amount),
+        description: formData.description,
+      });
+
+      const { error } = await supabase.rpc("assign_fee_charge", {
+        p_fee_concept_id: validated.feeConceptId,
+        p_enrollment_ids: [enrollment.id],
+        p_due_date: validated.dueDate,
+        p_amount: validated.amount,
+        p_description: validated.description || undefined,
+      });
+      if (error) throw error;
+
+      toast.success("Cargo agregado");
+      setIsDialogOpen(false);
+      setFormData(emptyForm);
+      onChanged();
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error(error.message || "Error adding charge");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Only offered while nothing was paid toward the charge
+  const handleDelete = async (charge: ChargeBalance) => {
+    try {
+      const { error } = await supabase.from("student_charges").delete().eq("id", charge.id);
+      if (error) throw error;
+
+      toast.success("Cargo eliminado");
+      onChanged();
+    } catch (error: any) {
+      toast.error(error.message || "Error deleting charge");
+    }
+  };
+
+  const handleWaive = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!waiving) return;
+
+    setSaving(true);
+    try {
+      const validated = waiveLateFeeSchema.parse({ reason: waiveReason });
+      const { error } = await supabase.rpc("waive_late_fee", {
+        p_charge_id: waiving.id,
+        p_reason: validated.reason,
+      });
+      if (error) throw error;
+
+      toast.success("Recargo condonado");
+      setWaiving(null);
+      setWaiveReason("");
+      onChanged();
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error(error.message || "Error waiving late fee");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="font-semibold">Otros cargos</h3>
+        {enrollment && (
+          <Button variant="outline" onClick={() => setIsDialogOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Agregar cargo
+          </Button>
+        )}
+      </div>
+
+      {charges.length === 0 ? (
+        <p className="text-muted-foreground">No hay otros cargos para este año</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Concepto</TableHead>
+              <TableHead>Vence</TableHead>
+              <TableHead>Monto</TableHead>
+              <TableHead>Descuento</TableHead>
+              <TableHead>Pagado</TableHead>
+              <TableHead>Saldo</TableHead>
+              <TableHead>Estado</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {charges.map((charge) => (
+              <TableRow key={charge.id}>
+                <TableCell className="font-medium">
+                  {charge.concept_name}
+                  {charge.description && (
+                    <span className="block text-xs text-muted-foreground font-normal">{charge.description}</span>
+                  )}
+                </TableCell>
+                <TableCell>{new Date(`${charge.due_date}T00:00:00`).toLocaleDateString()}</TableCell>
+                <TableCell>${Number(charge.amount).toFixed(2)}</TableCell>
+                <TableCell>${Number(charge.discount_amount).toFixed(2)}</TableCell>
+                <TableCell>${Number(charge.paid_amount).toFixed(2)}</TableCell>
+                <TableCell>${Number(charge.balance).toFixed(2)}</TableCell>
+                <TableCell>
+                  <Badge className={getInstallmentStatusColor(charge.status)}>
+                    {getInstallmentStatusLabel(charge.status)}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-right">
+                  {/* Surcharges are waived instead, so the job does not bill them again */}
+                  {charge.late_fee_rule_id
+                    ? canWaive &&
+                      Number(charge.paid_amount) === 0 && (
+                        <Button variant="ghost" size="sm" title="Condonar" onClick={() => setWaiving(charge)}>
+                          <Ban className="h-4 w-4" />
+                        </Button>
+                      )
+                    : Number(charge.paid_amount) === 0 && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                          onClick={() => handleDelete(charge)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {waivedLateFees.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-muted-foreground">Recargos condonados</h4>
+          <Table>
+            <TableBody>
+              {waivedLateFees.map((charge) => (
+                <TableRow key={charge.id}>
+                  <TableCell className="font-medium">
+                    {charge.fee_concepts.name}
+                    {charge.description && (
+                      <span className="block text-xs text-muted-foreground font-normal">{charge.description}</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="line-through text-muted-foreground">${Number(charge.amount).toFixed(2)}</TableCell>
+                  <TableCell>{new Date(charge.waived_at).toLocaleDateString()}</TableCell>
+                  <TableCell>{charge.waive_reason}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Agregar cargo</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Concepto</Label>
+              <Select value={formData.feeConceptId} onValueChange={handleConceptChange}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Seleccionar concepto" />
+                </SelectTrigger>
+                <SelectContent>
+                  {concepts.map((concept) => (
+                    <SelectItem key={concept.id} value={concept.id}>
+                      {concept.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="chargeAmount">Monto</Label>
+                <Input
+                  id="chargeAmount"
+                  type="number"
+                  step="0.01"
+                  value={formData.amount}
+                  onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="chargeDueDate">Vence</Label>
+                <Input
+                  id="chargeDueDate"
+                  type="date"
+                  value={formData.dueDate}
+                  onChange={(e) => setFormData({ ...formData, dueDate: e.target.value })}
+                  required
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="chargeDescription">Detalle (opcional)</Label>
+              <Input
+                id="chargeDescription"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              />
+            </div>
+            <div className="flex justify-end gap-3">
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                Agregar cargo
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={waiving !== null} onOpenChange={(open) => !open && setWaiving(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Condonar recargo</DialogTitle>
+            <DialogDescription>
+              {waiving?.description} · ${Number(waiving?.amount || 0).toFixed(2)}. El recargo deja de sumarse al saldo
+              y no se vuelve a aplicar.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleWaive} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="waiveReason">Motivo</Label>
+              <Textarea
+                id="waiveReason"
+                value={waiveReason}
+                onChange={(e) => setWaiveReason(e.target.value)}
+                rows={3}
+              />
+            </div>
+            <div className="flex justify-end gap-3">
+              <Button type="button" variant="outline" onClick={() => setWaiving(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                Condonar
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,274 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useUserRole } from "@/hooks/use-user-role";
+import {
+  DiscountLine,
+  DiscountRule,
+  StudentDiscount,
+  formatDiscountValue,
+  getDiscountKindLabel,
+  getDiscountStatusColor,
+  getDiscountStatusLabel,
+  studentDiscountSchema,
+} from "@/lib/discounts";
+import { canApproveDiscounts } from "@/lib/roles";
+import { toast } from "sonner";
+import { Plus, Trash2, Check, X } from "lucide-react";
+import { z } from "zod";
+
+interface StudentDiscountsProps {
+  enrollment: { id: string } | null;
+  discounts: StudentDiscount[];
+  lines: DiscountLine[];
+  onChanged: () => void;
+}
+
+export const StudentDiscounts = ({ enrollment, discounts, lines, onChanged }: StudentDiscountsProps) => {
+  const { role } = useUserRole();
+  const canApprove = canApproveDiscounts(role);
+  const [rules, setRules] = useState<DiscountRule[]>([]);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState({ discountRuleId: "", notes: "" });
+
+  useEffect(() => {
+    if (isDialogOpen) {
+      loadRules();
+    }
+  }, [isDialogOpen]);
+
+  const loadRules = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("discount_rules")
+        .select("*")
+        .eq("is_active", true)
+        .neq("kind", "sibling")
+        .order("name");
+
+      if (error) throw error;
+      setRules(data || []);
+    } catch (error: any) {
+      toast.error("Error loading discount rules: " + error.message);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!enrollment) return;
+
+    setSaving(true);
+    try {
+      const validated = studentDiscountSchema.parse(formData);
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const { error } = await supabase.from("student_discounts").insert({
+        enrollment_id: enrollment.id,
+        discount_rule_id: validated.discountRuleId,
+        notes: validated.notes,
+        requested_by: user?.id,
+      });
+      if (error) throw error;
+
+      toast.success("Descuento solicitado; queda pendiente de aprobación");
+      setIsDialogOpen(false);
+      setFormData({ discountRuleId: "", notes: "" });
+      onChanged();
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else if (error.code === "23505") {
+        toast.error("El estudiante ya tiene este descuento");
+      } else {
+        toast.error(error.message || "Error requesting discount");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReview = async (discount: StudentDiscount, approved: boolean) => {
+    try {
+      const { error } = await supabase.rpc("review_student_discount", {
+        p_student_discount_id: discount.id,
+        p_approved: approved,
+      });
+      if (error) throw error;
+
+      toast.success(approved ? "Descuento aprobado" : "Descuento rechazado");
+      onChanged();
+    } catch (error: any) {
+      toast.error(error.message || "Error reviewing discount");
+    }
+  };
+
+  const handleDelete = async (discount: StudentDiscount) => {
+    try {
+      const { error } = await supabase.from("student_discounts").delete().eq("id", discount.id);
+      if (error) throw error;
+
+      toast.success("Descuento eliminado");
+      onChanged();
+    } catch (error: any) {
+      toast.error(error.message || "Error deleting discount");
+    }
+  };
+
+  const appliedAmount = (matches: (line: DiscountLine) => boolean) =>
+    lines.filter(matches).reduce((sum, line) => sum + Number(line.amount), 0);
+
+  // Sibling discounts come straight from the family links, one row per rule
+  const siblingRules = Array.from(
+    new Map(
+      lines.filter((line) => line.student_discount_id === null).map((line) => [line.discount_rule_id, line])
+    ).values()
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="font-semibold">Descuentos y becas</h3>
+        {enrollment && (
+          <Button variant="outline" onClick={() => setIsDialogOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Otorgar descuento
+          </Button>
+        )}
+      </div>
+
+      {discounts.length === 0 && siblingRules.length === 0 ? (
+        <p className="text-muted-foreground">Sin descuentos para este año</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Descuento</TableHead>
+              <TableHead>Valor</TableHead>
+              <TableHead>Motivo</TableHead>
+              <TableHead>Aplicado</TableHead>
+              <TableHead>Estado</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {discounts.map((discount) => (
+              <TableRow key={discount.id}>
+                <TableCell className="font-medium">
+                  {discount.discount_rules.name}
+                  <span className="block text-xs text-muted-foreground font-normal">
+                    {getDiscountKindLabel(discount.discount_rules.kind)}
+                  </span>
+                </TableCell>
+                <TableCell>{formatDiscountValue(discount.discount_rules)}</TableCell>
+                <TableCell>{discount.notes || "-"}</TableCell>
+                <TableCell>${appliedAmount((line) => line.student_discount_id === discount.id).toFixed(2)}</TableCell>
+                <TableCell>
+                  <Badge className={getDiscountStatusColor(discount.status)}>
+                    {getDiscountStatusLabel(discount.status)}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  {canApprove && discount.status === "pending" && (
+                    <>
+                      <Button variant="ghost" size="sm" title="Aprobar" onClick={() => handleReview(discount, true)}>
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" title="Rechazar" onClick={() => handleReview(discount, false)}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                  {(canApprove || discount.status === "pending") && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                      onClick={() => handleDelete(discount)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+            {siblingRules.map((line) => (
+              <TableRow key={line.discount_rule_id}>
+                <TableCell className="font-medium">
+                  {line.rule_name}
+                  <span className="block text-xs text-muted-foreground font-normal">
+                    {getDiscountKindLabel(line.kind)}
+                  </span>
+                </TableCell>
+                <TableCell>-</TableCell>
+                <TableCell>Automático por hermanos inscritos</TableCell>
+                <TableCell>
+                  $
+                  {appliedAmount(
+                    (other) => other.student_discount_id === null && other.discount_rule_id === line.discount_rule_id
+                  ).toFixed(2)}
+                </TableCell>
+                <TableCell>
+                  <Badge className={getDiscountStatusColor("approved")}>{getDiscountStatusLabel("approved")}</Badge>
+                </TableCell>
+                <TableCell></TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Otorgar descuento</DialogTitle>
+            <DialogDescription>El descuento se aplica cuando un administrador lo aprueba.</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Beca o descuento</Label>
+              <Select
+                value={formData.discountRuleId}
+                onValueChange={(value) => setFormData({ ...formData, discountRuleId: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Seleccionar" />
+                </SelectTrigger>
+                <SelectContent>
+                  {rules.map((rule) => (
+                    <SelectItem key={rule.id} value={rule.id}>
+                      {rule.name} · {formatDiscountValue(rule)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="discountNotes">Motivo</Label>
+              <Textarea
+                id="discountNotes"
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                rows={3}
+              />
+            </div>
+            <div className="flex justify-end gap-3">
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                Solicitar
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
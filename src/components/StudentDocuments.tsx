@@ -0,0 +1,319 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useDocumentTypes } from "@/hooks/use-document-types";
+import { buildStudentFilePath, fileStorage } from "@/lib/storage";
+import { toast } from "sonner";
+import { ExternalLink, FileText, Trash2, Upload } from "lucide-react";
+import { z } from "zod";
+
+const uploadSchema = z.object({
+  documentTypeId: z.string().min(1, "Seleccione el tipo de documento"),
+  file: z.instanceof(File, { message: "Seleccione un archivo" }),
+  expiresOn: z.string().optional(),
+});
+
+interface StudentDocument {
+  id: string;
+  document_type_id: string;
+  file_path: string;
+  file_name: string;
+  expires_on: string | null;
+  created_at: string;
+}
+
+interface StudentDocumentsProps {
+  studentId: string;
+  // Grade level of the selected year's enrollment, whose checklist applies
+  gradeLevelId?: string | null;
+}
+
+const isExpired = (document: StudentDocument) =>
+  !!document.expires_on && document.expires_on < new Date().toISOString().split("T")[0];
+
+export const StudentDocuments = ({ studentId, gradeLevelId }: StudentDocumentsProps) => {
+  const { documentTypes } = useDocumentTypes();
+  const [documents, setDocuments] = useState<StudentDocument[]>([]);
+  const [requiredTypeIds, setRequiredTypeIds] = useState<string[]>([]);
+  const [photoUrl, setPhotoUrl] = useState<string | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [formData, setFormData] = useState<{ documentTypeId: string; expiresOn: string; file: File | null }>({
+    documentTypeId: "",
+    expiresOn: "",
+    file: null,
+  });
+
+  useEffect(() => {
+    loadDocuments();
+  }, [studentId, gradeLevelId]);
+
+  useEffect(() => {
+    loadPhoto();
+  }, [documents, documentTypes]);
+
+  const loadDocuments = async () => {
+    try {
+      const [documentsRes, requiredRes] = await Promise.all([
+        supabase
+          .from("student_documents")
+          .select("*")
+          .eq("student_id", studentId)
+          .order("created_at", { ascending: false }),
+        gradeLevelId
+          ? supabase
+              .from("grade_level_required_documents")
+              .select("document_type_id")
+              .eq("grade_level_id", gradeLevelId)
+          : Promise.resolve({ data: [], error: null }),
+      ]);
+
+      if (documentsRes.error) throw documentsRes.error;
+      if (requiredRes.error) throw requiredRes.error;
+
+      setDocuments(documentsRes.data || []);
+      setRequiredTypeIds((requiredRes.data || []).map((r) => r.document_type_id));
+    } catch (error: any) {
+      toast.error("Error loading documents: " + error.message);
+    }
+  };
+
+  const loadPhoto = async () => {
+    const photoType = documentTypes.find((type) => type.code === "photo");
+    const photo = documents.find((document) => document.document_type_id === photoType?.id);
+    if (!photo) {
+      setPhotoUrl(null);
+      return;
+    }
+    try {
+      setPhotoUrl(await fileStorage.getUrl(photo.file_path));
+    } catch {
+      setPhotoUrl(null);
+    }
+  };
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    let uploadedPath: string | null = null;
+    setUploading(true);
+    try {
+      const validated = uploadSchema.parse(formData);
+      const documentType = documentTypes.find((type) => type.id === validated.documentTypeId);
+      if (documentType?.has_expiry && !validated.expiresOn) {
+        throw new Error("Indique la fecha de vencimiento del documento");
+      }
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      uploadedPath = buildStudentFilePath(studentId, validated.file.name);
+      await fileStorage.upload(uploadedPath, validated.file);
+
+      const { error } = await supabase.from("student_documents").insert({
+        student_id: studentId,
+        document_type_id: validated.documentTypeId,
+        file_path: uploadedPath,
+        file_name: validated.file.name,
+        mime_type: validated.file.type || null,
+        size_bytes: validated.file.size,
+        expires_on: documentType?.has_expiry ? validated.expiresOn : null,
+        uploaded_by: user.id,
+      });
+
+      if (error) throw error;
+
+      toast.success("Documento subido correctamente");
+      setFormData({ documentTypeId: "", expiresOn: "", file: null });
+      loadDocuments();
+    } catch (error: any) {
+      // Do not leave an orphan file behind when the row could not be saved
+      if (uploadedPath) {
+        fileStorage.remove(uploadedPath).catch(() => undefined);
+      }
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error(error.message || "Error uploading document");
+      }
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const openDocument = async (document: StudentDocument) => {
+    try {
+      window.open(await fileStorage.getUrl(document.file_path), "_blank");
+    } catch (error: any) {
+      toast.error("Error opening document: " + error.message);
+    }
+  };
+
+  const deleteDocument = async (document: StudentDocument) => {
+    try {
+      const { error } = await supabase.from("student_documents").delete().eq("id", document.id);
+      if (error) throw error;
+      await fileStorage.remove(document.file_path);
+
+      toast.success("Documento eliminado");
+      loadDocuments();
+    } catch (error: any) {
+      toast.error(error.message || "Error deleting document");
+    }
+  };
+
+  const typeName = (documentTypeId: string) =>
+    documentTypes.find((type) => type.id === documentTypeId)?.name || "Documento";
+
+  const checklist = documentTypes
+    .filter((type) => requiredTypeIds.includes(type.id))
+    .map((type) => {
+      const ofType = documents.filter((document) => document.document_type_id === type.id);
+      const status = ofType.some((document) => !isExpired(document))
+        ? "delivered"
+        : ofType.length > 0
+        ? "expired"
+        : "missing";
+      return { type, status };
+    });
+
+  const selectedType = documentTypes.find((type) => type.id === formData.documentTypeId);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="h-5 w-5" />
+          Documentos
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex gap-6">
+          {photoUrl && (
+            <img src={photoUrl} alt="Foto del estudiante" className="h-32 w-24 rounded-md object-cover border" />
+          )}
+          <div className="flex-1 space-y-2">
+            <p className="text-sm font-medium">Documentos requeridos</p>
+            {checklist.length === 0 ? (
+              <p className="text-sm text-muted-foreground">El grado no tiene documentos requeridos</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {checklist.map(({ type, status }) => (
+                  <Badge
+                    key={type.id}
+                    className={
+                      status === "delivered"
+                        ? "bg-success text-success-foreground"
+                        : status === "expired"
+                        ? "bg-warning text-warning-foreground"
+                        : "bg-destructive text-destructive-foreground"
+                    }
+                  >
+                    {type.name}: {status === "delivered" ? "Entregado" : status === "expired" ? "Vencido" : "Falta"}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <form onSubmit={handleUpload} className="grid grid-cols-4 gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="documentType">Tipo</Label>
+            <Select
+              value={formData.documentTypeId}
+              onValueChange={(value) => setFormData({ ...formData, documentTypeId: value })}
+            >
+              <SelectTrigger id="documentType">
+                <SelectValue placeholder="Seleccionar tipo" />
+              </SelectTrigger>
+              <SelectContent>
+                {documentTypes.map((type) => (
+                  <SelectItem key={type.id} value={type.id}>
+                    {type.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="documentFile">Archivo</Label>
+            <Input
+              id="documentFile"
+              type="file"
+              accept={selectedType?.code === "photo" ? "image/*" : "image/*,application/pdf"}
+              onChange={(e) => setFormData({ ...formData, file: e.target.files?.[0] || null })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="documentExpiresOn">Vence</Label>
+            <Input
+              id="documentExpiresOn"
+              type="date"
+              value={formData.expiresOn}
+              onChange={(e) => setFormData({ ...formData, expiresOn: e.target.value })}
+              disabled={!selectedType?.has_expiry}
+            />
+          </div>
+          <Button type="submit" disabled={uploading}>
+            <Upload className="mr-2 h-4 w-4" />
+            {uploading ? "Subiendo..." : "Subir"}
+          </Button>
+        </form>
+
+        {documents.length === 0 ? (
+          <p className="text-center py-4 text-muted-foreground">Aún no se han subido documentos</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tipo</TableHead>
+                <TableHead>Archivo</TableHead>
+                <TableHead>Subido</TableHead>
+                <TableHead>Vence</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {documents.map((document) => (
+                <TableRow key={document.id}>
+                  <TableCell className="font-medium">{typeName(document.document_type_id)}</TableCell>
+                  <TableCell>{document.file_name}</TableCell>
+                  <TableCell>{new Date(document.created_at).toLocaleDateString()}</TableCell>
+                  <TableCell>
+                    {document.expires_on ? (
+                      <span className={isExpired(document) ? "text-destructive font-medium" : ""}>
+                        {new Date(document.expires_on + "T00:00:00").toLocaleDateString()}
+                      </span>
+                    ) : (
+                      "-"
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => openDocument(document)}>
+                      <ExternalLink className="h-4 w-4 mr-2" />
+                      Ver
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                      onClick={() => deleteDocument(document)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
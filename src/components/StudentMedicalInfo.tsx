@@ -0,0 +1,403 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Separator } from "@/components/ui/separator";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { HeartPulse, Pencil, Plus, Trash2 } from "lucide-react";
+import { z } from "zod";
+
+const BLOOD_TYPES = ["A+", "A-", "B+", "B-", "AB+", "AB-", "O+", "O-"] as const;
+
+const optionalText = z
+  .string()
+  .trim()
+  .max(1000, "El texto es demasiado largo")
+  .transform((value) => value || null);
+
+const medicalInfoSchema = z.object({
+  bloodType: z.enum(BLOOD_TYPES).nullable(),
+  allergies: optionalText,
+  chronicConditions: optionalText,
+  medications: optionalText,
+  insuranceProvider: optionalText,
+  insurancePolicyNumber: optionalText,
+  notes: optionalText,
+});
+
+const emergencyContactSchema = z.object({
+  fullName: z.string().trim().min(1, "El nombre del contacto es requerido"),
+  relationship: optionalText,
+  phone: z.string().trim().min(6, "El teléfono del contacto es requerido"),
+});
+
+interface MedicalInfo {
+  blood_type: string | null;
+  allergies: string | null;
+  chronic_conditions: string | null;
+  medications: string | null;
+  insurance_provider: string | null;
+  insurance_policy_number: string | null;
+  notes: string | null;
+  updated_at: string;
+}
+
+interface EmergencyContact {
+  id: string;
+  full_name: string;
+  relationship: string | null;
+  phone: string;
+}
+
+const emptyMedicalForm = {
+  bloodType: null as string | null,
+  allergies: "",
+  chronicConditions: "",
+  medications: "",
+  insuranceProvider: "",
+  insurancePolicyNumber: "",
+  notes: "",
+};
+
+const NO_BLOOD_TYPE = "unknown";
+
+export const StudentMedicalInfo = ({ studentId }: { studentId: string }) => {
+  const [medicalInfo, setMedicalInfo] = useState<MedicalInfo | null>(null);
+  const [contacts, setContacts] = useState<EmergencyContact[]>([]);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState(emptyMedicalForm);
+  const [contactForm, setContactForm] = useState({ fullName: "", relationship: "", phone: "" });
+
+  useEffect(() => {
+    loadMedicalInfo();
+  }, [studentId]);
+
+  const loadMedicalInfo = async () => {
+    try {
+      const [medicalRes, contactsRes] = await Promise.all([
+        supabase.from("student_medical_info").select("*").eq("student_id", studentId).maybeSingle(),
+        supabase
+          .from("student_emergency_contacts")
+          .select("id, full_name, relationship, phone")
+          .eq("student_id", studentId)
+          .order("created_at", { ascending: true }),
+      ]);
+
+      if (medicalRes.error) throw medicalRes.error;
+      if (contactsRes.error) throw contactsRes.error;
+
+      setMedicalInfo(medicalRes.data);
+      setContacts(contactsRes.data || []);
+    } catch (error: any) {
+      toast.error("Error loading medical information: " + error.message);
+    }
+  };
+
+  const openDialog = () => {
+    setFormData({
+      bloodType: medicalInfo?.blood_type || null,
+      allergies: medicalInfo?.allergies || "",
+      chronicConditions: medicalInfo?.chronic_conditions || "",
+      medications: medicalInfo?.medications || "",
+      insuranceProvider: medicalInfo?.insurance_provider || "",
+      insurancePolicyNumber: medicalInfo?.insurance_policy_number || "",
+      notes: medicalInfo?.notes || "",
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    try {
+      const validated = medicalInfoSchema.parse(formData);
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const { error } = await supabase.from("student_medical_info").upsert({
+        student_id: studentId,
+        blood_type: validated.bloodType,
+        allergies: validated.allergies,
+        chronic_conditions: validated.chronicConditions,
+        medications: validated.medications,
+        insurance_provider: validated.insuranceProvider,
+        insurance_policy_number: validated.insurancePolicyNumber,
+        notes: validated.notes,
+        updated_at: new Date().toISOString(),
+        updated_by: user.id,
+      });
+
+      if (error) throw error;
+
+      toast.success("Información médica actualizada");
+      setIsDialogOpen(false);
+      loadMedicalInfo();
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error(error.message || "Error saving medical information");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddContact = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const validated = emergencyContactSchema.parse(contactForm);
+
+      const { error } = await supabase.from("student_emergency_contacts").insert({
+        student_id: studentId,
+        full_name: validated.fullName,
+        relationship: validated.relationship,
+        phone: validated.phone,
+      });
+
+      if (error) throw error;
+
+      toast.success("Contacto de emergencia agregado");
+      setContactForm({ fullName: "", relationship: "", phone: "" });
+      loadMedicalInfo();
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error(error.message || "Error saving emergency contact");
+      }
+    }
+  };
+
+  const deleteContact = async (contactId: string) => {
+    try {
+      const { error } = await supabase.from("student_emergency_contacts").delete().eq("id", contactId);
+      if (error) throw error;
+
+      toast.success("Contacto de emergencia eliminado");
+      loadMedicalInfo();
+    } catch (error: any) {
+      toast.error(error.message || "Error deleting emergency contact");
+    }
+  };
+
+  const fields = [
+    { label: "Grupo sanguíneo", value: medicalInfo?.blood_type },
+    { label: "Alergias", value: medicalInfo?.allergies },
+    { label: "Condiciones crónicas", value: medicalInfo?.chronic_conditions },
+    { label: "Medicación", value: medicalInfo?.medications },
+    {
+      label: "Seguro médico",
+      value: [medicalInfo?.insurance_provider, medicalInfo?.insurance_policy_number].filter(Boolean).join(" · "),
+    },
+    { label: "Observaciones", value: medicalInfo?.notes },
+  ];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <HeartPulse className="h-5 w-5" />
+          Información médica y de emergencia
+        </CardTitle>
+        <Button variant="outline" size="sm" onClick={openDialog}>
+          <Pencil className="mr-2 h-4 w-4" />
+          Editar
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-3 md:grid-cols-2">
+          {fields.map((field) => (
+            <div key={field.label}>
+              <p className="text-sm text-muted-foreground">{field.label}</p>
+              <p className="font-medium whitespace-pre-line">{field.value || "-"}</p>
+            </div>
+          ))}
+        </div>
+        {medicalInfo && (
+          <p className="text-xs text-muted-foreground">
+            Actualizado el {new Date(medicalInfo.updated_at).toLocaleDateString()}
+          </p>
+        )}
+
+        <Separator />
+
+        <div className="space-y-4">
+          <p className="font-semibold">Contactos de emergencia</p>
+          {contacts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Sin contactos adicionales; se usarán los apoderados de la familia
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nombre</TableHead>
+                  <TableHead>Relación</TableHead>
+                  <TableHead>Teléfono</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {contacts.map((contact) => (
+                  <TableRow key={contact.id}>
+                    <TableCell className="font-medium">{contact.full_name}</TableCell>
+                    <TableCell>{contact.relationship || "-"}</TableCell>
+                    <TableCell>{contact.phone}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                        onClick={() => deleteContact(contact.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <form onSubmit={handleAddContact} className="grid grid-cols-4 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="contactFullName">Nombre</Label>
+              <Input
+                id="contactFullName"
+                value={contactForm.fullName}
+                onChange={(e) => setContactForm({ ...contactForm, fullName: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contactRelationship">Relación</Label>
+              <Input
+                id="contactRelationship"
+                value={contactForm.relationship}
+                onChange={(e) => setContactForm({ ...contactForm, relationship: e.target.value })}
+                placeholder="Ej: Tía, vecino"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contactPhone">Teléfono</Label>
+              <Input
+                id="contactPhone"
+                value={contactForm.phone}
+                onChange={(e) => setContactForm({ ...contactForm, phone: e.target.value })}
+              />
+            </div>
+            <Button type="submit" variant="outline">
+              <Plus className="mr-2 h-4 w-4" />
+              Agregar contacto
+            </Button>
+          </form>
+        </div>
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Información médica</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="bloodType">Grupo sanguíneo</Label>
+                <Select
+                  value={formData.bloodType || NO_BLOOD_TYPE}
+                  onValueChange={(value) =>
+                    setFormData({ ...formData, bloodType: value === NO_BLOOD_TYPE ? null : value })
+                  }
+                >
+                  <SelectTrigger id="bloodType">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_BLOOD_TYPE}>Desconocido</SelectItem>
+                    {BLOOD_TYPES.map((bloodType) => (
+                      <SelectItem key={bloodType} value={bloodType}>
+                        {bloodType}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="insuranceProvider">Seguro médico</Label>
+                <Input
+                  id="insuranceProvider"
+                  value={formData.insuranceProvider}
+                  onChange={(e) => setFormData({ ...formData, insuranceProvider: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="insurancePolicyNumber">N° de póliza</Label>
+                <Input
+                  id="insurancePolicyNumber"
+                  value={formData.insurancePolicyNumber}
+                  onChange={(e) => setFormData({ ...formData, insurancePolicyNumber: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="allergies">Alergias</Label>
+              <Textarea
+                id="allergies"
+                value={formData.allergies}
+                onChange={(e) => setFormData({ ...formData, allergies: e.target.value })}
+                rows={2}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="chronicConditions">Condiciones crónicas</Label>
+              <Textarea
+                id="chronicConditions"
+                value={formData.chronicConditions}
+                onChange={(e) => setFormData({ ...formData, chronicConditions: e.target.value })}
+                rows={2}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="medications">Medicación</Label>
+              <Textarea
+                id="medications"
+                value={formData.medications}
+                onChange={(e) => setFormData({ ...formData, medications: e.target.value })}
+                rows={2}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="medicalNotes">Observaciones</Label>
+              <Textarea
+                id="medicalNotes"
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                rows={2}
+              />
+            </div>
+
+            <div className="flex justify-end gap-3">
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? "Guardando..." : "Guardar"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
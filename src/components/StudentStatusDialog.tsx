@@ -0,0 +1,148 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { STUDENT_STATUSES, StudentStatus, studentStatusLabels } from "@/lib/studentStatus";
+import { toast } from "sonner";
+import { z } from "zod";
+
+const statusSchema = z.object({
+  status: z.enum(STUDENT_STATUSES),
+  effectiveDate: z.string().min(1, "La fecha efectiva es requerida"),
+  reason: z.string().trim().min(3, "El motivo debe tener al menos 3 caracteres"),
+});
+
+interface StudentStatusDialogProps {
+  student: {
+    id: string;
+    first_name: string;
+    last_name: string;
+    status: string;
+  } | null;
+  // Opens the dialog preset to "active" for reactivations
+  reactivate?: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+export const StudentStatusDialog = ({ student, reactivate, onOpenChange, onSaved }: StudentStatusDialogProps) => {
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    status: "active" as StudentStatus,
+    effectiveDate: new Date().toISOString().split("T")[0],
+    reason: "",
+  });
+
+  useEffect(() => {
+    if (student) {
+      setFormData({
+        status: reactivate ? "active" : (student.status as StudentStatus),
+        effectiveDate: new Date().toISOString().split("T")[0],
+        reason: "",
+      });
+    }
+  }, [student, reactivate]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!student) return;
+
+    setSaving(true);
+    try {
+      const validated = statusSchema.parse(formData);
+
+      // Only the status columns change; payments and grades are left untouched
+      const { error } = await supabase
+        .from("students")
+        .update({
+          status: validated.status,
+          status_effective_date: validated.effectiveDate,
+          status_reason: validated.reason,
+        })
+        .eq("id", student.id);
+
+      if (error) throw error;
+
+      toast.success(reactivate ? "Estudiante reactivado correctamente" : "Estado actualizado correctamente");
+      onOpenChange(false);
+      onSaved();
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error(error.message || "Error updating status");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!student} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{reactivate ? "Reactivar estudiante" : "Cambiar estado"}</DialogTitle>
+          <DialogDescription>
+            {student?.first_name} {student?.last_name}. El historial de pagos y calificaciones se conserva.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="status">Estado</Label>
+            <Select
+              value={formData.status}
+              onValueChange={(value) => setFormData({ ...formData, status: value as StudentStatus })}
+              disabled={reactivate}
+            >
+              <SelectTrigger id="status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STUDENT_STATUSES.map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {studentStatusLabels[status]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="effectiveDate">Fecha efectiva</Label>
+            <Input
+              id="effectiveDate"
+              type="date"
+              value={formData.effectiveDate}
+              onChange={(e) => setFormData({ ...formData, effectiveDate: e.target.value })}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="reason">Motivo</Label>
+            <Textarea
+              id="reason"
+              value={formData.reason}
+              onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+              rows={3}
+              required
+            />
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {reactivate ? "Reactivar" : "Guardar estado"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,79 @@
+import { createContext, ReactNode, useCallback, useContext, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+const STORAGE_KEY = "selected-academic-year";
+
+export interface AcademicYear {
+  id: string;
+  name: string;
+  start_date: string;
+  end_date: string;
+  is_current: boolean;
+  passing_grade: number;
+}
+
+interface AcademicYearContextValue {
+  years: AcademicYear[];
+  selectedYear: AcademicYear | null;
+  loading: boolean;
+  selectYear: (yearId: string) => void;
+  reloadYears: () => Promise<void>;
+}
+
+const AcademicYearContext = createContext<AcademicYearContextValue | undefined>(undefined);
+
+export const AcademicYearProvider = ({ children }: { children: ReactNode }) => {
+  const [years, setYears] = useState<AcademicYear[]>([]);
+  const [selectedYearId, setSelectedYearId] = useState<string | null>(() => localStorage.getItem(STORAGE_KEY));
+  const [loading, setLoading] = useState(true);
+
+  const reloadYears = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("academic_years")
+      .select("*")
+      .order("start_date", { ascending: false });
+
+    if (error) {
+      console.error("Error loading academic years:", error);
+    }
+    setYears(data || []);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    reloadYears();
+
+    // Years are protected by RLS, so reload them whenever the session changes
+    const { data: { subscription } } = supabase.auth.onAuthStateChange(() => {
+      reloadYears();
+    });
+
+    return () => subscription.unsubscribe();
+  }, [reloadYears]);
+
+  const selectYear = (yearId: string) => {
+    localStorage.setItem(STORAGE_KEY, yearId);
+    setSelectedYearId(yearId);
+  };
+
+  // Fall back to the current year when nothing (or a deleted year) was picked
+  const selectedYear =
+    years.find((year) => year.id === selectedYearId) ||
+    years.find((year) => year.is_current) ||
+    years[0] ||
+    null;
+
+  return (
+    <AcademicYearContext.Provider value={{ years, selectedYear, loading, selectYear, reloadYears }}>
+      {children}
+    </AcademicYearContext.Provider>
+  );
+};
+
+export function useAcademicYear() {
+  const context = useContext(AcademicYearContext);
+  if (!context) {
+    throw new Error("useAcademicYear must be used within an AcademicYearProvider");
+  }
+  return context;
+}
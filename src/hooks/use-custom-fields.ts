@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { CustomField } from "@/lib/customFields";
+import { toast } from "sonner";
+
+export function useCustomFields() {
+  const [customFields, setCustomFields] = useState<CustomField[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const reloadCustomFields = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("custom_fields")
+      .select("id, entity, key, label, field_type, options, is_required, sort_order")
+      .order("sort_order", { ascending: true });
+
+    if (error) {
+      toast.error("Error loading custom fields: " + error.message);
+    }
+    setCustomFields(data || []);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    reloadCustomFields();
+  }, [reloadCustomFields]);
+
+  const studentFields = customFields.filter((field) => field.entity === "student");
+  const guardianFields = customFields.filter((field) => field.entity === "guardian");
+
+  return { customFields, studentFields, guardianFields, loading, reloadCustomFields };
+}
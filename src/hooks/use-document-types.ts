@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+
+export interface DocumentType {
+  id: string;
+  code: string | null;
+  name: string;
+  has_expiry: boolean;
+}
+
+export function useDocumentTypes() {
+  const [documentTypes, setDocumentTypes] = useState<DocumentType[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const reloadDocumentTypes = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("document_types")
+      .select("id, code, name, has_expiry")
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      toast.error("Error loading document types: " + error.message);
+    }
+    setDocumentTypes(data || []);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    reloadDocumentTypes();
+  }, [reloadDocumentTypes]);
+
+  return { documentTypes, loading, reloadDocumentTypes };
+}
@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+
+export interface Section {
+  id: string;
+  grade_level_id: string;
+  name: string;
+  capacity: number | null;
+}
+
+export interface GradeLevel {
+  id: string;
+  name: string;
+  sort_order: number;
+  sections: Section[];
+}
+
+export function useGradeLevels() {
+  const [gradeLevels, setGradeLevels] = useState<GradeLevel[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const reloadGradeLevels = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("grade_levels")
+      .select("id, name, sort_order, sections(id, grade_level_id, name, capacity)")
+      .order("sort_order", { ascending: true });
+
+    if (error) {
+      toast.error("Error loading grade levels: " + error.message);
+    }
+    setGradeLevels(
+      (data || []).map((gradeLevel) => ({
+        ...gradeLevel,
+        sections: [...gradeLevel.sections].sort((a, b) => a.name.localeCompare(b.name)),
+      }))
+    );
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    reloadGradeLevels();
+  }, [reloadGradeLevels]);
+
+  return { gradeLevels, loading, reloadGradeLevels };
+}
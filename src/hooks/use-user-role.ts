@@ -0,0 +1,29 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+export function useUserRole() {
+  const [role, setRole] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadRole = async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        setRole(null);
+        setLoading(false);
+        return;
+      }
+
+      const { data, error } = await supabase.from("profiles").select("role").eq("id", user.id).maybeSingle();
+      if (error) {
+        console.error("Error loading user role:", error);
+      }
+      setRole(data?.role || null);
+      setLoading(false);
+    };
+
+    loadRole();
+  }, []);
+
+  return { role, loading };
+}
@@ -14,82 +14,1148 @@ export type Database = {
   }
   public: {
     Tables: {
+      academic_years: {
+        Row: {
+          created_at: string
+          end_date: string
+          id: string
+          is_current: boolean
+          name: string
+          passing_grade: number
+          start_date: string
+        }
+        Insert: {
+          created_at?: string
+          end_date: string
+          id?: string
+          is_current?: boolean
+          name: string
+          passing_grade?: number
+          start_date: string
+        }
+        Update: {
+          created_at?: string
+          end_date?: string
+          id?: string
+          is_current?: boolean
+          name?: string
+          passing_grade?: number
+          start_date?: string
+        }
+        Relationships: []
+      }
+      cash_sessions: {
+        Row: {
+          cashier_name: string | null
+          close_notes: string | null
+          closed_at: string | null
+          closed_by: string | null
+          counted_cash: number | null
+          expected_cash: number | null
+          id: string
+          opened_at: string
+          opened_by: string
+          opening_cash: number
+          reopen_reason: string | null
+          reopened_at: string | null
+          reopened_by: string | null
+        }
+        Insert: {
+          cashier_name?: string | null
+          close_notes?: string | null
+          closed_at?: string | null
+          closed_by?: string | null
+          counted_cash?: number | null
+          expected_cash?: number | null
+          id?: string
+          opened_at?: string
+          opened_by: string
+          opening_cash?: number
+          reopen_reason?: string | null
+          reopened_at?: string | null
+          reopened_by?: string | null
+        }
+        Update: {
+          cashier_name?: string | null
+          close_notes?: string | null
+          closed_at?: string | null
+          closed_by?: string | null
+          counted_cash?: number | null
+          expected_cash?: number | null
+          id?: string
+          opened_at?: string
+          opened_by?: string
+          opening_cash?: number
+          reopen_reason?: string | null
+          reopened_at?: string | null
+          reopened_by?: string | null
+        }
+        Relationships: []
+      }
+      custom_fields: {
+        Row: {
+          created_at: string
+          entity: string
+          field_type: string
+          id: string
+          is_required: boolean
+          key: string
+          label: string
+          options: string[]
+          sort_order: number
+        }
+        Insert: {
+          created_at?: string
+          entity: string
+          field_type: string
+          id?: string
+          is_required?: boolean
+          key: string
+          label: string
+          options?: string[]
+          sort_order?: number
+        }
+        Update: {
+          created_at?: string
+          entity?: string
+          field_type?: string
+          id?: string
+          is_required?: boolean
+          key?: string
+          label?: string
+          options?: string[]
+          sort_order?: number
+        }
+        Relationships: []
+      }
+      discount_rules: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          fee_concept_id: string | null
+          id: string
+          is_active: boolean
+          kind: string
+          name: string
+          sibling_position: number | null
+          valid_from: string | null
+          valid_to: string | null
+          value: number
+          value_type: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          fee_concept_id?: string | null
+          id?: string
+          is_active?: boolean
+          kind: string
+          name: string
+          sibling_position?: number | null
+          valid_from?: string | null
+          valid_to?: string | null
+          value: number
+          value_type: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          fee_concept_id?: string | null
+          id?: string
+          is_active?: boolean
+          kind?: string
+          name?: string
+          sibling_position?: number | null
+          valid_from?: string | null
+          valid_to?: string | null
+          value?: number
+          value_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "discount_rules_fee_concept_id_fkey"
+            columns: ["fee_concept_id"]
+            isOneToOne: false
+            referencedRelation: "fee_concepts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_types: {
+        Row: {
+          code: string | null
+          created_at: string
+          has_expiry: boolean
+          id: string
+          name: string
+        }
+        Insert: {
+          code?: string | null
+          created_at?: string
+          has_expiry?: boolean
+          id?: string
+          name: string
+        }
+        Update: {
+          code?: string | null
+          created_at?: string
+          has_expiry?: boolean
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      enrollments: {
+        Row: {
+          academic_year_id: string
+          created_at: string
+          created_by: string
+          fee_plan_id: string | null
+          grade_level: string
+          grade_level_id: string | null
+          id: string
+          section_id: string | null
+          status: string
+          student_id: string
+          total_tuition: number
+        }
+        Insert: {
+          academic_year_id: string
+          created_at?: string
+          created_by: string
+          fee_plan_id?: string | null
+          grade_level?: string
+          grade_level_id?: string | null
+          id?: string
+          section_id?: string | null
+          status?: string
+          student_id: string
+          total_tuition?: number
+        }
+        Update: {
+          academic_year_id?: string
+          created_at?: string
+          created_by?: string
+          fee_plan_id?: string | null
+          grade_level?: string
+          grade_level_id?: string | null
+          id?: string
+          section_id?: string | null
+          status?: string
+          student_id?: string
+          total_tuition?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "enrollments_academic_year_id_fkey"
+            columns: ["academic_year_id"]
+            isOneToOne: false
+            referencedRelation: "academic_years"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "enrollments_fee_plan_id_fkey"
+            columns: ["fee_plan_id"]
+            isOneToOne: false
+            referencedRelation: "fee_plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "enrollments_grade_level_id_fkey"
+            columns: ["grade_level_id"]
+            isOneToOne: false
+            referencedRelation: "grade_levels"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "enrollments_section_id_fkey"
+            columns: ["section_id"]
+            isOneToOne: false
+            referencedRelation: "sections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "enrollments_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      families: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      fee_concept_grade_amounts: {
+        Row: {
+          amount: number
+          fee_concept_id: string
+          grade_level_id: string
+          id: string
+        }
+        Insert: {
+          amount: number
+          fee_concept_id: string
+          grade_level_id: string
+          id?: string
+        }
+        Update: {
+          amount?: number
+          fee_concept_id?: string
+          grade_level_id?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fee_concept_grade_amounts_fee_concept_id_fkey"
+            columns: ["fee_concept_id"]
+            isOneToOne: false
+            referencedRelation: "fee_concepts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fee_concept_grade_amounts_grade_level_id_fkey"
+            columns: ["grade_level_id"]
+            isOneToOne: false
+            referencedRelation: "grade_levels"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fee_concepts: {
+        Row: {
+          created_at: string
+          default_amount: number
+          id: string
+          is_active: boolean
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          default_amount?: number
+          id?: string
+          is_active?: boolean
+          name: string
+        }
+        Update: {
+          created_at?: string
+          default_amount?: number
+          id?: string
+          is_active?: boolean
+          name?: string
+        }
+        Relationships: []
+      }
+      fee_plan_installments: {
+        Row: {
+          amount: number
+          due_date: string
+          fee_plan_id: string
+          id: string
+          label: string
+          sequence: number
+        }
+        Insert: {
+          amount: number
+          due_date: string
+          fee_plan_id: string
+          id?: string
+          label: string
+          sequence: number
+        }
+        Update: {
+          amount?: number
+          due_date?: string
+          fee_plan_id?: string
+          id?: string
+          label?: string
+          sequence?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fee_plan_installments_fee_plan_id_fkey"
+            columns: ["fee_plan_id"]
+            isOneToOne: false
+            referencedRelation: "fee_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fee_plans: {
+        Row: {
+          academic_year_id: string
+          created_at: string
+          id: string
+          name: string
+        }
+        Insert: {
+          academic_year_id: string
+          created_at?: string
+          id?: string
+          name: string
+        }
+        Update: {
+          academic_year_id?: string
+          created_at?: string
+          id?: string
+          name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fee_plans_academic_year_id_fkey"
+            columns: ["academic_year_id"]
+            isOneToOne: false
+            referencedRelation: "academic_years"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      grade_level_aliases: {
+        Row: {
+          alias: string
+          created_at: string
+          grade_level_id: string
+          id: string
+        }
+        Insert: {
+          alias: string
+          created_at?: string
+          grade_level_id: string
+          id?: string
+        }
+        Update: {
+          alias?: string
+          created_at?: string
+          grade_level_id?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "grade_level_aliases_grade_level_id_fkey"
+            columns: ["grade_level_id"]
+            isOneToOne: false
+            referencedRelation: "grade_levels"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      grade_level_required_documents: {
+        Row: {
+          document_type_id: string
+          grade_level_id: string
+        }
+        Insert: {
+          document_type_id: string
+          grade_level_id: string
+        }
+        Update: {
+          document_type_id?: string
+          grade_level_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "grade_level_required_documents_document_type_id_fkey"
+            columns: ["document_type_id"]
+            isOneToOne: false
+            referencedRelation: "document_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "grade_level_required_documents_grade_level_id_fkey"
+            columns: ["grade_level_id"]
+            isOneToOne: false
+            referencedRelation: "grade_levels"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      grade_levels: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          sort_order: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          sort_order?: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          sort_order?: number
+        }
+        Relationships: []
+      }
       grades: {
+        Row: {
+          academic_year_id: string
+          created_at: string
+          created_by: string
+          grade: number
+          id: string
+          observations: string | null
+          student_id: string
+          subject_id: string
+        }
+        Insert: {
+          academic_year_id: string
+          created_at?: string
+          created_by: string
+          grade: number
+          id?: string
+          observations?: string | null
+          student_id: string
+          subject_id: string
+        }
+        Update: {
+          academic_year_id?: string
+          created_at?: string
+          created_by?: string
+          grade?: number
+          id?: string
+          observations?: string | null
+          student_id?: string
+          subject_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "grades_academic_year_id_fkey"
+            columns: ["academic_year_id"]
+            isOneToOne: false
+            referencedRelation: "academic_years"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "grades_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "grades_subject_id_fkey"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      late_fee_rules: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          fee_concept_id: string | null
+          grace_days: number
+          id: string
+          is_active: boolean
+          max_amount: number | null
+          max_total: number | null
+          name: string
+          surcharge_concept_id: string
+          value: number
+          value_type: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          fee_concept_id?: string | null
+          grace_days?: number
+          id?: string
+          is_active?: boolean
+          max_amount?: number | null
+          max_total?: number | null
+          name: string
+          surcharge_concept_id: string
+          value: number
+          value_type: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          fee_concept_id?: string | null
+          grace_days?: number
+          id?: string
+          is_active?: boolean
+          max_amount?: number | null
+          max_total?: number | null
+          name?: string
+          surcharge_concept_id?: string
+          value?: number
+          value_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "late_fee_rules_fee_concept_id_fkey"
+            columns: ["fee_concept_id"]
+            isOneToOne: false
+            referencedRelation: "fee_concepts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "late_fee_rules_surcharge_concept_id_fkey"
+            columns: ["surcharge_concept_id"]
+            isOneToOne: false
+            referencedRelation: "fee_concepts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      parents: {
+        Row: {
+          address: string | null
+          cell_phone: string
+          created_at: string
+          custom_fields: Json
+          email: string | null
+          family_id: string
+          full_name: string
+          id: string
+          id_number: string
+          is_financially_responsible: boolean
+          is_primary_contact: boolean
+          relationship: string
+        }
+        Insert: {
+          address?: string | null
+          cell_phone: string
+          created_at?: string
+          custom_fields?: Json
+          email?: string | null
+          family_id: string
+          full_name: string
+          id?: string
+          id_number: string
+          is_financially_responsible?: boolean
+          is_primary_contact?: boolean
+          relationship?: string
+        }
+        Update: {
+          address?: string | null
+          cell_phone?: string
+          created_at?: string
+          custom_fields?: Json
+          email?: string | null
+          family_id?: string
+          full_name?: string
+          id?: string
+          id_number?: string
+          is_financially_responsible?: boolean
+          is_primary_contact?: boolean
+          relationship?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "parents_family_id_fkey"
+            columns: ["family_id"]
+            isOneToOne: false
+            referencedRelation: "families"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_allocations: {
+        Row: {
+          amount: number
+          charge_id: string
+          id: string
+          payment_id: string
+        }
+        Insert: {
+          amount: number
+          charge_id: string
+          id?: string
+          payment_id: string
+        }
+        Update: {
+          amount?: number
+          charge_id?: string
+          id?: string
+          payment_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_allocations_charge_id_fkey"
+            columns: ["charge_id"]
+            isOneToOne: false
+            referencedRelation: "student_charges"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_allocations_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_adjustments: {
+        Row: {
+          action: string
+          created_at: string
+          created_by: string | null
+          id: string
+          payment_id: string
+          previous_amount: number | null
+          previous_notes: string | null
+          previous_payment_date: string | null
+          reason: string
+          refund_payment_id: string | null
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          payment_id: string
+          previous_amount?: number | null
+          previous_notes?: string | null
+          previous_payment_date?: string | null
+          reason: string
+          refund_payment_id?: string | null
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          payment_id?: string
+          previous_amount?: number | null
+          previous_notes?: string | null
+          previous_payment_date?: string | null
+          reason?: string
+          refund_payment_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_adjustments_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_adjustments_refund_payment_id_fkey"
+            columns: ["refund_payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payments: {
+        Row: {
+          academic_year_id: string
+          amount: number
+          balance_after: number | null
+          cash_session_id: string | null
+          cashier_name: string | null
+          created_at: string
+          created_by: string
+          id: string
+          method: string | null
+          notes: string | null
+          payer_id_number: string | null
+          payer_name: string | null
+          payment_date: string
+          proof_path: string | null
+          receipt_number: number
+          reference: string | null
+          refund_of: string | null
+          status: string
+          student_id: string
+          void_reason: string | null
+          voided_at: string | null
+          voided_by: string | null
+        }
+        Insert: {
+          academic_year_id: string
+          amount: number
+          balance_after?: number | null
+          cash_session_id?: string | null
+          cashier_name?: string | null
+          created_at?: string
+          created_by: string
+          id?: string
+          method?: string | null
+          notes?: string | null
+          payer_id_number?: string | null
+          payer_name?: string | null
+          payment_date?: string
+          proof_path?: string | null
+          receipt_number?: number
+          reference?: string | null
+          refund_of?: string | null
+          status?: string
+          student_id: string
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
+        }
+        Update: {
+          academic_year_id?: string
+          amount?: number
+          balance_after?: number | null
+          cash_session_id?: string | null
+          cashier_name?: string | null
+          created_at?: string
+          created_by?: string
+          id?: string
+          method?: string | null
+          notes?: string | null
+          payer_id_number?: string | null
+          payer_name?: string | null
+          payment_date?: string
+          proof_path?: string | null
+          receipt_number?: number
+          reference?: string | null
+          refund_of?: string | null
+          status?: string
+          student_id?: string
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_academic_year_id_fkey"
+            columns: ["academic_year_id"]
+            isOneToOne: false
+            referencedRelation: "academic_years"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_cash_session_id_fkey"
+            columns: ["cash_session_id"]
+            isOneToOne: false
+            referencedRelation: "cash_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_refund_of_fkey"
+            columns: ["refund_of"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          full_name: string
+          id: string
+          role: string
+        }
+        Insert: {
+          created_at?: string
+          full_name: string
+          id: string
+          role?: string
+        }
+        Update: {
+          created_at?: string
+          full_name?: string
+          id?: string
+          role?: string
+        }
+        Relationships: []
+      }
+      school_settings: {
+        Row: {
+          address: string | null
+          email: string | null
+          id: boolean
+          name: string
+          next_receipt_number: number
+          phone: string | null
+          tax_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          email?: string | null
+          id?: boolean
+          name: string
+          next_receipt_number?: number
+          phone?: string | null
+          tax_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          email?: string | null
+          id?: boolean
+          name?: string
+          next_receipt_number?: number
+          phone?: string | null
+          tax_id?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      sections: {
+        Row: {
+          capacity: number | null
+          created_at: string
+          grade_level_id: string
+          id: string
+          name: string
+        }
+        Insert: {
+          capacity?: number | null
+          created_at?: string
+          grade_level_id: string
+          id?: string
+          name: string
+        }
+        Update: {
+          capacity?: number | null
+          created_at?: string
+          grade_level_id?: string
+          id?: string
+          name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sections_grade_level_id_fkey"
+            columns: ["grade_level_id"]
+            isOneToOne: false
+            referencedRelation: "grade_levels"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      student_charges: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          description: string | null
+          due_date: string
+          enrollment_id: string
+          fee_concept_id: string
+          id: string
+          late_fee_rule_id: string | null
+          source_item_key: string | null
+          waive_reason: string | null
+          waived_at: string | null
+          waived_by: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          due_date: string
+          enrollment_id: string
+          fee_concept_id: string
+          id?: string
+          late_fee_rule_id?: string | null
+          source_item_key?: string | null
+          waive_reason?: string | null
+          waived_at?: string | null
+          waived_by?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          due_date?: string
+          enrollment_id?: string
+          fee_concept_id?: string
+          id?: string
+          late_fee_rule_id?: string | null
+          source_item_key?: string | null
+          waive_reason?: string | null
+          waived_at?: string | null
+          waived_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "student_charges_enrollment_id_fkey"
+            columns: ["enrollment_id"]
+            isOneToOne: false
+            referencedRelation: "enrollments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "student_charges_fee_concept_id_fkey"
+            columns: ["fee_concept_id"]
+            isOneToOne: false
+            referencedRelation: "fee_concepts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "student_charges_late_fee_rule_id_fkey"
+            columns: ["late_fee_rule_id"]
+            isOneToOne: false
+            referencedRelation: "late_fee_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      student_discounts: {
+        Row: {
+          discount_rule_id: string
+          enrollment_id: string
+          id: string
+          notes: string | null
+          requested_at: string
+          requested_by: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+        }
+        Insert: {
+          discount_rule_id: string
+          enrollment_id: string
+          id?: string
+          notes?: string | null
+          requested_at?: string
+          requested_by?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+        }
+        Update: {
+          discount_rule_id?: string
+          enrollment_id?: string
+          id?: string
+          notes?: string | null
+          requested_at?: string
+          requested_by?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "student_discounts_discount_rule_id_fkey"
+            columns: ["discount_rule_id"]
+            isOneToOne: false
+            referencedRelation: "discount_rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "student_discounts_enrollment_id_fkey"
+            columns: ["enrollment_id"]
+            isOneToOne: false
+            referencedRelation: "enrollments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      student_documents: {
         Row: {
           created_at: string
-          created_by: string
-          grade: number
+          document_type_id: string
+          expires_on: string | null
+          file_name: string
+          file_path: string
           id: string
-          observations: string | null
+          mime_type: string | null
+          size_bytes: number | null
           student_id: string
-          subject_id: string
+          uploaded_by: string | null
         }
         Insert: {
           created_at?: string
-          created_by: string
-          grade: number
+          document_type_id: string
+          expires_on?: string | null
+          file_name: string
+          file_path: string
           id?: string
-          observations?: string | null
+          mime_type?: string | null
+          size_bytes?: number | null
           student_id: string
-          subject_id: string
+          uploaded_by?: string | null
         }
         Update: {
           created_at?: string
-          created_by?: string
-          grade?: number
+          document_type_id?: string
+          expires_on?: string | null
+          file_name?: string
+          file_path?: string
           id?: string
-          observations?: string | null
+          mime_type?: string | null
+          size_bytes?: number | null
           student_id?: string
-          subject_id?: string
+          uploaded_by?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "grades_student_id_fkey"
-            columns: ["student_id"]
+            foreignKeyName: "student_documents_document_type_id_fkey"
+            columns: ["document_type_id"]
             isOneToOne: false
-            referencedRelation: "students"
+            referencedRelation: "document_types"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "grades_subject_id_fkey"
-            columns: ["subject_id"]
+            foreignKeyName: "student_documents_student_id_fkey"
+            columns: ["student_id"]
             isOneToOne: false
-            referencedRelation: "subjects"
+            referencedRelation: "students"
             referencedColumns: ["id"]
           },
         ]
       }
-      parents: {
+      student_emergency_contacts: {
         Row: {
-          address: string | null
-          cell_phone: string
           created_at: string
           full_name: string
           id: string
-          id_number: string
+          phone: string
+          relationship: string | null
           student_id: string
         }
         Insert: {
-          address?: string | null
-          cell_phone: string
           created_at?: string
           full_name: string
           id?: string
-          id_number: string
+          phone: string
+          relationship?: string | null
           student_id: string
         }
         Update: {
-          address?: string | null
-          cell_phone?: string
           created_at?: string
           full_name?: string
           id?: string
-          id_number?: string
+          phone?: string
+          relationship?: string | null
           student_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "parents_student_id_fkey"
+            foreignKeyName: "student_emergency_contacts_student_id_fkey"
             columns: ["student_id"]
             isOneToOne: false
             referencedRelation: "students"
@@ -97,100 +1163,234 @@ export type Database = {
           },
         ]
       }
-      payments: {
+      student_installments: {
         Row: {
           amount: number
           created_at: string
-          created_by: string
+          due_date: string
+          enrollment_id: string
           id: string
-          notes: string | null
-          payment_date: string
-          student_id: string
+          label: string
+          sequence: number
         }
         Insert: {
           amount: number
           created_at?: string
-          created_by: string
+          due_date: string
+          enrollment_id: string
           id?: string
-          notes?: string | null
-          payment_date?: string
-          student_id: string
+          label: string
+          sequence: number
         }
         Update: {
           amount?: number
           created_at?: string
-          created_by?: string
+          due_date?: string
+          enrollment_id?: string
           id?: string
+          label?: string
+          sequence?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "student_installments_enrollment_id_fkey"
+            columns: ["enrollment_id"]
+            isOneToOne: false
+            referencedRelation: "enrollments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      student_medical_info: {
+        Row: {
+          allergies: string | null
+          blood_type: string | null
+          chronic_conditions: string | null
+          insurance_policy_number: string | null
+          insurance_provider: string | null
+          medications: string | null
+          notes: string | null
+          student_id: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          allergies?: string | null
+          blood_type?: string | null
+          chronic_conditions?: string | null
+          insurance_policy_number?: string | null
+          insurance_provider?: string | null
+          medications?: string | null
+          notes?: string | null
+          student_id: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          allergies?: string | null
+          blood_type?: string | null
+          chronic_conditions?: string | null
+          insurance_policy_number?: string | null
+          insurance_provider?: string | null
+          medications?: string | null
           notes?: string | null
-          payment_date?: string
           student_id?: string
+          updated_at?: string
+          updated_by?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "payments_student_id_fkey"
+            foreignKeyName: "student_medical_info_student_id_fkey"
             columns: ["student_id"]
-            isOneToOne: false
+            isOneToOne: true
             referencedRelation: "students"
             referencedColumns: ["id"]
           },
         ]
       }
-      profiles: {
+      student_merges: {
         Row: {
           created_at: string
-          full_name: string
+          duplicate_snapshot: Json
+          enrollments_moved: number
+          grades_moved: number
+          guardians_moved: number
           id: string
-          role: string
+          merged_by: string | null
+          payments_moved: number
+          survivor_id: string
         }
         Insert: {
           created_at?: string
-          full_name: string
+          duplicate_snapshot: Json
+          enrollments_moved?: number
+          grades_moved?: number
+          guardians_moved?: number
+          id?: string
+          merged_by?: string | null
+          payments_moved?: number
+          survivor_id: string
+        }
+        Update: {
+          created_at?: string
+          duplicate_snapshot?: Json
+          enrollments_moved?: number
+          grades_moved?: number
+          guardians_moved?: number
+          id?: string
+          merged_by?: string | null
+          payments_moved?: number
+          survivor_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "student_merges_survivor_id_fkey"
+            columns: ["survivor_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      student_status_history: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          effective_date: string
           id: string
-          role?: string
+          previous_status: string | null
+          reason: string | null
+          status: string
+          student_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          effective_date: string
+          id?: string
+          previous_status?: string | null
+          reason?: string | null
+          status: string
+          student_id: string
         }
         Update: {
           created_at?: string
-          full_name?: string
+          created_by?: string | null
+          effective_date?: string
           id?: string
-          role?: string
+          previous_status?: string | null
+          reason?: string | null
+          status?: string
+          student_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "student_status_history_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       students: {
         Row: {
           created_at: string
           created_by: string
+          custom_fields: Json
           date_of_birth: string
+          family_id: string | null
           first_name: string
-          grade_level: string
+          guardian_names: string | null
           id: string
           id_number: string
           last_name: string
-          total_tuition: number
+          search_vector: unknown | null
+          status: string
+          status_effective_date: string
+          status_reason: string | null
         }
         Insert: {
           created_at?: string
           created_by: string
+          custom_fields?: Json
           date_of_birth: string
+          family_id?: string | null
           first_name: string
-          grade_level: string
+          guardian_names?: string | null
           id?: string
           id_number: string
           last_name: string
-          total_tuition?: number
+          search_vector?: never
+          status?: string
+          status_effective_date?: string
+          status_reason?: string | null
         }
         Update: {
           created_at?: string
           created_by?: string
+          custom_fields?: Json
           date_of_birth?: string
+          family_id?: string | null
           first_name?: string
-          grade_level?: string
+          guardian_names?: string | null
           id?: string
           id_number?: string
           last_name?: string
-          total_tuition?: number
+          search_vector?: never
+          status?: string
+          status_effective_date?: string
+          status_reason?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "students_family_id_fkey"
+            columns: ["family_id"]
+            isOneToOne: false
+            referencedRelation: "families"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       subjects: {
         Row: {
@@ -215,10 +1415,478 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      account_movements: {
+        Row: {
+          academic_year_id: string | null
+          amount: number | null
+          description: string | null
+          family_id: string | null
+          method: string | null
+          movement_date: string | null
+          movement_key: string | null
+          movement_type: string | null
+          payment_id: string | null
+          receipt_number: number | null
+          sort_order: number | null
+          student_id: string | null
+        }
+        Relationships: []
+      }
+      billable_items: {
+        Row: {
+          academic_year_id: string | null
+          amount: number | null
+          charge_id: string | null
+          due_date: string | null
+          enrollment_id: string | null
+          fee_concept_id: string | null
+          installment_id: string | null
+          item_key: string | null
+          item_type: string | null
+          label: string | null
+          sequence: number | null
+          student_id: string | null
+        }
+        Relationships: []
+      }
+      charge_balances: {
+        Row: {
+          academic_year_id: string | null
+          amount: number | null
+          balance: number | null
+          concept_name: string | null
+          description: string | null
+          discount_amount: number | null
+          due_date: string | null
+          enrollment_id: string | null
+          fee_concept_id: string | null
+          id: string | null
+          late_fee_rule_id: string | null
+          paid_amount: number | null
+          status: string | null
+          student_id: string | null
+        }
+        Relationships: []
+      }
+      discount_lines: {
+        Row: {
+          academic_year_id: string | null
+          amount: number | null
+          discount_rule_id: string | null
+          enrollment_id: string | null
+          item_key: string | null
+          item_type: string | null
+          kind: string | null
+          rule_name: string | null
+          student_discount_id: string | null
+          student_id: string | null
+        }
+        Relationships: []
+      }
+      installment_schedule: {
+        Row: {
+          academic_year_id: string | null
+          amount: number | null
+          balance: number | null
+          discount_amount: number | null
+          due_date: string | null
+          enrollment_id: string | null
+          id: string | null
+          label: string | null
+          paid_amount: number | null
+          sequence: number | null
+          status: string | null
+          student_id: string | null
+        }
+        Relationships: []
+      }
+      item_discounts: {
+        Row: {
+          discount_amount: number | null
+          enrollment_id: string | null
+          item_key: string | null
+        }
+        Relationships: []
+      }
+      net_allocations: {
+        Row: {
+          amount: number | null
+          charge_id: string | null
+          id: string | null
+          payment_id: string | null
+        }
+        Relationships: []
+      }
+      receivables_aging: {
+        Row: {
+          academic_year_id: string | null
+          current_amount: number | null
+          days_1_30: number | null
+          days_31_60: number | null
+          days_61_90: number | null
+          days_over_90: number | null
+          enrollment_id: string | null
+          family_id: string | null
+          family_name: string | null
+          first_name: string | null
+          grade_level: string | null
+          grade_level_id: string | null
+          id_number: string | null
+          last_name: string | null
+          status: string | null
+          student_id: string | null
+          total: number | null
+        }
+        Relationships: []
+      }
+      student_directory: {
+        Row: {
+          academic_year_id: string | null
+          balance: number | null
+          created_at: string | null
+          custom_fields: Json | null
+          date_of_birth: string | null
+          enrollment_id: string | null
+          family_id: string | null
+          first_name: string | null
+          grade_level: string | null
+          grade_level_id: string | null
+          guardian_names: string | null
+          id: string | null
+          id_number: string | null
+          last_name: string | null
+          missing_documents: number | null
+          search_vector: unknown | null
+          section_id: string | null
+          section_name: string | null
+          status: string | null
+          status_effective_date: string | null
+          total_charges: number | null
+          total_discounts: number | null
+          total_paid: number | null
+          total_tuition: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      apply_fee_plan: {
+        Args: {
+          p_enrollment_ids: string[]
+          p_fee_plan_id: string
+        }
+        Returns: number
+      }
+      apply_late_fees: {
+        Args: {
+          p_as_of?: string
+        }
+        Returns: number
+      }
+      assign_fee_charge: {
+        Args: {
+          p_amount?: number
+          p_description?: string
+          p_due_date: string
+          p_enrollment_ids: string[]
+          p_fee_concept_id: string
+        }
+        Returns: number
+      }
+      close_cash_session: {
+        Args: {
+          p_counted_cash: number
+          p_notes?: string
+          p_session_id: string
+        }
+        Returns: {
+          cashier_name: string | null
+          close_notes: string | null
+          closed_at: string | null
+          closed_by: string | null
+          counted_cash: number | null
+          expected_cash: number | null
+          id: string
+          opened_at: string
+          opened_by: string
+          opening_cash: number
+          reopen_reason: string | null
+          reopened_at: string | null
+          reopened_by: string | null
+        }
+      }
+      current_user_has_role: {
+        Args: {
+          p_roles: string[]
+        }
+        Returns: boolean
+      }
+      edit_payment: {
+        Args: {
+          p_amount: number
+          p_notes: string
+          p_payment_date: string
+          p_payment_id: string
+          p_reason: string
+        }
+        Returns: undefined
+      }
+      family_guardian_names: {
+        Args: {
+          p_family_id: string
+        }
+        Returns: string
+      }
+      find_duplicate_students: {
+        Args: {
+          p_threshold?: number
+        }
+        Returns: {
+          duplicate_id: string
+          name_similarity: number
+          reason: string
+          student_id: string
+        }[]
+      }
+      first_missing_custom_field: {
+        Args: {
+          p_entity: string
+          p_values: Json
+        }
+        Returns: {
+          created_at: string
+          entity: string
+          field_type: string
+          id: string
+          is_required: boolean
+          key: string
+          label: string
+          options: string[]
+          sort_order: number
+        }
+      }
+      import_students: {
+        Args: {
+          p_academic_year_id: string
+          p_rows: Json
+        }
+        Returns: number
+      }
+      map_grade_level: {
+        Args: {
+          p_grade_level_id: string
+          p_value: string
+        }
+        Returns: number
+      }
+      merge_students: {
+        Args: {
+          p_duplicate_id: string
+          p_survivor_id: string
+        }
+        Returns: string
+      }
+      normalize_grade_level: {
+        Args: {
+          value: string
+        }
+        Returns: string
+      }
+      open_cash_session: {
+        Args: {
+          p_opening_cash: number
+        }
+        Returns: {
+          cashier_name: string | null
+          close_notes: string | null
+          closed_at: string | null
+          closed_by: string | null
+          counted_cash: number | null
+          expected_cash: number | null
+          id: string
+          opened_at: string
+          opened_by: string
+          opening_cash: number
+          reopen_reason: string | null
+          reopened_at: string | null
+          reopened_by: string | null
+        }
+      }
+      payment_refundable_amount: {
+        Args: {
+          p_payment_id: string
+        }
+        Returns: number
+      }
+      receivables_aging_summary: {
+        Args: {
+          p_academic_year_id: string
+          p_group_by: string
+        }
+        Returns: {
+          current_amount: number
+          days_1_30: number
+          days_31_60: number
+          days_61_90: number
+          days_over_90: number
+          group_id: string
+          group_name: string
+          is_family: boolean
+          students: number
+          total: number
+        }[]
+      }
+      record_payment: {
+        Args: {
+          p_academic_year_id: string
+          p_allocations?: Json
+          p_amount: number
+          p_method: string
+          p_notes?: string
+          p_payer_id_number?: string
+          p_payer_name?: string
+          p_payment_date: string
+          p_proof_path?: string
+          p_reference?: string
+          p_student_id: string
+        }
+        Returns: {
+          academic_year_id: string
+          amount: number
+          cash_session_id: string | null
+          cashier_name: string | null
+          created_at: string
+          created_by: string
+          id: string
+          method: string | null
+          notes: string | null
+          payer_id_number: string | null
+          payer_name: string | null
+          payment_date: string
+          proof_path: string | null
+          receipt_number: number
+          reference: string | null
+          refund_of: string | null
+          status: string
+          student_id: string
+          void_reason: string | null
+          voided_at: string | null
+          voided_by: string | null
+        }
+      }
+      refund_payment: {
+        Args: {
+          p_amount: number
+          p_payment_date: string
+          p_payment_id: string
+          p_reason: string
+        }
+        Returns: string
+      }
+      register_student: {
+        Args: {
+          p_academic_year_id: string
+          p_date_of_birth: string
+          p_family_id?: string
+          p_first_name: string
+          p_grade_level_id: string
+          p_guardians: Json
+          p_id_number: string
+          p_initial_payment_amount?: number
+          p_initial_payment_date?: string
+          p_initial_payment_method?: string
+          p_initial_payment_notes?: string
+          p_initial_payment_reference?: string
+          p_last_name: string
+          p_custom_fields?: Json
+          p_section_id?: string
+          p_total_tuition: number
+        }
+        Returns: string
+      }
+      reopen_cash_session: {
+        Args: {
+          p_reason: string
+          p_session_id: string
+        }
+        Returns: undefined
+      }
+      review_student_discount: {
+        Args: {
+          p_approved: boolean
+          p_student_discount_id: string
+        }
+        Returns: undefined
+      }
+      save_family_guardians: {
+        Args: {
+          p_family_id: string
+          p_guardians: Json
+        }
+        Returns: undefined
+      }
+      search_key: {
+        Args: {
+          p_value: string
+        }
+        Returns: string
+      }
+      student_delete_preview: {
+        Args: {
+          p_student_id: string
+        }
+        Returns: {
+          charges: number
+          closed_session_payments: number
+          discounts: number
+          documents: number
+          emergency_contacts: number
+          enrollments: number
+          grades: number
+          installments: number
+          medical_records: number
+          merges: number
+          payments: number
+          status_changes: number
+        }[]
+      }
+      student_name_key: {
+        Args: {
+          p_first_name: string
+          p_last_name: string
+        }
+        Returns: string
+      }
+      update_student: {
+        Args: {
+          p_custom_fields?: Json
+          p_date_of_birth: string
+          p_enrollment_id: string
+          p_first_name: string
+          p_grade_level_id: string
+          p_guardians: Json
+          p_id_number: string
+          p_last_name: string
+          p_section_id?: string
+          p_student_id: string
+          p_total_tuition: number
+        }
+        Returns: undefined
+      }
+      void_payment: {
+        Args: {
+          p_payment_id: string
+          p_reason: string
+        }
+        Returns: undefined
+      }
+      waive_late_fee: {
+        Args: {
+          p_charge_id: string
+          p_reason: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
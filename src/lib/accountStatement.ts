@@ -0,0 +1,247 @@
+import { jsPDF } from "jspdf";
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { getPaymentMethodLabel } from "@/lib/payments";
+import { SchoolSettings, formatReceiptNumber, loadSchoolSettings } from "@/lib/receipts";
+
+export const MOVEMENT_TYPES = ["charge", "discount", "payment", "refund", "void", "waiver"] as const;
+
+export type MovementType = (typeof MOVEMENT_TYPES)[number];
+
+export const movementTypeLabels: Record<MovementType, string> = {
+  charge: "Cargo",
+  discount: "Descuento",
+  payment: "Pago",
+  refund: "Reembolso",
+  void: "Anulación",
+  waiver: "Condonación",
+};
+
+// One row of account_movements; positive amounts raise the balance owed
+export interface AccountMovement {
+  movement_key: string;
+  student_id: string;
+  movement_date: string;
+  movement_type: MovementType;
+  description: string | null;
+  receipt_number: number | null;
+  method: string | null;
+  amount: number;
+}
+
+export interface StatementLine extends AccountMovement {
+  student_name: string;
+  balance: number;
+}
+
+export interface StatementTarget {
+  kind: "student" | "family";
+  id: string;
+  name: string;
+}
+
+export interface AccountStatement {
+  school: SchoolSettings;
+  target: StatementTarget;
+  from: string;
+  to: string;
+  openingBalance: number;
+  lines: StatementLine[];
+  closingBalance: number;
+}
+
+export const accountStatementSchema = z
+  .object({
+    from: z.string().min(1, "La fecha inicial es requerida"),
+    to: z.string().min(1, "La fecha final es requerida"),
+  })
+  .refine((range) => range.from <= range.to, {
+    message: "La fecha inicial no puede ser posterior a la final",
+  });
+
+export const formatStatementDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+
+export const getMovementDetail = (line: AccountMovement) => {
+  if (["charge", "discount", "waiver"].includes(line.movement_type)) return line.description || "-";
+  return [
+    line.receipt_number !== null ? `Recibo ${formatReceiptNumber(line.receipt_number)}` : null,
+    getPaymentMethodLabel(line.method),
+    line.description,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+};
+
+// Movements before the range only count toward the opening balance
+export const buildStatementLines = (
+  movements: AccountMovement[],
+  studentNames: Record<string, string>,
+  from: string
+) => {
+  const openingBalance = movements
+    .filter((movement) => movement.movement_date < from)
+    .reduce((sum, movement) => sum + Number(movement.amount), 0);
+
+  let balance = openingBalance;
+  const lines = movements
+    .filter((movement) => movement.movement_date >= from)
+    .map((movement): StatementLine => {
+      balance += Number(movement.amount);
+      return { ...movement, student_name: studentNames[movement.student_id] || "-", balance };
+    });
+
+  return { openingBalance, lines, closingBalance: balance };
+};
+
+export const sumStatementLines = (lines: StatementLine[]) => ({
+  debits: lines.filter((line) => line.amount > 0).reduce((sum, line) => sum + Number(line.amount), 0),
+  credits: lines.filter((line) => line.amount < 0).reduce((sum, line) => sum - Number(line.amount), 0),
+});
+
+export const loadAccountStatement = async (
+  target: StatementTarget,
+  from: string,
+  to: string
+): Promise<AccountStatement> => {
+  const column = target.kind === "family" ? "family_id" : "student_id";
+  const [school, movementsRes, studentsRes] = await Promise.all([
+    loadSchoolSettings(),
+    supabase
+      .from("account_movements")
+      .select("movement_key, student_id, movement_date, movement_type, description, receipt_number, method, amount")
+      .eq(column, target.id)
+      .lte("movement_date", to)
+      .order("movement_date")
+      .order("sort_order")
+      .order("movement_key"),
+    supabase
+      .from("students")
+      .select("id, first_name, last_name")
+      .eq(target.kind === "family" ? "family_id" : "id", target.id),
+  ]);
+
+  if (movementsRes.error) throw movementsRes.error;
+  if (studentsRes.error) throw studentsRes.error;
+
+  const studentNames = Object.fromEntries(
+    (studentsRes.data || []).map((student) => [student.id, `${student.first_name} ${student.last_name}`])
+  );
+  return {
+    school,
+    target,
+    from,
+    to,
+    ...buildStatementLines((movementsRes.data || []) as AccountMovement[], studentNames, from),
+  };
+};
+
+export const generateAccountStatementPdf = ({
+  school,
+  target,
+  from,
+  to,
+  openingBalance,
+  lines,
+  closingBalance,
+}: AccountStatement) => {
+  const pdf = new jsPDF({ unit: "mm", format: "a4" });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margin = 15;
+  const consolidated = target.kind === "family";
+  const detailColumn = margin + (consolidated ? 62 : 40);
+  const amountColumns = [pageWidth - margin - 50, pageWidth - margin - 25, pageWidth - margin];
+  const money = (amount: number) => `$${amount.toFixed(2)}`;
+  let y = 20;
+
+  const printHeader = () => {
+    pdf.setFont("helvetica", "bold");
+    pdf.setFontSize(8);
+    pdf.text("Fecha", margin, y);
+    pdf.text("Tipo", margin + 20, y);
+    if (consolidated) pdf.text("Estudiante", margin + 40, y);
+    pdf.text("Detalle", detailColumn, y);
+    ["Cargos", "Abonos", "Saldo"].forEach((label, index) =>
+      pdf.text(label, amountColumns[index], y, { align: "right" })
+    );
+    y += 2;
+    pdf.setDrawColor(180);
+    pdf.line(margin, y, pageWidth - margin, y);
+    y += 4;
+    pdf.setFont("helvetica", "normal");
+  };
+
+  const ensureSpace = () => {
+    if (y > pageHeight - margin) {
+      pdf.addPage();
+      y = 20;
+      printHeader();
+    }
+  };
+
+  pdf.setTextColor(20);
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(14);
+  pdf.text(school.name, margin, y);
+  pdf.setFontSize(11);
+  pdf.text("ESTADO DE CUENTA", pageWidth - margin, y, { align: "right" });
+  y += 6;
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(9);
+  [school.address, school.tax_id ? `RUC: ${school.tax_id}` : null].filter(Boolean).forEach((line) => {
+    pdf.text(line, margin, y);
+    y += 4;
+  });
+
+  y += 4;
+  pdf.setFont("helvetica", "bold");
+  pdf.text(`${consolidated ? "Familia" : "Estudiante"}: ${target.name}`, margin, y);
+  pdf.setFont("helvetica", "normal");
+  pdf.text(`Del ${formatStatementDate(from)} al ${formatStatementDate(to)}`, pageWidth - margin, y, {
+    align: "right",
+  });
+  y += 10;
+
+  printHeader();
+  pdf.setFont("helvetica", "bold");
+  pdf.text("Saldo inicial", margin, y);
+  pdf.text(money(openingBalance), amountColumns[2], y, { align: "right" });
+  y += 5;
+  pdf.setFont("helvetica", "normal");
+
+  lines.forEach((line) => {
+    ensureSpace();
+    pdf.text(formatStatementDate(line.movement_date), margin, y);
+    pdf.text(movementTypeLabels[line.movement_type], margin + 20, y);
+    if (consolidated) pdf.text(pdf.splitTextToSize(line.student_name, 20)[0], margin + 40, y);
+    pdf.text(pdf.splitTextToSize(getMovementDetail(line), amountColumns[0] - detailColumn - 18)[0], detailColumn, y);
+    const amount = Number(line.amount);
+    pdf.text(amount > 0 ? money(amount) : "", amountColumns[0], y, { align: "right" });
+    pdf.text(amount < 0 ? money(-amount) : "", amountColumns[1], y, { align: "right" });
+    pdf.text(money(line.balance), amountColumns[2], y, { align: "right" });
+    y += 5;
+  });
+
+  ensureSpace();
+  const totals = sumStatementLines(lines);
+  pdf.line(margin, y - 3, pageWidth - margin, y - 3);
+  y += 1;
+  pdf.setFont("helvetica", "bold");
+  pdf.text("Saldo final", margin, y);
+  pdf.text(money(totals.debits), amountColumns[0], y, { align: "right" });
+  pdf.text(money(totals.credits), amountColumns[1], y, { align: "right" });
+  pdf.text(money(closingBalance), amountColumns[2], y, { align: "right" });
+
+  y += 10;
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(8);
+  pdf.setTextColor(120);
+  pdf.text(`Emitido el ${new Date().toLocaleDateString()}`, margin, y);
+
+  const slug = target.name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_");
+  pdf.save(`estado_cuenta_${slug}_${from}_${to}.pdf`);
+};
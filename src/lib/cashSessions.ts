@@ -0,0 +1,237 @@
+import { jsPDF } from "jspdf";
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { PAYMENT_METHODS, getPaymentMethodLabel, isCountedPayment } from "@/lib/payments";
+import { SchoolSettings, formatReceiptNumber, loadSchoolSettings } from "@/lib/receipts";
+
+export interface CashSession {
+  id: string;
+  opened_by: string;
+  cashier_name: string | null;
+  opened_at: string;
+  opening_cash: number;
+  closed_at: string | null;
+  expected_cash: number | null;
+  counted_cash: number | null;
+  close_notes: string | null;
+  reopened_at: string | null;
+  reopen_reason: string | null;
+}
+
+export interface CashSessionPayment {
+  id: string;
+  receipt_number: number;
+  created_at: string;
+  amount: number;
+  method: string | null;
+  reference: string | null;
+  status: string;
+  refund_of: string | null;
+  students: {
+    first_name: string;
+    last_name: string;
+  };
+}
+
+export interface MethodTotal {
+  method: string | null;
+  count: number;
+  total: number;
+}
+
+// Voided payments are listed in the session but left out of every total
+export const summarizeByMethod = (payments: Pick<CashSessionPayment, "method" | "amount" | "status">[]) => {
+  const counted = payments.filter(isCountedPayment);
+  const methods = [...PAYMENT_METHODS, null].filter((method) => counted.some((payment) => payment.method === method));
+  return methods.map((method): MethodTotal => {
+    const matching = counted.filter((payment) => payment.method === method);
+    return {
+      method,
+      count: matching.length,
+      total: matching.reduce((sum, payment) => sum + Number(payment.amount), 0),
+    };
+  });
+};
+
+// Same rule as close_cash_session in the database
+export const getExpectedCash = (
+  session: Pick<CashSession, "opening_cash">,
+  payments: Pick<CashSessionPayment, "method" | "amount" | "status">[]
+) =>
+  Number(session.opening_cash) +
+  payments
+    .filter((payment) => isCountedPayment(payment) && payment.method === "cash")
+    .reduce((sum, payment) => sum + Number(payment.amount), 0);
+
+const money = z.number({ invalid_type_error: "Ingrese un monto válido" }).min(0, "El monto no puede ser negativo");
+
+export const openCashSessionSchema = z.object({ openingCash: money });
+
+export const closeCashSessionSchema = z.object({
+  countedCash: money,
+  notes: z.string().trim(),
+});
+
+export const reopenCashSessionSchema = z.object({
+  reason: z.string().trim().min(3, "El motivo debe tener al menos 3 caracteres"),
+});
+
+export const loadCashSessionPayments = async (sessionId: string) => {
+  const { data, error } = await supabase
+    .from("payments")
+    .select("id, receipt_number, created_at, amount, method, reference, status, refund_of, students(first_name, last_name)")
+    .eq("cash_session_id", sessionId)
+    .order("receipt_number");
+
+  if (error) throw error;
+  return (data || []) as CashSessionPayment[];
+};
+
+export interface CashCloseoutReport {
+  school: SchoolSettings;
+  session: CashSession;
+  payments: CashSessionPayment[];
+}
+
+export const loadCashCloseoutReport = async (sessionId: string): Promise<CashCloseoutReport> => {
+  const { data: session, error } = await supabase.from("cash_sessions").select("*").eq("id", sessionId).single();
+  if (error) throw error;
+
+  const [school, payments] = await Promise.all([loadSchoolSettings(), loadCashSessionPayments(sessionId)]);
+  return { school, session, payments };
+};
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString();
+
+export const generateCashCloseoutPdf = ({ school, session, payments }: CashCloseoutReport) => {
+  const pdf = new jsPDF({ unit: "mm", format: "a4" });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margin = 15;
+  const expected = session.expected_cash ?? getExpectedCash(session, payments);
+  let y = 20;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - margin) {
+      pdf.addPage();
+      y = 20;
+    }
+  };
+
+  pdf.setTextColor(20);
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(14);
+  pdf.text(school.name, margin, y);
+  pdf.setFontSize(11);
+  pdf.text("CIERRE DE CAJA", pageWidth - margin, y, { align: "right" });
+  if (!session.closed_at) {
+    pdf.setTextColor(220, 38, 38);
+    pdf.text("CAJA ABIERTA", pageWidth - margin, y + 6, { align: "right" });
+    pdf.setTextColor(20);
+  }
+
+  y += 12;
+  pdf.setFontSize(9);
+  const details: [string, string][] = [
+    ["Cajero", session.cashier_name || "-"],
+    ["Apertura", formatDateTime(session.opened_at)],
+    ["Cierre", session.closed_at ? formatDateTime(session.closed_at) : "-"],
+    ...(session.reopened_at
+      ? [["Reabierta", `${formatDateTime(session.reopened_at)} · ${session.reopen_reason}`] as [string, string]]
+      : []),
+  ];
+  details.forEach(([label, value]) => {
+    pdf.setFont("helvetica", "bold");
+    pdf.text(`${label}:`, margin, y);
+    pdf.setFont("helvetica", "normal");
+    pdf.text(value, margin + 25, y);
+    y += 5;
+  });
+
+  y += 4;
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(10);
+  pdf.text("Totales por método", margin, y);
+  y += 6;
+  pdf.setFontSize(9);
+  summarizeByMethod(payments).forEach((row) => {
+    pdf.setFont("helvetica", "normal");
+    pdf.text(`${getPaymentMethodLabel(row.method)} (${row.count})`, margin, y);
+    pdf.text(`$${row.total.toFixed(2)}`, margin + 90, y, { align: "right" });
+    y += 5;
+  });
+
+  y += 4;
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(10);
+  pdf.text("Arqueo de efectivo", margin, y);
+  y += 6;
+  pdf.setFontSize(9);
+  const cashRows: [string, string][] = [
+    ["Fondo inicial", `$${Number(session.opening_cash).toFixed(2)}`],
+    ["Efectivo esperado", `$${expected.toFixed(2)}`],
+    ["Efectivo contado", session.counted_cash !== null ? `$${Number(session.counted_cash).toFixed(2)}` : "-"],
+    [
+      "Diferencia",
+      session.counted_cash !== null ? `$${(Number(session.counted_cash) - expected).toFixed(2)}` : "-",
+    ],
+  ];
+  cashRows.forEach(([label, value]) => {
+    pdf.setFont("helvetica", "normal");
+    pdf.text(label, margin, y);
+    pdf.text(value, margin + 90, y, { align: "right" });
+    y += 5;
+  });
+  if (session.close_notes) {
+    const lines = pdf.splitTextToSize(`Notas: ${session.close_notes}`, pageWidth - margin * 2);
+    pdf.text(lines, margin, y);
+    y += lines.length * 4 + 1;
+  }
+
+  y += 4;
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(10);
+  pdf.text(`Pagos registrados (${payments.length})`, margin, y);
+  y += 6;
+  pdf.setFontSize(8);
+  const columns = [margin, margin + 18, margin + 50, margin + 110, pageWidth - margin];
+  ["Recibo", "Hora", "Estudiante", "Método", "Monto"].forEach((header, index) =>
+    pdf.text(header, columns[index], y, index === 4 ? { align: "right" } : undefined)
+  );
+  y += 2;
+  pdf.setDrawColor(180);
+  pdf.line(margin, y, pageWidth - margin, y);
+  y += 4;
+
+  pdf.setFont("helvetica", "normal");
+  payments.forEach((payment) => {
+    ensureSpace(5);
+    const voided = payment.status === "voided";
+    pdf.setTextColor(voided ? 150 : 20);
+    pdf.text(formatReceiptNumber(payment.receipt_number), columns[0], y);
+    pdf.text(new Date(payment.created_at).toLocaleTimeString(), columns[1], y);
+    pdf.text(`${payment.students.first_name} ${payment.students.last_name}`.slice(0, 35), columns[2], y);
+    pdf.text(
+      [getPaymentMethodLabel(payment.method), payment.reference].filter(Boolean).join(" · ").slice(0, 35),
+      columns[3],
+      y
+    );
+    pdf.text(
+      `${voided ? "ANULADO " : ""}$${Number(payment.amount).toFixed(2)}`,
+      columns[4],
+      y,
+      { align: "right" }
+    );
+    y += 5;
+  });
+  pdf.setTextColor(20);
+
+  ensureSpace(30);
+  y += 20;
+  pdf.line(margin, y, margin + 60, y);
+  pdf.line(pageWidth - margin - 60, y, pageWidth - margin, y);
+  pdf.text("Cajero", margin + 30, y + 4, { align: "center" });
+  pdf.text("Supervisor", pageWidth - margin - 30, y + 4, { align: "center" });
+
+  pdf.save(`cierre_caja_${session.opened_at.split("T")[0]}.pdf`);
+};
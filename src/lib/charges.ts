@@ -0,0 +1,93 @@
+import { z } from "zod";
+import { ScheduledInstallment } from "@/lib/installments";
+
+// One row of the charge_balances view
+export interface ChargeBalance {
+  id: string;
+  enrollment_id: string;
+  student_id: string;
+  fee_concept_id: string;
+  concept_name: string;
+  description: string | null;
+  due_date: string;
+  amount: number;
+  paid_amount: number;
+  balance: number;
+  status: string;
+  discount_amount: number;
+  late_fee_rule_id: string | null;
+}
+
+export interface FeeConcept {
+  id: string;
+  name: string;
+  default_amount: number;
+  is_active: boolean;
+}
+
+// Tuition installments are listed as one more concept next to the catalog charges
+export const TUITION_CONCEPT_NAME = "Pensión";
+
+export interface ConceptBalance {
+  name: string;
+  amount: number;
+  discount: number;
+  paid: number;
+  balance: number;
+}
+
+export const summarizeByConcept = (
+  installments: Pick<ScheduledInstallment, "amount" | "discount_amount" | "paid_amount" | "balance">[],
+  charges: Pick<ChargeBalance, "concept_name" | "amount" | "discount_amount" | "paid_amount" | "balance">[]
+): ConceptBalance[] => {
+  const concepts = new Map<string, ConceptBalance>();
+  const add = (name: string, row: { amount: number; discount_amount: number; paid_amount: number; balance: number }) => {
+    const concept = concepts.get(name) || { name, amount: 0, discount: 0, paid: 0, balance: 0 };
+    concept.amount += Number(row.amount);
+    concept.discount += Number(row.discount_amount);
+    concept.paid += Number(row.paid_amount);
+    concept.balance += Number(row.balance);
+    concepts.set(name, concept);
+  };
+
+  installments.forEach((installment) => add(TUITION_CONCEPT_NAME, installment));
+  charges.forEach((charge) => add(charge.concept_name, charge));
+  return Array.from(concepts.values());
+};
+
+// Amount owed for a concept by a grade level, same rule as assign_fee_charge
+export const getConceptAmount = (
+  concept: Pick<FeeConcept, "default_amount"> & { fee_concept_grade_amounts: { grade_level_id: string; amount: number }[] },
+  gradeLevelId: string | null
+) =>
+  Number(
+    concept.fee_concept_grade_amounts.find((row) => row.grade_level_id === gradeLevelId)?.amount ??
+      concept.default_amount
+  );
+
+export const feeConceptSchema = z.object({
+  name: z.string().trim().min(2, "El nombre debe tener al menos 2 caracteres"),
+  defaultAmount: z
+    .number({ invalid_type_error: "Ingrese un monto válido" })
+    .min(0, "El monto no puede ser negativo"),
+});
+
+export const assignChargeSchema = z.object({
+  feeConceptId: z.string().min(1, "Seleccione un concepto"),
+  dueDate: z.string().min(1, "La fecha de vencimiento es requerida"),
+  amount: z
+    .number({ invalid_type_error: "Ingrese un monto válido" })
+    .positive("El monto debe ser mayor a 0")
+    .nullable(),
+  description: z.string().trim(),
+});
+
+// A type alias, unlike an interface, can be sent as the Json argument of record_payment
+export type PaymentAllocationInput = {
+  charge_id: string;
+  amount: number;
+};
+
+// The part of a payment not settling selected charges goes to tuition installments
+export const getTuitionPortion = (amount: number, allocations: PaymentAllocationInput[]) =>
+  amount - allocations.reduce((sum, allocation) => sum + allocation.amount, 0);
@@ -0,0 +1,104 @@
+import { z } from "zod";
+import { toSearchKey } from "@/lib/utils";
+
+export const CUSTOM_FIELD_TYPES = ["text", "number", "date", "select", "checkbox"] as const;
+
+export type CustomFieldType = (typeof CUSTOM_FIELD_TYPES)[number];
+
+export const customFieldTypeLabels: Record<CustomFieldType, string> = {
+  text: "Texto",
+  number: "Número",
+  date: "Fecha",
+  select: "Lista de opciones",
+  checkbox: "Casilla",
+};
+
+export const CUSTOM_FIELD_ENTITIES = ["student", "guardian"] as const;
+
+export type CustomFieldEntity = (typeof CUSTOM_FIELD_ENTITIES)[number];
+
+export const customFieldEntityLabels: Record<CustomFieldEntity, string> = {
+  student: "Estudiante",
+  guardian: "Apoderado",
+};
+
+export interface CustomField {
+  id: string;
+  entity: string;
+  key: string;
+  label: string;
+  field_type: string;
+  options: string[];
+  is_required: boolean;
+  sort_order: number;
+}
+
+// Stored as JSONB on students.custom_fields and parents.custom_fields, keyed by field key
+export type CustomFieldValues = Record<string, string | number | boolean | null>;
+
+export const customFieldValuesSchema = z.record(z.union([z.string(), z.number(), z.boolean(), z.null()]));
+
+// Same rules as the custom_fields_key_check constraint
+export const toCustomFieldKey = (label: string) =>
+  toSearchKey(label)
+    .replace(/ /g, "_")
+    .replace(/^[^a-z]+/, "");
+
+const textValue = (field: CustomField) => {
+  const value = z.string().trim();
+  return field.is_required
+    ? value.min(1, `${field.label} es requerido`)
+    : value.transform((v) => v || null);
+};
+
+const fieldSchema = (field: CustomField) => {
+  switch (field.field_type) {
+    case "number":
+      // Inputs hold text; blank optional numbers are stored as null
+      return z.preprocess(
+        (v) => (v === null || v === undefined || String(v).trim() === "" ? null : Number(v)),
+        z
+          .number()
+          .nullable()
+          .refine((v) => v === null || !Number.isNaN(v), `${field.label} debe ser un número`)
+          .refine((v) => !field.is_required || v !== null, `${field.label} es requerido`)
+      );
+    case "select":
+      return z.preprocess(
+        (v) => v ?? "",
+        textValue(field).refine((v) => v === null || field.options.includes(v), `${field.label}: seleccione una opción válida`)
+      );
+    case "checkbox":
+      return z.preprocess(
+        (v) => v === true,
+        field.is_required ? z.boolean().refine((v) => v, `${field.label} debe estar marcado`) : z.boolean()
+      );
+    default:
+      return z.preprocess((v) => v ?? "", textValue(field));
+  }
+};
+
+// Unknown keys pass through so values of retired fields are not wiped on save
+export const buildCustomFieldsSchema = (fields: CustomField[]) =>
+  z.object(Object.fromEntries(fields.map((field) => [field.key, fieldSchema(field)]))).passthrough();
+
+// Form state: text inputs hold strings, checkboxes booleans
+export const toCustomFieldFormValues = (fields: CustomField[], stored: unknown): CustomFieldValues => {
+  const values = { ...((stored as CustomFieldValues) || {}) };
+  fields.forEach((field) => {
+    const value = values[field.key];
+    if (field.field_type === "checkbox") {
+      values[field.key] = value === true;
+    } else {
+      values[field.key] = value === null || value === undefined ? "" : String(value);
+    }
+  });
+  return values;
+};
+
+export const formatCustomFieldValue = (field: CustomField, value: unknown) => {
+  if (field.field_type === "checkbox") return value === true ? "Sí" : "No";
+  if (value === null || value === undefined || value === "") return "-";
+  if (field.field_type === "date") return new Date(`${value}T00:00:00`).toLocaleDateString();
+  return String(value);
+};
@@ -0,0 +1,112 @@
+import { z } from "zod";
+
+export const DISCOUNT_KINDS = ["scholarship", "discount", "sibling"] as const;
+
+export type DiscountKind = (typeof DISCOUNT_KINDS)[number];
+
+export const discountKindLabels: Record<DiscountKind, string> = {
+  scholarship: "Beca",
+  discount: "Descuento",
+  sibling: "Descuento por hermanos",
+};
+
+export const getDiscountKindLabel = (kind: string) => discountKindLabels[kind as DiscountKind] || kind;
+
+export const DISCOUNT_VALUE_TYPES = ["percentage", "fixed"] as const;
+
+export type DiscountValueType = (typeof DISCOUNT_VALUE_TYPES)[number];
+
+export const discountValueTypeLabels: Record<DiscountValueType, string> = {
+  percentage: "Porcentaje",
+  fixed: "Monto fijo",
+};
+
+export const DISCOUNT_STATUSES = ["pending", "approved", "rejected"] as const;
+
+export type DiscountStatus = (typeof DISCOUNT_STATUSES)[number];
+
+export const discountStatusLabels: Record<DiscountStatus, string> = {
+  pending: "Pendiente de aprobación",
+  approved: "Aprobado",
+  rejected: "Rechazado",
+};
+
+export const getDiscountStatusLabel = (status: string) => discountStatusLabels[status as DiscountStatus] || status;
+
+export const getDiscountStatusColor = (status: string) => {
+  switch (status) {
+    case "approved":
+      return "bg-success text-success-foreground";
+    case "rejected":
+      return "bg-destructive text-destructive-foreground";
+    default:
+      return "bg-warning text-warning-foreground";
+  }
+};
+
+export interface DiscountRule {
+  id: string;
+  name: string;
+  kind: string;
+  value_type: string;
+  value: number;
+  fee_concept_id: string | null;
+  sibling_position: number | null;
+  valid_from: string | null;
+  valid_to: string | null;
+  is_active: boolean;
+}
+
+export const formatDiscountValue = (rule: Pick<DiscountRule, "value_type" | "value">) =>
+  rule.value_type === "percentage" ? `${Number(rule.value)}%` : `$${Number(rule.value).toFixed(2)}`;
+
+export const formatDiscountValidity = (rule: Pick<DiscountRule, "valid_from" | "valid_to">) => {
+  const format = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+  if (rule.valid_from && rule.valid_to) return `${format(rule.valid_from)} - ${format(rule.valid_to)}`;
+  if (rule.valid_from) return `Desde ${format(rule.valid_from)}`;
+  if (rule.valid_to) return `Hasta ${format(rule.valid_to)}`;
+  return "Siempre";
+};
+
+export const discountRuleSchema = z
+  .object({
+    name: z.string().trim().min(2, "El nombre debe tener al menos 2 caracteres"),
+    kind: z.enum(DISCOUNT_KINDS),
+    valueType: z.enum(DISCOUNT_VALUE_TYPES),
+    value: z.number({ invalid_type_error: "Ingrese un valor válido" }).positive("El valor debe ser mayor a 0"),
+    feeConceptId: z.string().nullable(),
+    siblingPosition: z.number().int().nullable(),
+    validFrom: z.string(),
+    validTo: z.string(),
+  })
+  .refine((rule) => rule.valueType !== "percentage" || rule.value <= 100, {
+    message: "El porcentaje no puede superar 100",
+  })
+  .refine((rule) => rule.kind !== "sibling" || (rule.siblingPosition !== null && rule.siblingPosition >= 2), {
+    message: "Indique desde qué hermano aplica (2 o más)",
+  })
+  .refine((rule) => !rule.validFrom || !rule.validTo || rule.validTo >= rule.validFrom, {
+    message: "La fecha final debe ser posterior a la inicial",
+  });
+
+export const studentDiscountSchema = z.object({
+  discountRuleId: z.string().min(1, "Seleccione una beca o descuento"),
+  notes: z.string().trim().min(3, "Indique el motivo del descuento"),
+});
+
+// Row of student_discounts as loaded with its rule
+export interface StudentDiscount {
+  id: string;
+  notes: string | null;
+  status: string;
+  discount_rules: Pick<DiscountRule, "name" | "kind" | "value_type" | "value">;
+}
+
+// One row of the discount_lines view
+export interface DiscountLine {
+  discount_rule_id: string;
+  rule_name: string;
+  kind: string;
+  student_discount_id: string | null;
+  amount: number;
+}
@@ -0,0 +1,94 @@
+import { z } from "zod";
+import { CustomField, CustomFieldValues, buildCustomFieldsSchema, customFieldValuesSchema } from "@/lib/customFields";
+
+export const GUARDIAN_RELATIONSHIPS = ["mother", "father", "tutor", "grandparent", "other"] as const;
+
+export type GuardianRelationship = (typeof GUARDIAN_RELATIONSHIPS)[number];
+
+export const guardianRelationshipLabels: Record<GuardianRelationship, string> = {
+  mother: "Madre",
+  father: "Padre",
+  tutor: "Tutor",
+  grandparent: "Abuelo/a",
+  other: "Otro",
+};
+
+export const getGuardianRelationshipLabel = (relationship: string) =>
+  guardianRelationshipLabels[relationship as GuardianRelationship] || relationship;
+
+export const guardianSchema = z.object({
+  id: z.string().optional(),
+  fullName: z.string().min(2, "El nombre del apoderado debe tener al menos 2 caracteres"),
+  idNumber: z.string().min(5, "La identificación del apoderado debe tener al menos 5 caracteres"),
+  phone: z.string().min(10, "El teléfono debe tener al menos 10 caracteres"),
+  email: z.string().email("Correo del apoderado inválido").or(z.literal("")).optional(),
+  address: z.string().optional(),
+  relationship: z.enum(GUARDIAN_RELATIONSHIPS),
+  isPrimaryContact: z.boolean(),
+  isFinanciallyResponsible: z.boolean(),
+  customFields: customFieldValuesSchema.default({}),
+});
+
+// Custom guardian fields defined by the school are validated per guardian
+export const buildGuardiansSchema = (customFields: CustomField[] = []) =>
+  z
+    .array(guardianSchema.extend({ customFields: buildCustomFieldsSchema(customFields).default({}) }))
+    .min(1, "Debe registrar al menos un apoderado")
+    .refine((guardians) => guardians.filter((g) => g.isPrimaryContact).length === 1, {
+      message: "Debe marcar exactamente un apoderado como contacto principal",
+    });
+
+export const guardiansSchema = buildGuardiansSchema();
+
+export type GuardianFormData = z.infer<typeof guardianSchema>;
+
+export const emptyGuardian = (isPrimaryContact = false): GuardianFormData => ({
+  fullName: "",
+  idNumber: "",
+  phone: "",
+  email: "",
+  address: "",
+  relationship: "mother",
+  isPrimaryContact,
+  isFinanciallyResponsible: isPrimaryContact,
+  customFields: {},
+});
+
+interface ParentRow {
+  id: string;
+  full_name: string;
+  id_number: string;
+  cell_phone: string;
+  email: string | null;
+  address: string | null;
+  relationship: string;
+  is_primary_contact: boolean;
+  is_financially_responsible: boolean;
+  custom_fields: unknown;
+}
+
+export const fromParentRow = (parent: ParentRow): GuardianFormData => ({
+  id: parent.id,
+  fullName: parent.full_name,
+  idNumber: parent.id_number,
+  phone: parent.cell_phone,
+  email: parent.email || "",
+  address: parent.address || "",
+  relationship: parent.relationship as GuardianRelationship,
+  isPrimaryContact: parent.is_primary_contact,
+  isFinanciallyResponsible: parent.is_financially_responsible,
+  customFields: (parent.custom_fields as CustomFieldValues) || {},
+});
+
+// Columns of a parents row built from the form
+export const toParentFields = (guardian: GuardianFormData) => ({
+  full_name: guardian.fullName,
+  id_number: guardian.idNumber,
+  cell_phone: guardian.phone,
+  email: guardian.email || null,
+  address: guardian.address || null,
+  relationship: guardian.relationship,
+  is_primary_contact: guardian.isPrimaryContact,
+  is_financially_responsible: guardian.isFinanciallyResponsible,
+  custom_fields: guardian.customFields,
+});
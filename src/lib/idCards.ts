@@ -0,0 +1,178 @@
+import { jsPDF } from "jspdf";
+import QRCode from "qrcode";
+import { supabase } from "@/integrations/supabase/client";
+import { fileStorage } from "@/lib/storage";
+
+export interface IdCardStudent {
+  id: string;
+  first_name: string;
+  last_name: string;
+  id_number: string;
+  grade_level: string;
+  section_name: string | null;
+}
+
+interface IdCardFilter {
+  studentId?: string;
+  gradeLevelId?: string;
+  sectionId?: string;
+}
+
+// CR80 card stock laid out two across and five down on an A4 sheet
+const CARD_WIDTH = 85.6;
+const CARD_HEIGHT = 54;
+const COLUMNS = 2;
+const ROWS = 5;
+const GAP_X = 6;
+const GAP_Y = 3;
+
+const STUDENT_ID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i;
+
+// QR codes hold the bare student UUID; links to a student page are accepted too
+export const parseStudentQr = (value: string) => value.match(STUDENT_ID_PATTERN)?.[0].toLowerCase() || null;
+
+export const loadIdCardStudents = async (academicYearId: string, filter: IdCardFilter) => {
+  let query = supabase
+    .from("student_directory")
+    .select("id, first_name, last_name, id_number, grade_level, section_name")
+    .eq("academic_year_id", academicYearId)
+    .order("last_name")
+    .order("first_name");
+
+  if (filter.studentId) query = query.eq("id", filter.studentId);
+  if (filter.gradeLevelId) query = query.eq("grade_level_id", filter.gradeLevelId);
+  if (filter.sectionId) query = query.eq("section_id", filter.sectionId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as IdCardStudent[];
+};
+
+// Latest photo of each student, keyed by student id
+const loadPhotoPaths = async (studentIds: string[]) => {
+  const { data, error } = await supabase
+    .from("student_documents")
+    .select("student_id, file_path, document_types!inner(code)")
+    .eq("document_types.code", "photo")
+    .in("student_id", studentIds)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+
+  const paths: Record<string, string> = {};
+  data?.forEach((document) => {
+    paths[document.student_id] ??= document.file_path;
+  });
+  return paths;
+};
+
+// Re-encode through a canvas so any format the browser can show ends up as a JPEG
+const loadImageAsJpeg = (url: string) =>
+  new Promise<string>((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = "anonymous";
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = image.naturalWidth;
+      canvas.height = image.naturalHeight;
+      canvas.getContext("2d").drawImage(image, 0, 0);
+      resolve(canvas.toDataURL("image/jpeg", 0.9));
+    };
+    image.onerror = () => reject(new Error("No se pudo cargar la foto"));
+    image.src = url;
+  });
+
+const loadPhoto = async (path: string | undefined) => {
+  if (!path) return null;
+  try {
+    return await loadImageAsJpeg(await fileStorage.getUrl(path));
+  } catch {
+    return null;
+  }
+};
+
+const drawCard = (
+  pdf: jsPDF,
+  x: number,
+  y: number,
+  student: IdCardStudent,
+  yearName: string,
+  photo: string | null,
+  qrCode: string
+) => {
+  pdf.setDrawColor(180);
+  pdf.setLineWidth(0.2);
+  pdf.roundedRect(x, y, CARD_WIDTH, CARD_HEIGHT, 3, 3);
+
+  pdf.setFillColor(30, 64, 175);
+  pdf.rect(x, y + 3, CARD_WIDTH, 8, "F");
+  pdf.setTextColor(255);
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(9);
+  pdf.text("CARNET ESTUDIANTIL", x + 4, y + 8.5);
+  pdf.text(yearName, x + CARD_WIDTH - 4, y + 8.5, { align: "right" });
+
+  const photoX = x + 4;
+  const photoY = y + 14;
+  if (photo) {
+    pdf.addImage(photo, "JPEG", photoX, photoY, 22, 28);
+  } else {
+    pdf.setDrawColor(200);
+    pdf.rect(photoX, photoY, 22, 28);
+    pdf.setTextColor(150);
+    pdf.setFont("helvetica", "normal");
+    pdf.setFontSize(6);
+    pdf.text("Sin foto", photoX + 11, photoY + 15, { align: "center" });
+  }
+
+  const textX = x + 29;
+  const textWidth = 30;
+  pdf.setTextColor(20);
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(9);
+  const nameLines = pdf.splitTextToSize(`${student.first_name} ${student.last_name}`, textWidth).slice(0, 3);
+  pdf.text(nameLines, textX, y + 17);
+
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(7);
+  const detailsY = y + 17 + nameLines.length * 4 + 2;
+  pdf.text(`DNI: ${student.id_number}`, textX, detailsY);
+  pdf.text(
+    pdf.splitTextToSize(`${student.grade_level}${student.section_name ? ` ${student.section_name}` : ""}`, textWidth),
+    textX,
+    detailsY + 4
+  );
+
+  pdf.addImage(qrCode, "PNG", x + CARD_WIDTH - 25, y + 16, 22, 22);
+  pdf.setFontSize(5);
+  pdf.setTextColor(120);
+  pdf.text(student.id, x + CARD_WIDTH / 2, y + CARD_HEIGHT - 3, { align: "center" });
+};
+
+export const generateIdCardsPdf = async (students: IdCardStudent[], yearName: string, fileName: string) => {
+  const photoPaths = await loadPhotoPaths(students.map((s) => s.id));
+  const pdf = new jsPDF({ unit: "mm", format: "a4" });
+  const marginX = (pdf.internal.pageSize.getWidth() - COLUMNS * CARD_WIDTH - (COLUMNS - 1) * GAP_X) / 2;
+  const marginY = (pdf.internal.pageSize.getHeight() - ROWS * CARD_HEIGHT - (ROWS - 1) * GAP_Y) / 2;
+
+  for (const [index, student] of students.entries()) {
+    const slot = index % (COLUMNS * ROWS);
+    if (index > 0 && slot === 0) pdf.addPage();
+
+    const [photo, qrCode] = await Promise.all([
+      loadPhoto(photoPaths[student.id]),
+      QRCode.toDataURL(student.id, { margin: 1, width: 256 }),
+    ]);
+    drawCard(
+      pdf,
+      marginX + (slot % COLUMNS) * (CARD_WIDTH + GAP_X),
+      marginY + Math.floor(slot / COLUMNS) * (CARD_HEIGHT + GAP_Y),
+      student,
+      yearName,
+      photo,
+      qrCode
+    );
+  }
+
+  pdf.save(fileName);
+};
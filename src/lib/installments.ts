@@ -0,0 +1,114 @@
+import { z } from "zod";
+
+export const INSTALLMENT_STATUSES = ["paid", "partial", "overdue", "pending"] as const;
+
+export type InstallmentStatus = (typeof INSTALLMENT_STATUSES)[number];
+
+export const installmentStatusLabels: Record<InstallmentStatus, string> = {
+  paid: "Pagada",
+  partial: "Pago parcial",
+  overdue: "Vencida",
+  pending: "Pendiente",
+};
+
+export const getInstallmentStatusLabel = (status: string) =>
+  installmentStatusLabels[status as InstallmentStatus] || status;
+
+export const getInstallmentStatusColor = (status: string) => {
+  switch (status) {
+    case "paid":
+      return "bg-success text-success-foreground";
+    case "partial":
+      return "bg-warning text-warning-foreground";
+    case "overdue":
+      return "bg-destructive text-destructive-foreground";
+    default:
+      return "bg-secondary text-secondary-foreground";
+  }
+};
+
+// One row of the installment_schedule view
+export interface ScheduledInstallment {
+  id: string | null;
+  student_id: string;
+  sequence: number;
+  label: string;
+  due_date: string;
+  amount: number;
+  paid_amount: number;
+  balance: number;
+  status: string;
+  discount_amount: number;
+}
+
+export type AccountStatus = "paid" | "overdue" | "current";
+
+export const accountStatusLabels: Record<AccountStatus, string> = {
+  paid: "Pagado",
+  overdue: "Atrasado",
+  current: "Al día",
+};
+
+export const getAccountStatusColor = (status: AccountStatus) =>
+  status === "paid"
+    ? "bg-success text-success-foreground"
+    : status === "overdue"
+    ? "bg-destructive text-destructive-foreground"
+    : "bg-info text-info-foreground";
+
+// Also accepts charge_balances rows, which share the same status values
+export const summarizeInstallments = <T extends Pick<ScheduledInstallment, "status" | "balance">>(installments: T[]) => {
+  const overdue = installments.filter((i) => i.status === "overdue");
+  const nextDue = installments.find((i) => i.status !== "paid") || null;
+  const status: AccountStatus =
+    overdue.length > 0 ? "overdue" : installments.every((i) => i.status === "paid") ? "paid" : "current";
+
+  return {
+    status,
+    overdueCount: overdue.length,
+    overdueAmount: overdue.reduce((sum, i) => sum + Number(i.balance), 0),
+    nextDue,
+  };
+};
+
+export const feePlanSchema = z.object({
+  name: z.string().trim().min(2, "El nombre debe tener al menos 2 caracteres"),
+  installments: z
+    .array(
+      z.object({
+        label: z.string().trim().min(1, "Cada cuota necesita un nombre"),
+        dueDate: z.string().min(1, "Cada cuota necesita una fecha de vencimiento"),
+        amount: z
+          .number({ invalid_type_error: "Ingrese un monto válido" })
+          .positive("El monto de cada cuota debe ser mayor a 0"),
+      })
+    )
+    .min(1, "Agregue al menos una cuota"),
+});
+
+export type FeePlanInstallmentInput = z.infer<typeof feePlanSchema>["installments"][number];
+
+const addMonths = (isoDate: string, months: number) => {
+  const [year, month, day] = isoDate.split("-").map(Number);
+  // Day 31 in a 30-day month falls back to the last day of that month
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay))).toISOString().split("T")[0];
+};
+
+// Enrollment fee plus equal monthly installments, e.g. 1 + 10 for a school year
+export const buildMonthlyInstallments = (options: {
+  enrollmentAmount: number;
+  enrollmentDueDate: string;
+  monthlyAmount: number;
+  months: number;
+  firstDueDate: string;
+}): FeePlanInstallmentInput[] => [
+  ...(options.enrollmentAmount > 0
+    ? [{ label: "Matrícula", dueDate: options.enrollmentDueDate, amount: options.enrollmentAmount }]
+    : []),
+  ...Array.from({ length: options.months }, (_, index) => ({
+    label: `Cuota ${index + 1}`,
+    dueDate: addMonths(options.firstDueDate, index),
+    amount: options.monthlyAmount,
+  })),
+];
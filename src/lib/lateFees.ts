@@ -0,0 +1,55 @@
+import { z } from "zod";
+import { DISCOUNT_VALUE_TYPES } from "@/lib/discounts";
+
+export interface LateFeeRule {
+  id: string;
+  name: string;
+  fee_concept_id: string | null;
+  surcharge_concept_id: string;
+  value_type: string;
+  value: number;
+  grace_days: number;
+  max_amount: number | null;
+  max_total: number | null;
+  is_active: boolean;
+}
+
+export const formatLateFeeCaps = (rule: Pick<LateFeeRule, "max_amount" | "max_total">) => {
+  const caps = [
+    rule.max_amount !== null && `Máx. $${Number(rule.max_amount).toFixed(2)} por recargo`,
+    rule.max_total !== null && `Máx. $${Number(rule.max_total).toFixed(2)} por año`,
+  ].filter(Boolean);
+  return caps.length > 0 ? caps.join(" · ") : "Sin tope";
+};
+
+export const lateFeeRuleSchema = z
+  .object({
+    name: z.string().trim().min(2, "El nombre debe tener al menos 2 caracteres"),
+    feeConceptId: z.string().nullable(),
+    surchargeConceptId: z.string().min(1, "Seleccione el concepto del recargo"),
+    valueType: z.enum(DISCOUNT_VALUE_TYPES),
+    value: z.number({ invalid_type_error: "Ingrese un valor válido" }).positive("El valor debe ser mayor a 0"),
+    graceDays: z.number({ invalid_type_error: "Ingrese los días de gracia" }).int().min(0, "Los días de gracia no pueden ser negativos"),
+    maxAmount: z.number().positive("El tope debe ser mayor a 0").nullable(),
+    maxTotal: z.number().positive("El tope debe ser mayor a 0").nullable(),
+  })
+  .refine((rule) => rule.valueType !== "percentage" || rule.value <= 100, {
+    message: "El porcentaje no puede superar 100",
+  })
+  .refine((rule) => rule.feeConceptId !== rule.surchargeConceptId, {
+    message: "El recargo debe cobrarse con un concepto distinto al que se recarga",
+  });
+
+export const waiveLateFeeSchema = z.object({
+  reason: z.string().trim().min(3, "Indique el motivo de la condonación"),
+});
+
+// Row of student_charges for a waived surcharge
+export interface WaivedLateFee {
+  id: string;
+  description: string | null;
+  amount: number;
+  waived_at: string;
+  waive_reason: string;
+  fee_concepts: { name: string };
+}
@@ -0,0 +1,69 @@
+import { z } from "zod";
+
+export const PAYMENT_METHODS = ["cash", "transfer", "card", "check", "mobile_wallet"] as const;
+
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number];
+
+export const paymentMethodLabels: Record<PaymentMethod, string> = {
+  cash: "Efectivo",
+  transfer: "Transferencia",
+  card: "Tarjeta",
+  check: "Cheque",
+  mobile_wallet: "Billetera móvil",
+};
+
+// Payments recorded before methods were tracked have none
+export const getPaymentMethodLabel = (method: string | null) =>
+  method ? paymentMethodLabels[method as PaymentMethod] || method : "No especificado";
+
+// Same rule as record_payment in the database
+export const requiresPaymentReference = (method: string) => method === "transfer" || method === "check";
+
+export interface PaymentMovement {
+  id: string;
+  amount: number;
+  status: string;
+  refund_of: string | null;
+}
+
+// Voided movements stay on record but never count toward what was paid
+export const isCountedPayment = (payment: Pick<PaymentMovement, "status">) => payment.status !== "voided";
+
+// Refunds are negative, so they lower the total on their own
+export const sumPayments = (payments: Pick<PaymentMovement, "amount" | "status">[]) =>
+  payments.filter(isCountedPayment).reduce((sum, payment) => sum + Number(payment.amount), 0);
+
+// Same rule as payment_refundable_amount in the database
+export const getRefundableAmount = (payment: PaymentMovement, payments: PaymentMovement[]) =>
+  Number(payment.amount) +
+  sumPayments(payments.filter((movement) => movement.refund_of === payment.id));
+
+export const PAYMENT_ADJUSTMENT_ACTIONS = ["edit", "void", "refund"] as const;
+
+export type PaymentAdjustmentAction = (typeof PAYMENT_ADJUSTMENT_ACTIONS)[number];
+
+export const paymentAdjustmentLabels: Record<PaymentAdjustmentAction, string> = {
+  edit: "Corregir pago",
+  void: "Anular pago",
+  refund: "Reembolsar pago",
+};
+
+const reason = z.string().trim().min(3, "El motivo debe tener al menos 3 caracteres");
+const amount = z.number({ invalid_type_error: "Ingrese un monto válido" }).positive("El monto debe ser mayor a 0");
+const paymentDate = z.string().min(1, "La fecha es requerida");
+
+export const editPaymentSchema = z.object({
+  amount,
+  paymentDate,
+  notes: z.string().trim(),
+  reason,
+});
+
+export const voidPaymentSchema = z.object({ reason });
+
+export const buildRefundPaymentSchema = (refundable: number) =>
+  z.object({
+    amount: amount.max(refundable, `El reembolso no puede superar $${refundable.toFixed(2)}`),
+    paymentDate,
+    reason,
+  });
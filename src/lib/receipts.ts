@@ -0,0 +1,321 @@
+import { jsPDF } from "jspdf";
+import { supabase } from "@/integrations/supabase/client";
+import { getPaymentMethodLabel } from "@/lib/payments";
+import { TUITION_CONCEPT_NAME, getTuitionPortion } from "@/lib/charges";
+
+export interface SchoolSettings {
+  name: string;
+  address: string | null;
+  phone: string | null;
+  email: string | null;
+  tax_id: string | null;
+}
+
+export interface PaymentReceipt {
+  school: SchoolSettings;
+  receiptNumber: number;
+  paymentDate: string;
+  amount: number;
+  status: string;
+  isRefund: boolean;
+  notes: string | null;
+  concepts: { name: string; amount: number }[];
+  method: string | null;
+  studentName: string;
+  studentIdNumber: string;
+  yearName: string;
+  payerName: string | null;
+  payerIdNumber: string | null;
+  balanceAfter: number;
+  cashierName: string | null;
+}
+
+export const formatReceiptNumber = (receiptNumber: number) => String(receiptNumber).padStart(6, "0");
+
+const UNITS = ["", "uno", "dos", "tres", "cuatro", "cinco", "seis", "siete", "ocho", "nueve"];
+const TEENS = [
+  "diez", "once", "doce", "trece", "catorce", "quince", "dieciséis", "diecisiete", "dieciocho", "diecinueve",
+  "veinte", "veintiuno", "veintidós", "veintitrés", "veinticuatro", "veinticinco", "veintiséis", "veintisiete",
+  "veintiocho", "veintinueve",
+];
+const TENS = ["", "", "", "treinta", "cuarenta", "cincuenta", "sesenta", "setenta", "ochenta", "noventa"];
+const HUNDREDS = [
+  "", "ciento", "doscientos", "trescientos", "cuatrocientos", "quinientos", "seiscientos", "setecientos",
+  "ochocientos", "novecientos",
+];
+
+const hundredsToWords = (value: number): string => {
+  if (value === 100) return "cien";
+
+  const hundreds = Math.floor(value / 100);
+  const rest = value % 100;
+  let words = HUNDREDS[hundreds];
+
+  if (rest >= 30) {
+    words += ` ${TENS[Math.floor(rest / 10)]}${rest % 10 ? ` y ${UNITS[rest % 10]}` : ""}`;
+  } else if (rest >= 10) {
+    words += ` ${TEENS[rest - 10]}`;
+  } else if (rest > 0) {
+    words += ` ${UNITS[rest]}`;
+  }
+  return words.trim();
+};
+
+// "uno" shortens before "mil" and "millones": veintiún mil, un millón
+const apocope = (words: string) => words.replace(/veintiuno$/, "veintiún").replace(/uno$/, "un");
+
+const integerToWords = (value: number): string => {
+  if (value === 0) return "cero";
+
+  const millions = Math.floor(value / 1_000_000);
+  const thousands = Math.floor((value % 1_000_000) / 1000);
+  const rest = value % 1000;
+  const parts: string[] = [];
+
+  if (millions === 1) parts.push("un millón");
+  else if (millions > 1) parts.push(`${apocope(integerToWords(millions))} millones`);
+
+  if (thousands === 1) parts.push("mil");
+  else if (thousands > 1) parts.push(`${apocope(hundredsToWords(thousands))} mil`);
+
+  if (rest > 0) parts.push(hundredsToWords(rest));
+  return parts.join(" ");
+};
+
+// Check-style amount: "mil doscientos treinta y cuatro con 50/100"
+export const amountToWords = (amount: number) => {
+  const cents = Math.round(Math.abs(amount) * 100);
+  const words = integerToWords(Math.floor(cents / 100));
+  return `${words} con ${String(cents % 100).padStart(2, "0")}/100`;
+};
+
+export const loadSchoolSettings = async () => {
+  const { data, error } = await supabase
+    .from("school_settings")
+    .select("name, address, phone, email, tax_id")
+    .single();
+
+  if (error) throw error;
+  return data as SchoolSettings;
+};
+
+// Same cap as item_discounts, counting only the items and approved discounts on record back then
+const loadDiscountsAsOf = async (
+  enrollmentId: string,
+  charges: { id: string }[],
+  happenedBy: (timestamp: string | null) => boolean
+) => {
+  const [itemsRes, linesRes, studentDiscountsRes] = await Promise.all([
+    supabase.from("billable_items").select("item_key, charge_id, amount").eq("enrollment_id", enrollmentId),
+    supabase.from("discount_lines").select("item_key, student_discount_id, amount").eq("enrollment_id", enrollmentId),
+    supabase.from("student_discounts").select("id, reviewed_at").eq("enrollment_id", enrollmentId),
+  ]);
+
+  if (itemsRes.error) throw itemsRes.error;
+  if (linesRes.error) throw linesRes.error;
+  if (studentDiscountsRes.error) throw studentDiscountsRes.error;
+
+  const chargeIds = new Set(charges.map((charge) => charge.id));
+  const approvedIds = new Set(
+    (studentDiscountsRes.data || []).filter((discount) => happenedBy(discount.reviewed_at)).map((discount) => discount.id)
+  );
+
+  return (itemsRes.data || [])
+    .filter((item) => item.charge_id === null || chargeIds.has(item.charge_id))
+    .reduce((total, item) => {
+      const discounted = (linesRes.data || [])
+        .filter(
+          (line) =>
+            line.item_key === item.item_key &&
+            (line.student_discount_id === null || approvedIds.has(line.student_discount_id))
+        )
+        .reduce((sum, line) => sum + Number(line.amount), 0);
+      return total + Math.min(Number(item.amount), discounted);
+    }, 0);
+};
+
+// Payments recorded before the balance was stored get it rebuilt as it stood back then: later
+// payments, charges, waivers, voids and discount approvals are left out
+const loadBalanceAsOf = async (payment: {
+  student_id: string;
+  academic_year_id: string;
+  payment_date: string;
+  created_at: string;
+}) => {
+  const recordedAt = new Date(payment.created_at);
+  const happenedBy = (timestamp: string | null) => timestamp !== null && new Date(timestamp) <= recordedAt;
+
+  const [enrollmentRes, movementsRes] = await Promise.all([
+    supabase
+      .from("enrollments")
+      .select("id, total_tuition, student_charges(id, amount, created_at, waived_at)")
+      .eq("student_id", payment.student_id)
+      .eq("academic_year_id", payment.academic_year_id)
+      .maybeSingle(),
+    supabase
+      .from("payments")
+      .select("amount, voided_at")
+      .eq("student_id", payment.student_id)
+      .eq("academic_year_id", payment.academic_year_id)
+      .lte("payment_date", payment.payment_date)
+      .lte("created_at", payment.created_at),
+  ]);
+
+  if (enrollmentRes.error) throw enrollmentRes.error;
+  if (movementsRes.error) throw movementsRes.error;
+
+  const enrollment = enrollmentRes.data;
+  const paidSoFar = (movementsRes.data || [])
+    .filter((movement) => !happenedBy(movement.voided_at))
+    .reduce((sum, movement) => sum + Number(movement.amount), 0);
+  const charges = (enrollment?.student_charges || []).filter(
+    (charge) => happenedBy(charge.created_at) && !happenedBy(charge.waived_at)
+  );
+  const totalCharges = charges.reduce((sum, charge) => sum + Number(charge.amount), 0);
+  const totalDiscounts = enrollment ? await loadDiscountsAsOf(enrollment.id, charges, happenedBy) : 0;
+  return Number(enrollment?.total_tuition || 0) + totalCharges - totalDiscounts - paidSoFar;
+};
+
+export const loadPaymentReceipt = async (paymentId: string): Promise<PaymentReceipt> => {
+  const { data: payment, error } = await supabase
+    .from("payments")
+    .select("*, students(first_name, last_name, id_number, family_id), academic_years(name)")
+    .eq("id", paymentId)
+    .single();
+
+  if (error) throw error;
+
+  const [school, balanceAfter, allocationsRes, payerRes] = await Promise.all([
+    loadSchoolSettings(),
+    payment.balance_after !== null ? Number(payment.balance_after) : loadBalanceAsOf(payment),
+    supabase
+      .from("payment_allocations")
+      .select("charge_id, amount, student_charges(description, fee_concepts(name))")
+      .eq("payment_id", paymentId),
+    // The family member responsible for payments, falling back to the primary contact,
+    // unless someone else paid and was recorded on the payment
+    payment.students.family_id
+      ? supabase
+          .from("parents")
+          .select("full_name, id_number")
+          .eq("family_id", payment.students.family_id)
+          .order("is_financially_responsible", { ascending: false })
+          .order("is_primary_contact", { ascending: false })
+          .limit(1)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+
+  if (allocationsRes.error) throw allocationsRes.error;
+  if (payerRes.error) throw payerRes.error;
+
+  const allocations = allocationsRes.data || [];
+  const tuitionPortion = getTuitionPortion(Number(payment.amount), allocations);
+  const concepts = [
+    ...allocations.map((allocation) => ({
+      name: [allocation.student_charges.fee_concepts.name, allocation.student_charges.description]
+        .filter(Boolean)
+        .join(" · "),
+      amount: Number(allocation.amount),
+    })),
+    ...(tuitionPortion !== 0 ? [{ name: TUITION_CONCEPT_NAME, amount: tuitionPortion }] : []),
+  ];
+  const payer = payerRes.data?.[0];
+
+  return {
+    school,
+    receiptNumber: payment.receipt_number,
+    paymentDate: payment.payment_date,
+    amount: Number(payment.amount),
+    status: payment.status,
+    isRefund: payment.refund_of !== null,
+    notes: payment.notes,
+    concepts,
+    method: payment.method && [getPaymentMethodLabel(payment.method), payment.reference && `Ref. ${payment.reference}`]
+      .filter(Boolean)
+      .join(" · "),
+    studentName: `${payment.students.first_name} ${payment.students.last_name}`,
+    studentIdNumber: payment.students.id_number,
+    yearName: payment.academic_years.name,
+    payerName: payment.payer_name || payer?.full_name || null,
+    payerIdNumber: payment.payer_name ? payment.payer_id_number : payer?.id_number || null,
+    balanceAfter,
+    cashierName: payment.cashier_name,
+  };
+};
+
+// A5 portrait: half an A4 sheet, the usual receipt book size
+export const generateReceiptPdf = (receipt: PaymentReceipt) => {
+  const pdf = new jsPDF({ unit: "mm", format: "a5" });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const margin = 12;
+  const { school } = receipt;
+
+  pdf.setTextColor(20);
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(14);
+  const nameLines = pdf.splitTextToSize(school.name, 75).slice(0, 2);
+  pdf.text(nameLines, margin, 18);
+
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(8);
+  const schoolLines = [
+    school.address,
+    [school.phone, school.email].filter(Boolean).join(" · "),
+    school.tax_id && `RUC: ${school.tax_id}`,
+  ].filter(Boolean) as string[];
+  pdf.text(schoolLines, margin, 17 + nameLines.length * 6);
+
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(11);
+  pdf.text(receipt.isRefund ? "COMPROBANTE DE REEMBOLSO" : "RECIBO DE PAGO", pageWidth - margin, 18, { align: "right" });
+  pdf.setFontSize(10);
+  pdf.text(`N° ${formatReceiptNumber(receipt.receiptNumber)}`, pageWidth - margin, 24, { align: "right" });
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(8);
+  pdf.text(new Date(receipt.paymentDate).toLocaleDateString(), pageWidth - margin, 29, { align: "right" });
+
+  pdf.setDrawColor(180);
+  pdf.setLineWidth(0.3);
+  pdf.line(margin, 40, pageWidth - margin, 40);
+
+  const rows: [string, string][] = [
+    ["Estudiante", `${receipt.studentName} (DNI ${receipt.studentIdNumber})`],
+    ["Año académico", receipt.yearName],
+    [
+      receipt.isRefund ? "Entregado a" : "Recibido de",
+      receipt.payerName ? `${receipt.payerName}${receipt.payerIdNumber ? ` (DNI ${receipt.payerIdNumber})` : ""}` : "-",
+    ],
+    ["Monto", `$${Math.abs(receipt.amount).toFixed(2)}`],
+    ["Son", amountToWords(receipt.amount)],
+    ["Método de pago", receipt.method || "No especificado"],
+    [
+      "Concepto",
+      receipt.concepts.map((concept) => `${concept.name}: $${Math.abs(concept.amount).toFixed(2)}`).join("\n") || "-",
+    ],
+    ...(receipt.notes ? [["Notas", receipt.notes] as [string, string]] : []),
+    ["Saldo después del pago", `$${receipt.balanceAfter.toFixed(2)}`],
+    ["Cajero", receipt.cashierName || "-"],
+  ];
+
+  let y = 48;
+  rows.forEach(([label, value]) => {
+    pdf.setFont("helvetica", "bold");
+    pdf.text(`${label}:`, margin, y);
+    pdf.setFont("helvetica", "normal");
+    const lines = pdf.splitTextToSize(value, pageWidth - margin * 2 - 42);
+    pdf.text(lines, margin + 42, y);
+    y += Math.max(lines.length, 1) * 4 + 3;
+  });
+
+  pdf.line(pageWidth / 2 - 30, y + 22, pageWidth / 2 + 30, y + 22);
+  pdf.text("Firma y sello", pageWidth / 2, y + 26, { align: "center" });
+
+  if (receipt.status === "voided") {
+    pdf.setTextColor(220, 38, 38);
+    pdf.setFont("helvetica", "bold");
+    pdf.setFontSize(48);
+    pdf.text("ANULADO", pageWidth / 2, 110, { align: "center", angle: 30 });
+  }
+
+  pdf.save(`recibo_${formatReceiptNumber(receipt.receiptNumber)}.pdf`);
+};
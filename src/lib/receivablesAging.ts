@@ -0,0 +1,135 @@
+import * as XLSX from "xlsx";
+import { jsPDF } from "jspdf";
+import { SchoolSettings } from "@/lib/receipts";
+
+export const AGING_GROUPS = ["student", "family", "grade_level"] as const;
+
+export type AgingGroup = (typeof AGING_GROUPS)[number];
+
+export const agingGroupLabels: Record<AgingGroup, string> = {
+  student: "Estudiante",
+  family: "Familia",
+  grade_level: "Grado",
+};
+
+export const AGING_BUCKETS = [
+  { key: "current_amount", label: "Al día" },
+  { key: "days_1_30", label: "1-30 días" },
+  { key: "days_31_60", label: "31-60 días" },
+  { key: "days_61_90", label: "61-90 días" },
+  { key: "days_over_90", label: "Más de 90 días" },
+] as const;
+
+export type AgingBucket = (typeof AGING_BUCKETS)[number]["key"];
+
+// One row of receivables_aging_summary
+export interface AgingRow extends Record<AgingBucket, number> {
+  group_id: string | null;
+  group_name: string;
+  is_family: boolean;
+  students: number;
+  total: number;
+}
+
+export const sumAgingRows = (rows: AgingRow[]) => {
+  const totals: Record<AgingBucket | "total", number> = {
+    current_amount: 0,
+    days_1_30: 0,
+    days_31_60: 0,
+    days_61_90: 0,
+    days_over_90: 0,
+    total: 0,
+  };
+  rows.forEach((row) => {
+    AGING_BUCKETS.forEach((bucket) => (totals[bucket.key] += Number(row[bucket.key])));
+    totals.total += Number(row.total);
+  });
+  return totals;
+};
+
+export const exportAgingSpreadsheet = (rows: AgingRow[], group: AgingGroup, fileName: string) => {
+  const toSheetRow = (name: string, students: number | string, row: Record<AgingBucket | "total", number>) => ({
+    [agingGroupLabels[group]]: name,
+    ...(group === "student" ? {} : { Estudiantes: students }),
+    ...Object.fromEntries(AGING_BUCKETS.map((bucket) => [bucket.label, Number(row[bucket.key])])),
+    Total: Number(row.total),
+  });
+
+  const sheet = XLSX.utils.json_to_sheet([
+    ...rows.map((row) => toSheetRow(row.group_name, row.students, row)),
+    toSheetRow("Total", rows.reduce((sum, row) => sum + row.students, 0), sumAgingRows(rows)),
+  ]);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, "Antigüedad de saldos");
+  XLSX.writeFile(workbook, fileName);
+};
+
+// A4 landscape so the five buckets fit next to the name
+export const generateAgingPdf = (
+  rows: AgingRow[],
+  group: AgingGroup,
+  school: SchoolSettings,
+  yearName: string,
+  fileName: string
+) => {
+  const pdf = new jsPDF({ unit: "mm", format: "a4", orientation: "landscape" });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margin = 15;
+  const nameWidth = 80;
+  const amountWidth = (pageWidth - margin * 2 - nameWidth) / (AGING_BUCKETS.length + 1);
+  const amountColumn = (index: number) => margin + nameWidth + amountWidth * (index + 1);
+  let y = 20;
+
+  const printHeader = () => {
+    pdf.setFont("helvetica", "bold");
+    pdf.setFontSize(8);
+    pdf.text(agingGroupLabels[group], margin, y);
+    [...AGING_BUCKETS.map((bucket) => bucket.label), "Total"].forEach((label, index) =>
+      pdf.text(label, amountColumn(index), y, { align: "right" })
+    );
+    y += 2;
+    pdf.setDrawColor(180);
+    pdf.line(margin, y, pageWidth - margin, y);
+    y += 4;
+    pdf.setFont("helvetica", "normal");
+  };
+
+  const printRow = (name: string, row: Record<AgingBucket | "total", number>) => {
+    if (y > pageHeight - margin) {
+      pdf.addPage();
+      y = 20;
+      printHeader();
+    }
+    pdf.text(pdf.splitTextToSize(name, nameWidth - 4)[0], margin, y);
+    [...AGING_BUCKETS.map((bucket) => row[bucket.key]), row.total].forEach((amount, index) =>
+      pdf.text(`$${Number(amount).toFixed(2)}`, amountColumn(index), y, { align: "right" })
+    );
+    y += 5;
+  };
+
+  pdf.setTextColor(20);
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(14);
+  pdf.text(school.name, margin, y);
+  pdf.setFontSize(11);
+  pdf.text("ANTIGÜEDAD DE SALDOS", pageWidth - margin, y, { align: "right" });
+  y += 6;
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(9);
+  pdf.text(
+    `Año académico ${yearName} · por ${agingGroupLabels[group].toLowerCase()} · al ${new Date().toLocaleDateString()}`,
+    margin,
+    y
+  );
+  y += 10;
+
+  printHeader();
+  rows.forEach((row) => printRow(row.group_name, row));
+  pdf.line(margin, y - 3, pageWidth - margin, y - 3);
+  y += 1;
+  pdf.setFont("helvetica", "bold");
+  printRow("Total", sumAgingRows(rows));
+
+  pdf.save(fileName);
+};
@@ -0,0 +1,26 @@
+export const USER_ROLES = ["admin", "nurse", "staff"] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+export const userRoleLabels: Record<UserRole, string> = {
+  admin: "Administrador",
+  nurse: "Enfermería",
+  staff: "Personal",
+};
+
+export const getUserRoleLabel = (role: string) => userRoleLabels[role as UserRole] || role;
+
+// Must match the roles allowed by the RLS policies on the medical tables
+export const canViewMedicalInfo = (role: string | null) => role === "admin" || role === "nurse";
+
+// Must match merge_students in the database
+export const canMergeStudents = (role: string | null) => role === "admin";
+
+// Must match review_student_discount in the database
+export const canApproveDiscounts = (role: string | null) => role === "admin";
+
+// Must match apply_late_fees and waive_late_fee in the database
+export const canManageLateFees = (role: string | null) => role === "admin";
+
+// Must match reopen_cash_session in the database
+export const canReopenCashSessions = (role: string | null) => role === "admin";
@@ -0,0 +1,66 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export const STUDENT_DOCUMENTS_BUCKET = "student-documents";
+
+export interface FileStorage {
+  upload: (path: string, file: File) => Promise<void>;
+  getUrl: (path: string) => Promise<string>;
+  remove: (path: string) => Promise<void>;
+}
+
+const supabaseStorage: FileStorage = {
+  upload: async (path, file) => {
+    const { error } = await supabase.storage
+      .from(STUDENT_DOCUMENTS_BUCKET)
+      .upload(path, file, { contentType: file.type });
+    if (error) throw error;
+  },
+  getUrl: async (path) => {
+    const { data, error } = await supabase.storage.from(STUDENT_DOCUMENTS_BUCKET).createSignedUrl(path, 60 * 60);
+    if (error) throw error;
+    return data.signedUrl;
+  },
+  remove: async (path) => {
+    const { error } = await supabase.storage.from(STUDENT_DOCUMENTS_BUCKET).remove([path]);
+    if (error) throw error;
+  },
+};
+
+// Development stand-in that keeps files in the browser's IndexedDB
+const openLocalDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(STUDENT_DOCUMENTS_BUCKET, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore("files");
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runLocal = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const database = await openLocalDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(database.transaction("files", mode).objectStore("files"));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const localStorageDriver: FileStorage = {
+  upload: async (path, file) => {
+    await runLocal("readwrite", (store) => store.put(file, path));
+  },
+  getUrl: async (path) => {
+    const file = await runLocal<Blob | undefined>("readonly", (store) => store.get(path));
+    if (!file) throw new Error("Archivo no encontrado en el almacenamiento local");
+    return URL.createObjectURL(file);
+  },
+  remove: async (path) => {
+    await runLocal("readwrite", (store) => store.delete(path));
+  },
+};
+
+// Set VITE_STORAGE_DRIVER=local to work without the Supabase bucket
+export const fileStorage: FileStorage =
+  import.meta.env.VITE_STORAGE_DRIVER === "local" ? localStorageDriver : supabaseStorage;
+
+export const buildStudentFilePath = (studentId: string, fileName: string) =>
+  `${studentId}/${crypto.randomUUID()}-${fileName.replace(/[^a-zA-Z0-9._-]+/g, "_")}`;
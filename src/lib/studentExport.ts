@@ -0,0 +1,65 @@
+import * as XLSX from "xlsx";
+import { CustomField, CustomFieldValues, formatCustomFieldValue } from "@/lib/customFields";
+import { getStudentStatusLabel } from "@/lib/studentStatus";
+
+export interface ExportStudent {
+  first_name: string;
+  last_name: string;
+  id_number: string;
+  date_of_birth: string;
+  grade_level: string;
+  section_name: string | null;
+  status: string;
+  total_tuition: number;
+  total_paid: number;
+  balance: number;
+  guardian_names: string | null;
+  family_id: string | null;
+  custom_fields: CustomFieldValues;
+}
+
+// Custom values of each family's primary contact, keyed by family id
+export type PrimaryGuardianFields = Record<string, CustomFieldValues>;
+
+// Numbers and ISO dates stay raw so spreadsheets can sort and sum them
+const exportValue = (field: CustomField, value: unknown) => {
+  if (field.field_type === "checkbox") return formatCustomFieldValue(field, value);
+  if (value === null || value === undefined) return "";
+  return value as string | number;
+};
+
+export const exportStudentsSpreadsheet = (
+  students: ExportStudent[],
+  studentFields: CustomField[],
+  guardianFields: CustomField[],
+  primaryGuardianFields: PrimaryGuardianFields,
+  fileName: string
+) => {
+  const rows = students.map((student) => {
+    const guardianValues = (student.family_id && primaryGuardianFields[student.family_id]) || {};
+    return {
+      Apellido: student.last_name,
+      Nombre: student.first_name,
+      DNI: student.id_number,
+      "Fecha de nacimiento": student.date_of_birth,
+      Grado: student.grade_level,
+      Sección: student.section_name || "",
+      Estado: getStudentStatusLabel(student.status),
+      Matrícula: Number(student.total_tuition),
+      Pagado: Number(student.total_paid),
+      Saldo: Number(student.balance),
+      Apoderados: student.guardian_names || "",
+      ...Object.fromEntries(
+        studentFields.map((field) => [field.label, exportValue(field, student.custom_fields?.[field.key])])
+      ),
+      ...Object.fromEntries(
+        guardianFields.map((field) => [`Apoderado principal: ${field.label}`, exportValue(field, guardianValues[field.key])])
+      ),
+    };
+  });
+
+  const sheet = XLSX.utils.json_to_sheet(rows);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, "Estudiantes");
+  XLSX.writeFile(workbook, fileName);
+};
@@ -0,0 +1,98 @@
+import * as XLSX from "xlsx";
+import { GUARDIAN_RELATIONSHIPS, GuardianRelationship, guardianRelationshipLabels } from "@/lib/guardians";
+
+export const IMPORT_FIELDS = [
+  { key: "firstName", label: "Nombre", required: true, aliases: ["nombres", "first name"] },
+  { key: "lastName", label: "Apellido", required: true, aliases: ["apellidos", "last name"] },
+  { key: "idNumber", label: "DNI", required: true, aliases: ["dni estudiante", "id number", "documento"] },
+  { key: "dateOfBirth", label: "Fecha de nacimiento", required: true, aliases: ["nacimiento", "date of birth"] },
+  { key: "gradeLevel", label: "Grado", required: true, aliases: ["grado nivel", "nivel", "grade level"] },
+  { key: "section", label: "Sección", required: false, aliases: ["seccion", "paralelo"] },
+  { key: "totalTuition", label: "Matrícula", required: true, aliases: ["matricula total", "total tuition"] },
+  { key: "guardianName", label: "Apoderado", required: true, aliases: ["nombre apoderado", "padre", "parent name"] },
+  { key: "guardianIdNumber", label: "DNI apoderado", required: true, aliases: ["dni padre", "parent id number"] },
+  { key: "guardianPhone", label: "Celular", required: true, aliases: ["telefono", "celular apoderado", "phone"] },
+  { key: "guardianEmail", label: "Email", required: false, aliases: ["correo", "email apoderado"] },
+  { key: "guardianAddress", label: "Dirección", required: false, aliases: ["direccion", "address"] },
+  { key: "guardianRelationship", label: "Parentesco", required: false, aliases: ["relacion", "relationship"] },
+] as const;
+
+export type ImportFieldKey = (typeof IMPORT_FIELDS)[number]["key"];
+
+export type ImportMapping = Partial<Record<ImportFieldKey, string>>;
+
+export interface ParsedSheet {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+// Same rules as the normalize_grade_level database function
+export const normalizeKey = (value: string) =>
+  value
+    .trim()
+    .toLowerCase()
+    .replace(/[áéíóúüº°ª]/g, (char) => ({ á: "a", é: "e", í: "i", ó: "o", ú: "u", ü: "u", º: "o", "°": "o", ª: "a" })[char])
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+const toCellText = (value: unknown) => {
+  if (value instanceof Date) {
+    return value.toISOString().slice(0, 10);
+  }
+  return value === null || value === undefined ? "" : String(value).trim();
+};
+
+export const parseSpreadsheet = async (file: File): Promise<ParsedSheet> => {
+  const workbook = XLSX.read(await file.arrayBuffer(), { cellDates: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  const table = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: "", blankrows: false });
+  const [headerRow = [], ...dataRows] = table;
+  const headers = headerRow.map(toCellText);
+
+  return {
+    headers,
+    rows: dataRows.map((row) =>
+      Object.fromEntries(headers.map((header, index) => [header, toCellText(row[index])]))
+    ),
+  };
+};
+
+// Match file headers against field labels and their common spellings
+export const guessMapping = (headers: string[]): ImportMapping => {
+  const mapping: ImportMapping = {};
+  for (const field of IMPORT_FIELDS) {
+    const candidates = [field.label, ...field.aliases].map(normalizeKey);
+    const header = headers.find((h) => candidates.includes(normalizeKey(h)));
+    if (header) {
+      mapping[field.key] = header;
+    }
+  }
+  return mapping;
+};
+
+// Accepts ISO dates as well as dd/mm/yyyy and dd-mm-yyyy
+export const parseImportDate = (value: string) => {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+  const match = value.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+  if (!match) return "";
+  const [, day, month, year] = match;
+  return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+};
+
+export const parseRelationship = (value: string): GuardianRelationship | null => {
+  if (!value) return "tutor";
+  const key = normalizeKey(value);
+  const match = GUARDIAN_RELATIONSHIPS.find(
+    (relationship) => relationship === key || normalizeKey(guardianRelationshipLabels[relationship]) === key
+  );
+  if (match) return match;
+  if (key === "abuelo" || key === "abuela") return "grandparent";
+  return null;
+};
+
+export const downloadImportTemplate = () => {
+  const sheet = XLSX.utils.aoa_to_sheet([IMPORT_FIELDS.map((field) => field.label)]);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, "Estudiantes");
+  XLSX.writeFile(workbook, "plantilla_estudiantes.xlsx");
+};
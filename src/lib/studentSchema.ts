@@ -0,0 +1,21 @@
+import { z } from "zod";
+import { CustomField, buildCustomFieldsSchema } from "@/lib/customFields";
+import { buildGuardiansSchema } from "@/lib/guardians";
+
+export const buildStudentSchema = (studentFields: CustomField[] = [], guardianFields: CustomField[] = []) =>
+  z.object({
+    firstName: z.string().min(2, "El nombre debe tener al menos 2 caracteres"),
+    lastName: z.string().min(2, "El apellido debe tener al menos 2 caracteres"),
+    idNumber: z.string().min(5, "El número de identificación debe tener al menos 5 caracteres"),
+    dateOfBirth: z.string().min(1, "La fecha de nacimiento es requerida"),
+    gradeLevelId: z.string().min(1, "El grado es requerido"),
+    sectionId: z.string().optional(),
+    totalTuition: z.number().min(0, "La matrícula debe ser un valor positivo"),
+    customFields: buildCustomFieldsSchema(studentFields).default({}),
+    guardians: buildGuardiansSchema(guardianFields),
+  });
+
+// Without custom fields, as used by the spreadsheet import
+export const studentSchema = buildStudentSchema();
+
+export type StudentFormData = z.input<typeof studentSchema>;
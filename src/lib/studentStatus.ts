@@ -0,0 +1,44 @@
+export const STUDENT_STATUSES = ["active", "withdrawn", "graduated", "transferred"] as const;
+
+export type StudentStatus = (typeof STUDENT_STATUSES)[number];
+
+export const studentStatusLabels: Record<StudentStatus, string> = {
+  active: "Activo",
+  withdrawn: "Retirado",
+  graduated: "Graduado",
+  transferred: "Trasladado",
+};
+
+export const getStudentStatusColor = (status: string) => {
+  switch (status) {
+    case "active":
+      return "bg-success text-success-foreground";
+    case "withdrawn":
+      return "bg-destructive text-destructive-foreground";
+    case "graduated":
+      return "bg-info text-info-foreground";
+    case "transferred":
+      return "bg-warning text-warning-foreground";
+    default:
+      return "";
+  }
+};
+
+export const getStudentStatusLabel = (status: string) =>
+  studentStatusLabels[status as StudentStatus] || status;
+
+export const ENROLLMENT_STATUSES = ["enrolled", "promoted", "retained", "withdrawn", "graduated", "transferred"] as const;
+
+export type EnrollmentStatus = (typeof ENROLLMENT_STATUSES)[number];
+
+export const enrollmentStatusLabels: Record<EnrollmentStatus, string> = {
+  enrolled: "Inscrito",
+  promoted: "Promovido",
+  retained: "Repite",
+  withdrawn: "Retirado",
+  graduated: "Graduado",
+  transferred: "Trasladado",
+};
+
+export const getEnrollmentStatusLabel = (status: string) =>
+  enrollmentStatusLabels[status as EnrollmentStatus] || status;
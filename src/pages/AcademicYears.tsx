@@ -0,0 +1,249 @@
+import { useState } from "react";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import { useAcademicYear } from "@/hooks/use-academic-year";
+import { toast } from "sonner";
+import { Plus, Star } from "lucide-react";
+import { z } from "zod";
+
+const academicYearSchema = z
+  .object({
+    name: z.string().trim().min(4, "El nombre debe tener al menos 4 caracteres"),
+    startDate: z.string().min(1, "La fecha de inicio es requerida"),
+    endDate: z.string().min(1, "La fecha de fin es requerida"),
+    passingGrade: z.number().min(0, "La nota mínima debe ser un valor positivo"),
+    isCurrent: z.boolean(),
+  })
+  .refine((data) => data.endDate > data.startDate, {
+    message: "La fecha de fin debe ser posterior a la fecha de inicio",
+  });
+
+const emptyForm = {
+  name: "",
+  startDate: "",
+  endDate: "",
+  passingGrade: 11,
+  isCurrent: false,
+};
+
+const AcademicYears = () => {
+  const { years, loading, reloadYears } = useAcademicYear();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+
+  // Clear the previous current year first; a unique index allows only one
+  const markAsCurrent = async (yearId: string) => {
+    const { error: clearError } = await supabase
+      .from("academic_years")
+      .update({ is_current: false })
+      .neq("id", yearId);
+
+    if (clearError) throw clearError;
+
+    const { error } = await supabase
+      .from("academic_years")
+      .update({ is_current: true })
+      .eq("id", yearId);
+
+    if (error) throw error;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const validated = academicYearSchema.parse(formData);
+
+      const { data: year, error } = await supabase
+        .from("academic_years")
+        .insert({
+          name: validated.name,
+          start_date: validated.startDate,
+          end_date: validated.endDate,
+          passing_grade: validated.passingGrade,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      if (validated.isCurrent) {
+        await markAsCurrent(year.id);
+      }
+
+      toast.success("Año académico creado correctamente");
+      setIsDialogOpen(false);
+      setFormData(emptyForm);
+      reloadYears();
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error(error.message || "Error creating academic year");
+      }
+    }
+  };
+
+  const handleMarkAsCurrent = async (yearId: string) => {
+    try {
+      await markAsCurrent(yearId);
+      toast.success("Año académico actual actualizado");
+      reloadYears();
+    } catch (error: any) {
+      toast.error(error.message || "Error updating academic year");
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-4xl font-bold tracking-tight">Años académicos</h1>
+            <p className="text-muted-foreground mt-2">
+              Gestionar los años escolares y el año en curso
+            </p>
+          </div>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button size="lg">
+                <Plus className="mr-2 h-5 w-5" />
+                Nuevo año académico
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Nuevo año académico</DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="name">Nombre</Label>
+                  <Input
+                    id="name"
+                    placeholder="2026"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="startDate">Fecha de inicio</Label>
+                    <Input
+                      id="startDate"
+                      type="date"
+                      value={formData.startDate}
+                      onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="endDate">Fecha de fin</Label>
+                    <Input
+                      id="endDate"
+                      type="date"
+                      value={formData.endDate}
+                      onChange={(e) => setFormData({ ...formData, endDate: e.target.value })}
+                      required
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="passingGrade">Nota mínima de aprobación</Label>
+                  <Input
+                    id="passingGrade"
+                    type="number"
+                    step="0.01"
+                    value={formData.passingGrade}
+                    onChange={(e) => setFormData({ ...formData, passingGrade: parseFloat(e.target.value) })}
+                    required
+                  />
+                </div>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="isCurrent"
+                    checked={formData.isCurrent}
+                    onCheckedChange={(checked) => setFormData({ ...formData, isCurrent: checked === true })}
+                  />
+                  <Label htmlFor="isCurrent">Marcar como año actual</Label>
+                </div>
+
+                <div className="flex justify-end gap-3">
+                  <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit">Crear año</Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Años registrados</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="text-center py-8">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+              </div>
+            ) : years.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                Aún no hay años académicos registrados
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Nombre</TableHead>
+                    <TableHead>Inicio</TableHead>
+                    <TableHead>Fin</TableHead>
+                    <TableHead>Nota mínima</TableHead>
+                    <TableHead>Estado</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {years.map((year) => (
+                    <TableRow key={year.id}>
+                      <TableCell className="font-medium">{year.name}</TableCell>
+                      <TableCell>{new Date(year.start_date).toLocaleDateString()}</TableCell>
+                      <TableCell>{new Date(year.end_date).toLocaleDateString()}</TableCell>
+                      <TableCell>{Number(year.passing_grade).toFixed(2)}</TableCell>
+                      <TableCell>
+                        {year.is_current ? (
+                          <Badge className="bg-success text-success-foreground">Actual</Badge>
+                        ) : (
+                          <Badge variant="secondary">Archivado</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {!year.is_current && (
+                          <Button variant="ghost" size="sm" onClick={() => handleMarkAsCurrent(year.id)}>
+                            <Star className="h-4 w-4 mr-2" />
+                            Marcar como actual
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default AcademicYears;
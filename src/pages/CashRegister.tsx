@@ -0,0 +1,493 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useUserRole } from "@/hooks/use-user-role";
+import {
+  CashSession,
+  CashSessionPayment,
+  closeCashSessionSchema,
+  generateCashCloseoutPdf,
+  getExpectedCash,
+  loadCashCloseoutReport,
+  loadCashSessionPayments,
+  openCashSessionSchema,
+  reopenCashSessionSchema,
+  summarizeByMethod,
+} from "@/lib/cashSessions";
+import { getPaymentMethodLabel } from "@/lib/payments";
+import { formatReceiptNumber } from "@/lib/receipts";
+import { canReopenCashSessions } from "@/lib/roles";
+import { toast } from "sonner";
+import { ArrowLeft, LockOpen, Lock, Printer, RotateCcw } from "lucide-react";
+import { z } from "zod";
+
+const formatDifference = (difference: number) => (
+  <span className={difference < 0 ? "text-destructive" : difference > 0 ? "text-warning" : "text-success"}>
+    {difference > 0 ? "+" : ""}${difference.toFixed(2)}
+  </span>
+);
+
+const CashRegister = () => {
+  const navigate = useNavigate();
+  const { role } = useUserRole();
+  const canReopen = canReopenCashSessions(role);
+  const [current, setCurrent] = useState<CashSession | null>(null);
+  const [currentPayments, setCurrentPayments] = useState<CashSessionPayment[]>([]);
+  const [sessions, setSessions] = useState<CashSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dialog, setDialog] = useState<"open" | "close" | null>(null);
+  const [openingCash, setOpeningCash] = useState("0");
+  const [closeData, setCloseData] = useState({ countedCash: "", notes: "" });
+  const [reopening, setReopening] = useState<CashSession | null>(null);
+  const [reopenReason, setReopenReason] = useState("");
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const [currentRes, sessionsRes] = await Promise.all([
+        supabase.from("cash_sessions").select("*").eq("opened_by", user.id).is("closed_at", null).maybeSingle(),
+        supabase.from("cash_sessions").select("*").order("opened_at", { ascending: false }).limit(50),
+      ]);
+
+      if (currentRes.error) throw currentRes.error;
+      if (sessionsRes.error) throw sessionsRes.error;
+
+      setCurrent(currentRes.data);
+      setCurrentPayments(currentRes.data ? await loadCashSessionPayments(currentRes.data.id) : []);
+      setSessions(sessionsRes.data || []);
+    } catch (error: any) {
+      toast.error("Error loading cash sessions: " + error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpen = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    try {
+      const validated = openCashSessionSchema.parse({ openingCash: parseFloat(openingCash) });
+      const { error } = await supabase.rpc("open_cash_session", { p_opening_cash: validated.openingCash });
+      if (error) throw error;
+
+      toast.success("Caja abierta");
+      setDialog(null);
+      setOpeningCash("0");
+      loadData();
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error(error.message || "Error opening cash session");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleClose = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!current) return;
+
+    setSaving(true);
+    try {
+      const validated = closeCashSessionSchema.parse({
+        countedCash: parseFloat(closeData.countedCash),
+        notes: closeData.notes,
+      });
+      const { data: closed, error } = await supabase.rpc("close_cash_session", {
+        p_session_id: current.id,
+        p_counted_cash: validated.countedCash,
+        p_notes: validated.notes || undefined,
+      });
+      if (error) throw error;
+
+      toast.success("Caja cerrada", {
+        action: { label: "Imprimir cierre", onClick: () => printCloseout(closed) },
+      });
+      setDialog(null);
+      setCloseData({ countedCash: "", notes: "" });
+      loadData();
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error(error.message || "Error closing cash session");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReopen = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reopening) return;
+
+    setSaving(true);
+    try {
+      const validated = reopenCashSessionSchema.parse({ reason: reopenReason });
+      const { error } = await supabase.rpc("reopen_cash_session", {
+        p_session_id: reopening.id,
+        p_reason: validated.reason,
+      });
+      if (error) throw error;
+
+      toast.success("Caja reabierta; sus pagos se pueden modificar hasta que se cierre otra vez");
+      setReopening(null);
+      setReopenReason("");
+      loadData();
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error(error.message || "Error reopening cash session");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const printCloseout = async (session: Pick<CashSession, "id">) => {
+    try {
+      generateCashCloseoutPdf(await loadCashCloseoutReport(session.id));
+    } catch (error: any) {
+      toast.error(error.message || "Error generating close-out report");
+    }
+  };
+
+  const expectedCash = current ? getExpectedCash(current, currentPayments) : 0;
+  const countedCash = parseFloat(closeData.countedCash);
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <Button variant="ghost" onClick={() => navigate("/payments")}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Volver a pagos
+        </Button>
+
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-4xl font-bold tracking-tight">Caja</h1>
+            <p className="text-muted-foreground mt-2">
+              Los pagos que registra mientras su caja está abierta se incluyen en su cierre
+            </p>
+          </div>
+          {!loading &&
+            (current ? (
+              <div className="flex gap-3">
+                <Button variant="outline" size="lg" onClick={() => printCloseout(current)}>
+                  <Printer className="mr-2 h-5 w-5" />
+                  Imprimir
+                </Button>
+                <Button size="lg" onClick={() => setDialog("close")}>
+                  <Lock className="mr-2 h-5 w-5" />
+                  Cerrar caja
+                </Button>
+              </div>
+            ) : (
+              <Button size="lg" onClick={() => setDialog("open")}>
+                <LockOpen className="mr-2 h-5 w-5" />
+                Abrir caja
+              </Button>
+            ))}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Mi caja</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="text-center py-8">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+              </div>
+            ) : !current ? (
+              <div className="text-center py-8 text-muted-foreground">No tiene una caja abierta</div>
+            ) : (
+              <div className="space-y-6">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div>
+                    <p className="text-sm text-muted-foreground">Apertura</p>
+                    <p className="font-semibold">{new Date(current.opened_at).toLocaleString()}</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Fondo inicial</p>
+                    <p className="font-semibold">${Number(current.opening_cash).toFixed(2)}</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Pagos</p>
+                    <p className="font-semibold">{currentPayments.length}</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Efectivo esperado</p>
+                    <p className="font-semibold">${expectedCash.toFixed(2)}</p>
+                  </div>
+                </div>
+
+                {currentPayments.length > 0 && (
+                  <>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Método</TableHead>
+                          <TableHead>Cantidad</TableHead>
+                          <TableHead>Total</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {summarizeByMethod(currentPayments).map((row) => (
+                          <TableRow key={row.method || "none"}>
+                            <TableCell className="font-medium">{getPaymentMethodLabel(row.method)}</TableCell>
+                            <TableCell>{row.count}</TableCell>
+                            <TableCell>${row.total.toFixed(2)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>N°</TableHead>
+                          <TableHead>Hora</TableHead>
+                          <TableHead>Estudiante</TableHead>
+                          <TableHead>Método</TableHead>
+                          <TableHead>Monto</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {currentPayments.map((payment) => {
+                          const voided = payment.status === "voided";
+                          return (
+                            <TableRow key={payment.id} className={voided ? "text-muted-foreground" : ""}>
+                              <TableCell className="font-mono text-xs">
+                                {formatReceiptNumber(payment.receipt_number)}
+                              </TableCell>
+                              <TableCell>{new Date(payment.created_at).toLocaleTimeString()}</TableCell>
+                              <TableCell>
+                                {payment.students.first_name} {payment.students.last_name}
+                              </TableCell>
+                              <TableCell>
+                                {getPaymentMethodLabel(payment.method)}
+                                {payment.reference && (
+                                  <span className="block text-xs text-muted-foreground font-mono">
+                                    {payment.reference}
+                                  </span>
+                                )}
+                              </TableCell>
+                              <TableCell className={voided ? "line-through" : ""}>
+                                ${Number(payment.amount).toFixed(2)}
+                                {payment.refund_of && (
+                                  <Badge variant="secondary" className="ml-2">
+                                    Reembolso
+                                  </Badge>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  </>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Cierres recientes</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="text-center py-8">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+              </div>
+            ) : sessions.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">Aún no se abrieron cajas</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Cajero</TableHead>
+                    <TableHead>Apertura</TableHead>
+                    <TableHead>Cierre</TableHead>
+                    <TableHead>Esperado</TableHead>
+                    <TableHead>Contado</TableHead>
+                    <TableHead>Diferencia</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sessions.map((session) => (
+                    <TableRow key={session.id}>
+                      <TableCell className="font-medium">
+                        {session.cashier_name || "-"}
+                        {session.reopened_at && (
+                          <span className="block text-xs text-muted-foreground font-normal">
+                            Reabierta: {session.reopen_reason}
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell>{new Date(session.opened_at).toLocaleString()}</TableCell>
+                      <TableCell>
+                        {session.closed_at ? (
+                          new Date(session.closed_at).toLocaleString()
+                        ) : (
+                          <Badge className="bg-warning text-warning-foreground">Abierta</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{session.closed_at ? `$${Number(session.expected_cash).toFixed(2)}` : "-"}</TableCell>
+                      <TableCell>{session.closed_at ? `$${Number(session.counted_cash).toFixed(2)}` : "-"}</TableCell>
+                      <TableCell>
+                        {session.closed_at
+                          ? formatDifference(Number(session.counted_cash) - Number(session.expected_cash))
+                          : "-"}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button variant="ghost" size="sm" title="Imprimir cierre" onClick={() => printCloseout(session)}>
+                          <Printer className="h-4 w-4" />
+                        </Button>
+                        {canReopen && session.closed_at && (
+                          <Button variant="ghost" size="sm" title="Reabrir" onClick={() => setReopening(session)}>
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Dialog open={dialog === "open"} onOpenChange={(open) => !open && setDialog(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Abrir caja</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleOpen} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="openingCash">Fondo inicial en efectivo</Label>
+                <Input
+                  id="openingCash"
+                  type="number"
+                  step="0.01"
+                  value={openingCash}
+                  onChange={(e) => setOpeningCash(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="flex justify-end gap-3">
+                <Button type="button" variant="outline" onClick={() => setDialog(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saving}>
+                  Abrir caja
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={dialog === "close"} onOpenChange={(open) => !open && setDialog(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Cerrar caja</DialogTitle>
+              <DialogDescription>
+                Efectivo esperado: ${expectedCash.toFixed(2)}. Una vez cerrada, sus pagos no se pueden modificar.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleClose} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="countedCash">Efectivo contado</Label>
+                <Input
+                  id="countedCash"
+                  type="number"
+                  step="0.01"
+                  value={closeData.countedCash}
+                  onChange={(e) => setCloseData({ ...closeData, countedCash: e.target.value })}
+                  required
+                />
+                {!isNaN(countedCash) && (
+                  <p className="text-sm">Diferencia: {formatDifference(countedCash - expectedCash)}</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="closeNotes">Notas (opcional)</Label>
+                <Textarea
+                  id="closeNotes"
+                  value={closeData.notes}
+                  onChange={(e) => setCloseData({ ...closeData, notes: e.target.value })}
+                  rows={3}
+                />
+              </div>
+              <div className="flex justify-end gap-3">
+                <Button type="button" variant="outline" onClick={() => setDialog(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saving}>
+                  Cerrar caja
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={reopening !== null} onOpenChange={(open) => !open && setReopening(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Reabrir caja</DialogTitle>
+              <DialogDescription>
+                {reopening?.cashier_name || "El cajero"} podrá modificar los pagos de esta caja y deberá cerrarla otra
+                vez.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleReopen} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="reopenReason">Motivo</Label>
+                <Textarea
+                  id="reopenReason"
+                  value={reopenReason}
+                  onChange={(e) => setReopenReason(e.target.value)}
+                  rows={3}
+                />
+              </div>
+              <div className="flex justify-end gap-3">
+                <Button type="button" variant="outline" onClick={() => setReopening(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saving}>
+                  Reabrir
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default CashRegister;
@@ -0,0 +1,306 @@
+import { useState } from "react";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import { useCustomFields } from "@/hooks/use-custom-fields";
+import { useUserRole } from "@/hooks/use-user-role";
+import {
+  CUSTOM_FIELD_ENTITIES,
+  CUSTOM_FIELD_TYPES,
+  CustomField,
+  CustomFieldEntity,
+  CustomFieldType,
+  customFieldEntityLabels,
+  customFieldTypeLabels,
+  toCustomFieldKey,
+} from "@/lib/customFields";
+import { toast } from "sonner";
+import { Plus, Pencil, Trash2 } from "lucide-react";
+import { z } from "zod";
+
+const customFieldSchema = z
+  .object({
+    entity: z.enum(CUSTOM_FIELD_ENTITIES),
+    label: z.string().trim().min(2, "La etiqueta debe tener al menos 2 caracteres"),
+    key: z.string().regex(/^[a-z][a-z0-9_]*$/, "La etiqueta debe empezar con una letra"),
+    fieldType: z.enum(CUSTOM_FIELD_TYPES),
+    options: z.array(z.string()),
+    isRequired: z.boolean(),
+  })
+  .refine((field) => field.fieldType !== "select" || field.options.length > 0, {
+    message: "Agregue al menos una opción a la lista",
+    path: ["options"],
+  });
+
+const emptyForm = {
+  entity: "student" as CustomFieldEntity,
+  label: "",
+  fieldType: "text" as CustomFieldType,
+  options: "",
+  isRequired: false,
+};
+
+const CustomFields = () => {
+  const { role, loading: roleLoading } = useUserRole();
+  const { customFields, loading, reloadCustomFields } = useCustomFields();
+  const [dialog, setDialog] = useState<{ open: boolean; field: CustomField | null }>({ open: false, field: null });
+  const [formData, setFormData] = useState(emptyForm);
+
+  const openDialog = (field: CustomField | null) => {
+    setFormData(
+      field
+        ? {
+            entity: field.entity as CustomFieldEntity,
+            label: field.label,
+            fieldType: field.field_type as CustomFieldType,
+            options: field.options.join("\n"),
+            isRequired: field.is_required,
+          }
+        : emptyForm
+    );
+    setDialog({ open: true, field });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const validated = customFieldSchema.parse({
+        ...formData,
+        // The key is fixed once created because stored values are keyed by it
+        key: dialog.field?.key || toCustomFieldKey(formData.label),
+        options: formData.options
+          .split("\n")
+          .map((option) => option.trim())
+          .filter(Boolean),
+      });
+
+      const fields = {
+        label: validated.label,
+        field_type: validated.fieldType,
+        options: validated.fieldType === "select" ? validated.options : [],
+        is_required: validated.isRequired,
+      };
+
+      const { error } = dialog.field
+        ? await supabase.from("custom_fields").update(fields).eq("id", dialog.field.id)
+        : await supabase.from("custom_fields").insert({
+            ...fields,
+            entity: validated.entity,
+            key: validated.key,
+            sort_order: Math.max(0, ...customFields.map((f) => f.sort_order)) + 1,
+          });
+
+      if (error) {
+        if (error.code === "23505") {
+          throw new Error("Ya existe un campo con esa etiqueta");
+        }
+        throw error;
+      }
+
+      toast.success(dialog.field ? "Campo actualizado correctamente" : "Campo creado correctamente");
+      setDialog({ open: false, field: null });
+      reloadCustomFields();
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error(error.message || "Error saving custom field");
+      }
+    }
+  };
+
+  // Stored values stay on the records; they simply stop being shown
+  const handleDelete = async (field: CustomField) => {
+    try {
+      const { error } = await supabase.from("custom_fields").delete().eq("id", field.id);
+      if (error) throw error;
+
+      toast.success("Campo eliminado");
+      reloadCustomFields();
+    } catch (error: any) {
+      toast.error(error.message || "Error deleting custom field");
+    }
+  };
+
+  if (!roleLoading && role !== "admin") {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-12 text-muted-foreground">
+          Solo un administrador puede configurar los campos personalizados
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-4xl font-bold tracking-tight">Campos personalizados</h1>
+            <p className="text-muted-foreground mt-2">
+              Datos adicionales que la escuela pide a estudiantes y apoderados
+            </p>
+          </div>
+          <Button size="lg" onClick={() => openDialog(null)}>
+            <Plus className="mr-2 h-5 w-5" />
+            Nuevo campo
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Campos definidos</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="text-center py-8">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+              </div>
+            ) : customFields.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">Aún no hay campos personalizados</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Etiqueta</TableHead>
+                    <TableHead>Aplica a</TableHead>
+                    <TableHead>Tipo</TableHead>
+                    <TableHead>Opciones</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {customFields.map((field) => (
+                    <TableRow key={field.id}>
+                      <TableCell className="font-medium">
+                        {field.label}
+                        {field.is_required && <Badge className="ml-2 bg-warning text-warning-foreground">Requerido</Badge>}
+                      </TableCell>
+                      <TableCell>{customFieldEntityLabels[field.entity as CustomFieldEntity] || field.entity}</TableCell>
+                      <TableCell>{customFieldTypeLabels[field.field_type as CustomFieldType] || field.field_type}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{field.options.join(", ") || "-"}</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" onClick={() => openDialog(field)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                          onClick={() => handleDelete(field)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Dialog open={dialog.open} onOpenChange={(open) => setDialog({ ...dialog, open })}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{dialog.field ? "Editar campo" : "Nuevo campo"}</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="entity">Aplica a</Label>
+                  <Select
+                    value={formData.entity}
+                    onValueChange={(value) => setFormData({ ...formData, entity: value as CustomFieldEntity })}
+                    disabled={!!dialog.field}
+                  >
+                    <SelectTrigger id="entity">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CUSTOM_FIELD_ENTITIES.map((entity) => (
+                        <SelectItem key={entity} value={entity}>
+                          {customFieldEntityLabels[entity]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="fieldType">Tipo</Label>
+                  <Select
+                    value={formData.fieldType}
+                    onValueChange={(value) => setFormData({ ...formData, fieldType: value as CustomFieldType })}
+                  >
+                    <SelectTrigger id="fieldType">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CUSTOM_FIELD_TYPES.map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {customFieldTypeLabels[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="label">Etiqueta</Label>
+                <Input
+                  id="label"
+                  value={formData.label}
+                  onChange={(e) => setFormData({ ...formData, label: e.target.value })}
+                  placeholder="Ej: Ruta de transporte"
+                  required
+                />
+              </div>
+
+              {formData.fieldType === "select" && (
+                <div className="space-y-2">
+                  <Label htmlFor="options">Opciones (una por línea)</Label>
+                  <Textarea
+                    id="options"
+                    value={formData.options}
+                    onChange={(e) => setFormData({ ...formData, options: e.target.value })}
+                    rows={4}
+                  />
+                </div>
+              )}
+
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="isRequired"
+                  checked={formData.isRequired}
+                  onCheckedChange={(checked) => setFormData({ ...formData, isRequired: checked === true })}
+                />
+                <Label htmlFor="isRequired">Requerido</Label>
+              </div>
+
+              <div className="flex justify-end gap-3">
+                <Button type="button" variant="outline" onClick={() => setDialog({ open: false, field: null })}>
+                  Cancel
+                </Button>
+                <Button type="submit">{dialog.field ? "Guardar cambios" : "Crear campo"}</Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default CustomFields;
@@ -2,6 +2,7 @@ import { useEffect, useState } from "react";
 import { DashboardLayout } from "@/components/DashboardLayout";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { supabase } from "@/integrations/supabase/client";
+import { useAcademicYear } from "@/hooks/use-academic-year";
 import { Users, DollarSign, BookOpen, TrendingUp } from "lucide-react";
 
 interface Stats {
@@ -12,6 +13,7 @@ interface Stats {
 }
 
 const Dashboard = () => {
+  const { selectedYear } = useAcademicYear();
   const [stats, setStats] = useState<Stats>({
     totalStudents: 0, // Total de Estudiantes
     totalPayments: 0, // Total de Pagos
@@ -21,46 +23,43 @@ const Dashboard = () => {
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    loadStats();
-  }, []);
+    if (selectedYear) {
+      loadStats();
+    } else {
+      setLoading(false);
+    }
+  }, [selectedYear?.id]);
 
   const loadStats = async () => {
+    setLoading(true);
     try {
-      // Get total students
+      // Get total students enrolled in the selected year
       const { count: studentsCount } = await supabase
-        .from("students")
-        .select("*", { count: "exact", head: true });
-
-      // Get payment stats
-      const { data: students } = await supabase
-        .from("students")
-        .select("id, total_tuition");
+        .from("enrollments")
+        .select("*", { count: "exact", head: true })
+        .eq("academic_year_id", selectedYear.id);
+
+      // Get payment stats (only active students count as pending); balances are net of discounts
+      const { count: pendingCount } = await supabase
+        .from("student_directory")
+        .select("*", { count: "exact", head: true })
+        .eq("academic_year_id", selectedYear.id)
+        .eq("status", "active")
+        .gt("balance", 0);
 
       const { data: payments } = await supabase
         .from("payments")
-        .select("student_id, amount");
-
-      let totalPaid = 0;
-      let pendingCount = 0;
-      const paymentsByStudent: Record<string, number> = {};
+        .select("amount")
+        .eq("academic_year_id", selectedYear.id)
+        .eq("status", "posted");
 
-      payments?.forEach((payment) => {
-        totalPaid += Number(payment.amount);
-        paymentsByStudent[payment.student_id] =
-          (paymentsByStudent[payment.student_id] || 0) + Number(payment.amount);
-      });
-
-      students?.forEach((student) => {
-        const paid = paymentsByStudent[student.id] || 0;
-        if (paid < Number(student.total_tuition)) {
-          pendingCount++;
-        }
-      });
+      const totalPaid = (payments || []).reduce((sum, payment) => sum + Number(payment.amount), 0);
 
       // Get average grade
       const { data: grades } = await supabase
         .from("grades")
-        .select("grade");
+        .select("grade")
+        .eq("academic_year_id", selectedYear.id);
 
       const avgGrade =
         grades && grades.length > 0
@@ -70,7 +69,7 @@ const Dashboard = () => {
       setStats({
         totalStudents: studentsCount || 0,
         totalPayments: totalPaid,
-        pendingPayments: pendingCount,
+        pendingPayments: pendingCount || 0,
         averageGrade: Math.round(avgGrade * 10) / 10,
       });
     } catch (error) {
@@ -114,6 +113,7 @@ const Dashboard = () => {
           <h1 className="text-4xl font-bold tracking-tight">Dashboard</h1>
           <p className="text-muted-foreground mt-2">
             Descripción general de las estadísticas y métricas de la academia
+            {selectedYear && ` · Año académico ${selectedYear.name}`}
           </p>
         </div>
 
@@ -0,0 +1,510 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useUserRole } from "@/hooks/use-user-role";
+import { TUITION_CONCEPT_NAME } from "@/lib/charges";
+import {
+  DISCOUNT_KINDS,
+  DISCOUNT_VALUE_TYPES,
+  DiscountKind,
+  DiscountRule,
+  DiscountValueType,
+  discountKindLabels,
+  discountRuleSchema,
+  discountValueTypeLabels,
+  formatDiscountValidity,
+  formatDiscountValue,
+  getDiscountKindLabel,
+} from "@/lib/discounts";
+import { canApproveDiscounts } from "@/lib/roles";
+import { toast } from "sonner";
+import { ArrowLeft, Plus, Pencil, Trash2, Check, X } from "lucide-react";
+import { z } from "zod";
+
+interface PendingDiscount {
+  id: string;
+  notes: string | null;
+  requested_at: string;
+  discount_rules: {
+    name: string;
+    value_type: string;
+    value: number;
+  };
+  enrollments: {
+    student_id: string;
+    students: {
+      first_name: string;
+      last_name: string;
+    };
+  };
+}
+
+// Select value standing for tuition installments, stored as a NULL concept
+const TUITION = "tuition";
+
+const emptyForm = {
+  name: "",
+  kind: "scholarship" as DiscountKind,
+  valueType: "percentage" as DiscountValueType,
+  value: 0,
+  feeConceptId: TUITION,
+  siblingPosition: 2,
+  validFrom: "",
+  validTo: "",
+  isActive: true,
+};
+
+const Discounts = () => {
+  const navigate = useNavigate();
+  const { role } = useUserRole();
+  const canManage = canApproveDiscounts(role);
+  const [rules, setRules] = useState<DiscountRule[]>([]);
+  const [concepts, setConcepts] = useState<{ id: string; name: string }[]>([]);
+  const [pending, setPending] = useState<PendingDiscount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dialog, setDialog] = useState<{ open: boolean; rule: DiscountRule | null }>({ open: false, rule: null });
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const [rulesRes, conceptsRes, pendingRes] = await Promise.all([
+        supabase.from("discount_rules").select("*").order("name"),
+        supabase.from("fee_concepts").select("id, name").order("name"),
+        supabase
+          .from("student_discounts")
+          .select(
+            "id, notes, requested_at, discount_rules(name, value_type, value), enrollments(student_id, students(first_name, last_name))"
+          )
+          .eq("status", "pending")
+          .order("requested_at"),
+      ]);
+
+      if (rulesRes.error) throw rulesRes.error;
+      if (conceptsRes.error) throw conceptsRes.error;
+      if (pendingRes.error) throw pendingRes.error;
+
+      setRules(rulesRes.data || []);
+      setConcepts(conceptsRes.data || []);
+      setPending(pendingRes.data || []);
+    } catch (error: any) {
+      toast.error("Error loading discounts: " + error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openDialog = (rule: DiscountRule | null) => {
+    setFormData(
+      rule
+        ? {
+            name: rule.name,
+            kind: rule.kind as DiscountKind,
+            valueType: rule.value_type as DiscountValueType,
+            value: Number(rule.value),
+            feeConceptId: rule.fee_concept_id || TUITION,
+            siblingPosition: rule.sibling_position || 2,
+            validFrom: rule.valid_from || "",
+            validTo: rule.valid_to || "",
+            isActive: rule.is_active,
+          }
+        : emptyForm
+    );
+    setDialog({ open: true, rule });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    try {
+      const validated = discountRuleSchema.parse({
+        ...formData,
+        feeConceptId: formData.feeConceptId === TUITION ? null : formData.feeConceptId,
+        siblingPosition: formData.kind === "sibling" ? formData.siblingPosition : null,
+      });
+
+      const values = {
+        name: validated.name,
+        kind: validated.kind,
+        value_type: validated.valueType,
+        value: validated.value,
+        fee_concept_id: validated.feeConceptId,
+        sibling_position: validated.siblingPosition,
+        valid_from: validated.validFrom || null,
+        valid_to: validated.validTo || null,
+        is_active: formData.isActive,
+      };
+
+      if (dialog.rule) {
+        const { error } = await supabase.from("discount_rules").update(values).eq("id", dialog.rule.id);
+        if (error) throw error;
+      } else {
+        const { data: { user } } = await supabase.auth.getUser();
+        const { error } = await supabase.from("discount_rules").insert({ ...values, created_by: user?.id });
+        if (error) throw error;
+      }
+
+      toast.success(dialog.rule ? "Regla actualizada correctamente" : "Regla creada correctamente");
+      setDialog({ open: false, rule: null });
+      loadData();
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else if (error.code === "23505") {
+        toast.error("Ya existe una regla con ese nombre");
+      } else {
+        toast.error(error.message || "Error saving discount rule");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rule: DiscountRule) => {
+    try {
+      const { error } = await supabase.from("discount_rules").delete().eq("id", rule.id);
+      if (error) throw error;
+
+      toast.success("Regla eliminada");
+      loadData();
+    } catch (error: any) {
+      if (error.code === "23503") {
+        toast.error("La regla ya fue otorgada a estudiantes; desactívela en su lugar");
+      } else {
+        toast.error(error.message || "Error deleting discount rule");
+      }
+    }
+  };
+
+  const handleReview = async (discount: PendingDiscount, approved: boolean) => {
+    try {
+      const { error } = await supabase.rpc("review_student_discount", {
+        p_student_discount_id: discount.id,
+        p_approved: approved,
+      });
+      if (error) throw error;
+
+      toast.success(approved ? "Descuento aprobado" : "Descuento rechazado");
+      loadData();
+    } catch (error: any) {
+      toast.error(error.message || "Error reviewing discount");
+    }
+  };
+
+  const conceptName = (conceptId: string | null) =>
+    conceptId ? concepts.find((c) => c.id === conceptId)?.name || "-" : TUITION_CONCEPT_NAME;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <Button variant="ghost" onClick={() => navigate("/payments")}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Volver a pagos
+        </Button>
+
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-4xl font-bold tracking-tight">Descuentos y becas</h1>
+            <p className="text-muted-foreground mt-2">
+              Becas y descuentos se otorgan a cada estudiante; los descuentos por hermanos se aplican solos
+            </p>
+          </div>
+          {canManage && (
+            <Button size="lg" onClick={() => openDialog(null)}>
+              <Plus className="mr-2 h-5 w-5" />
+              Nueva regla
+            </Button>
+          )}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Solicitudes pendientes</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="text-center py-8">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+              </div>
+            ) : pending.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">No hay descuentos pendientes de aprobación</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Estudiante</TableHead>
+                    <TableHead>Regla</TableHead>
+                    <TableHead>Motivo</TableHead>
+                    <TableHead>Solicitado</TableHead>
+                    {canManage && <TableHead className="text-right">Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {pending.map((discount) => (
+                    <TableRow key={discount.id}>
+                      <TableCell
+                        className="font-medium cursor-pointer hover:underline"
+                        onClick={() => navigate(`/students/${discount.enrollments.student_id}`)}
+                      >
+                        {discount.enrollments.students.first_name} {discount.enrollments.students.last_name}
+                      </TableCell>
+                      <TableCell>
+                        {discount.discount_rules.name} · {formatDiscountValue(discount.discount_rules)}
+                      </TableCell>
+                      <TableCell>{discount.notes || "-"}</TableCell>
+                      <TableCell>{new Date(discount.requested_at).toLocaleDateString()}</TableCell>
+                      {canManage && (
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button variant="outline" size="sm" onClick={() => handleReview(discount, true)}>
+                            <Check className="mr-2 h-4 w-4" />
+                            Aprobar
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                            onClick={() => handleReview(discount, false)}
+                          >
+                            <X className="mr-2 h-4 w-4" />
+                            Rechazar
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Reglas</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="text-center py-8">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+              </div>
+            ) : rules.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">Aún no hay reglas de descuento</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Nombre</TableHead>
+                    <TableHead>Tipo</TableHead>
+                    <TableHead>Valor</TableHead>
+                    <TableHead>Aplica a</TableHead>
+                    <TableHead>Vigencia</TableHead>
+                    <TableHead>Estado</TableHead>
+                    {canManage && <TableHead className="text-right">Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rules.map((rule) => (
+                    <TableRow key={rule.id}>
+                      <TableCell className="font-medium">{rule.name}</TableCell>
+                      <TableCell>
+                        {getDiscountKindLabel(rule.kind)}
+                        {rule.sibling_position && (
+                          <span className="block text-xs text-muted-foreground">
+                            Desde el hermano N° {rule.sibling_position}
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell>{formatDiscountValue(rule)}</TableCell>
+                      <TableCell>{conceptName(rule.fee_concept_id)}</TableCell>
+                      <TableCell>{formatDiscountValidity(rule)}</TableCell>
+                      <TableCell>
+                        <Badge variant={rule.is_active ? "default" : "secondary"}>
+                          {rule.is_active ? "Activa" : "Inactiva"}
+                        </Badge>
+                      </TableCell>
+                      {canManage && (
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button variant="ghost" size="sm" onClick={() => openDialog(rule)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                            onClick={() => handleDelete(rule)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Dialog open={dialog.open} onOpenChange={(open) => setDialog({ ...dialog, open })}>
+          <DialogContent className="max-w-xl">
+            <DialogHeader>
+              <DialogTitle>{dialog.rule ? "Editar regla" : "Nueva regla"}</DialogTitle>
+              <DialogDescription>
+                El descuento se aplica a las cuotas o cargos que vencen dentro de la vigencia.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="ruleName">Nombre</Label>
+                <Input
+                  id="ruleName"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="Ej: Beca académica 50%"
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Tipo</Label>
+                  <Select
+                    value={formData.kind}
+                    onValueChange={(value) => setFormData({ ...formData, kind: value as DiscountKind })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DISCOUNT_KINDS.map((kind) => (
+                        <SelectItem key={kind} value={kind}>
+                          {discountKindLabels[kind]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Aplica a</Label>
+                  <Select
+                    value={formData.feeConceptId}
+                    onValueChange={(value) => setFormData({ ...formData, feeConceptId: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={TUITION}>{TUITION_CONCEPT_NAME}</SelectItem>
+                      {concepts.map((concept) => (
+                        <SelectItem key={concept.id} value={concept.id}>
+                          {concept.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Cálculo</Label>
+                  <Select
+                    value={formData.valueType}
+                    onValueChange={(value) => setFormData({ ...formData, valueType: value as DiscountValueType })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DISCOUNT_VALUE_TYPES.map((valueType) => (
+                        <SelectItem key={valueType} value={valueType}>
+                          {discountValueTypeLabels[valueType]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ruleValue">{formData.valueType === "percentage" ? "Porcentaje" : "Monto"}</Label>
+                  <Input
+                    id="ruleValue"
+                    type="number"
+                    step="0.01"
+                    value={formData.value}
+                    onChange={(e) => setFormData({ ...formData, value: parseFloat(e.target.value) })}
+                  />
+                </div>
+                {formData.kind === "sibling" && (
+                  <div className="space-y-2 col-span-2">
+                    <Label htmlFor="siblingPosition">Aplica desde el hermano N°</Label>
+                    <Input
+                      id="siblingPosition"
+                      type="number"
+                      min="2"
+                      value={formData.siblingPosition}
+                      onChange={(e) => setFormData({ ...formData, siblingPosition: parseInt(e.target.value) || 0 })}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Se cuentan los hermanos activos de la misma familia inscritos en el año, del mayor al menor.
+                    </p>
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="validFrom">Vigente desde</Label>
+                  <Input
+                    id="validFrom"
+                    type="date"
+                    value={formData.validFrom}
+                    onChange={(e) => setFormData({ ...formData, validFrom: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="validTo">Vigente hasta</Label>
+                  <Input
+                    id="validTo"
+                    type="date"
+                    value={formData.validTo}
+                    onChange={(e) => setFormData({ ...formData, validTo: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="ruleActive"
+                  checked={formData.isActive}
+                  onCheckedChange={(checked) => setFormData({ ...formData, isActive: checked === true })}
+                />
+                <Label htmlFor="ruleActive">Activa</Label>
+              </div>
+
+              <div className="flex justify-end gap-3">
+                <Button type="button" variant="outline" onClick={() => setDialog({ open: false, rule: null })}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saving}>
+                  {dialog.rule ? "Guardar cambios" : "Crear regla"}
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default Discounts;
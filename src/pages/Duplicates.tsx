@@ -0,0 +1,307 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { useUserRole } from "@/hooks/use-user-role";
+import { canMergeStudents } from "@/lib/roles";
+import { getStudentStatusColor, getStudentStatusLabel } from "@/lib/studentStatus";
+import { toast } from "sonner";
+import { ArrowLeft, GitMerge } from "lucide-react";
+
+interface DuplicateStudent {
+  id: string;
+  first_name: string;
+  last_name: string;
+  id_number: string;
+  date_of_birth: string;
+  status: string;
+  created_at: string;
+  payments: number;
+  grades: number;
+}
+
+interface DuplicatePair {
+  key: string;
+  students: [DuplicateStudent, DuplicateStudent];
+  similarity: number;
+  reason: string;
+  survivorId: string;
+}
+
+interface Merge {
+  id: string;
+  duplicate_snapshot: { first_name?: string; last_name?: string; id_number?: string };
+  payments_moved: number;
+  grades_moved: number;
+  enrollments_moved: number;
+  guardians_moved: number;
+  created_at: string;
+  students: { first_name: string; last_name: string; id_number: string } | null;
+}
+
+const reasonLabels: Record<string, string> = {
+  same_birth_date: "Misma fecha de nacimiento",
+  similar_id_number: "DNI casi idéntico",
+};
+
+const Duplicates = () => {
+  const navigate = useNavigate();
+  const { role } = useUserRole();
+  const canMerge = canMergeStudents(role);
+  const [pairs, setPairs] = useState<DuplicatePair[]>([]);
+  const [merges, setMerges] = useState<Merge[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [pairToMerge, setPairToMerge] = useState<DuplicatePair | null>(null);
+  const [merging, setMerging] = useState(false);
+
+  useEffect(() => {
+    loadDuplicates();
+  }, []);
+
+  const loadDuplicates = async () => {
+    setLoading(true);
+    try {
+      const [matchesRes, mergesRes] = await Promise.all([
+        supabase.rpc("find_duplicate_students"),
+        supabase
+          .from("student_merges")
+          .select("*, students(first_name, last_name, id_number)")
+          .order("created_at", { ascending: false })
+          .limit(20),
+      ]);
+
+      if (matchesRes.error) throw matchesRes.error;
+      if (mergesRes.error) throw mergesRes.error;
+
+      const matches = matchesRes.data || [];
+      const studentIds = [...new Set(matches.flatMap((m) => [m.student_id, m.duplicate_id]))];
+      const { data: students, error: studentsError } = await supabase
+        .from("students")
+        .select("id, first_name, last_name, id_number, date_of_birth, status, created_at, payments(count), grades(count)")
+        .in("id", studentIds);
+
+      if (studentsError) throw studentsError;
+
+      const studentsById = new Map(
+        (students || []).map(({ payments, grades, ...student }) => [
+          student.id,
+          { ...student, payments: payments[0]?.count || 0, grades: grades[0]?.count || 0 },
+        ])
+      );
+
+      setPairs(
+        matches
+          .filter((m) => studentsById.has(m.student_id) && studentsById.has(m.duplicate_id))
+          .map((m) => ({
+            key: `${m.student_id}-${m.duplicate_id}`,
+            students: [studentsById.get(m.student_id), studentsById.get(m.duplicate_id)],
+            similarity: Number(m.name_similarity),
+            reason: m.reason,
+            // The record registered first survives by default
+            survivorId: m.student_id,
+          }))
+      );
+      setMerges((mergesRes.data || []) as Merge[]);
+    } catch (error: any) {
+      toast.error("Error loading duplicates: " + error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const setSurvivor = (key: string, survivorId: string) => {
+    setPairs(pairs.map((pair) => (pair.key === key ? { ...pair, survivorId } : pair)));
+  };
+
+  const handleMerge = async () => {
+    if (!pairToMerge) return;
+
+    const duplicate = pairToMerge.students.find((s) => s.id !== pairToMerge.survivorId);
+    setMerging(true);
+    try {
+      const { error } = await supabase.rpc("merge_students", {
+        p_survivor_id: pairToMerge.survivorId,
+        p_duplicate_id: duplicate.id,
+      });
+
+      if (error) throw error;
+
+      toast.success("Estudiantes fusionados correctamente");
+      setPairToMerge(null);
+      loadDuplicates();
+    } catch (error: any) {
+      toast.error(error.message || "Error merging students");
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const survivor = pairToMerge?.students.find((s) => s.id === pairToMerge.survivorId);
+  const duplicate = pairToMerge?.students.find((s) => s.id !== pairToMerge.survivorId);
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <Button variant="ghost" onClick={() => navigate("/students")}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Volver a los estudiantes
+        </Button>
+
+        <div>
+          <h1 className="text-4xl font-bold tracking-tight">Posibles duplicados</h1>
+          <p className="text-muted-foreground mt-2">
+            Estudiantes con nombres parecidos que comparten fecha de nacimiento o tienen un DNI casi igual
+          </p>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+          </div>
+        ) : pairs.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-8 text-muted-foreground">
+              No se encontraron posibles duplicados
+            </CardContent>
+          </Card>
+        ) : (
+          pairs.map((pair) => (
+            <Card key={pair.key}>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <div>
+                  <CardTitle className="text-lg">
+                    {pair.students[0].first_name} {pair.students[0].last_name}
+                  </CardTitle>
+                  <CardDescription>
+                    {reasonLabels[pair.reason] || pair.reason} · Similitud del nombre {Math.round(pair.similarity * 100)}%
+                  </CardDescription>
+                </div>
+                {canMerge && (
+                  <Button onClick={() => setPairToMerge(pair)}>
+                    <GitMerge className="mr-2 h-4 w-4" />
+                    Fusionar
+                  </Button>
+                )}
+              </CardHeader>
+              <CardContent>
+                <RadioGroup
+                  value={pair.survivorId}
+                  onValueChange={(value) => setSurvivor(pair.key, value)}
+                  className="grid gap-4 md:grid-cols-2"
+                >
+                  {pair.students.map((student) => (
+                    <Label
+                      key={student.id}
+                      htmlFor={`${pair.key}-${student.id}`}
+                      className={`rounded-lg border p-4 space-y-2 cursor-pointer font-normal ${
+                        pair.survivorId === student.id ? "border-primary" : ""
+                      }`}
+                    >
+                      <div className="flex items-center gap-2">
+                        <RadioGroupItem value={student.id} id={`${pair.key}-${student.id}`} />
+                        <span className="font-semibold">
+                          {student.first_name} {student.last_name}
+                        </span>
+                        {pair.survivorId === student.id && <Badge variant="secondary">Se conserva</Badge>}
+                      </div>
+                      <div className="text-sm text-muted-foreground space-y-1">
+                        <p>DNI: {student.id_number}</p>
+                        <p>Fecha de nacimiento: {new Date(student.date_of_birth).toLocaleDateString()}</p>
+                        <p>Registrado: {new Date(student.created_at).toLocaleDateString()}</p>
+                        <p>
+                          {student.payments} pago(s) · {student.grades} calificación(es)
+                        </p>
+                      </div>
+                      <Badge className={getStudentStatusColor(student.status)}>
+                        {getStudentStatusLabel(student.status)}
+                      </Badge>
+                    </Label>
+                  ))}
+                </RadioGroup>
+              </CardContent>
+            </Card>
+          ))
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Fusiones recientes</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {merges.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">Aún no se han fusionado estudiantes</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Fecha</TableHead>
+                    <TableHead>Registro eliminado</TableHead>
+                    <TableHead>Fusionado en</TableHead>
+                    <TableHead>Registros movidos</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {merges.map((merge) => (
+                    <TableRow key={merge.id}>
+                      <TableCell>{new Date(merge.created_at).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        {merge.duplicate_snapshot.first_name} {merge.duplicate_snapshot.last_name} (
+                        {merge.duplicate_snapshot.id_number})
+                      </TableCell>
+                      <TableCell className="font-medium">
+                        {merge.students
+                          ? `${merge.students.first_name} ${merge.students.last_name} (${merge.students.id_number})`
+                          : "-"}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {merge.payments_moved} pago(s), {merge.grades_moved} calificación(es),{" "}
+                        {merge.enrollments_moved} inscripción(es), {merge.guardians_moved} apoderado(s)
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <AlertDialog open={!!pairToMerge} onOpenChange={(open) => !open && setPairToMerge(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Fusionar estudiantes</AlertDialogTitle>
+              <AlertDialogDescription>
+                Los pagos, calificaciones, inscripciones y apoderados de {duplicate?.first_name}{" "}
+                {duplicate?.last_name} ({duplicate?.id_number}) pasarán a {survivor?.first_name}{" "}
+                {survivor?.last_name} ({survivor?.id_number}) y el registro duplicado se eliminará. Esta acción
+                no se puede deshacer.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={merging}>Cancel</AlertDialogCancel>
+              <Button onClick={handleMerge} disabled={merging}>
+                {merging ? "Fusionando..." : "Fusionar"}
+              </Button>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default Duplicates;
@@ -0,0 +1,246 @@
+import { useEffect, useState } from "react";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useAcademicYear } from "@/hooks/use-academic-year";
+import { useGradeLevels } from "@/hooks/use-grade-levels";
+import { useUserRole } from "@/hooks/use-user-role";
+import { canViewMedicalInfo } from "@/lib/roles";
+import { toast } from "sonner";
+import { Printer } from "lucide-react";
+
+interface SheetRow {
+  id: string;
+  first_name: string;
+  last_name: string;
+  id_number: string;
+  date_of_birth: string;
+  blood_type: string | null;
+  allergies: string | null;
+  conditions: string | null;
+  insurance: string | null;
+  contacts: string[];
+}
+
+const NO_SECTION = "none";
+
+const EmergencySheet = () => {
+  const { selectedYear } = useAcademicYear();
+  const { gradeLevels } = useGradeLevels();
+  const { role, loading: roleLoading } = useUserRole();
+  const [gradeLevelId, setGradeLevelId] = useState("");
+  const [sectionId, setSectionId] = useState(NO_SECTION);
+  const [rows, setRows] = useState<SheetRow[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (selectedYear && gradeLevelId && canViewMedicalInfo(role)) {
+      loadSheet();
+    }
+  }, [selectedYear?.id, gradeLevelId, sectionId, role]);
+
+  const loadSheet = async () => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from("student_directory")
+        .select("id, first_name, last_name, id_number, date_of_birth, family_id")
+        .eq("academic_year_id", selectedYear.id)
+        .eq("grade_level_id", gradeLevelId)
+        .eq("status", "active")
+        .order("last_name")
+        .order("first_name");
+
+      if (sectionId !== NO_SECTION) {
+        query = query.eq("section_id", sectionId);
+      }
+
+      const { data: students, error } = await query;
+      if (error) throw error;
+
+      const studentIds = (students || []).map((s) => s.id);
+      const familyIds = [...new Set((students || []).map((s) => s.family_id).filter(Boolean))];
+
+      const [medicalRes, contactsRes, guardiansRes] = await Promise.all([
+        supabase.from("student_medical_info").select("*").in("student_id", studentIds),
+        supabase
+          .from("student_emergency_contacts")
+          .select("student_id, full_name, relationship, phone")
+          .in("student_id", studentIds)
+          .order("created_at", { ascending: true }),
+        supabase
+          .from("parents")
+          .select("family_id, full_name, cell_phone, is_primary_contact")
+          .in("family_id", familyIds)
+          .order("is_primary_contact", { ascending: false }),
+      ]);
+
+      if (medicalRes.error) throw medicalRes.error;
+      if (contactsRes.error) throw contactsRes.error;
+      if (guardiansRes.error) throw guardiansRes.error;
+
+      setRows(
+        (students || []).map((student) => {
+          const medical = medicalRes.data?.find((m) => m.student_id === student.id);
+          // Dedicated emergency contacts first, then the family's guardians
+          const contacts = [
+            ...(contactsRes.data || [])
+              .filter((c) => c.student_id === student.id)
+              .map((c) => `${c.full_name}${c.relationship ? ` (${c.relationship})` : ""}: ${c.phone}`),
+            ...(guardiansRes.data || [])
+              .filter((g) => g.family_id === student.family_id)
+              .map((g) => `${g.full_name}: ${g.cell_phone}`),
+          ];
+
+          return {
+            id: student.id,
+            first_name: student.first_name,
+            last_name: student.last_name,
+            id_number: student.id_number,
+            date_of_birth: student.date_of_birth,
+            blood_type: medical?.blood_type || null,
+            allergies: medical?.allergies || null,
+            conditions: [medical?.chronic_conditions, medical?.medications].filter(Boolean).join(" / ") || null,
+            insurance:
+              [medical?.insurance_provider, medical?.insurance_policy_number].filter(Boolean).join(" ") || null,
+            contacts: contacts.slice(0, 2),
+          };
+        })
+      );
+    } catch (error: any) {
+      toast.error("Error loading emergency sheet: " + error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const gradeLevel = gradeLevels.find((g) => g.id === gradeLevelId);
+  const section = gradeLevel?.sections.find((s) => s.id === sectionId);
+
+  if (!roleLoading && !canViewMedicalInfo(role)) {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-12 text-muted-foreground">
+          Solo administradores y personal de enfermería pueden ver la información médica
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center print:hidden">
+          <div>
+            <h1 className="text-4xl font-bold tracking-tight">Ficha de emergencia</h1>
+            <p className="text-muted-foreground mt-2">
+              Hoja de una página por aula con datos médicos y contactos, para salidas y excursiones
+            </p>
+          </div>
+          <Button size="lg" onClick={() => window.print()} disabled={rows.length === 0}>
+            <Printer className="mr-2 h-5 w-5" />
+            Imprimir
+          </Button>
+        </div>
+
+        <div className="flex gap-3 print:hidden">
+          <Select
+            value={gradeLevelId}
+            onValueChange={(value) => {
+              setGradeLevelId(value);
+              setSectionId(NO_SECTION);
+            }}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Seleccionar grado" />
+            </SelectTrigger>
+            <SelectContent>
+              {gradeLevels.map((level) => (
+                <SelectItem key={level.id} value={level.id}>
+                  {level.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={sectionId} onValueChange={setSectionId} disabled={!gradeLevel?.sections.length}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_SECTION}>Todas las secciones</SelectItem>
+              {gradeLevel?.sections.map((s) => (
+                <SelectItem key={s.id} value={s.id}>
+                  {s.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {!gradeLevelId ? (
+          <Card className="print:hidden">
+            <CardContent className="text-center py-8 text-muted-foreground">
+              Seleccione un grado para ver la ficha
+            </CardContent>
+          </Card>
+        ) : loading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <div className="flex justify-between items-baseline">
+              <h2 className="text-xl font-bold">
+                {gradeLevel?.name}
+                {section && ` ${section.name}`} · {selectedYear?.name}
+              </h2>
+              <span className="text-sm text-muted-foreground">
+                {rows.length} estudiante(s) · Impreso el {new Date().toLocaleDateString()}
+              </span>
+            </div>
+            <Table className="text-xs">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Estudiante</TableHead>
+                  <TableHead>Nacimiento</TableHead>
+                  <TableHead>Sangre</TableHead>
+                  <TableHead>Alergias</TableHead>
+                  <TableHead>Condiciones / Medicación</TableHead>
+                  <TableHead>Seguro</TableHead>
+                  <TableHead>Contactos</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.id} className="break-inside-avoid">
+                    <TableCell className="py-1 font-medium">
+                      {row.last_name}, {row.first_name}
+                      <p className="text-muted-foreground font-normal">{row.id_number}</p>
+                    </TableCell>
+                    <TableCell className="py-1">{new Date(row.date_of_birth).toLocaleDateString()}</TableCell>
+                    <TableCell className="py-1">{row.blood_type || "-"}</TableCell>
+                    <TableCell className={`py-1 ${row.allergies ? "text-destructive font-medium" : ""}`}>
+                      {row.allergies || "-"}
+                    </TableCell>
+                    <TableCell className="py-1">{row.conditions || "-"}</TableCell>
+                    <TableCell className="py-1">{row.insurance || "-"}</TableCell>
+                    <TableCell className="py-1">
+                      {row.contacts.length === 0
+                        ? "-"
+                        : row.contacts.map((contact) => <p key={contact}>{contact}</p>)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default EmergencySheet;
@@ -0,0 +1,359 @@
+import { useEffect, useState } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { AccountStatementDialog } from "@/components/AccountStatementDialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useAcademicYear } from "@/hooks/use-academic-year";
+import { StatementTarget } from "@/lib/accountStatement";
+import { getGuardianRelationshipLabel } from "@/lib/guardians";
+import { getStudentStatusColor, getStudentStatusLabel } from "@/lib/studentStatus";
+import { toast } from "sonner";
+import { ArrowLeft, DollarSign, FileText, Phone, Users as UsersIcon } from "lucide-react";
+
+interface Guardian {
+  id: string;
+  full_name: string;
+  id_number: string;
+  cell_phone: string;
+  email: string | null;
+  address: string | null;
+  relationship: string;
+  is_primary_contact: boolean;
+  is_financially_responsible: boolean;
+}
+
+interface Sibling {
+  id: string;
+  first_name: string;
+  last_name: string;
+  id_number: string;
+  status: string;
+  // From the enrollment in the selected academic year, if any
+  grade_level: string | null;
+  total_tuition: number;
+  total_charges: number;
+  total_discounts: number;
+  total_paid: number;
+}
+
+const FamilyDetail = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const { selectedYear } = useAcademicYear();
+  const [familyName, setFamilyName] = useState<string | null>(null);
+  const [guardians, setGuardians] = useState<Guardian[]>([]);
+  const [siblings, setSiblings] = useState<Sibling[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statementTarget, setStatementTarget] = useState<StatementTarget | null>(null);
+
+  useEffect(() => {
+    if (id && selectedYear) {
+      loadFamilyData();
+    }
+  }, [id, selectedYear?.id]);
+
+  const loadFamilyData = async () => {
+    try {
+      const [familyRes, guardiansRes, studentsRes] = await Promise.all([
+        supabase.from("families").select("*").eq("id", id).single(),
+        supabase
+          .from("parents")
+          .select("*")
+          .eq("family_id", id)
+          .order("is_primary_contact", { ascending: false })
+          .order("created_at", { ascending: true }),
+        supabase
+          .from("students")
+          .select("id, first_name, last_name, id_number, status, enrollments(id, grade_level, total_tuition, student_charges(amount))")
+          .eq("family_id", id)
+          .eq("enrollments.academic_year_id", selectedYear.id)
+          .is("enrollments.student_charges.waived_at", null)
+          .order("date_of_birth", { ascending: true }),
+      ]);
+
+      if (familyRes.error) throw familyRes.error;
+      if (guardiansRes.error) throw guardiansRes.error;
+      if (studentsRes.error) throw studentsRes.error;
+
+      const studentIds = (studentsRes.data || []).map((student) => student.id);
+      const enrollmentIds = (studentsRes.data || []).flatMap((student) => student.enrollments.map((e) => e.id));
+      const [paymentsRes, discountsRes] = await Promise.all([
+        supabase
+          .from("payments")
+          .select("student_id, amount")
+          .in("student_id", studentIds)
+          .eq("academic_year_id", selectedYear.id)
+          .eq("status", "posted"),
+        supabase.from("item_discounts").select("enrollment_id, discount_amount").in("enrollment_id", enrollmentIds),
+      ]);
+
+      if (paymentsRes.error) throw paymentsRes.error;
+      if (discountsRes.error) throw discountsRes.error;
+      const payments = paymentsRes.data;
+
+      setFamilyName(familyRes.data.name);
+      setGuardians(guardiansRes.data || []);
+      setSiblings(
+        (studentsRes.data || []).map(({ enrollments, ...student }) => ({
+          ...student,
+          grade_level: enrollments[0]?.grade_level || null,
+          total_tuition: Number(enrollments[0]?.total_tuition || 0),
+          total_charges: (enrollments[0]?.student_charges || []).reduce((sum, charge) => sum + Number(charge.amount), 0),
+          total_discounts: (discountsRes.data || [])
+            .filter((discount) => discount.enrollment_id === enrollments[0]?.id)
+            .reduce((sum, discount) => sum + Number(discount.discount_amount), 0),
+          total_paid: (payments || [])
+            .filter((payment) => payment.student_id === student.id)
+            .reduce((sum, payment) => sum + Number(payment.amount), 0),
+        }))
+      );
+    } catch (error: any) {
+      toast.error("Error loading family data: " + error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (!familyName) {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-12">
+          <p className="text-muted-foreground">Familia no encontrada</p>
+          <Button onClick={() => navigate("/students")} className="mt-4">
+            Volver a los estudiantes
+          </Button>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  const primaryContact = guardians.find((guardian) => guardian.is_primary_contact) || guardians[0];
+  const totalTuition = siblings.reduce((sum, sibling) => sum + sibling.total_tuition, 0);
+  const totalCharges = siblings.reduce((sum, sibling) => sum + sibling.total_charges, 0);
+  const totalDiscounts = siblings.reduce((sum, sibling) => sum + sibling.total_discounts, 0);
+  const totalPaid = siblings.reduce((sum, sibling) => sum + sibling.total_paid, 0);
+  const balance = totalTuition + totalCharges - totalDiscounts - totalPaid;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <Button variant="ghost" onClick={() => navigate("/students")}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Volver a los estudiantes
+        </Button>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-4xl font-bold tracking-tight">{familyName}</h1>
+            <p className="text-muted-foreground mt-2">
+              {siblings.length} estudiante(s) · Saldo consolidado de {selectedYear?.name}
+            </p>
+          </div>
+          <Button variant="outline" onClick={() => setStatementTarget({ kind: "family", id, name: familyName })}>
+            <FileText className="mr-2 h-4 w-4" />
+            Estado de cuenta
+          </Button>
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-2">
+          {/* Primary contact */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Phone className="h-5 w-5" />
+                Contacto principal
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {primaryContact ? (
+                <>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Nombre completo:</span>
+                    <span className="font-medium">{primaryContact.full_name}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Parentesco</span>
+                    <span className="font-medium">{getGuardianRelationshipLabel(primaryContact.relationship)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Celular</span>
+                    <span className="font-medium">{primaryContact.cell_phone}</span>
+                  </div>
+                  {primaryContact.email && (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Email</span>
+                      <span className="font-medium">{primaryContact.email}</span>
+                    </div>
+                  )}
+                  {primaryContact.address && (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Direcciòn</span>
+                      <span className="font-medium">{primaryContact.address}</span>
+                    </div>
+                  )}
+                </>
+              ) : (
+                <p className="text-muted-foreground">No hay información de los padres disponible</p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Combined balance */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <DollarSign className="h-5 w-5" />
+                Saldo familiar
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Matrícula total:</span>
+                <span className="font-medium">${totalTuition.toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Otros cargos:</span>
+                <span className="font-medium">${totalCharges.toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Descuentos:</span>
+                <span className="font-medium text-success">-${totalDiscounts.toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Total pagado:</span>
+                <span className="font-medium text-success">${totalPaid.toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Saldo pendiente:</span>
+                <span className={`font-bold ${balance > 0 ? "text-destructive" : "text-success"}`}>
+                  ${balance.toFixed(2)}
+                </span>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Siblings */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <UsersIcon className="h-5 w-5" />
+              Hermanos
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nombre</TableHead>
+                  <TableHead>DNI</TableHead>
+                  <TableHead>Grado</TableHead>
+                  <TableHead>Estado</TableHead>
+                  <TableHead className="text-right">Matrícula</TableHead>
+                  <TableHead className="text-right">Pagado</TableHead>
+                  <TableHead className="text-right">Saldo</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {siblings.map((sibling) => (
+                  <TableRow
+                    key={sibling.id}
+                    className="cursor-pointer"
+                    onClick={() => navigate(`/student/${sibling.id}`)}
+                  >
+                    <TableCell className="font-medium">
+                      {sibling.first_name} {sibling.last_name}
+                    </TableCell>
+                    <TableCell>{sibling.id_number}</TableCell>
+                    <TableCell>
+                      {sibling.grade_level ? (
+                        <Badge variant="secondary">{sibling.grade_level}</Badge>
+                      ) : (
+                        <span className="text-muted-foreground">No inscrito</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={getStudentStatusColor(sibling.status)}>
+                        {getStudentStatusLabel(sibling.status)}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">${sibling.total_tuition.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">${sibling.total_paid.toFixed(2)}</TableCell>
+                    <TableCell className="text-right font-medium">
+                      ${(sibling.total_tuition + sibling.total_charges - sibling.total_discounts - sibling.total_paid).toFixed(2)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        {/* All guardians */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <UsersIcon className="h-5 w-5" />
+              Apoderados
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {guardians.length === 0 ? (
+              <p className="text-muted-foreground">No hay información de los padres disponible</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Nombre</TableHead>
+                    <TableHead>Parentesco</TableHead>
+                    <TableHead>DNI</TableHead>
+                    <TableHead>Celular</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {guardians.map((guardian) => (
+                    <TableRow key={guardian.id}>
+                      <TableCell className="font-medium">{guardian.full_name}</TableCell>
+                      <TableCell>{getGuardianRelationshipLabel(guardian.relationship)}</TableCell>
+                      <TableCell>{guardian.id_number}</TableCell>
+                      <TableCell>{guardian.cell_phone}</TableCell>
+                      <TableCell>{guardian.email || "-"}</TableCell>
+                      <TableCell className="space-x-2">
+                        {guardian.is_primary_contact && (
+                          <Badge className="bg-info text-info-foreground">Contacto principal</Badge>
+                        )}
+                        {guardian.is_financially_responsible && (
+                          <Badge className="bg-success text-success-foreground">Responsable financiero</Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <AccountStatementDialog target={statementTarget} onOpenChange={(open) => !open && setStatementTarget(null)} />
+    </DashboardLayout>
+  );
+};
+
+export default FamilyDetail;
@@ -0,0 +1,488 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useAcademicYear } from "@/hooks/use-academic-year";
+import { useGradeLevels } from "@/hooks/use-grade-levels";
+import { FeeConcept, assignChargeSchema, feeConceptSchema, getConceptAmount } from "@/lib/charges";
+import { toast } from "sonner";
+import { ArrowLeft, Plus, Pencil, Trash2, Users } from "lucide-react";
+import { z } from "zod";
+
+interface FeeConceptWithAmounts extends FeeConcept {
+  fee_concept_grade_amounts: {
+    grade_level_id: string;
+    amount: number;
+  }[];
+}
+
+const ALL = "all";
+
+const FeeConcepts = () => {
+  const navigate = useNavigate();
+  const { selectedYear } = useAcademicYear();
+  const { gradeLevels } = useGradeLevels();
+  const [concepts, setConcepts] = useState<FeeConceptWithAmounts[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dialog, setDialog] = useState<{ open: boolean; concept: FeeConceptWithAmounts | null }>({
+    open: false,
+    concept: null,
+  });
+  const [formData, setFormData] = useState({ name: "", defaultAmount: 0, isActive: true });
+  // Empty means the grade level uses the concept default
+  const [gradeAmounts, setGradeAmounts] = useState<Record<string, string>>({});
+  const [assignConcept, setAssignConcept] = useState<FeeConceptWithAmounts | null>(null);
+  const [assignData, setAssignData] = useState({ gradeLevelId: "", sectionId: ALL, dueDate: "", amount: "", description: "" });
+  const [assignEnrollmentIds, setAssignEnrollmentIds] = useState<string[] | null>(null);
+
+  useEffect(() => {
+    loadConcepts();
+  }, []);
+
+  useEffect(() => {
+    if (assignConcept && assignData.gradeLevelId && selectedYear) {
+      loadAssignEnrollments();
+    } else {
+      setAssignEnrollmentIds(null);
+    }
+  }, [assignConcept, assignData.gradeLevelId, assignData.sectionId, selectedYear?.id]);
+
+  const loadConcepts = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("fee_concepts")
+        .select("id, name, default_amount, is_active, fee_concept_grade_amounts(grade_level_id, amount)")
+        .order("name");
+
+      if (error) throw error;
+      setConcepts(data || []);
+    } catch (error: any) {
+      toast.error("Error loading fee concepts: " + error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadAssignEnrollments = async () => {
+    try {
+      let query = supabase
+        .from("enrollments")
+        .select("id")
+        .eq("academic_year_id", selectedYear.id)
+        .eq("grade_level_id", assignData.gradeLevelId);
+      if (assignData.sectionId !== ALL) query = query.eq("section_id", assignData.sectionId);
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      setAssignEnrollmentIds((data || []).map((enrollment) => enrollment.id));
+    } catch (error: any) {
+      toast.error("Error loading enrollments: " + error.message);
+    }
+  };
+
+  const openDialog = (concept: FeeConceptWithAmounts | null) => {
+    setFormData({
+      name: concept?.name || "",
+      defaultAmount: Number(concept?.default_amount || 0),
+      isActive: concept?.is_active ?? true,
+    });
+    setGradeAmounts(
+      Object.fromEntries((concept?.fee_concept_grade_amounts || []).map((row) => [row.grade_level_id, String(row.amount)]))
+    );
+    setDialog({ open: true, concept });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    try {
+      const validated = feeConceptSchema.parse(formData);
+      const overrides = Object.entries(gradeAmounts)
+        .filter(([, amount]) => amount.trim() !== "")
+        .map(([gradeLevelId, amount]) => ({ grade_level_id: gradeLevelId, amount: parseFloat(amount) }));
+
+      if (overrides.some((row) => isNaN(row.amount) || row.amount < 0)) {
+        throw new Error("Los montos por grado deben ser números positivos");
+      }
+
+      const values = { name: validated.name, default_amount: validated.defaultAmount, is_active: formData.isActive };
+      let conceptId = dialog.concept?.id;
+      if (conceptId) {
+        const { error } = await supabase.from("fee_concepts").update(values).eq("id", conceptId);
+        if (error) throw error;
+
+        const { error: deleteError } = await supabase
+          .from("fee_concept_grade_amounts")
+          .delete()
+          .eq("fee_concept_id", conceptId);
+        if (deleteError) throw deleteError;
+      } else {
+        const { data, error } = await supabase.from("fee_concepts").insert(values).select("id").single();
+        if (error) throw error;
+        conceptId = data.id;
+      }
+
+      if (overrides.length > 0) {
+        const { error } = await supabase
+          .from("fee_concept_grade_amounts")
+          .insert(overrides.map((row) => ({ ...row, fee_concept_id: conceptId })));
+        if (error) throw error;
+      }
+
+      toast.success(dialog.concept ? "Concepto actualizado correctamente" : "Concepto creado correctamente");
+      setDialog({ open: false, concept: null });
+      loadConcepts();
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else if (error.code === "23505") {
+        toast.error("Ya existe un concepto con ese nombre");
+      } else {
+        toast.error(error.message || "Error saving fee concept");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (concept: FeeConceptWithAmounts) => {
+    try {
+      const { error } = await supabase.from("fee_concepts").delete().eq("id", concept.id);
+      if (error) throw error;
+
+      toast.success("Concepto eliminado");
+      loadConcepts();
+    } catch (error: any) {
+      if (error.code === "23503") {
+        toast.error("El concepto ya tiene cargos asignados; desactívelo en su lugar");
+      } else {
+        toast.error(error.message || "Error deleting fee concept");
+      }
+    }
+  };
+
+  const openAssign = (concept: FeeConceptWithAmounts) => {
+    setAssignData({ gradeLevelId: "", sectionId: ALL, dueDate: "", amount: "", description: "" });
+    setAssignConcept(concept);
+  };
+
+  const handleAssign = async () => {
+    if (!assignConcept || !assignEnrollmentIds || assignEnrollmentIds.length === 0) return;
+
+    setSaving(true);
+    try {
+      const validated = assignChargeSchema.parse({
+        feeConceptId: assignConcept.id,
+        dueDate: assignData.dueDate,
+        amount: assignData.amount.trim() === "" ? null : parseFloat(assignData.amount),
+        description: assignData.description,
+      });
+
+      const { data, error } = await supabase.rpc("assign_fee_charge", {
+        p_fee_concept_id: validated.feeConceptId,
+        p_enrollment_ids: assignEnrollmentIds,
+        p_due_date: validated.dueDate,
+        p_amount: validated.amount ?? undefined,
+        p_description: validated.description || undefined,
+      });
+      if (error) throw error;
+
+      toast.success(`Cargo asignado a ${data} estudiante(s)`);
+      setAssignConcept(null);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error(error.message || "Error assigning charge");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const assignSections = gradeLevels.find((g) => g.id === assignData.gradeLevelId)?.sections || [];
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <Button variant="ghost" onClick={() => navigate("/payments")}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Volver a pagos
+        </Button>
+
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-4xl font-bold tracking-tight">Conceptos de cobro</h1>
+            <p className="text-muted-foreground mt-2">
+              Matrícula, uniformes, libros, exámenes, paseos, transporte y otros cargos además de la pensión
+            </p>
+          </div>
+          <Button size="lg" onClick={() => openDialog(null)}>
+            <Plus className="mr-2 h-5 w-5" />
+            Nuevo concepto
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Catálogo</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="text-center py-8">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+              </div>
+            ) : concepts.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">Aún no hay conceptos de cobro</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Nombre</TableHead>
+                    <TableHead>Monto por defecto</TableHead>
+                    <TableHead>Montos por grado</TableHead>
+                    <TableHead>Estado</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {concepts.map((concept) => (
+                    <TableRow key={concept.id}>
+                      <TableCell className="font-medium">{concept.name}</TableCell>
+                      <TableCell>${Number(concept.default_amount).toFixed(2)}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {concept.fee_concept_grade_amounts.length === 0
+                            ? "-"
+                            : concept.fee_concept_grade_amounts.map((row) => (
+                                <Badge key={row.grade_level_id} variant="outline">
+                                  {gradeLevels.find((g) => g.id === row.grade_level_id)?.name || "?"}: $
+                                  {Number(row.amount).toFixed(2)}
+                                </Badge>
+                              ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={concept.is_active ? "default" : "secondary"}>
+                          {concept.is_active ? "Activo" : "Inactivo"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openAssign(concept)}
+                          disabled={!concept.is_active || !selectedYear}
+                        >
+                          <Users className="mr-2 h-4 w-4" />
+                          Asignar
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => openDialog(concept)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                          onClick={() => handleDelete(concept)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Dialog open={dialog.open} onOpenChange={(open) => setDialog({ ...dialog, open })}>
+          <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{dialog.concept ? "Editar concepto" : "Nuevo concepto"}</DialogTitle>
+              <DialogDescription>
+                Los montos por grado reemplazan al monto por defecto al asignar el cargo.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="conceptName">Nombre</Label>
+                  <Input
+                    id="conceptName"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    placeholder="Ej: Uniforme"
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="defaultAmount">Monto por defecto</Label>
+                  <Input
+                    id="defaultAmount"
+                    type="number"
+                    step="0.01"
+                    value={formData.defaultAmount}
+                    onChange={(e) => setFormData({ ...formData, defaultAmount: parseFloat(e.target.value) })}
+                  />
+                </div>
+              </div>
+
+              {gradeLevels.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Grado</TableHead>
+                      <TableHead>Monto</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {gradeLevels.map((level) => (
+                      <TableRow key={level.id}>
+                        <TableCell>{level.name}</TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            value={gradeAmounts[level.id] || ""}
+                            placeholder={Number(formData.defaultAmount || 0).toFixed(2)}
+                            onChange={(e) => setGradeAmounts({ ...gradeAmounts, [level.id]: e.target.value })}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="isActive"
+                  checked={formData.isActive}
+                  onCheckedChange={(checked) => setFormData({ ...formData, isActive: checked === true })}
+                />
+                <Label htmlFor="isActive">Activo</Label>
+              </div>
+
+              <div className="flex justify-end gap-3">
+                <Button type="button" variant="outline" onClick={() => setDialog({ open: false, concept: null })}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saving}>
+                  {dialog.concept ? "Guardar cambios" : "Crear concepto"}
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!assignConcept} onOpenChange={(open) => !open && setAssignConcept(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Asignar {assignConcept?.name}</DialogTitle>
+              <DialogDescription>
+                Agrega el cargo a cada estudiante del grupo en {selectedYear?.name}.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Grado</Label>
+                <Select
+                  value={assignData.gradeLevelId}
+                  onValueChange={(value) => setAssignData({ ...assignData, gradeLevelId: value, sectionId: ALL })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Seleccionar grado" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {gradeLevels.map((level) => (
+                      <SelectItem key={level.id} value={level.id}>
+                        {level.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Sección</Label>
+                <Select
+                  value={assignData.sectionId}
+                  onValueChange={(value) => setAssignData({ ...assignData, sectionId: value })}
+                  disabled={assignSections.length === 0}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Todas las secciones</SelectItem>
+                    {assignSections.map((section) => (
+                      <SelectItem key={section.id} value={section.id}>
+                        {section.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="assignDueDate">Vence</Label>
+                <Input
+                  id="assignDueDate"
+                  type="date"
+                  value={assignData.dueDate}
+                  onChange={(e) => setAssignData({ ...assignData, dueDate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="assignAmount">Monto</Label>
+                <Input
+                  id="assignAmount"
+                  type="number"
+                  step="0.01"
+                  value={assignData.amount}
+                  placeholder={assignConcept ? getConceptAmount(assignConcept, assignData.gradeLevelId).toFixed(2) : ""}
+                  onChange={(e) => setAssignData({ ...assignData, amount: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="assignDescription">Detalle (opcional)</Label>
+                <Input
+                  id="assignDescription"
+                  value={assignData.description}
+                  onChange={(e) => setAssignData({ ...assignData, description: e.target.value })}
+                  placeholder="Ej: Paseo al museo"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-3">
+              <Button type="button" variant="outline" onClick={() => setAssignConcept(null)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleAssign}
+                disabled={saving || !assignEnrollmentIds || assignEnrollmentIds.length === 0}
+              >
+                Asignar a {assignEnrollmentIds?.length || 0} estudiante(s)
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default FeeConcepts;
@@ -0,0 +1,547 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Separator } from "@/components/ui/separator";
+import { supabase } from "@/integrations/supabase/client";
+import { useAcademicYear } from "@/hooks/use-academic-year";
+import { useGradeLevels } from "@/hooks/use-grade-levels";
+import { FeePlanInstallmentInput, buildMonthlyInstallments, feePlanSchema } from "@/lib/installments";
+import { toast } from "sonner";
+import { ArrowLeft, Plus, Pencil, Trash2, Users, Wand2 } from "lucide-react";
+import { z } from "zod";
+
+interface FeePlan {
+  id: string;
+  name: string;
+  fee_plan_installments: {
+    id: string;
+    sequence: number;
+    label: string;
+    due_date: string;
+    amount: number;
+  }[];
+}
+
+const ALL = "all";
+
+const FeePlans = () => {
+  const navigate = useNavigate();
+  const { selectedYear } = useAcademicYear();
+  const { gradeLevels } = useGradeLevels();
+  const [plans, setPlans] = useState<FeePlan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dialog, setDialog] = useState<{ open: boolean; plan: FeePlan | null }>({ open: false, plan: null });
+  const [name, setName] = useState("");
+  const [installments, setInstallments] = useState<FeePlanInstallmentInput[]>([]);
+  const [generator, setGenerator] = useState({
+    enrollmentAmount: 0,
+    enrollmentDueDate: "",
+    monthlyAmount: 0,
+    months: 10,
+    firstDueDate: "",
+  });
+  const [applyPlan, setApplyPlan] = useState<FeePlan | null>(null);
+  const [applyGradeLevelId, setApplyGradeLevelId] = useState("");
+  const [applySectionId, setApplySectionId] = useState(ALL);
+  const [applyEnrollmentIds, setApplyEnrollmentIds] = useState<string[] | null>(null);
+
+  useEffect(() => {
+    if (selectedYear) {
+      loadPlans();
+    } else {
+      setPlans([]);
+      setLoading(false);
+    }
+  }, [selectedYear?.id]);
+
+  useEffect(() => {
+    if (applyPlan && applyGradeLevelId) {
+      loadApplyEnrollments();
+    } else {
+      setApplyEnrollmentIds(null);
+    }
+  }, [applyPlan, applyGradeLevelId, applySectionId]);
+
+  const loadPlans = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("fee_plans")
+        .select("id, name, fee_plan_installments(id, sequence, label, due_date, amount)")
+        .eq("academic_year_id", selectedYear.id)
+        .order("name");
+
+      if (error) throw error;
+
+      setPlans(
+        (data || []).map((plan) => ({
+          ...plan,
+          fee_plan_installments: [...plan.fee_plan_installments].sort((a, b) => a.sequence - b.sequence),
+        }))
+      );
+    } catch (error: any) {
+      toast.error("Error loading fee plans: " + error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadApplyEnrollments = async () => {
+    try {
+      let query = supabase
+        .from("enrollments")
+        .select("id")
+        .eq("academic_year_id", selectedYear.id)
+        .eq("grade_level_id", applyGradeLevelId);
+      if (applySectionId !== ALL) query = query.eq("section_id", applySectionId);
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      setApplyEnrollmentIds((data || []).map((enrollment) => enrollment.id));
+    } catch (error: any) {
+      toast.error("Error loading enrollments: " + error.message);
+    }
+  };
+
+  const openDialog = (plan: FeePlan | null) => {
+    setName(plan?.name || "");
+    setInstallments(
+      plan
+        ? plan.fee_plan_installments.map((i) => ({ label: i.label, dueDate: i.due_date, amount: Number(i.amount) }))
+        : []
+    );
+    setGenerator({
+      enrollmentAmount: 0,
+      enrollmentDueDate: selectedYear?.start_date || "",
+      monthlyAmount: 0,
+      months: 10,
+      firstDueDate: selectedYear?.start_date || "",
+    });
+    setDialog({ open: true, plan });
+  };
+
+  const updateInstallment = (index: number, changes: Partial<FeePlanInstallmentInput>) =>
+    setInstallments(installments.map((installment, i) => (i === index ? { ...installment, ...changes } : installment)));
+
+  const handleGenerate = () => {
+    if (!generator.enrollmentDueDate || !generator.firstDueDate || generator.months < 1) {
+      toast.error("Complete las fechas y el número de cuotas");
+      return;
+    }
+    setInstallments(buildMonthlyInstallments(generator));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    try {
+      const validated = feePlanSchema.parse({ name, installments });
+
+      let planId = dialog.plan?.id;
+      if (planId) {
+        const { error } = await supabase.from("fee_plans").update({ name: validated.name }).eq("id", planId);
+        if (error) throw error;
+
+        const { error: deleteError } = await supabase.from("fee_plan_installments").delete().eq("fee_plan_id", planId);
+        if (deleteError) throw deleteError;
+      } else {
+        const { data, error } = await supabase
+          .from("fee_plans")
+          .insert({ academic_year_id: selectedYear.id, name: validated.name })
+          .select("id")
+          .single();
+        if (error) throw error;
+        planId = data.id;
+      }
+
+      const { error } = await supabase.from("fee_plan_installments").insert(
+        validated.installments.map((installment, index) => ({
+          fee_plan_id: planId,
+          sequence: index + 1,
+          label: installment.label,
+          due_date: installment.dueDate,
+          amount: installment.amount,
+        }))
+      );
+      if (error) throw error;
+
+      toast.success(dialog.plan ? "Plan actualizado correctamente" : "Plan creado correctamente");
+      setDialog({ open: false, plan: null });
+      loadPlans();
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else if (error.code === "23505") {
+        toast.error("Ya existe un plan con ese nombre en este año");
+      } else {
+        toast.error(error.message || "Error saving fee plan");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Students keep the installments already copied to them
+  const handleDelete = async (plan: FeePlan) => {
+    try {
+      const { error } = await supabase.from("fee_plans").delete().eq("id", plan.id);
+      if (error) throw error;
+
+      toast.success("Plan eliminado");
+      loadPlans();
+    } catch (error: any) {
+      toast.error(error.message || "Error deleting fee plan");
+    }
+  };
+
+  const openApply = (plan: FeePlan) => {
+    setApplyGradeLevelId("");
+    setApplySectionId(ALL);
+    setApplyPlan(plan);
+  };
+
+  const handleApply = async () => {
+    if (!applyPlan || !applyEnrollmentIds || applyEnrollmentIds.length === 0) return;
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase.rpc("apply_fee_plan", {
+        p_fee_plan_id: applyPlan.id,
+        p_enrollment_ids: applyEnrollmentIds,
+      });
+      if (error) throw error;
+
+      toast.success(`Plan aplicado a ${data} estudiante(s)`);
+      setApplyPlan(null);
+    } catch (error: any) {
+      toast.error(error.message || "Error applying fee plan");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const planTotal = (plan: FeePlan) => plan.fee_plan_installments.reduce((sum, i) => sum + Number(i.amount), 0);
+  const installmentsTotal = installments.reduce((sum, i) => sum + (Number(i.amount) || 0), 0);
+  const applySections = gradeLevels.find((g) => g.id === applyGradeLevelId)?.sections || [];
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <Button variant="ghost" onClick={() => navigate("/payments")}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Volver a pagos
+        </Button>
+
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-4xl font-bold tracking-tight">Planes de pago</h1>
+            <p className="text-muted-foreground mt-2">
+              Cronogramas de cuotas con fechas de vencimiento para {selectedYear?.name}
+            </p>
+          </div>
+          <Button size="lg" onClick={() => openDialog(null)} disabled={!selectedYear}>
+            <Plus className="mr-2 h-5 w-5" />
+            Nuevo plan
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Planes</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="text-center py-8">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+              </div>
+            ) : plans.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">Aún no hay planes de pago para este año</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Nombre</TableHead>
+                    <TableHead>Cuotas</TableHead>
+                    <TableHead>Primer vencimiento</TableHead>
+                    <TableHead>Total</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plans.map((plan) => (
+                    <TableRow key={plan.id}>
+                      <TableCell className="font-medium">{plan.name}</TableCell>
+                      <TableCell>{plan.fee_plan_installments.length}</TableCell>
+                      <TableCell>
+                        {plan.fee_plan_installments[0]
+                          ? new Date(`${plan.fee_plan_installments[0].due_date}T00:00:00`).toLocaleDateString()
+                          : "-"}
+                      </TableCell>
+                      <TableCell>${planTotal(plan).toFixed(2)}</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="outline" size="sm" onClick={() => openApply(plan)}>
+                          <Users className="mr-2 h-4 w-4" />
+                          Aplicar
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => openDialog(plan)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                          onClick={() => handleDelete(plan)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Dialog open={dialog.open} onOpenChange={(open) => setDialog({ ...dialog, open })}>
+          <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{dialog.plan ? "Editar plan de pagos" : "Nuevo plan de pagos"}</DialogTitle>
+              {dialog.plan && (
+                <DialogDescription>
+                  Los cambios se aplican a los estudiantes cuando se vuelve a aplicar el plan.
+                </DialogDescription>
+              )}
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="planName">Nombre</Label>
+                <Input
+                  id="planName"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Ej: Matrícula + 10 cuotas"
+                  required
+                />
+              </div>
+
+              <div className="rounded-lg border p-4 space-y-3">
+                <p className="text-sm font-medium">Generar cuotas mensuales</p>
+                <div className="grid grid-cols-5 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="genEnrollmentAmount" className="text-xs">Matrícula</Label>
+                    <Input
+                      id="genEnrollmentAmount"
+                      type="number"
+                      step="0.01"
+                      value={generator.enrollmentAmount}
+                      onChange={(e) => setGenerator({ ...generator, enrollmentAmount: parseFloat(e.target.value) || 0 })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="genEnrollmentDueDate" className="text-xs">Vence</Label>
+                    <Input
+                      id="genEnrollmentDueDate"
+                      type="date"
+                      value={generator.enrollmentDueDate}
+                      onChange={(e) => setGenerator({ ...generator, enrollmentDueDate: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="genMonthlyAmount" className="text-xs">Cuota mensual</Label>
+                    <Input
+                      id="genMonthlyAmount"
+                      type="number"
+                      step="0.01"
+                      value={generator.monthlyAmount}
+                      onChange={(e) => setGenerator({ ...generator, monthlyAmount: parseFloat(e.target.value) || 0 })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="genMonths" className="text-xs">N° de cuotas</Label>
+                    <Input
+                      id="genMonths"
+                      type="number"
+                      min="1"
+                      max="24"
+                      value={generator.months}
+                      onChange={(e) => setGenerator({ ...generator, months: parseInt(e.target.value) || 0 })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="genFirstDueDate" className="text-xs">Primera cuota vence</Label>
+                    <Input
+                      id="genFirstDueDate"
+                      type="date"
+                      value={generator.firstDueDate}
+                      onChange={(e) => setGenerator({ ...generator, firstDueDate: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <Button type="button" variant="outline" size="sm" onClick={handleGenerate}>
+                  <Wand2 className="mr-2 h-4 w-4" />
+                  Generar
+                </Button>
+              </div>
+
+              <Separator />
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium">Cuotas</p>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      setInstallments([
+                        ...installments,
+                        { label: `Cuota ${installments.length + 1}`, dueDate: "", amount: 0 },
+                      ])
+                    }
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    Agregar cuota
+                  </Button>
+                </div>
+                {installments.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Genere o agregue las cuotas del plan</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Concepto</TableHead>
+                        <TableHead>Vence</TableHead>
+                        <TableHead>Monto</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {installments.map((installment, index) => (
+                        <TableRow key={index}>
+                          <TableCell>
+                            <Input
+                              value={installment.label}
+                              onChange={(e) => updateInstallment(index, { label: e.target.value })}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="date"
+                              value={installment.dueDate}
+                              onChange={(e) => updateInstallment(index, { dueDate: e.target.value })}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              step="0.01"
+                              value={installment.amount}
+                              onChange={(e) => updateInstallment(index, { amount: parseFloat(e.target.value) })}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                              onClick={() => setInstallments(installments.filter((_, i) => i !== index))}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+                <p className="text-sm text-right font-semibold">Total: ${installmentsTotal.toFixed(2)}</p>
+              </div>
+
+              <div className="flex justify-end gap-3">
+                <Button type="button" variant="outline" onClick={() => setDialog({ open: false, plan: null })}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saving}>
+                  {dialog.plan ? "Guardar cambios" : "Crear plan"}
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!applyPlan} onOpenChange={(open) => !open && setApplyPlan(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Aplicar {applyPlan?.name}</DialogTitle>
+              <DialogDescription>
+                Reemplaza el cronograma de cuotas de los estudiantes elegidos. Sus pagos se vuelven a asignar a las
+                cuotas más antiguas primero.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Grado</Label>
+                <Select
+                  value={applyGradeLevelId}
+                  onValueChange={(value) => {
+                    setApplyGradeLevelId(value);
+                    setApplySectionId(ALL);
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Seleccionar grado" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {gradeLevels.map((level) => (
+                      <SelectItem key={level.id} value={level.id}>
+                        {level.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Sección</Label>
+                <Select value={applySectionId} onValueChange={setApplySectionId} disabled={applySections.length === 0}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Todas las secciones</SelectItem>
+                    {applySections.map((section) => (
+                      <SelectItem key={section.id} value={section.id}>
+                        {section.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex justify-end gap-3">
+              <Button type="button" variant="outline" onClick={() => setApplyPlan(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleApply} disabled={saving || !applyEnrollmentIds || applyEnrollmentIds.length === 0}>
+                Aplicar a {applyEnrollmentIds?.length || 0} estudiante(s)
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default FeePlans;
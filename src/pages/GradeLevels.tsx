@@ -0,0 +1,500 @@
+import { useEffect, useState } from "react";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import { RequiredDocumentsMatrix } from "@/components/RequiredDocumentsMatrix";
+import { supabase } from "@/integrations/supabase/client";
+import { useAcademicYear } from "@/hooks/use-academic-year";
+import { GradeLevel, Section, useGradeLevels } from "@/hooks/use-grade-levels";
+import { toast } from "sonner";
+import { Plus, Pencil, Trash2, ArrowUp, ArrowDown, X } from "lucide-react";
+import { z } from "zod";
+
+const gradeLevelSchema = z.object({
+  name: z.string().trim().min(1, "El nombre del grado es requerido"),
+});
+
+const sectionSchema = z.object({
+  name: z.string().trim().min(1, "El nombre de la sección es requerido"),
+  capacity: z.number().int("La capacidad debe ser un número entero").positive("La capacidad debe ser mayor a 0").nullable(),
+});
+
+interface UnmatchedValue {
+  value: string;
+  count: number;
+}
+
+const GradeLevels = () => {
+  const { selectedYear } = useAcademicYear();
+  const { gradeLevels, loading, reloadGradeLevels } = useGradeLevels();
+  const [occupancy, setOccupancy] = useState<Record<string, number>>({});
+  const [unmatched, setUnmatched] = useState<UnmatchedValue[]>([]);
+  const [mappings, setMappings] = useState<Record<string, string>>({});
+
+  const [levelDialog, setLevelDialog] = useState<{ open: boolean; level: GradeLevel | null }>({ open: false, level: null });
+  const [levelName, setLevelName] = useState("");
+
+  const [sectionDialog, setSectionDialog] = useState<{ open: boolean; gradeLevelId: string; section: Section | null }>({
+    open: false,
+    gradeLevelId: "",
+    section: null,
+  });
+  const [sectionForm, setSectionForm] = useState({ name: "", capacity: "" });
+
+  useEffect(() => {
+    loadUnmatched();
+  }, []);
+
+  useEffect(() => {
+    if (selectedYear) {
+      loadOccupancy();
+    }
+  }, [selectedYear?.id]);
+
+  const loadOccupancy = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("enrollments")
+        .select("section_id")
+        .eq("academic_year_id", selectedYear.id)
+        .not("section_id", "is", null);
+
+      if (error) throw error;
+
+      const counts: Record<string, number> = {};
+      data?.forEach((e) => {
+        counts[e.section_id] = (counts[e.section_id] || 0) + 1;
+      });
+      setOccupancy(counts);
+    } catch (error: any) {
+      toast.error("Error loading sections: " + error.message);
+    }
+  };
+
+  // Free-text values the migration could not match to the catalog
+  const loadUnmatched = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("enrollments")
+        .select("grade_level")
+        .is("grade_level_id", null);
+
+      if (error) throw error;
+
+      const counts: Record<string, number> = {};
+      data?.forEach((e) => {
+        counts[e.grade_level] = (counts[e.grade_level] || 0) + 1;
+      });
+      setUnmatched(
+        Object.entries(counts)
+          .map(([value, count]) => ({ value, count }))
+          .sort((a, b) => a.value.localeCompare(b.value))
+      );
+    } catch (error: any) {
+      toast.error("Error loading unmatched grade levels: " + error.message);
+    }
+  };
+
+  const openLevelDialog = (level: GradeLevel | null) => {
+    setLevelName(level?.name || "");
+    setLevelDialog({ open: true, level });
+  };
+
+  const handleLevelSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const validated = gradeLevelSchema.parse({ name: levelName });
+
+      const { error } = levelDialog.level
+        ? await supabase.from("grade_levels").update({ name: validated.name }).eq("id", levelDialog.level.id)
+        : await supabase.from("grade_levels").insert({
+            name: validated.name,
+            sort_order: Math.max(0, ...gradeLevels.map((g) => g.sort_order)) + 1,
+          });
+
+      if (error) throw error;
+
+      toast.success(levelDialog.level ? "Grado actualizado correctamente" : "Grado creado correctamente");
+      setLevelDialog({ open: false, level: null });
+      reloadGradeLevels();
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error(error.message || "Error saving grade level");
+      }
+    }
+  };
+
+  // Swap sort_order with the neighbour above or below
+  const moveLevel = async (index: number, direction: -1 | 1) => {
+    const current = gradeLevels[index];
+    const neighbour = gradeLevels[index + direction];
+    if (!neighbour) return;
+
+    try {
+      const [first, second] = await Promise.all([
+        supabase.from("grade_levels").update({ sort_order: neighbour.sort_order }).eq("id", current.id),
+        supabase.from("grade_levels").update({ sort_order: current.sort_order }).eq("id", neighbour.id),
+      ]);
+
+      if (first.error) throw first.error;
+      if (second.error) throw second.error;
+      reloadGradeLevels();
+    } catch (error: any) {
+      toast.error(error.message || "Error reordering grade levels");
+    }
+  };
+
+  const deleteLevel = async (level: GradeLevel) => {
+    try {
+      const { error } = await supabase.from("grade_levels").delete().eq("id", level.id);
+      if (error) throw error;
+
+      toast.success("Grado eliminado correctamente");
+      reloadGradeLevels();
+    } catch (error: any) {
+      toast.error("No se puede eliminar un grado con inscripciones: " + error.message);
+    }
+  };
+
+  const openSectionDialog = (gradeLevelId: string, section: Section | null) => {
+    setSectionForm({ name: section?.name || "", capacity: section?.capacity ? String(section.capacity) : "" });
+    setSectionDialog({ open: true, gradeLevelId, section });
+  };
+
+  const handleSectionSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const validated = sectionSchema.parse({
+        name: sectionForm.name.toUpperCase(),
+        capacity: sectionForm.capacity ? parseInt(sectionForm.capacity) : null,
+      });
+
+      const { error } = sectionDialog.section
+        ? await supabase
+            .from("sections")
+            .update({ name: validated.name, capacity: validated.capacity })
+            .eq("id", sectionDialog.section.id)
+        : await supabase.from("sections").insert({
+            grade_level_id: sectionDialog.gradeLevelId,
+            name: validated.name,
+            capacity: validated.capacity,
+          });
+
+      if (error) throw error;
+
+      toast.success("Sección guardada correctamente");
+      setSectionDialog({ open: false, gradeLevelId: "", section: null });
+      reloadGradeLevels();
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error(error.message || "Error saving section");
+      }
+    }
+  };
+
+  const deleteSection = async (section: Section) => {
+    try {
+      const { error } = await supabase.from("sections").delete().eq("id", section.id);
+      if (error) throw error;
+
+      toast.success("Sección eliminada correctamente");
+      reloadGradeLevels();
+      loadOccupancy();
+    } catch (error: any) {
+      toast.error(error.message || "Error deleting section");
+    }
+  };
+
+  const handleMap = async (value: string) => {
+    const gradeLevelId = mappings[value];
+    if (!gradeLevelId) {
+      toast.error("Seleccione un grado del catálogo");
+      return;
+    }
+
+    try {
+      const { data: updated, error } = await supabase.rpc("map_grade_level", {
+        p_value: value,
+        p_grade_level_id: gradeLevelId,
+      });
+
+      if (error) throw error;
+
+      toast.success(`${updated} inscripción(es) asignadas`);
+      loadUnmatched();
+    } catch (error: any) {
+      toast.error(error.message || "Error mapping grade level");
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-4xl font-bold tracking-tight">Grados y secciones</h1>
+            <p className="text-muted-foreground mt-2">
+              Gestionar el catálogo de grados, su orden y las secciones con su capacidad
+            </p>
+          </div>
+          <Button size="lg" onClick={() => openLevelDialog(null)}>
+            <Plus className="mr-2 h-5 w-5" />
+            Nuevo grado
+          </Button>
+        </div>
+
+        <Tabs defaultValue="catalog">
+          <TabsList>
+            <TabsTrigger value="catalog">Catálogo</TabsTrigger>
+            <TabsTrigger value="review">
+              Revisión
+              {unmatched.length > 0 && (
+                <Badge className="ml-2 bg-warning text-warning-foreground">{unmatched.length}</Badge>
+              )}
+            </TabsTrigger>
+            <TabsTrigger value="documents">Documentos</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="catalog">
+            <Card>
+              <CardHeader>
+                <CardTitle>Grados</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {loading ? (
+                  <div className="text-center py-8">
+                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+                  </div>
+                ) : gradeLevels.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">Aún no hay grados registrados</div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-24">Orden</TableHead>
+                        <TableHead>Grado</TableHead>
+                        <TableHead>Secciones {selectedYear && `(ocupación ${selectedYear.name})`}</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {gradeLevels.map((level, index) => (
+                        <TableRow key={level.id}>
+                          <TableCell>
+                            <div className="flex gap-1">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-7 w-7"
+                                disabled={index === 0}
+                                onClick={() => moveLevel(index, -1)}
+                              >
+                                <ArrowUp className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-7 w-7"
+                                disabled={index === gradeLevels.length - 1}
+                                onClick={() => moveLevel(index, 1)}
+                              >
+                                <ArrowDown className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                          <TableCell className="font-medium">{level.name}</TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap items-center gap-2">
+                              {level.sections.map((section) => {
+                                const taken = occupancy[section.id] || 0;
+                                const isFull = section.capacity !== null && taken >= section.capacity;
+                                return (
+                                  <Badge
+                                    key={section.id}
+                                    variant="outline"
+                                    className={isFull ? "border-destructive text-destructive" : ""}
+                                  >
+                                    <button type="button" onClick={() => openSectionDialog(level.id, section)}>
+                                      {section.name} · {taken}/{section.capacity ?? "∞"}
+                                    </button>
+                                    <button
+                                      type="button"
+                                      className="ml-1 hover:text-destructive"
+                                      onClick={() => deleteSection(section)}
+                                    >
+                                      <X className="h-3 w-3" />
+                                    </button>
+                                  </Badge>
+                                );
+                              })}
+                              <Button variant="ghost" size="sm" onClick={() => openSectionDialog(level.id, null)}>
+                                <Plus className="h-4 w-4 mr-1" />
+                                Sección
+                              </Button>
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button variant="ghost" size="sm" onClick={() => openLevelDialog(level)}>
+                              <Pencil className="h-4 w-4 mr-2" />
+                              Editar
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                              onClick={() => deleteLevel(level)}
+                            >
+                              <Trash2 className="h-4 w-4 mr-2" />
+                              Eliminar
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="review">
+            <Card>
+              <CardHeader>
+                <CardTitle>Valores sin asignar</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {unmatched.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    Todas las inscripciones están asignadas a un grado del catálogo
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Valor original</TableHead>
+                        <TableHead>Inscripciones</TableHead>
+                        <TableHead>Grado del catálogo</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {unmatched.map((item) => (
+                        <TableRow key={item.value}>
+                          <TableCell className="font-medium">{item.value || "(vacío)"}</TableCell>
+                          <TableCell>{item.count}</TableCell>
+                          <TableCell>
+                            <Select
+                              value={mappings[item.value] || ""}
+                              onValueChange={(value) => setMappings({ ...mappings, [item.value]: value })}
+                            >
+                              <SelectTrigger className="w-48">
+                                <SelectValue placeholder="Seleccionar grado" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {gradeLevels.map((level) => (
+                                  <SelectItem key={level.id} value={level.id}>
+                                    {level.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button size="sm" onClick={() => handleMap(item.value)}>
+                              Asignar
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="documents">
+            <RequiredDocumentsMatrix gradeLevels={gradeLevels} />
+          </TabsContent>
+        </Tabs>
+
+        <Dialog open={levelDialog.open} onOpenChange={(open) => setLevelDialog({ ...levelDialog, open })}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{levelDialog.level ? "Editar grado" : "Nuevo grado"}</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleLevelSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="levelName">Nombre</Label>
+                <Input id="levelName" value={levelName} onChange={(e) => setLevelName(e.target.value)} required />
+              </div>
+              <div className="flex justify-end gap-3">
+                <Button type="button" variant="outline" onClick={() => setLevelDialog({ open: false, level: null })}>
+                  Cancel
+                </Button>
+                <Button type="submit">Guardar</Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={sectionDialog.open} onOpenChange={(open) => setSectionDialog({ ...sectionDialog, open })}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{sectionDialog.section ? "Editar sección" : "Nueva sección"}</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleSectionSubmit} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="sectionName">Sección</Label>
+                  <Input
+                    id="sectionName"
+                    placeholder="A"
+                    value={sectionForm.name}
+                    onChange={(e) => setSectionForm({ ...sectionForm, name: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="sectionCapacity">Capacidad (opcional)</Label>
+                  <Input
+                    id="sectionCapacity"
+                    type="number"
+                    min="1"
+                    value={sectionForm.capacity}
+                    onChange={(e) => setSectionForm({ ...sectionForm, capacity: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end gap-3">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setSectionDialog({ open: false, gradeLevelId: "", section: null })}
+                >
+                  Cancel
+                </Button>
+                <Button type="submit">Guardar</Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default GradeLevels;
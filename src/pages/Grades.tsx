@@ -9,6 +9,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Textarea } from "@/components/ui/textarea";
 import { supabase } from "@/integrations/supabase/client";
+import { useAcademicYear } from "@/hooks/use-academic-year";
 import { toast } from "sonner";
 import { Plus } from "lucide-react";
 
@@ -40,6 +41,7 @@ interface Grade {
 }
 
 const Grades = () => {
+  const { selectedYear } = useAcademicYear();
   const [students, setStudents] = useState<Student[]>([]);
   const [subjects, setSubjects] = useState<Subject[]>([]);
   const [grades, setGrades] = useState<Grade[]>([]);
@@ -53,17 +55,29 @@ const Grades = () => {
   });
 
   useEffect(() => {
-    loadData();
-  }, []);
+    if (selectedYear) {
+      loadData();
+    } else {
+      setStudents([]);
+      setGrades([]);
+      setLoading(false);
+    }
+  }, [selectedYear?.id]);
 
   const loadData = async () => {
+    setLoading(true);
     try {
       const [studentsRes, subjectsRes, gradesRes] = await Promise.all([
-        supabase.from("students").select("id, first_name, last_name"),
+        supabase
+          .from("students")
+          .select("id, first_name, last_name, enrollments!inner(id)")
+          .eq("status", "active")
+          .eq("enrollments.academic_year_id", selectedYear.id),
         supabase.from("subjects").select("*"),
         supabase
           .from("grades")
           .select("*, students(first_name, last_name), subjects(name)")
+          .eq("academic_year_id", selectedYear.id)
           .order("created_at", { ascending: false }),
       ]);
 
@@ -87,9 +101,11 @@ const Grades = () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error("Not authenticated");
+      if (!selectedYear) throw new Error("Seleccione un año académico");
 
       const { error } = await supabase.from("grades").insert({
         student_id: formData.studentId,
+        academic_year_id: selectedYear.id,
         subject_id: formData.subjectId,
         grade: formData.grade,
         observations: formData.observations || null,
@@ -124,7 +140,7 @@ const Grades = () => {
           </div>
           <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
             <DialogTrigger asChild>
-              <Button size="lg">
+              <Button size="lg" disabled={!selectedYear}>
                 <Plus className="mr-2 h-5 w-5" />
                 Agregar calificación
               </Button>
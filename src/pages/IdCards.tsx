@@ -0,0 +1,202 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAcademicYear } from "@/hooks/use-academic-year";
+import { useGradeLevels } from "@/hooks/use-grade-levels";
+import { IdCardStudent, generateIdCardsPdf, loadIdCardStudents } from "@/lib/idCards";
+import { toast } from "sonner";
+import { ArrowLeft, Printer } from "lucide-react";
+
+const ALL = "all";
+
+const IdCards = () => {
+  const navigate = useNavigate();
+  const { selectedYear } = useAcademicYear();
+  const { gradeLevels } = useGradeLevels();
+  const [gradeLevelId, setGradeLevelId] = useState(ALL);
+  const [sectionId, setSectionId] = useState(ALL);
+  const [students, setStudents] = useState<IdCardStudent[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [generating, setGenerating] = useState(false);
+
+  useEffect(() => {
+    if (selectedYear) {
+      loadStudents();
+    }
+  }, [selectedYear?.id, gradeLevelId, sectionId]);
+
+  const loadStudents = async () => {
+    setLoading(true);
+    try {
+      const data = await loadIdCardStudents(selectedYear.id, {
+        gradeLevelId: gradeLevelId === ALL ? undefined : gradeLevelId,
+        sectionId: sectionId === ALL ? undefined : sectionId,
+      });
+      setStudents(data);
+      setSelectedIds(new Set(data.map((s) => s.id)));
+    } catch (error: any) {
+      toast.error("Error loading students: " + error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleStudent = (id: string, checked: boolean) => {
+    const next = new Set(selectedIds);
+    if (checked) {
+      next.add(id);
+    } else {
+      next.delete(id);
+    }
+    setSelectedIds(next);
+  };
+
+  const handleGenerate = async () => {
+    const selected = students.filter((s) => selectedIds.has(s.id));
+    if (selected.length === 0) {
+      toast.error("Seleccione al menos un estudiante");
+      return;
+    }
+
+    setGenerating(true);
+    try {
+      const gradeLevel = gradeLevels.find((g) => g.id === gradeLevelId);
+      const section = gradeLevel?.sections.find((s) => s.id === sectionId);
+      const suffix = [gradeLevel?.name, section?.name].filter(Boolean).join("_") || "todos";
+      await generateIdCardsPdf(selected, selectedYear.name, `carnets_${selectedYear.name}_${suffix}.pdf`);
+      toast.success(`${selected.length} carnet(s) generado(s)`);
+    } catch (error: any) {
+      toast.error(error.message || "Error generating ID cards");
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const sections = gradeLevels.find((g) => g.id === gradeLevelId)?.sections || [];
+  const allSelected = students.length > 0 && selectedIds.size === students.length;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <Button variant="ghost" onClick={() => navigate("/students")}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Volver a los estudiantes
+        </Button>
+
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-4xl font-bold tracking-tight">Carnets estudiantiles</h1>
+            <p className="text-muted-foreground mt-2">
+              Genere una hoja PDF de carnets con código QR para {selectedYear?.name}
+            </p>
+          </div>
+          <Button size="lg" onClick={handleGenerate} disabled={generating || selectedIds.size === 0}>
+            <Printer className="mr-2 h-5 w-5" />
+            {generating ? "Generando..." : `Generar PDF (${selectedIds.size})`}
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-4">
+              <CardTitle>Estudiantes inscritos</CardTitle>
+              <div className="flex gap-3">
+                <Select
+                  value={gradeLevelId}
+                  onValueChange={(value) => {
+                    setGradeLevelId(value);
+                    setSectionId(ALL);
+                  }}
+                >
+                  <SelectTrigger className="w-48">
+                    <SelectValue placeholder="Grado" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Todos los grados</SelectItem>
+                    {gradeLevels.map((level) => (
+                      <SelectItem key={level.id} value={level.id}>
+                        {level.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={sectionId} onValueChange={setSectionId} disabled={sections.length === 0}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue placeholder="Sección" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Todas las secciones</SelectItem>
+                    {sections.map((section) => (
+                      <SelectItem key={section.id} value={section.id}>
+                        {section.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="text-center py-8">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+              </div>
+            ) : students.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">No hay estudiantes inscritos con estos filtros</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10">
+                      <Checkbox
+                        checked={allSelected}
+                        onCheckedChange={(checked) =>
+                          setSelectedIds(checked === true ? new Set(students.map((s) => s.id)) : new Set())
+                        }
+                      />
+                    </TableHead>
+                    <TableHead>Nombre</TableHead>
+                    <TableHead>DNI</TableHead>
+                    <TableHead>Grado/Nivel</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {students.map((student) => (
+                    <TableRow key={student.id}>
+                      <TableCell>
+                        <Checkbox
+                          id={`card-${student.id}`}
+                          checked={selectedIds.has(student.id)}
+                          onCheckedChange={(checked) => toggleStudent(student.id, checked === true)}
+                        />
+                      </TableCell>
+                      <TableCell className="font-medium">
+                        <Label htmlFor={`card-${student.id}`} className="font-medium cursor-pointer">
+                          {student.first_name} {student.last_name}
+                        </Label>
+                      </TableCell>
+                      <TableCell>{student.id_number}</TableCell>
+                      <TableCell>
+                        {student.grade_level}
+                        {student.section_name && ` ${student.section_name}`}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default IdCards;
@@ -0,0 +1,497 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useUserRole } from "@/hooks/use-user-role";
+import { TUITION_CONCEPT_NAME } from "@/lib/charges";
+import { DISCOUNT_VALUE_TYPES, DiscountValueType, discountValueTypeLabels, formatDiscountValue } from "@/lib/discounts";
+import { LateFeeRule, formatLateFeeCaps, lateFeeRuleSchema } from "@/lib/lateFees";
+import { canManageLateFees } from "@/lib/roles";
+import { toast } from "sonner";
+import { ArrowLeft, Plus, Pencil, Trash2, Play } from "lucide-react";
+import { z } from "zod";
+
+interface AppliedLateFee {
+  id: string;
+  description: string | null;
+  amount: number;
+  due_date: string;
+  waived_at: string | null;
+  waive_reason: string | null;
+  enrollments: {
+    student_id: string;
+    students: {
+      first_name: string;
+      last_name: string;
+    };
+  };
+}
+
+// Select value standing for tuition installments, stored as a NULL concept
+const TUITION = "tuition";
+
+// Name of the concept seeded for surcharges, preselected on new rules
+const LATE_FEE_CONCEPT_NAME = "Recargo por mora";
+
+const emptyForm = {
+  name: "",
+  feeConceptId: TUITION,
+  surchargeConceptId: "",
+  valueType: "fixed" as DiscountValueType,
+  value: 0,
+  graceDays: 0,
+  maxAmount: "",
+  maxTotal: "",
+  isActive: true,
+};
+
+const LateFees = () => {
+  const navigate = useNavigate();
+  const { role } = useUserRole();
+  const canManage = canManageLateFees(role);
+  const [rules, setRules] = useState<LateFeeRule[]>([]);
+  const [concepts, setConcepts] = useState<{ id: string; name: string }[]>([]);
+  const [applied, setApplied] = useState<AppliedLateFee[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [dialog, setDialog] = useState<{ open: boolean; rule: LateFeeRule | null }>({ open: false, rule: null });
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const [rulesRes, conceptsRes, appliedRes] = await Promise.all([
+        supabase.from("late_fee_rules").select("*").order("name"),
+        supabase.from("fee_concepts").select("id, name").order("name"),
+        supabase
+          .from("student_charges")
+          .select("id, description, amount, due_date, waived_at, waive_reason, enrollments(student_id, students(first_name, last_name))")
+          .not("late_fee_rule_id", "is", null)
+          .order("created_at", { ascending: false })
+          .limit(50),
+      ]);
+
+      if (rulesRes.error) throw rulesRes.error;
+      if (conceptsRes.error) throw conceptsRes.error;
+      if (appliedRes.error) throw appliedRes.error;
+
+      setRules(rulesRes.data || []);
+      setConcepts(conceptsRes.data || []);
+      setApplied(appliedRes.data || []);
+    } catch (error: any) {
+      toast.error("Error loading late fees: " + error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openDialog = (rule: LateFeeRule | null) => {
+    setFormData(
+      rule
+        ? {
+            name: rule.name,
+            feeConceptId: rule.fee_concept_id || TUITION,
+            surchargeConceptId: rule.surcharge_concept_id,
+            valueType: rule.value_type as DiscountValueType,
+            value: Number(rule.value),
+            graceDays: rule.grace_days,
+            maxAmount: rule.max_amount !== null ? String(rule.max_amount) : "",
+            maxTotal: rule.max_total !== null ? String(rule.max_total) : "",
+            isActive: rule.is_active,
+          }
+        : {
+            ...emptyForm,
+            surchargeConceptId: concepts.find((c) => c.name === LATE_FEE_CONCEPT_NAME)?.id || "",
+          }
+    );
+    setDialog({ open: true, rule });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    try {
+      const validated = lateFeeRuleSchema.parse({
+        ...formData,
+        feeConceptId: formData.feeConceptId === TUITION ? null : formData.feeConceptId,
+        maxAmount: formData.maxAmount ? parseFloat(formData.maxAmount) : null,
+        maxTotal: formData.maxTotal ? parseFloat(formData.maxTotal) : null,
+      });
+
+      const values = {
+        name: validated.name,
+        fee_concept_id: validated.feeConceptId,
+        surcharge_concept_id: validated.surchargeConceptId,
+        value_type: validated.valueType,
+        value: validated.value,
+        grace_days: validated.graceDays,
+        max_amount: validated.maxAmount,
+        max_total: validated.maxTotal,
+        is_active: formData.isActive,
+      };
+
+      if (dialog.rule) {
+        const { error } = await supabase.from("late_fee_rules").update(values).eq("id", dialog.rule.id);
+        if (error) throw error;
+      } else {
+        const { data: { user } } = await supabase.auth.getUser();
+        const { error } = await supabase.from("late_fee_rules").insert({ ...values, created_by: user?.id });
+        if (error) throw error;
+      }
+
+      toast.success(dialog.rule ? "Regla actualizada correctamente" : "Regla creada correctamente");
+      setDialog({ open: false, rule: null });
+      loadData();
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else if (error.code === "23505") {
+        toast.error("Ya existe una regla con ese nombre");
+      } else {
+        toast.error(error.message || "Error saving late fee rule");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rule: LateFeeRule) => {
+    try {
+      const { error } = await supabase.from("late_fee_rules").delete().eq("id", rule.id);
+      if (error) throw error;
+
+      toast.success("Regla eliminada");
+      loadData();
+    } catch (error: any) {
+      if (error.code === "23503") {
+        toast.error("La regla ya generó recargos; desactívela en su lugar");
+      } else {
+        toast.error(error.message || "Error deleting late fee rule");
+      }
+    }
+  };
+
+  const handleRun = async () => {
+    setRunning(true);
+    try {
+      const { data, error } = await supabase.rpc("apply_late_fees");
+      if (error) throw error;
+
+      toast.success(data > 0 ? `Se aplicaron ${data} recargo(s)` : "No hay recargos nuevos que aplicar");
+      loadData();
+    } catch (error: any) {
+      toast.error(error.message || "Error applying late fees");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const conceptName = (conceptId: string | null) =>
+    conceptId ? concepts.find((c) => c.id === conceptId)?.name || "-" : TUITION_CONCEPT_NAME;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <Button variant="ghost" onClick={() => navigate("/payments")}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Volver a pagos
+        </Button>
+
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-4xl font-bold tracking-tight">Recargos por mora</h1>
+            <p className="text-muted-foreground mt-2">
+              Los recargos se aplican cada día a las cuotas y cargos vencidos una vez pasados los días de gracia
+            </p>
+          </div>
+          {canManage && (
+            <div className="flex gap-3">
+              <Button variant="outline" size="lg" onClick={handleRun} disabled={running}>
+                <Play className="mr-2 h-5 w-5" />
+                Aplicar ahora
+              </Button>
+              <Button size="lg" onClick={() => openDialog(null)}>
+                <Plus className="mr-2 h-5 w-5" />
+                Nueva regla
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Reglas</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="text-center py-8">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+              </div>
+            ) : rules.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">Aún no hay reglas de recargo</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Nombre</TableHead>
+                    <TableHead>Aplica a</TableHead>
+                    <TableHead>Recargo</TableHead>
+                    <TableHead>Días de gracia</TableHead>
+                    <TableHead>Tope</TableHead>
+                    <TableHead>Estado</TableHead>
+                    {canManage && <TableHead className="text-right">Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rules.map((rule) => (
+                    <TableRow key={rule.id}>
+                      <TableCell className="font-medium">{rule.name}</TableCell>
+                      <TableCell>{conceptName(rule.fee_concept_id)}</TableCell>
+                      <TableCell>
+                        {formatDiscountValue(rule)}
+                        <span className="block text-xs text-muted-foreground">
+                          Cobrado como {conceptName(rule.surcharge_concept_id)}
+                        </span>
+                      </TableCell>
+                      <TableCell>{rule.grace_days}</TableCell>
+                      <TableCell>{formatLateFeeCaps(rule)}</TableCell>
+                      <TableCell>
+                        <Badge variant={rule.is_active ? "default" : "secondary"}>
+                          {rule.is_active ? "Activa" : "Inactiva"}
+                        </Badge>
+                      </TableCell>
+                      {canManage && (
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button variant="ghost" size="sm" onClick={() => openDialog(rule)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                            onClick={() => handleDelete(rule)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Últimos recargos aplicados</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="text-center py-8">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+              </div>
+            ) : applied.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">Aún no se aplicaron recargos</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Estudiante</TableHead>
+                    <TableHead>Detalle</TableHead>
+                    <TableHead>Fecha</TableHead>
+                    <TableHead>Monto</TableHead>
+                    <TableHead>Estado</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {applied.map((charge) => (
+                    <TableRow key={charge.id}>
+                      <TableCell
+                        className="font-medium cursor-pointer hover:underline"
+                        onClick={() => navigate(`/students/${charge.enrollments.student_id}`)}
+                      >
+                        {charge.enrollments.students.first_name} {charge.enrollments.students.last_name}
+                      </TableCell>
+                      <TableCell>{charge.description || "-"}</TableCell>
+                      <TableCell>{new Date(`${charge.due_date}T00:00:00`).toLocaleDateString()}</TableCell>
+                      <TableCell>${Number(charge.amount).toFixed(2)}</TableCell>
+                      <TableCell>
+                        {charge.waived_at ? (
+                          <>
+                            <Badge variant="secondary">Condonado</Badge>
+                            <span className="block text-xs text-muted-foreground">{charge.waive_reason}</span>
+                          </>
+                        ) : (
+                          <Badge variant="outline">Vigente</Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Dialog open={dialog.open} onOpenChange={(open) => setDialog({ ...dialog, open })}>
+          <DialogContent className="max-w-xl">
+            <DialogHeader>
+              <DialogTitle>{dialog.rule ? "Editar regla" : "Nueva regla"}</DialogTitle>
+              <DialogDescription>
+                Cada cuota o cargo vencido recibe un solo recargo por regla; los porcentajes se calculan sobre el
+                saldo pendiente.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="lateFeeName">Nombre</Label>
+                <Input
+                  id="lateFeeName"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="Ej: Mora de pensión"
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Aplica a</Label>
+                  <Select
+                    value={formData.feeConceptId}
+                    onValueChange={(value) => setFormData({ ...formData, feeConceptId: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={TUITION}>{TUITION_CONCEPT_NAME}</SelectItem>
+                      {concepts.map((concept) => (
+                        <SelectItem key={concept.id} value={concept.id}>
+                          {concept.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Cobrar como</Label>
+                  <Select
+                    value={formData.surchargeConceptId}
+                    onValueChange={(value) => setFormData({ ...formData, surchargeConceptId: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Seleccionar concepto" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {concepts.map((concept) => (
+                        <SelectItem key={concept.id} value={concept.id}>
+                          {concept.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Cálculo</Label>
+                  <Select
+                    value={formData.valueType}
+                    onValueChange={(value) => setFormData({ ...formData, valueType: value as DiscountValueType })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DISCOUNT_VALUE_TYPES.map((valueType) => (
+                        <SelectItem key={valueType} value={valueType}>
+                          {discountValueTypeLabels[valueType]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="lateFeeValue">{formData.valueType === "percentage" ? "Porcentaje" : "Monto"}</Label>
+                  <Input
+                    id="lateFeeValue"
+                    type="number"
+                    step="0.01"
+                    value={formData.value}
+                    onChange={(e) => setFormData({ ...formData, value: parseFloat(e.target.value) })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="graceDays">Días de gracia</Label>
+                  <Input
+                    id="graceDays"
+                    type="number"
+                    min="0"
+                    value={formData.graceDays}
+                    onChange={(e) => setFormData({ ...formData, graceDays: parseInt(e.target.value) })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="maxAmount">Tope por recargo (opcional)</Label>
+                  <Input
+                    id="maxAmount"
+                    type="number"
+                    step="0.01"
+                    value={formData.maxAmount}
+                    onChange={(e) => setFormData({ ...formData, maxAmount: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2 col-span-2">
+                  <Label htmlFor="maxTotal">Tope por estudiante en el año (opcional)</Label>
+                  <Input
+                    id="maxTotal"
+                    type="number"
+                    step="0.01"
+                    value={formData.maxTotal}
+                    onChange={(e) => setFormData({ ...formData, maxTotal: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="lateFeeActive"
+                  checked={formData.isActive}
+                  onCheckedChange={(checked) => setFormData({ ...formData, isActive: checked === true })}
+                />
+                <Label htmlFor="lateFeeActive">Activa</Label>
+              </div>
+
+              <div className="flex justify-end gap-3">
+                <Button type="button" variant="outline" onClick={() => setDialog({ open: false, rule: null })}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saving}>
+                  {dialog.rule ? "Guardar cambios" : "Crear regla"}
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default LateFees;
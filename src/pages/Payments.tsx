@@ -1,4 +1,5 @@
 import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { DashboardLayout } from "@/components/DashboardLayout";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -9,15 +10,41 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import { supabase } from "@/integrations/supabase/client";
+import { PaymentActions, PaymentAdjustmentDialog, AdjustablePayment } from "@/components/PaymentAdjustmentDialog";
+import { PaymentReceiptButton } from "@/components/PaymentReceiptButton";
+import { useAcademicYear } from "@/hooks/use-academic-year";
+import { formatReceiptNumber, generateReceiptPdf, loadPaymentReceipt } from "@/lib/receipts";
+import {
+  PAYMENT_METHODS,
+  PaymentAdjustmentAction,
+  getPaymentMethodLabel,
+  getRefundableAmount,
+  isCountedPayment,
+  paymentMethodLabels,
+  requiresPaymentReference,
+} from "@/lib/payments";
+import { buildStudentFilePath, fileStorage } from "@/lib/storage";
+import { ChargeBalance, PaymentAllocationInput, TUITION_CONCEPT_NAME, getTuitionPortion } from "@/lib/charges";
+import {
+  AccountStatus,
+  ScheduledInstallment,
+  accountStatusLabels,
+  getAccountStatusColor,
+  getInstallmentStatusColor,
+  getInstallmentStatusLabel,
+  summarizeInstallments,
+} from "@/lib/installments";
 import { toast } from "sonner";
-import { Plus, DollarSign } from "lucide-react";
+import { Plus, CalendarClock, Tags, Percent, AlarmClock, Paperclip, Wallet, Hourglass } from "lucide-react";
 
 interface Student {
   id: string;
   first_name: string;
   last_name: string;
   total_tuition: number;
+  status: string;
 }
 
 interface Payment {
@@ -26,52 +53,124 @@ interface Payment {
   amount: number;
   payment_date: string;
   notes: string | null;
+  status: string;
+  refund_of: string | null;
+  void_reason: string | null;
+  receipt_number: number;
+  method: string | null;
+  reference: string | null;
+  payer_name: string | null;
+  payer_id_number: string | null;
+  proof_path: string | null;
   students: {
     first_name: string;
     last_name: string;
-    total_tuition: number;
   };
 }
 
 interface StudentWithPayments extends Student {
+  tuitionDiscounts: number;
+  totalCharges: number;
   totalPaid: number;
-  status: "Pagado" | "Pago Parcial" | "Sin Pagar";
+  balance: number;
+  installments: ScheduledInstallment[];
+  accountStatus: AccountStatus;
+  overdueAmount: number;
 }
 
+const ALL = "all";
+
+const emptyPaymentForm = () => ({
+  studentId: "",
+  amount: 0,
+  paymentDate: new Date().toISOString().split("T")[0],
+  method: "cash",
+  reference: "",
+  payerName: "",
+  payerIdNumber: "",
+  notes: "",
+});
+
 const Payments = () => {
+  const navigate = useNavigate();
+  const { selectedYear } = useAcademicYear();
   const [students, setStudents] = useState<Student[]>([]);
   const [payments, setPayments] = useState<Payment[]>([]);
+  const [installments, setInstallments] = useState<ScheduledInstallment[]>([]);
+  const [charges, setCharges] = useState<ChargeBalance[]>([]);
+  // Payments are recorded in the cashier's open session, see CashRegister
+  const [hasOpenSession, setHasOpenSession] = useState(true);
   const [studentsWithPayments, setStudentsWithPayments] = useState<StudentWithPayments[]>([]);
   const [loading, setLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [filterStatus, setFilterStatus] = useState<string>("all");
-  const [formData, setFormData] = useState({
-    studentId: "",
-    amount: 0,
-    paymentDate: new Date().toISOString().split("T")[0],
-    notes: "",
-  });
+  const [adjustment, setAdjustment] = useState<{ action: PaymentAdjustmentAction; payment: AdjustablePayment } | null>(
+    null
+  );
+  const [paymentFilters, setPaymentFilters] = useState({ method: ALL, proof: ALL, search: "" });
+  const [formData, setFormData] = useState(emptyPaymentForm);
+  const [proofFile, setProofFile] = useState<File | null>(null);
+  // Amount typed for each selected charge, keyed by charge id
+  const [allocations, setAllocations] = useState<Record<string, string>>({});
 
   useEffect(() => {
-    loadData();
-  }, []);
+    if (selectedYear) {
+      loadData();
+    } else {
+      setStudents([]);
+      setPayments([]);
+      setInstallments([]);
+      setCharges([]);
+      setLoading(false);
+    }
+  }, [selectedYear?.id]);
 
   useEffect(() => {
     calculatePaymentStatus();
-  }, [students, payments]);
+  }, [students, payments, installments, charges]);
 
   const loadData = async () => {
+    setLoading(true);
     try {
-      const [studentsRes, paymentsRes] = await Promise.all([
-        supabase.from("students").select("*"),
-        supabase.from("payments").select("*, students(first_name, last_name, total_tuition)"),
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const [studentsRes, paymentsRes, installmentsRes, chargesRes, sessionRes] = await Promise.all([
+        supabase
+          .from("students")
+          .select("id, first_name, last_name, status, enrollments!inner(total_tuition)")
+          .eq("enrollments.academic_year_id", selectedYear.id),
+        supabase
+          .from("payments")
+          .select("*, students(first_name, last_name)")
+          .eq("academic_year_id", selectedYear.id)
+          .order("payment_date", { ascending: false }),
+        supabase
+          .from("installment_schedule")
+          .select("*")
+          .eq("academic_year_id", selectedYear.id)
+          .order("due_date")
+          .order("sequence"),
+        supabase.from("charge_balances").select("*").eq("academic_year_id", selectedYear.id).order("due_date"),
+        supabase.from("cash_sessions").select("id").eq("opened_by", user.id).is("closed_at", null).maybeSingle(),
       ]);
 
       if (studentsRes.error) throw studentsRes.error;
       if (paymentsRes.error) throw paymentsRes.error;
+      if (installmentsRes.error) throw installmentsRes.error;
+      if (chargesRes.error) throw chargesRes.error;
+      if (sessionRes.error) throw sessionRes.error;
 
-      setStudents(studentsRes.data || []);
+      setStudents(
+        (studentsRes.data || []).map(({ enrollments, ...student }) => ({
+          ...student,
+          total_tuition: enrollments[0].total_tuition,
+        }))
+      );
       setPayments(paymentsRes.data || []);
+      setInstallments((installmentsRes.data || []) as ScheduledInstallment[]);
+      setCharges((chargesRes.data || []) as ChargeBalance[]);
+      setHasOpenSession(!!sessionRes.data);
     } catch (error: any) {
       toast.error("Error loading data: " + error.message);
     } finally {
@@ -81,78 +180,161 @@ const Payments = () => {
 
   const calculatePaymentStatus = () => {
     const studentPayments: Record<string, number> = {};
-    payments.forEach((payment) => {
+    payments.filter(isCountedPayment).forEach((payment) => {
       studentPayments[payment.student_id] =
         (studentPayments[payment.student_id] || 0) + Number(payment.amount);
     });
 
+    const studentInstallments: Record<string, ScheduledInstallment[]> = {};
+    installments.forEach((installment) => {
+      (studentInstallments[installment.student_id] ||= []).push(installment);
+    });
+
+    const studentCharges: Record<string, ChargeBalance[]> = {};
+    charges.forEach((charge) => {
+      (studentCharges[charge.student_id] ||= []).push(charge);
+    });
+
     const studentsWithStatus = students.map((student) => {
       const totalPaid = studentPayments[student.id] || 0;
-      const totalTuition = Number(student.total_tuition);
-      let status: "Paid" | "Partial Payment" | "Unpaid";
-
-      if (totalPaid >= totalTuition) {
-        status = "Paid";
-      } else if (totalPaid > 0) {
-        status = "Partial Payment";
-      } else {
-        status = "Unpaid";
-      }
+      const schedule = studentInstallments[student.id] || [];
+      const ownCharges = studentCharges[student.id] || [];
+      const tuitionDiscounts = schedule.reduce((sum, installment) => sum + Number(installment.discount_amount), 0);
+      const totalCharges = ownCharges.reduce(
+        (sum, charge) => sum + Number(charge.amount) - Number(charge.discount_amount),
+        0
+      );
+      const { status, overdueAmount } = summarizeInstallments([...schedule, ...ownCharges]);
 
-      return { ...student, totalPaid, status };
+      return {
+        ...student,
+        tuitionDiscounts,
+        totalCharges,
+        totalPaid,
+        balance: Number(student.total_tuition) - tuitionDiscounts + totalCharges - totalPaid,
+        installments: schedule,
+        accountStatus: status,
+        overdueAmount,
+      };
     });
 
     setStudentsWithPayments(studentsWithStatus);
   };
 
+  const openCharges = charges.filter(
+    (charge) => charge.student_id === formData.studentId && Number(charge.balance) > 0
+  );
+  const selectedAllocations: PaymentAllocationInput[] = Object.entries(allocations).map(([chargeId, amount]) => ({
+    charge_id: chargeId,
+    amount: parseFloat(amount) || 0,
+  }));
+  const tuitionPortion = getTuitionPortion(formData.amount || 0, selectedAllocations);
+
+  const toggleCharge = (charge: ChargeBalance, checked: boolean) => {
+    const { [charge.id]: _removed, ...rest } = allocations;
+    if (!checked) {
+      setAllocations(rest);
+      return;
+    }
+    // Suggest the open balance, limited to what is left of the payment
+    const available = Math.max(getTuitionPortion(formData.amount || 0, selectedAllocations), 0);
+    const suggested = Math.min(Number(charge.balance), available || Number(charge.balance));
+    setAllocations({ ...rest, [charge.id]: suggested.toFixed(2) });
+  };
+
+  const resetForm = () => {
+    setFormData(emptyPaymentForm());
+    setProofFile(null);
+    setAllocations({});
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    let proofPath: string | null = null;
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error("Not authenticated");
+      if (!selectedYear) throw new Error("Seleccione un año académico");
+
+      for (const allocation of selectedAllocations) {
+        const charge = openCharges.find((c) => c.id === allocation.charge_id);
+        if (allocation.amount <= 0) throw new Error(`Ingrese el monto para ${charge?.concept_name}`);
+        if (charge && allocation.amount > Number(charge.balance)) {
+          throw new Error(`El monto para ${charge.concept_name} supera su saldo de $${Number(charge.balance).toFixed(2)}`);
+        }
+      }
+      if (tuitionPortion < 0) throw new Error("Los montos asignados superan el monto del pago");
+      if (requiresPaymentReference(formData.method) && !formData.reference.trim()) {
+        throw new Error("Indique el número de referencia");
+      }
+      if (proofFile && !proofFile.type.startsWith("image/")) {
+        throw new Error("El comprobante debe ser una imagen");
+      }
 
-      const { error } = await supabase.from("payments").insert({
-        student_id: formData.studentId,
-        amount: formData.amount,
-        payment_date: formData.paymentDate,
-        notes: formData.notes || null,
-        created_by: user.id,
+      if (proofFile) {
+        proofPath = buildStudentFilePath(formData.studentId, proofFile.name);
+        await fileStorage.upload(proofPath, proofFile);
+      }
+
+      const { data: payment, error } = await supabase.rpc("record_payment", {
+        p_student_id: formData.studentId,
+        p_academic_year_id: selectedYear.id,
+        p_amount: formData.amount,
+        p_payment_date: formData.paymentDate,
+        p_method: formData.method,
+        p_notes: formData.notes || undefined,
+        p_allocations: selectedAllocations,
+        p_reference: formData.reference || undefined,
+        p_payer_name: formData.payerName || undefined,
+        p_payer_id_number: formData.payerIdNumber || undefined,
+        p_proof_path: proofPath || undefined,
       });
 
       if (error) throw error;
 
-      toast.success("Payment recorded successfully!");
-      setIsDialogOpen(false);
-      setFormData({
-        studentId: "",
-        amount: 0,
-        paymentDate: new Date().toISOString().split("T")[0],
-        notes: "",
+      toast.success(`Payment recorded successfully! Recibo N° ${formatReceiptNumber(payment.receipt_number)}`, {
+        action: {
+          label: "Descargar recibo",
+          onClick: () =>
+            loadPaymentReceipt(payment.id)
+              .then(generateReceiptPdf)
+              .catch((receiptError) => toast.error(receiptError.message || "Error generating receipt")),
+        },
       });
+      setIsDialogOpen(false);
+      resetForm();
       loadData();
     } catch (error: any) {
+      // Do not leave an orphan file behind when the payment could not be saved
+      if (proofPath) {
+        fileStorage.remove(proofPath).catch(() => undefined);
+      }
       toast.error(error.message || "Error recording payment");
     }
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "Paid":
-        return "bg-success text-success-foreground";
-      case "Partial Payment":
-        return "bg-warning text-warning-foreground";
-      case "Unpaid":
-        return "bg-destructive text-destructive-foreground";
-      default:
-        return "";
+  const openProof = async (payment: Payment) => {
+    try {
+      window.open(await fileStorage.getUrl(payment.proof_path), "_blank");
+    } catch (error: any) {
+      toast.error("Error opening proof of payment: " + error.message);
     }
   };
 
+  const search = paymentFilters.search.trim().toLowerCase();
+  const filteredPayments = payments.filter(
+    (payment) =>
+      (paymentFilters.method === ALL || payment.method === paymentFilters.method) &&
+      (paymentFilters.proof === ALL || (paymentFilters.proof === "with") === Boolean(payment.proof_path)) &&
+      (!search ||
+        [payment.reference, payment.payer_name, payment.payer_id_number].some((value) =>
+          value?.toLowerCase().includes(search)
+        ))
+  );
+
   const filteredStudents =
     filterStatus === "all"
       ? studentsWithPayments
-      : studentsWithPayments.filter((s) => s.status === filterStatus);
+      : studentsWithPayments.filter((s) => s.accountStatus === filterStatus);
 
   return (
     <DashboardLayout>
@@ -164,79 +346,219 @@ const Payments = () => {
               Realizar un seguimiento y gestionar los registros de pago de los estudiantes
             </p>
           </div>
-          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-            <DialogTrigger asChild>
-              <Button size="lg">
-                <Plus className="mr-2 h-5 w-5" />
-                Agregar pago
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Registro pagos</DialogTitle>
-              </DialogHeader>
-              <form onSubmit={handleSubmit} className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="student">Alumno </Label>
-                  <Select
-                    value={formData.studentId}
-                    onValueChange={(value) => setFormData({ ...formData, studentId: value })}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Seleccionar estudiante" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {students.map((student) => (
-                        <SelectItem key={student.id} value={student.id}>
-                          {student.first_name} {student.last_name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="amount">Cantidad </Label>
-                  <Input
-                    id="amount"
-                    type="number"
-                    step="0.01"
-                    value={formData.amount}
-                    onChange={(e) => setFormData({ ...formData, amount: parseFloat(e.target.value) })}
-                    required
-                  />
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="paymentDate">Fecha de Pago </Label>
-                  <Input
-                    id="paymentDate"
-                    type="date"
-                    value={formData.paymentDate}
-                    onChange={(e) => setFormData({ ...formData, paymentDate: e.target.value })}
-                    required
-                  />
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="notes">Notas (opcional)</Label>
-                  <Textarea
-                    id="notes"
-                    value={formData.notes}
-                    onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
-                    rows={3}
-                  />
-                </div>
-
-                <div className="flex justify-end gap-3">
-                  <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
-                    Cancel
-                  </Button>
-                  <Button type="submit">Registrar pago</Button>
-                </div>
-              </form>
-            </DialogContent>
-          </Dialog>
+          <div className="flex gap-3">
+            <Button variant="outline" size="lg" onClick={() => navigate("/payments/aging")}>
+              <Hourglass className="mr-2 h-5 w-5" />
+              Antigüedad
+            </Button>
+            <Button variant="outline" size="lg" onClick={() => navigate("/payments/cash")}>
+              <Wallet className="mr-2 h-5 w-5" />
+              Caja
+            </Button>
+            <Button variant="outline" size="lg" onClick={() => navigate("/payments/late-fees")}>
+              <AlarmClock className="mr-2 h-5 w-5" />
+              Recargos
+            </Button>
+            <Button variant="outline" size="lg" onClick={() => navigate("/payments/discounts")}>
+              <Percent className="mr-2 h-5 w-5" />
+              Descuentos
+            </Button>
+            <Button variant="outline" size="lg" onClick={() => navigate("/payments/fee-concepts")}>
+              <Tags className="mr-2 h-5 w-5" />
+              Conceptos
+            </Button>
+            <Button variant="outline" size="lg" onClick={() => navigate("/payments/fee-plans")}>
+              <CalendarClock className="mr-2 h-5 w-5" />
+              Planes de pago
+            </Button>
+            <Dialog
+              open={isDialogOpen}
+              onOpenChange={(open) => {
+                setIsDialogOpen(open);
+                if (!open) resetForm();
+              }}
+            >
+              <DialogTrigger asChild>
+                <Button size="lg" disabled={!selectedYear}>
+                  <Plus className="mr-2 h-5 w-5" />
+                  Agregar pago
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>Registro pagos</DialogTitle>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  {!hasOpenSession && (
+                    <div className="flex items-center justify-between gap-3 rounded-md border border-warning p-3 text-sm">
+                      <span>No tiene una caja abierta. Ábrala para poder registrar pagos.</span>
+                      <Button type="button" variant="outline" size="sm" onClick={() => navigate("/payments/cash")}>
+                        Ir a caja
+                      </Button>
+                    </div>
+                  )}
+                  <div className="space-y-2">
+                    <Label htmlFor="student">Alumno </Label>
+                    <Select
+                      value={formData.studentId}
+                      onValueChange={(value) => {
+                        setFormData({ ...formData, studentId: value });
+                        setAllocations({});
+                      }}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Seleccionar estudiante" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {students.filter((student) => student.status === "active").map((student) => (
+                          <SelectItem key={student.id} value={student.id}>
+                            {student.first_name} {student.last_name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="amount">Cantidad </Label>
+                    <Input
+                      id="amount"
+                      type="number"
+                      step="0.01"
+                      value={formData.amount}
+                      onChange={(e) => setFormData({ ...formData, amount: parseFloat(e.target.value) })}
+                      required
+                    />
+                  </div>
+
+                  {openCharges.length > 0 && (
+                    <div className="space-y-2">
+                      <Label>Cargos que cubre este pago</Label>
+                      <div className="rounded-lg border divide-y">
+                        {openCharges.map((charge) => {
+                          const selected = charge.id in allocations;
+                          return (
+                            <div key={charge.id} className="flex items-center gap-3 p-2">
+                              <Checkbox
+                                id={`charge-${charge.id}`}
+                                checked={selected}
+                                onCheckedChange={(checked) => toggleCharge(charge, checked === true)}
+                              />
+                              <Label htmlFor={`charge-${charge.id}`} className="flex-1 font-normal">
+                                {charge.concept_name}
+                                {charge.description && ` · ${charge.description}`}
+                                <span className="block text-xs text-muted-foreground">
+                                  Saldo ${Number(charge.balance).toFixed(2)} · vence{" "}
+                                  {new Date(`${charge.due_date}T00:00:00`).toLocaleDateString()}
+                                </span>
+                              </Label>
+                              {selected && (
+                                <Input
+                                  type="number"
+                                  step="0.01"
+                                  className="w-28"
+                                  value={allocations[charge.id]}
+                                  onChange={(e) => setAllocations({ ...allocations, [charge.id]: e.target.value })}
+                                />
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
+                      <p className={`text-sm ${tuitionPortion < 0 ? "text-destructive" : "text-muted-foreground"}`}>
+                        {TUITION_CONCEPT_NAME}: ${tuitionPortion.toFixed(2)}
+                      </p>
+                    </div>
+                  )}
+
+                  <div className="space-y-2">
+                    <Label htmlFor="paymentDate">Fecha de Pago </Label>
+                    <Input
+                      id="paymentDate"
+                      type="date"
+                      value={formData.paymentDate}
+                      onChange={(e) => setFormData({ ...formData, paymentDate: e.target.value })}
+                      required
+                    />
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>Método de pago</Label>
+                      <Select value={formData.method} onValueChange={(value) => setFormData({ ...formData, method: value })}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {PAYMENT_METHODS.map((method) => (
+                            <SelectItem key={method} value={method}>
+                              {paymentMethodLabels[method]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="reference">
+                        N° de referencia{requiresPaymentReference(formData.method) ? "" : " (opcional)"}
+                      </Label>
+                      <Input
+                        id="reference"
+                        value={formData.reference}
+                        onChange={(e) => setFormData({ ...formData, reference: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="payerName">Pagado por (opcional)</Label>
+                      <Input
+                        id="payerName"
+                        value={formData.payerName}
+                        onChange={(e) => setFormData({ ...formData, payerName: e.target.value })}
+                        placeholder="Si no es el responsable registrado"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="payerIdNumber">DNI del pagador (opcional)</Label>
+                      <Input
+                        id="payerIdNumber"
+                        value={formData.payerIdNumber}
+                        onChange={(e) => setFormData({ ...formData, payerIdNumber: e.target.value })}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="proof">Comprobante (opcional)</Label>
+                    <Input
+                      id="proof"
+                      type="file"
+                      accept="image/*"
+                      onChange={(e) => setProofFile(e.target.files?.[0] || null)}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="notes">Notas (opcional)</Label>
+                    <Textarea
+                      id="notes"
+                      value={formData.notes}
+                      onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                      rows={3}
+                    />
+                  </div>
+
+                  <div className="flex justify-end gap-3">
+                    <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                      Cancel
+                    </Button>
+                    <Button type="submit" disabled={!hasOpenSession}>
+                      Registrar pago
+                    </Button>
+                  </div>
+                </form>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
 
         <Card>
@@ -249,9 +571,9 @@ const Payments = () => {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">Todo el estado</SelectItem>
-                  <SelectItem value="Paid">Pagado</SelectItem>
-                  <SelectItem value="Partial Payment">Pago Parcial</SelectItem>
-                  <SelectItem value="Unpaid">No pagado</SelectItem>
+                  <SelectItem value="current">Al día</SelectItem>
+                  <SelectItem value="overdue">Atrasado</SelectItem>
+                  <SelectItem value="paid">Pagado</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -270,9 +592,13 @@ const Payments = () => {
                 <TableHeader>
                   <TableRow>
                     <TableHead>Nombre del estudiante</TableHead>
-                    <TableHead>Matrícula total</TableHead>
+                    <TableHead>Matrícula bruta</TableHead>
+                    <TableHead>Descuentos</TableHead>
+                    <TableHead>Matrícula neta</TableHead>
+                    <TableHead>Otros cargos</TableHead>
                     <TableHead>Total pagado</TableHead>
                     <TableHead>Balance</TableHead>
+                    <TableHead>Cuotas</TableHead>
                     <TableHead>Estado</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -283,12 +609,37 @@ const Payments = () => {
                         {student.first_name} {student.last_name}
                       </TableCell>
                       <TableCell>${Number(student.total_tuition).toFixed(2)}</TableCell>
+                      <TableCell className="text-success">
+                        {student.tuitionDiscounts > 0 ? `-$${student.tuitionDiscounts.toFixed(2)}` : "-"}
+                      </TableCell>
+                      <TableCell>${(Number(student.total_tuition) - student.tuitionDiscounts).toFixed(2)}</TableCell>
+                      <TableCell>${student.totalCharges.toFixed(2)}</TableCell>
                       <TableCell>${student.totalPaid.toFixed(2)}</TableCell>
+                      <TableCell>${student.balance.toFixed(2)}</TableCell>
                       <TableCell>
-                        ${(Number(student.total_tuition) - student.totalPaid).toFixed(2)}
+                        <div className="flex flex-wrap gap-1">
+                          {student.installments.map((installment) => (
+                            <Badge
+                              key={`${installment.sequence}-${installment.due_date}`}
+                              className={getInstallmentStatusColor(installment.status)}
+                              title={`${installment.label} · vence ${new Date(
+                                `${installment.due_date}T00:00:00`
+                              ).toLocaleDateString()} · ${getInstallmentStatusLabel(installment.status)} · saldo $${Number(
+                                installment.balance
+                              ).toFixed(2)}`}
+                            >
+                              {installment.sequence}
+                            </Badge>
+                          ))}
+                        </div>
                       </TableCell>
                       <TableCell>
-                        <Badge className={getStatusColor(student.status)}>{student.status}</Badge>
+                        <Badge className={getAccountStatusColor(student.accountStatus)}>
+                          {accountStatusLabels[student.accountStatus]}
+                        </Badge>
+                        {student.overdueAmount > 0 && (
+                          <p className="text-xs text-destructive mt-1">Vencido ${student.overdueAmount.toFixed(2)}</p>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))}
@@ -297,7 +648,135 @@ const Payments = () => {
             )}
           </CardContent>
         </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-4">
+              <CardTitle className="flex-1">Pagos registrados</CardTitle>
+              <Input
+                className="w-64"
+                placeholder="Buscar referencia o pagador"
+                value={paymentFilters.search}
+                onChange={(e) => setPaymentFilters({ ...paymentFilters, search: e.target.value })}
+              />
+              <Select
+                value={paymentFilters.method}
+                onValueChange={(value) => setPaymentFilters({ ...paymentFilters, method: value })}
+              >
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Todos los métodos</SelectItem>
+                  {PAYMENT_METHODS.map((method) => (
+                    <SelectItem key={method} value={method}>
+                      {paymentMethodLabels[method]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={paymentFilters.proof}
+                onValueChange={(value) => setPaymentFilters({ ...paymentFilters, proof: value })}
+              >
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Con y sin comprobante</SelectItem>
+                  <SelectItem value="with">Con comprobante</SelectItem>
+                  <SelectItem value="without">Sin comprobante</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="text-center py-8">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+              </div>
+            ) : filteredPayments.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                {payments.length === 0 ? "No se registraron pagos" : "Ningún pago coincide con los filtros"}
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>N°</TableHead>
+                    <TableHead>Fecha</TableHead>
+                    <TableHead>Nombre del estudiante</TableHead>
+                    <TableHead>Cantidad</TableHead>
+                    <TableHead>Método</TableHead>
+                    <TableHead>Pagado por</TableHead>
+                    <TableHead>Notas</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredPayments.map((payment) => {
+                    const adjustable = { ...payment, refundable: getRefundableAmount(payment, payments) };
+                    const voided = payment.status === "voided";
+                    return (
+                      <TableRow key={payment.id} className={voided ? "text-muted-foreground" : ""}>
+                        <TableCell className="font-mono text-xs">{formatReceiptNumber(payment.receipt_number)}</TableCell>
+                        <TableCell className={voided ? "line-through" : ""}>
+                          {new Date(payment.payment_date).toLocaleDateString()}
+                        </TableCell>
+                        <TableCell className="font-medium">
+                          {payment.students.first_name} {payment.students.last_name}
+                        </TableCell>
+                        <TableCell className={`font-semibold ${voided ? "line-through" : ""}`}>
+                          ${Number(payment.amount).toFixed(2)}
+                        </TableCell>
+                        <TableCell>
+                          {getPaymentMethodLabel(payment.method)}
+                          {payment.reference && (
+                            <span className="block text-xs text-muted-foreground font-mono">{payment.reference}</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {payment.payer_name || "-"}
+                          {payment.payer_id_number && (
+                            <span className="block text-xs text-muted-foreground">DNI {payment.payer_id_number}</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            {payment.refund_of && <Badge variant="secondary">Reembolso</Badge>}
+                            {voided && <Badge variant="destructive">Anulado</Badge>}
+                            <span>{voided ? payment.void_reason : payment.notes || "-"}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex justify-end">
+                            {payment.proof_path && (
+                              <Button variant="ghost" size="sm" title="Ver comprobante" onClick={() => openProof(payment)}>
+                                <Paperclip className="h-4 w-4" />
+                              </Button>
+                            )}
+                            <PaymentReceiptButton paymentId={payment.id} />
+                            <PaymentActions
+                              payment={adjustable}
+                              onSelect={(action) => setAdjustment({ action, payment: adjustable })}
+                            />
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
       </div>
+
+      <PaymentAdjustmentDialog
+        adjustment={adjustment}
+        onOpenChange={(open) => !open && setAdjustment(null)}
+        onSaved={loadData}
+      />
     </DashboardLayout>
   );
 };
@@ -0,0 +1,447 @@
+import { useEffect, useState } from "react";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import { useAcademicYear } from "@/hooks/use-academic-year";
+import { useGradeLevels } from "@/hooks/use-grade-levels";
+import { toast } from "sonner";
+import { ArrowLeft, ArrowRight, CheckCircle2 } from "lucide-react";
+import { z } from "zod";
+
+const setupSchema = z.object({
+  targetYearId: z.string().min(1, "Seleccione el año de destino"),
+  gradeLevelId: z.string().min(1, "Seleccione el grado a promover"),
+  nextGradeLevelId: z.string().min(1, "Seleccione el grado siguiente"),
+  newTuition: z.number().min(0, "La matrícula debe ser un valor positivo"),
+  passingGrade: z.number().min(0, "La nota mínima debe ser un valor positivo"),
+});
+
+type Decision = "promote" | "retain" | "skip";
+
+interface Candidate {
+  enrollmentId: string;
+  studentId: string;
+  name: string;
+  idNumber: string;
+  average: number | null;
+  suggestion: Decision;
+  decision: Decision;
+  alreadyEnrolled: boolean;
+}
+
+const decisionLabels: Record<Decision, string> = {
+  promote: "Promover",
+  retain: "Repite",
+  skip: "Omitir",
+};
+
+const getDecisionColor = (decision: Decision) => {
+  switch (decision) {
+    case "promote":
+      return "bg-success text-success-foreground";
+    case "retain":
+      return "bg-warning text-warning-foreground";
+    default:
+      return "";
+  }
+};
+
+const Promotion = () => {
+  const { years, selectedYear, reloadYears } = useAcademicYear();
+  const [step, setStep] = useState<"setup" | "review" | "done">("setup");
+  const { gradeLevels } = useGradeLevels();
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    targetYearId: "",
+    gradeLevelId: "",
+    nextGradeLevelId: "",
+    newTuition: 0,
+    passingGrade: 11,
+  });
+
+  useEffect(() => {
+    if (selectedYear) {
+      setStep("setup");
+      setFormData((current) => ({ ...current, gradeLevelId: "", passingGrade: Number(selectedYear.passing_grade) }));
+    }
+  }, [selectedYear?.id]);
+
+  // Suggest the next entry of the catalog as the grade to promote into
+  const selectGradeLevel = (gradeLevelId: string) => {
+    const index = gradeLevels.findIndex((level) => level.id === gradeLevelId);
+    setFormData({
+      ...formData,
+      gradeLevelId,
+      nextGradeLevelId: gradeLevels[index + 1]?.id || formData.nextGradeLevelId,
+    });
+  };
+
+  const loadCandidates = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setLoading(true);
+    try {
+      const validated = setupSchema.parse(formData);
+
+      // Active students still enrolled (not yet promoted or retained) in the grade
+      const { data: enrollments, error: enrollmentsError } = await supabase
+        .from("enrollments")
+        .select("id, student_id, students!inner(first_name, last_name, id_number, status)")
+        .eq("academic_year_id", selectedYear.id)
+        .eq("grade_level_id", validated.gradeLevelId)
+        .eq("status", "enrolled")
+        .eq("students.status", "active");
+
+      if (enrollmentsError) throw enrollmentsError;
+
+      const studentIds = (enrollments || []).map((e) => e.student_id);
+
+      const [gradesRes, targetRes] = await Promise.all([
+        supabase
+          .from("grades")
+          .select("student_id, grade")
+          .eq("academic_year_id", selectedYear.id)
+          .in("student_id", studentIds),
+        supabase
+          .from("enrollments")
+          .select("student_id")
+          .eq("academic_year_id", validated.targetYearId)
+          .in("student_id", studentIds),
+      ]);
+
+      if (gradesRes.error) throw gradesRes.error;
+      if (targetRes.error) throw targetRes.error;
+
+      const gradesByStudent: Record<string, number[]> = {};
+      gradesRes.data?.forEach((g) => {
+        gradesByStudent[g.student_id] = [...(gradesByStudent[g.student_id] || []), Number(g.grade)];
+      });
+      const enrolledInTarget = new Set((targetRes.data || []).map((e) => e.student_id));
+
+      setCandidates(
+        (enrollments || [])
+          .map((enrollment): Candidate => {
+            const studentGrades = gradesByStudent[enrollment.student_id] || [];
+            const average =
+              studentGrades.length > 0
+                ? studentGrades.reduce((sum, g) => sum + g, 0) / studentGrades.length
+                : null;
+            const alreadyEnrolled = enrolledInTarget.has(enrollment.student_id);
+            const suggestion: Decision =
+              average !== null && average >= validated.passingGrade ? "promote" : "retain";
+
+            return {
+              enrollmentId: enrollment.id,
+              studentId: enrollment.student_id,
+              name: `${enrollment.students.first_name} ${enrollment.students.last_name}`,
+              idNumber: enrollment.students.id_number,
+              average,
+              suggestion,
+              decision: alreadyEnrolled ? "skip" : suggestion,
+              alreadyEnrolled,
+            };
+          })
+          .sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setStep("review");
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error(error.message || "Error loading students");
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const setDecision = (enrollmentId: string, decision: Decision) => {
+    setCandidates((current) =>
+      current.map((c) => (c.enrollmentId === enrollmentId ? { ...c, decision } : c))
+    );
+  };
+
+  const handleConfirm = async () => {
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const promoted = candidates.filter((c) => c.decision === "promote");
+      const retained = candidates.filter((c) => c.decision === "retain");
+
+      // Create next year's enrollments in a single insert
+      const { error: insertError } = await supabase.from("enrollments").insert(
+        [...promoted, ...retained].map((c) => ({
+          student_id: c.studentId,
+          academic_year_id: formData.targetYearId,
+          grade_level_id: c.decision === "promote" ? formData.nextGradeLevelId : formData.gradeLevelId,
+          total_tuition: formData.newTuition,
+          created_by: user.id,
+        }))
+      );
+
+      if (insertError) throw insertError;
+
+      // Close out this year's enrollments with the final decision
+      if (promoted.length > 0) {
+        const { error } = await supabase
+          .from("enrollments")
+          .update({ status: "promoted" })
+          .in("id", promoted.map((c) => c.enrollmentId));
+        if (error) throw error;
+      }
+      if (retained.length > 0) {
+        const { error } = await supabase
+          .from("enrollments")
+          .update({ status: "retained" })
+          .in("id", retained.map((c) => c.enrollmentId));
+        if (error) throw error;
+      }
+
+      // Remember the passing mark used for this year
+      if (formData.passingGrade !== Number(selectedYear.passing_grade)) {
+        const { error } = await supabase
+          .from("academic_years")
+          .update({ passing_grade: formData.passingGrade })
+          .eq("id", selectedYear.id);
+        if (error) throw error;
+        reloadYears();
+      }
+
+      toast.success(`${promoted.length} promovido(s) y ${retained.length} repitente(s) inscritos`);
+      setStep("done");
+    } catch (error: any) {
+      toast.error(error.message || "Error creating enrollments");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const targetYears = years.filter((year) => year.id !== selectedYear?.id);
+  const targetYear = years.find((year) => year.id === formData.targetYearId);
+  const gradeLevelName = gradeLevels.find((level) => level.id === formData.gradeLevelId)?.name;
+  const nextGradeLevelName = gradeLevels.find((level) => level.id === formData.nextGradeLevelId)?.name;
+  const promotedCount = candidates.filter((c) => c.decision === "promote").length;
+  const retainedCount = candidates.filter((c) => c.decision === "retain").length;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-4xl font-bold tracking-tight">Promoción de fin de año</h1>
+          <p className="text-muted-foreground mt-2">
+            Promover o retener a los estudiantes de un grado e inscribirlos en el año siguiente
+          </p>
+        </div>
+
+        {!selectedYear ? (
+          <Card>
+            <CardContent className="text-center py-8 text-muted-foreground">
+              Cree un año académico para comenzar
+            </CardContent>
+          </Card>
+        ) : step === "setup" ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>1. Configuración</CardTitle>
+              <CardDescription>Año de origen: {selectedYear.name}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={loadCandidates} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="gradeLevel">Grado a promover</Label>
+                    <Select
+                      value={formData.gradeLevelId}
+                      onValueChange={selectGradeLevel}
+                    >
+                      <SelectTrigger id="gradeLevel">
+                        <SelectValue placeholder="Seleccionar grado" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {gradeLevels.map((level) => (
+                          <SelectItem key={level.id} value={level.id}>
+                            {level.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="targetYear">Año de destino</Label>
+                    <Select
+                      value={formData.targetYearId}
+                      onValueChange={(value) => setFormData({ ...formData, targetYearId: value })}
+                    >
+                      <SelectTrigger id="targetYear">
+                        <SelectValue placeholder="Seleccionar año" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {targetYears.map((year) => (
+                          <SelectItem key={year.id} value={year.id}>
+                            {year.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="nextGradeLevel">Grado siguiente</Label>
+                    <Select
+                      value={formData.nextGradeLevelId}
+                      onValueChange={(value) => setFormData({ ...formData, nextGradeLevelId: value })}
+                    >
+                      <SelectTrigger id="nextGradeLevel">
+                        <SelectValue placeholder="Seleccionar grado" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {gradeLevels.map((level) => (
+                          <SelectItem key={level.id} value={level.id}>
+                            {level.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="newTuition">Nueva matrícula total</Label>
+                    <Input
+                      id="newTuition"
+                      type="number"
+                      step="0.01"
+                      value={formData.newTuition}
+                      onChange={(e) => setFormData({ ...formData, newTuition: parseFloat(e.target.value) })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="passingGrade">Nota mínima de aprobación</Label>
+                    <Input
+                      id="passingGrade"
+                      type="number"
+                      step="0.01"
+                      value={formData.passingGrade}
+                      onChange={(e) => setFormData({ ...formData, passingGrade: parseFloat(e.target.value) })}
+                      required
+                    />
+                  </div>
+                </div>
+
+                <div className="flex justify-end">
+                  <Button type="submit" disabled={loading}>
+                    {loading ? "Cargando..." : "Revisar estudiantes"}
+                    <ArrowRight className="ml-2 h-4 w-4" />
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+        ) : step === "review" ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>2. Revisión de decisiones</CardTitle>
+              <CardDescription>
+                {gradeLevelName} ({selectedYear.name}) → {nextGradeLevelName} ({targetYear?.name}). Nota
+                mínima: {formData.passingGrade}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {candidates.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  No hay estudiantes activos pendientes de promoción en este grado
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Nombre</TableHead>
+                      <TableHead>DNI</TableHead>
+                      <TableHead>Promedio final</TableHead>
+                      <TableHead>Sugerencia</TableHead>
+                      <TableHead>Decisión</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {candidates.map((candidate) => (
+                      <TableRow key={candidate.enrollmentId}>
+                        <TableCell className="font-medium">{candidate.name}</TableCell>
+                        <TableCell>{candidate.idNumber}</TableCell>
+                        <TableCell>
+                          {candidate.average !== null ? candidate.average.toFixed(2) : "Sin calificaciones"}
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={getDecisionColor(candidate.suggestion)}>
+                            {decisionLabels[candidate.suggestion]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          {candidate.alreadyEnrolled ? (
+                            <span className="text-sm text-muted-foreground">Ya inscrito en {targetYear?.name}</span>
+                          ) : (
+                            <Select
+                              value={candidate.decision}
+                              onValueChange={(value) => setDecision(candidate.enrollmentId, value as Decision)}
+                            >
+                              <SelectTrigger className="w-36">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {(Object.keys(decisionLabels) as Decision[]).map((decision) => (
+                                  <SelectItem key={decision} value={decision}>
+                                    {decisionLabels[decision]}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+
+              <div className="flex justify-between items-center">
+                <Button variant="outline" onClick={() => setStep("setup")}>
+                  <ArrowLeft className="mr-2 h-4 w-4" />
+                  Volver
+                </Button>
+                <div className="flex items-center gap-4">
+                  <span className="text-sm text-muted-foreground">
+                    {promotedCount} a promover · {retainedCount} a repetir
+                  </span>
+                  <Button onClick={handleConfirm} disabled={saving || promotedCount + retainedCount === 0}>
+                    {saving ? "Inscribiendo..." : "Confirmar e inscribir"}
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent className="text-center py-12 space-y-4">
+              <CheckCircle2 className="h-12 w-12 text-success mx-auto" />
+              <p className="text-lg font-semibold">Inscripciones creadas en {targetYear?.name}</p>
+              <p className="text-muted-foreground">
+                {promotedCount} estudiante(s) promovido(s) a {nextGradeLevelName} y {retainedCount} repitente(s)
+                en {gradeLevelName}.
+              </p>
+              <Button onClick={() => setStep("setup")}>Promover otro grado</Button>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default Promotion;
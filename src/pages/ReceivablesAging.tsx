@@ -0,0 +1,191 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useAcademicYear } from "@/hooks/use-academic-year";
+import {
+  AGING_BUCKETS,
+  AGING_GROUPS,
+  AgingGroup,
+  AgingRow,
+  agingGroupLabels,
+  exportAgingSpreadsheet,
+  generateAgingPdf,
+  sumAgingRows,
+} from "@/lib/receivablesAging";
+import { loadSchoolSettings } from "@/lib/receipts";
+import { toast } from "sonner";
+import { ArrowLeft, FileSpreadsheet, FileText } from "lucide-react";
+
+const ReceivablesAging = () => {
+  const navigate = useNavigate();
+  const { selectedYear } = useAcademicYear();
+  const [group, setGroup] = useState<AgingGroup>("student");
+  const [rows, setRows] = useState<AgingRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (selectedYear) {
+      loadRows();
+    } else {
+      setRows([]);
+      setLoading(false);
+    }
+  }, [selectedYear?.id, group]);
+
+  const loadRows = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc("receivables_aging_summary", {
+        p_academic_year_id: selectedYear.id,
+        p_group_by: group,
+      });
+
+      if (error) throw error;
+      setRows(data || []);
+    } catch (error: any) {
+      toast.error("Error loading receivables aging: " + error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fileName = (extension: string) => `antiguedad_saldos_${group}_${selectedYear?.name || ""}.${extension}`;
+
+  const handleExportPdf = async () => {
+    try {
+      generateAgingPdf(rows, group, await loadSchoolSettings(), selectedYear.name, fileName("pdf"));
+    } catch (error: any) {
+      toast.error(error.message || "Error generating report");
+    }
+  };
+
+  // Students without a family are grouped on their own, keyed by the student id
+  const openGroup = (row: AgingRow) => {
+    if (!row.group_id || group === "grade_level") return;
+    navigate(row.is_family ? `/family/${row.group_id}` : `/student/${row.group_id}`);
+  };
+
+  const totals = sumAgingRows(rows);
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <Button variant="ghost" onClick={() => navigate("/payments")}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Volver a pagos
+        </Button>
+
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-4xl font-bold tracking-tight">Antigüedad de saldos</h1>
+            <p className="text-muted-foreground mt-2">
+              Saldos pendientes según los días transcurridos desde el vencimiento de cada cuota o cargo
+            </p>
+          </div>
+          <div className="flex gap-3">
+            <Button
+              variant="outline"
+              size="lg"
+              disabled={rows.length === 0}
+              onClick={() => exportAgingSpreadsheet(rows, group, fileName("xlsx"))}
+            >
+              <FileSpreadsheet className="mr-2 h-5 w-5" />
+              Excel
+            </Button>
+            <Button variant="outline" size="lg" disabled={rows.length === 0} onClick={handleExportPdf}>
+              <FileText className="mr-2 h-5 w-5" />
+              PDF
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-4">
+              <CardTitle className="flex-1">Cuentas por cobrar</CardTitle>
+              <Select value={group} onValueChange={(value) => setGroup(value as AgingGroup)}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {AGING_GROUPS.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      Por {agingGroupLabels[option].toLowerCase()}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="text-center py-8">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+              </div>
+            ) : rows.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">No hay saldos pendientes</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{agingGroupLabels[group]}</TableHead>
+                    {group !== "student" && <TableHead>Estudiantes</TableHead>}
+                    {AGING_BUCKETS.map((bucket) => (
+                      <TableHead key={bucket.key} className="text-right">
+                        {bucket.label}
+                      </TableHead>
+                    ))}
+                    <TableHead className="text-right">Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => (
+                    <TableRow key={`${row.group_id}-${row.group_name}`}>
+                      <TableCell
+                        className={`font-medium ${group === "grade_level" ? "" : "cursor-pointer hover:underline"}`}
+                        onClick={() => openGroup(row)}
+                      >
+                        {row.group_name || "-"}
+                      </TableCell>
+                      {group !== "student" && <TableCell>{row.students}</TableCell>}
+                      {AGING_BUCKETS.map((bucket) => (
+                        <TableCell
+                          key={bucket.key}
+                          className={`text-right ${
+                            bucket.key !== "current_amount" && Number(row[bucket.key]) > 0 ? "text-destructive" : ""
+                          }`}
+                        >
+                          ${Number(row[bucket.key]).toFixed(2)}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-right font-semibold">${Number(row.total).toFixed(2)}</TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow className="font-semibold">
+                    <TableCell>Total</TableCell>
+                    {group !== "student" && (
+                      <TableCell>{rows.reduce((sum, row) => sum + row.students, 0)}</TableCell>
+                    )}
+                    {AGING_BUCKETS.map((bucket) => (
+                      <TableCell key={bucket.key} className="text-right">
+                        ${totals[bucket.key].toFixed(2)}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right">${totals.total.toFixed(2)}</TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default ReceivablesAging;
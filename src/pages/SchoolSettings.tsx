@@ -0,0 +1,178 @@
+import { useEffect, useState } from "react";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { supabase } from "@/integrations/supabase/client";
+import { useUserRole } from "@/hooks/use-user-role";
+import { formatReceiptNumber } from "@/lib/receipts";
+import { toast } from "sonner";
+import { z } from "zod";
+
+const schoolSettingsSchema = z.object({
+  name: z.string().trim().min(2, "El nombre debe tener al menos 2 caracteres"),
+  address: z.string().trim(),
+  phone: z.string().trim(),
+  email: z.union([z.string().trim().email("Correo electrónico inválido"), z.literal("")]),
+  taxId: z.string().trim(),
+});
+
+const SchoolSettings = () => {
+  const { role, loading: roleLoading } = useUserRole();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [nextReceiptNumber, setNextReceiptNumber] = useState<number | null>(null);
+  const [formData, setFormData] = useState({ name: "", address: "", phone: "", email: "", taxId: "" });
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      const { data, error } = await supabase.from("school_settings").select("*").single();
+      if (error) throw error;
+
+      setFormData({
+        name: data.name,
+        address: data.address || "",
+        phone: data.phone || "",
+        email: data.email || "",
+        taxId: data.tax_id || "",
+      });
+      setNextReceiptNumber(data.next_receipt_number);
+    } catch (error: any) {
+      toast.error("Error loading school settings: " + error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    try {
+      const validated = schoolSettingsSchema.parse(formData);
+
+      // The receipt counter is only advanced by the database
+      const { error } = await supabase
+        .from("school_settings")
+        .update({
+          name: validated.name,
+          address: validated.address || null,
+          phone: validated.phone || null,
+          email: validated.email || null,
+          tax_id: validated.taxId || null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", true);
+
+      if (error) throw error;
+
+      toast.success("Datos de la escuela actualizados");
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error(error.message || "Error saving school settings");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!roleLoading && role !== "admin") {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-12 text-muted-foreground">
+          Solo un administrador puede modificar los datos de la escuela
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-4xl font-bold tracking-tight">Escuela</h1>
+          <p className="text-muted-foreground mt-2">Datos que aparecen en el encabezado de los recibos</p>
+        </div>
+
+        <Card className="max-w-2xl">
+          <CardHeader>
+            <CardTitle>Datos de la escuela</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="text-center py-8">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="name">Nombre</Label>
+                  <Input
+                    id="name"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="address">Dirección (opcional)</Label>
+                  <Input
+                    id="address"
+                    value={formData.address}
+                    onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="phone">Teléfono (opcional)</Label>
+                    <Input
+                      id="phone"
+                      value={formData.phone}
+                      onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="email">Correo electrónico (opcional)</Label>
+                    <Input
+                      id="email"
+                      type="email"
+                      value={formData.email}
+                      onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="taxId">RUC (opcional)</Label>
+                  <Input
+                    id="taxId"
+                    value={formData.taxId}
+                    onChange={(e) => setFormData({ ...formData, taxId: e.target.value })}
+                  />
+                </div>
+                {nextReceiptNumber !== null && (
+                  <p className="text-sm text-muted-foreground">
+                    Próximo recibo: N° {formatReceiptNumber(nextReceiptNumber)}
+                  </p>
+                )}
+                <div className="flex justify-end">
+                  <Button type="submit" disabled={saving}>
+                    Guardar cambios
+                  </Button>
+                </div>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default SchoolSettings;
@@ -0,0 +1,132 @@
+import { useEffect, useState } from "react";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useUserRole } from "@/hooks/use-user-role";
+import { USER_ROLES, userRoleLabels } from "@/lib/roles";
+import { toast } from "sonner";
+
+interface Profile {
+  id: string;
+  full_name: string;
+  role: string;
+  created_at: string;
+}
+
+const Staff = () => {
+  const { role, loading: roleLoading } = useUserRole();
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (role === "admin") {
+      loadProfiles();
+    }
+  }, [role]);
+
+  const loadProfiles = async () => {
+    try {
+      const [{ data: { user } }, { data, error }] = await Promise.all([
+        supabase.auth.getUser(),
+        supabase.from("profiles").select("id, full_name, role, created_at").order("full_name"),
+      ]);
+
+      if (error) throw error;
+
+      setCurrentUserId(user?.id || null);
+      setProfiles(data || []);
+    } catch (error: any) {
+      toast.error("Error loading staff: " + error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateRole = async (profileId: string, newRole: string) => {
+    try {
+      const { error } = await supabase.from("profiles").update({ role: newRole }).eq("id", profileId);
+      if (error) throw error;
+
+      toast.success("Rol actualizado correctamente");
+      loadProfiles();
+    } catch (error: any) {
+      toast.error(error.message || "Error updating role");
+    }
+  };
+
+  if (!roleLoading && role !== "admin") {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-12 text-muted-foreground">Solo un administrador puede gestionar el personal</div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-4xl font-bold tracking-tight">Personal</h1>
+          <p className="text-muted-foreground mt-2">
+            Asigne roles a los usuarios. Solo administradores y enfermería ven la información médica
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Usuarios</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="text-center py-8">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Nombre</TableHead>
+                    <TableHead>Registrado</TableHead>
+                    <TableHead>Rol</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {profiles.map((profile) => (
+                    <TableRow key={profile.id}>
+                      <TableCell className="font-medium">{profile.full_name}</TableCell>
+                      <TableCell>{new Date(profile.created_at).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        {/* Admins cannot demote themselves and lock everyone out */}
+                        <Select
+                          value={profile.role}
+                          onValueChange={(value) => updateRole(profile.id, value)}
+                          disabled={profile.id === currentUserId}
+                        >
+                          <SelectTrigger className="w-48">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {USER_ROLES.map((userRole) => (
+                              <SelectItem key={userRole} value={userRole}>
+                                {userRoleLabels[userRole]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default Staff;
@@ -7,8 +7,36 @@ import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Separator } from "@/components/ui/separator";
 import { supabase } from "@/integrations/supabase/client";
+import { StudentDocuments } from "@/components/StudentDocuments";
+import { StudentMedicalInfo } from "@/components/StudentMedicalInfo";
+import { PaymentActions, PaymentAdjustmentDialog, AdjustablePayment } from "@/components/PaymentAdjustmentDialog";
+import { PaymentReceiptButton } from "@/components/PaymentReceiptButton";
+import { AccountStatementDialog } from "@/components/AccountStatementDialog";
+import { InstallmentSchedule } from "@/components/InstallmentSchedule";
+import { StudentCharges } from "@/components/StudentCharges";
+import { StudentDiscounts } from "@/components/StudentDiscounts";
+import { useAcademicYear } from "@/hooks/use-academic-year";
+import { useCustomFields } from "@/hooks/use-custom-fields";
+import { useUserRole } from "@/hooks/use-user-role";
+import { getGuardianRelationshipLabel } from "@/lib/guardians";
+import { generateIdCardsPdf, loadIdCardStudents } from "@/lib/idCards";
+import { canViewMedicalInfo } from "@/lib/roles";
+import { formatReceiptNumber } from "@/lib/receipts";
+import { StatementTarget } from "@/lib/accountStatement";
+import {
+  ScheduledInstallment,
+  accountStatusLabels,
+  getAccountStatusColor,
+  summarizeInstallments,
+} from "@/lib/installments";
+import { PaymentAdjustmentAction, getPaymentMethodLabel, getRefundableAmount, sumPayments } from "@/lib/payments";
+import { ChargeBalance, summarizeByConcept } from "@/lib/charges";
+import { WaivedLateFee } from "@/lib/lateFees";
+import { DiscountLine, StudentDiscount } from "@/lib/discounts";
+import { CustomFieldValues, formatCustomFieldValue } from "@/lib/customFields";
+import { getEnrollmentStatusLabel, getStudentStatusColor, getStudentStatusLabel } from "@/lib/studentStatus";
 import { toast } from "sonner";
-import { ArrowLeft, User, Users as UsersIcon, DollarSign, BookOpen } from "lucide-react";
+import { ArrowLeft, User, Users as UsersIcon, DollarSign, BookOpen, History, CalendarRange, IdCard, FileText } from "lucide-react";
 
 interface StudentData {
   id: string;
@@ -16,16 +44,47 @@ interface StudentData {
   last_name: string;
   id_number: string;
   date_of_birth: string;
+  status: string;
+  status_effective_date: string;
+  status_reason: string | null;
+  family_id: string | null;
+  custom_fields: CustomFieldValues;
+  created_at: string;
+}
+
+interface Enrollment {
+  id: string;
+  academic_year_id: string;
   grade_level: string;
+  grade_level_id: string | null;
+  fee_plan_id: string | null;
   total_tuition: number;
-  created_at: string;
+  status: string;
+  academic_years: {
+    name: string;
+    start_date: string;
+  };
+}
+
+interface StatusChange {
+  id: string;
+  previous_status: string | null;
+  status: string;
+  effective_date: string;
+  reason: string | null;
 }
 
 interface Parent {
+  id: string;
   full_name: string;
   id_number: string;
   cell_phone: string;
+  email: string | null;
   address: string | null;
+  relationship: string;
+  is_primary_contact: boolean;
+  is_financially_responsible: boolean;
+  custom_fields: CustomFieldValues;
 }
 
 interface Payment {
@@ -33,6 +92,12 @@ interface Payment {
   amount: number;
   payment_date: string;
   notes: string | null;
+  status: string;
+  refund_of: string | null;
+  void_reason: string | null;
+  receipt_number: number;
+  method: string | null;
+  reference: string | null;
 }
 
 interface Grade {
@@ -48,36 +113,126 @@ interface Grade {
 const StudentDetail = () => {
   const { id } = useParams();
   const navigate = useNavigate();
+  const { selectedYear } = useAcademicYear();
+  const { role } = useUserRole();
+  const { studentFields, guardianFields } = useCustomFields();
   const [student, setStudent] = useState<StudentData | null>(null);
-  const [parent, setParent] = useState<Parent | null>(null);
+  const [enrollments, setEnrollments] = useState<Enrollment[]>([]);
+  const [parents, setParents] = useState<Parent[]>([]);
   const [payments, setPayments] = useState<Payment[]>([]);
+  const [installments, setInstallments] = useState<ScheduledInstallment[]>([]);
+  const [charges, setCharges] = useState<ChargeBalance[]>([]);
+  const [discounts, setDiscounts] = useState<StudentDiscount[]>([]);
+  const [discountLines, setDiscountLines] = useState<DiscountLine[]>([]);
+  const [waivedLateFees, setWaivedLateFees] = useState<WaivedLateFee[]>([]);
   const [grades, setGrades] = useState<Grade[]>([]);
+  const [statusHistory, setStatusHistory] = useState<StatusChange[]>([]);
   const [loading, setLoading] = useState(true);
+  const [printingCard, setPrintingCard] = useState(false);
+  const [statementTarget, setStatementTarget] = useState<StatementTarget | null>(null);
+  const [adjustment, setAdjustment] = useState<{ action: PaymentAdjustmentAction; payment: AdjustablePayment } | null>(
+    null
+  );
 
   useEffect(() => {
-    if (id) {
+    if (id && selectedYear) {
       loadStudentData();
     }
-  }, [id]);
+  }, [id, selectedYear?.id]);
 
   const loadStudentData = async () => {
     try {
-      const [studentRes, parentRes, paymentsRes, gradesRes] = await Promise.all([
+      const [
+        studentRes,
+        enrollmentsRes,
+        paymentsRes,
+        installmentsRes,
+        chargesRes,
+        discountsRes,
+        discountLinesRes,
+        waivedRes,
+        gradesRes,
+        historyRes,
+      ] = await Promise.all([
         supabase.from("students").select("*").eq("id", id).single(),
-        supabase.from("parents").select("*").eq("student_id", id).single(),
-        supabase.from("payments").select("*").eq("student_id", id).order("payment_date", { ascending: false }),
+        supabase.from("enrollments").select("*, academic_years(name, start_date)").eq("student_id", id),
+        supabase
+          .from("payments")
+          .select("*")
+          .eq("student_id", id)
+          .eq("academic_year_id", selectedYear.id)
+          .order("payment_date", { ascending: false }),
+        supabase
+          .from("installment_schedule")
+          .select("*")
+          .eq("student_id", id)
+          .eq("academic_year_id", selectedYear.id)
+          .order("due_date")
+          .order("sequence"),
+        supabase
+          .from("charge_balances")
+          .select("*")
+          .eq("student_id", id)
+          .eq("academic_year_id", selectedYear.id)
+          .order("due_date"),
+        supabase
+          .from("student_discounts")
+          .select("id, notes, status, discount_rules(name, kind, value_type, value), enrollments!inner(student_id)")
+          .eq("enrollments.student_id", id)
+          .eq("enrollments.academic_year_id", selectedYear.id)
+          .order("requested_at"),
+        supabase
+          .from("discount_lines")
+          .select("discount_rule_id, rule_name, kind, student_discount_id, amount")
+          .eq("student_id", id)
+          .eq("academic_year_id", selectedYear.id),
+        supabase
+          .from("student_charges")
+          .select("id, description, amount, waived_at, waive_reason, fee_concepts(name), enrollments!inner(student_id)")
+          .eq("enrollments.student_id", id)
+          .eq("enrollments.academic_year_id", selectedYear.id)
+          .not("waived_at", "is", null)
+          .order("waived_at"),
         supabase
           .from("grades")
           .select("*, subjects(name)")
           .eq("student_id", id)
+          .eq("academic_year_id", selectedYear.id)
+          .order("created_at", { ascending: false }),
+        supabase
+          .from("student_status_history")
+          .select("*")
+          .eq("student_id", id)
           .order("created_at", { ascending: false }),
       ]);
 
       if (studentRes.error) throw studentRes.error;
-      setStudent(studentRes.data);
-      setParent(parentRes.data);
+
+      // Guardians are shared by the whole family
+      const parentRes = studentRes.data.family_id
+        ? await supabase
+            .from("parents")
+            .select("*")
+            .eq("family_id", studentRes.data.family_id)
+            .order("is_primary_contact", { ascending: false })
+            .order("created_at", { ascending: true })
+        : { data: [] };
+
+      setStudent({ ...studentRes.data, custom_fields: studentRes.data.custom_fields as CustomFieldValues });
+      setEnrollments(
+        (enrollmentsRes.data || []).sort((a, b) =>
+          b.academic_years.start_date.localeCompare(a.academic_years.start_date)
+        )
+      );
+      setParents(parentRes.data || []);
       setPayments(paymentsRes.data || []);
+      setInstallments((installmentsRes.data || []) as ScheduledInstallment[]);
+      setCharges((chargesRes.data || []) as ChargeBalance[]);
+      setDiscounts(discountsRes.data || []);
+      setDiscountLines((discountLinesRes.data || []) as DiscountLine[]);
+      setWaivedLateFees(waivedRes.data || []);
       setGrades(gradesRes.data || []);
+      setStatusHistory(historyRes.data || []);
     } catch (error: any) {
       toast.error("Error loading student data: " + error.message);
     } finally {
@@ -85,6 +240,18 @@ const StudentDetail = () => {
     }
   };
 
+  const handlePrintIdCard = async () => {
+    setPrintingCard(true);
+    try {
+      const cards = await loadIdCardStudents(selectedYear.id, { studentId: student.id });
+      await generateIdCardsPdf(cards, selectedYear.name, `carnet_${student.id_number}.pdf`);
+    } catch (error: any) {
+      toast.error(error.message || "Error generating ID card");
+    } finally {
+      setPrintingCard(false);
+    }
+  };
+
   if (loading) {
     return (
       <DashboardLayout>
@@ -108,27 +275,15 @@ const StudentDetail = () => {
     );
   }
 
-  const totalPaid = payments.reduce((sum, payment) => sum + Number(payment.amount), 0);
-  const balance = Number(student.total_tuition) - totalPaid;
-  const paymentStatus =
-    totalPaid >= Number(student.total_tuition)
-      ? "Paid"
-      : totalPaid > 0
-      ? "Partial Payment"
-      : "Unpaid";
-
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "Paid":
-        return "bg-success text-success-foreground";
-      case "Partial Payment":
-        return "bg-warning text-warning-foreground";
-      case "Unpaid":
-        return "bg-destructive text-destructive-foreground";
-      default:
-        return "";
-    }
-  };
+  const enrollment = enrollments.find((e) => e.academic_year_id === selectedYear?.id);
+  const totalTuition = Number(enrollment?.total_tuition || 0);
+  const tuitionDiscounts = installments.reduce((sum, installment) => sum + Number(installment.discount_amount), 0);
+  const netTuition = totalTuition - tuitionDiscounts;
+  const totalCharges = charges.reduce((sum, charge) => sum + Number(charge.amount) - Number(charge.discount_amount), 0);
+  const totalPaid = sumPayments(payments);
+  const balance = netTuition + totalCharges - totalPaid;
+  const installmentSummary = summarizeInstallments([...installments, ...charges]);
+  const conceptBalances = summarizeByConcept(installments, charges);
 
   return (
     <DashboardLayout>
@@ -145,9 +300,35 @@ const StudentDetail = () => {
             </h1>
             <p className="text-muted-foreground mt-2">Student ID: {student.id_number}</p>
           </div>
-          <Badge variant="secondary" className="text-lg px-4 py-2">
-            {student.grade_level}
-          </Badge>
+          <div className="flex items-center gap-2">
+            <Badge className={`text-lg px-4 py-2 ${getStudentStatusColor(student.status)}`}>
+              {getStudentStatusLabel(student.status)}
+            </Badge>
+            {enrollment && (
+              <Badge variant="secondary" className="text-lg px-4 py-2">
+                {enrollment.grade_level}
+              </Badge>
+            )}
+            {enrollment && (
+              <Button variant="outline" onClick={handlePrintIdCard} disabled={printingCard}>
+                <IdCard className="mr-2 h-4 w-4" />
+                {printingCard ? "Generando..." : "Carnet"}
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              onClick={() =>
+                setStatementTarget({
+                  kind: "student",
+                  id: student.id,
+                  name: `${student.first_name} ${student.last_name}`,
+                })
+              }
+            >
+              <FileText className="mr-2 h-4 w-4" />
+              Estado de cuenta
+            </Button>
+          </div>
         </div>
 
         <div className="grid gap-6 md:grid-cols-2">
@@ -168,7 +349,9 @@ const StudentDetail = () => {
               </div>
               <div className="flex justify-between">
                 <span className="text-muted-foreground">Nivel de grado:</span>
-                <span className="font-medium">{student.grade_level}</span>
+                <span className="font-medium">
+                  {enrollment ? enrollment.grade_level : `No inscrito en ${selectedYear?.name}`}
+                </span>
               </div>
               <div className="flex justify-between">
                 <span className="text-muted-foreground">Fecha de registro:</span>
@@ -176,39 +359,84 @@ const StudentDetail = () => {
                   {new Date(student.created_at).toLocaleDateString()}
                 </span>
               </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Estado desde:</span>
+                <span className="font-medium">
+                  {new Date(student.status_effective_date).toLocaleDateString()}
+                </span>
+              </div>
+              {student.status_reason && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Motivo:</span>
+                  <span className="font-medium">{student.status_reason}</span>
+                </div>
+              )}
+              {studentFields.map((field) => (
+                <div key={field.id} className="flex justify-between">
+                  <span className="text-muted-foreground">{field.label}:</span>
+                  <span className="font-medium">{formatCustomFieldValue(field, student.custom_fields?.[field.key])}</span>
+                </div>
+              ))}
             </CardContent>
           </Card>
 
           {/* Parent Information */}
           <Card>
-            <CardHeader>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
               <CardTitle className="flex items-center gap-2">
                 <UsersIcon className="h-5 w-5" />
-                Información para padres
+                Apoderados
               </CardTitle>
+              {student.family_id && (
+                <Button variant="outline" size="sm" onClick={() => navigate(`/family/${student.family_id}`)}>
+                  Ver familia
+                </Button>
+              )}
             </CardHeader>
             <CardContent className="space-y-3">
-              {parent ? (
-                <>
-                  <div className="flex justify-between">
-                    <span className="text-muted-foreground">Nombre completo:</span>
-                    <span className="font-medium">{parent.full_name}</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-muted-foreground">DNI</span>
-                    <span className="font-medium">{parent.id_number}</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-muted-foreground">Celular</span>
-                    <span className="font-medium">{parent.cell_phone}</span>
-                  </div>
-                  {parent.address && (
+              {parents.length > 0 ? (
+                parents.map((parent, index) => (
+                  <div key={parent.id} className="space-y-3">
+                    {index > 0 && <Separator />}
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant="secondary">{getGuardianRelationshipLabel(parent.relationship)}</Badge>
+                      {parent.is_primary_contact && <Badge className="bg-info text-info-foreground">Contacto principal</Badge>}
+                      {parent.is_financially_responsible && (
+                        <Badge className="bg-success text-success-foreground">Responsable financiero</Badge>
+                      )}
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Nombre completo:</span>
+                      <span className="font-medium">{parent.full_name}</span>
+                    </div>
                     <div className="flex justify-between">
-                      <span className="text-muted-foreground">Direcciòn</span>
-                      <span className="font-medium">{parent.address}</span>
+                      <span className="text-muted-foreground">DNI</span>
+                      <span className="font-medium">{parent.id_number}</span>
                     </div>
-                  )}
-                </>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Celular</span>
+                      <span className="font-medium">{parent.cell_phone}</span>
+                    </div>
+                    {parent.email && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Email</span>
+                        <span className="font-medium">{parent.email}</span>
+                      </div>
+                    )}
+                    {parent.address && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Direcciòn</span>
+                        <span className="font-medium">{parent.address}</span>
+                      </div>
+                    )}
+                    {guardianFields.map((field) => (
+                      <div key={field.id} className="flex justify-between">
+                        <span className="text-muted-foreground">{field.label}</span>
+                        <span className="font-medium">{formatCustomFieldValue(field, parent.custom_fields?.[field.key])}</span>
+                      </div>
+                    ))}
+                  </div>
+                ))
               ) : (
                 <p className="text-muted-foreground">No hay información de los padres disponible</p>
               )}
@@ -221,14 +449,26 @@ const StudentDetail = () => {
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <DollarSign className="h-5 w-5" />
-              Resumen de pago
+              Resumen de pago {selectedYear && `· ${selectedYear.name}`}
             </CardTitle>
           </CardHeader>
           <CardContent>
             <div className="grid gap-4 md:grid-cols-4">
               <div className="space-y-1">
-                <p className="text-sm text-muted-foreground">Matrícula total</p>
-                <p className="text-2xl font-bold">${Number(student.total_tuition).toFixed(2)}</p>
+                <p className="text-sm text-muted-foreground">Matrícula bruta</p>
+                <p className="text-2xl font-bold">${totalTuition.toFixed(2)}</p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-sm text-muted-foreground">Descuentos</p>
+                <p className="text-2xl font-bold text-success">-${tuitionDiscounts.toFixed(2)}</p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-sm text-muted-foreground">Matrícula neta</p>
+                <p className="text-2xl font-bold">${netTuition.toFixed(2)}</p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-sm text-muted-foreground">Otros cargos</p>
+                <p className="text-2xl font-bold">${totalCharges.toFixed(2)}</p>
               </div>
               <div className="space-y-1">
                 <p className="text-sm text-muted-foreground">Total pagado</p>
@@ -240,12 +480,77 @@ const StudentDetail = () => {
               </div>
               <div className="space-y-1">
                 <p className="text-sm text-muted-foreground">Estado</p>
-                <Badge className={getStatusColor(paymentStatus)}>{paymentStatus}</Badge>
+                <Badge className={getAccountStatusColor(installmentSummary.status)}>
+                  {accountStatusLabels[installmentSummary.status]}
+                </Badge>
+                {installmentSummary.overdueCount > 0 && (
+                  <p className="text-xs text-destructive">
+                    {installmentSummary.overdueCount} cobro(s) vencido(s) · ${installmentSummary.overdueAmount.toFixed(2)}
+                  </p>
+                )}
               </div>
             </div>
 
             <Separator className="my-6" />
 
+            <InstallmentSchedule
+              enrollment={enrollment || null}
+              installments={installments}
+              onPlanApplied={loadStudentData}
+            />
+
+            <Separator className="my-6" />
+
+            <StudentCharges
+              enrollment={enrollment || null}
+              charges={charges}
+              waivedLateFees={waivedLateFees}
+              onChanged={loadStudentData}
+            />
+
+            <Separator className="my-6" />
+
+            <StudentDiscounts
+              enrollment={enrollment || null}
+              discounts={discounts}
+              lines={discountLines}
+              onChanged={loadStudentData}
+            />
+
+            {conceptBalances.length > 1 && (
+              <>
+                <Separator className="my-6" />
+
+                <h3 className="font-semibold mb-4">Saldo por concepto</h3>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Concepto</TableHead>
+                      <TableHead>Monto</TableHead>
+                      <TableHead>Descuento</TableHead>
+                      <TableHead>Pagado</TableHead>
+                      <TableHead>Saldo</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {conceptBalances.map((concept) => (
+                      <TableRow key={concept.name}>
+                        <TableCell className="font-medium">{concept.name}</TableCell>
+                        <TableCell>${concept.amount.toFixed(2)}</TableCell>
+                        <TableCell>${concept.discount.toFixed(2)}</TableCell>
+                        <TableCell>${concept.paid.toFixed(2)}</TableCell>
+                        <TableCell className={concept.balance > 0 ? "text-destructive font-medium" : ""}>
+                          ${concept.balance.toFixed(2)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </>
+            )}
+
+            <Separator className="my-6" />
+
             <h3 className="font-semibold mb-4">Historial de pagos</h3>
             {payments.length === 0 ? (
               <p className="text-muted-foreground">No se registraron pagos</p>
@@ -253,19 +558,55 @@ const StudentDetail = () => {
               <Table>
                 <TableHeader>
                   <TableRow>
+                    <TableHead>N°</TableHead>
                     <TableHead>Fecha</TableHead>
                     <TableHead>Cantidad</TableHead>
+                    <TableHead>Método</TableHead>
                     <TableHead>Notas</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {payments.map((payment) => (
-                    <TableRow key={payment.id}>
-                      <TableCell>{new Date(payment.payment_date).toLocaleDateString()}</TableCell>
-                      <TableCell className="font-semibold">${Number(payment.amount).toFixed(2)}</TableCell>
-                      <TableCell>{payment.notes || "-"}</TableCell>
-                    </TableRow>
-                  ))}
+                  {payments.map((payment) => {
+                    const adjustable = { ...payment, refundable: getRefundableAmount(payment, payments) };
+                    const voided = payment.status === "voided";
+                    return (
+                      <TableRow key={payment.id} className={voided ? "text-muted-foreground" : ""}>
+                        <TableCell className="font-mono text-xs">{formatReceiptNumber(payment.receipt_number)}</TableCell>
+                        <TableCell className={voided ? "line-through" : ""}>
+                          {new Date(payment.payment_date).toLocaleDateString()}
+                        </TableCell>
+                        <TableCell className={`font-semibold ${voided ? "line-through" : ""}`}>
+                          ${Number(payment.amount).toFixed(2)}
+                        </TableCell>
+                        <TableCell>
+                          {getPaymentMethodLabel(payment.method)}
+                          {payment.reference && (
+                            <span className="block text-xs text-muted-foreground font-mono">{payment.reference}</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            {payment.refund_of && <Badge variant="secondary">Reembolso</Badge>}
+                            {voided && <Badge variant="destructive">Anulado</Badge>}
+                            <span className={voided ? "line-through" : ""}>{payment.notes || "-"}</span>
+                          </div>
+                          {voided && payment.void_reason && (
+                            <p className="text-xs mt-1">Motivo de anulación: {payment.void_reason}</p>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex justify-end">
+                            <PaymentReceiptButton paymentId={payment.id} />
+                            <PaymentActions
+                              payment={adjustable}
+                              onSelect={(action) => setAdjustment({ action, payment: adjustable })}
+                            />
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
                 </TableBody>
               </Table>
             )}
@@ -309,7 +650,99 @@ const StudentDetail = () => {
             )}
           </CardContent>
         </Card>
+
+        {canViewMedicalInfo(role) && <StudentMedicalInfo studentId={student.id} />}
+
+        <StudentDocuments studentId={student.id} gradeLevelId={enrollment?.grade_level_id} />
+
+        {/* Enrollment History */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarRange className="h-5 w-5" />
+              Historial de inscripciones
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {enrollments.length === 0 ? (
+              <p className="text-muted-foreground">No se registraron inscripciones</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Año académico</TableHead>
+                    <TableHead>Grado/Nivel</TableHead>
+                    <TableHead>Matrícula</TableHead>
+                    <TableHead>Estado</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {enrollments.map((e) => (
+                    <TableRow key={e.id}>
+                      <TableCell className="font-medium">{e.academic_years.name}</TableCell>
+                      <TableCell>{e.grade_level}</TableCell>
+                      <TableCell>${Number(e.total_tuition).toFixed(2)}</TableCell>
+                      <TableCell>
+                        <Badge variant="secondary">{getEnrollmentStatusLabel(e.status)}</Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Status History */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Historial de estado
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {statusHistory.length === 0 ? (
+              <p className="text-muted-foreground">No se registraron cambios de estado</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Fecha efectiva</TableHead>
+                    <TableHead>Estado anterior</TableHead>
+                    <TableHead>Nuevo estado</TableHead>
+                    <TableHead>Motivo</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {statusHistory.map((change) => (
+                    <TableRow key={change.id}>
+                      <TableCell>{new Date(change.effective_date).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        {change.previous_status ? getStudentStatusLabel(change.previous_status) : "-"}
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={getStudentStatusColor(change.status)}>
+                          {getStudentStatusLabel(change.status)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{change.reason || "-"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
       </div>
+
+      <PaymentAdjustmentDialog
+        adjustment={adjustment}
+        onOpenChange={(open) => !open && setAdjustment(null)}
+        onSaved={loadStudentData}
+      />
+
+      <AccountStatementDialog target={statementTarget} onOpenChange={(open) => !open && setStatementTarget(null)} />
     </DashboardLayout>
   );
 };
@@ -0,0 +1,422 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import { useAcademicYear } from "@/hooks/use-academic-year";
+import { useGradeLevels } from "@/hooks/use-grade-levels";
+import { studentSchema, StudentFormData } from "@/lib/studentSchema";
+import {
+  IMPORT_FIELDS,
+  ImportFieldKey,
+  ImportMapping,
+  ParsedSheet,
+  downloadImportTemplate,
+  guessMapping,
+  normalizeKey,
+  parseImportDate,
+  parseRelationship,
+  parseSpreadsheet,
+} from "@/lib/studentImport";
+import { toast } from "sonner";
+import { ArrowLeft, ArrowRight, CheckCircle2, Download, Upload } from "lucide-react";
+
+interface ImportRow {
+  line: number;
+  data: StudentFormData;
+  gradeLevelName: string;
+  errors: string[];
+}
+
+const UNMAPPED = "__none";
+
+const StudentImport = () => {
+  const navigate = useNavigate();
+  const { selectedYear } = useAcademicYear();
+  const { gradeLevels } = useGradeLevels();
+  const [step, setStep] = useState<"upload" | "mapping" | "review" | "done">("upload");
+  const [fileName, setFileName] = useState("");
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [validating, setValidating] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [importedCount, setImportedCount] = useState(0);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const parsed = await parseSpreadsheet(file);
+      if (parsed.rows.length === 0) {
+        toast.error("El archivo no contiene filas de datos");
+        return;
+      }
+      setFileName(file.name);
+      setSheet(parsed);
+      setMapping(guessMapping(parsed.headers));
+      setStep("mapping");
+    } catch (error: any) {
+      toast.error("Error reading file: " + error.message);
+    }
+  };
+
+  const loadExistingIdNumbers = async (idNumbers: string[]) => {
+    const existing = new Set<string>();
+    // Keep each request URL short
+    for (let i = 0; i < idNumbers.length; i += 200) {
+      const { data, error } = await supabase
+        .from("students")
+        .select("id_number")
+        .in("id_number", idNumbers.slice(i, i + 200));
+
+      if (error) throw error;
+      data?.forEach((student) => existing.add(student.id_number));
+    }
+    return existing;
+  };
+
+  // Dry run: nothing is written until the admin confirms the import
+  const validateRows = async () => {
+    const missing = IMPORT_FIELDS.filter((field) => field.required && !mapping[field.key]);
+    if (missing.length > 0) {
+      toast.error("Asigne una columna a: " + missing.map((field) => field.label).join(", "));
+      return;
+    }
+
+    setValidating(true);
+    try {
+      const { data: aliases, error: aliasesError } = await supabase
+        .from("grade_level_aliases")
+        .select("alias, grade_level_id");
+
+      if (aliasesError) throw aliasesError;
+
+      const gradeLevelIds = new Map<string, string>();
+      aliases?.forEach((alias) => gradeLevelIds.set(alias.alias, alias.grade_level_id));
+      gradeLevels.forEach((level) => gradeLevelIds.set(normalizeKey(level.name), level.id));
+
+      const value = (row: Record<string, string>, key: ImportFieldKey) => (mapping[key] ? row[mapping[key]] : "");
+      const existingIdNumbers = await loadExistingIdNumbers(
+        sheet.rows.map((row) => value(row, "idNumber")).filter(Boolean)
+      );
+      const seenIdNumbers = new Map<string, number>();
+
+      setRows(
+        sheet.rows.map((row, index) => {
+          const line = index + 2;
+          // Conversion errors by form field; they replace the generic schema message for that field
+          const fieldErrors: Record<string, string> = {};
+
+          const gradeText = value(row, "gradeLevel");
+          const gradeLevelId = gradeText ? gradeLevelIds.get(normalizeKey(gradeText)) || "" : "";
+          if (gradeText && !gradeLevelId) {
+            fieldErrors.gradeLevelId = `Grado no reconocido: "${gradeText}"`;
+          }
+          const gradeLevel = gradeLevels.find((level) => level.id === gradeLevelId);
+
+          const sectionText = value(row, "section");
+          const sectionId = gradeLevel?.sections.find((s) => normalizeKey(s.name) === normalizeKey(sectionText))?.id;
+          if (sectionText && gradeLevel && !sectionId) {
+            fieldErrors.sectionId = `La sección "${sectionText}" no existe en ${gradeLevel.name}`;
+          }
+
+          const dateText = value(row, "dateOfBirth");
+          const dateOfBirth = parseImportDate(dateText);
+          if (dateText && !dateOfBirth) {
+            fieldErrors.dateOfBirth = `Fecha de nacimiento inválida: "${dateText}"`;
+          }
+
+          const tuitionText = value(row, "totalTuition").replace(",", ".");
+          const totalTuition = Number(tuitionText);
+          if (tuitionText === "" || Number.isNaN(totalTuition)) {
+            fieldErrors.totalTuition = "Matrícula inválida";
+          }
+
+          const relationshipText = value(row, "guardianRelationship");
+          const relationship = parseRelationship(relationshipText);
+          if (!relationship) {
+            fieldErrors.guardians = `Parentesco no reconocido: "${relationshipText}"`;
+          }
+
+          const data: StudentFormData = {
+            firstName: value(row, "firstName"),
+            lastName: value(row, "lastName"),
+            idNumber: value(row, "idNumber"),
+            dateOfBirth,
+            gradeLevelId,
+            sectionId: sectionId || "",
+            totalTuition: Number.isNaN(totalTuition) ? 0 : totalTuition,
+            guardians: [
+              {
+                fullName: value(row, "guardianName"),
+                idNumber: value(row, "guardianIdNumber"),
+                phone: value(row, "guardianPhone"),
+                email: value(row, "guardianEmail"),
+                address: value(row, "guardianAddress"),
+                relationship: relationship || "tutor",
+                isPrimaryContact: true,
+                isFinanciallyResponsible: true,
+              },
+            ],
+          };
+
+          const result = studentSchema.safeParse(data);
+          const schemaErrors = result.success
+            ? []
+            : result.error.errors.filter((issue) => !fieldErrors[issue.path[0]]).map((issue) => issue.message);
+          const errors = [...Object.values(fieldErrors), ...schemaErrors];
+
+          const previousLine = seenIdNumbers.get(data.idNumber);
+          if (previousLine) {
+            errors.push(`DNI repetido en el archivo (fila ${previousLine})`);
+          } else if (data.idNumber) {
+            seenIdNumbers.set(data.idNumber, line);
+          }
+          if (existingIdNumbers.has(data.idNumber)) {
+            errors.push(`Ya existe un estudiante con DNI ${data.idNumber}`);
+          }
+
+          return { line, data, gradeLevelName: gradeLevel?.name || gradeText, errors };
+        })
+      );
+      setStep("review");
+    } catch (error: any) {
+      toast.error("Error validating rows: " + error.message);
+    } finally {
+      setValidating(false);
+    }
+  };
+
+  const handleImport = async () => {
+    const validRows = rows.filter((row) => row.errors.length === 0);
+    if (validRows.length === 0) return;
+
+    setImporting(true);
+    try {
+      // Students, families and guardians of every row are inserted in one transaction
+      const { data: count, error } = await supabase.rpc("import_students", {
+        p_academic_year_id: selectedYear.id,
+        p_rows: validRows.map(({ line, data }) => ({
+          line,
+          first_name: data.firstName,
+          last_name: data.lastName,
+          id_number: data.idNumber,
+          date_of_birth: data.dateOfBirth,
+          grade_level_id: data.gradeLevelId,
+          section_id: data.sectionId,
+          total_tuition: data.totalTuition,
+          guardian: {
+            full_name: data.guardians[0].fullName,
+            id_number: data.guardians[0].idNumber,
+            cell_phone: data.guardians[0].phone,
+            email: data.guardians[0].email,
+            address: data.guardians[0].address,
+            relationship: data.guardians[0].relationship,
+          },
+        })),
+      });
+
+      if (error) throw error;
+
+      setImportedCount(count);
+      setStep("done");
+      toast.success(`${count} estudiante(s) importado(s)`);
+    } catch (error: any) {
+      toast.error(error.message || "Error importing students");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const validCount = rows.filter((row) => row.errors.length === 0).length;
+  const invalidCount = rows.length - validCount;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <Button variant="ghost" onClick={() => navigate("/students")}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Volver a los estudiantes
+        </Button>
+
+        <div>
+          <h1 className="text-4xl font-bold tracking-tight">Importar estudiantes</h1>
+          <p className="text-muted-foreground mt-2">
+            Registrar estudiantes y apoderados en bloque desde un archivo CSV o Excel
+          </p>
+        </div>
+
+        {!selectedYear ? (
+          <Card>
+            <CardContent className="text-center py-8 text-muted-foreground">
+              Cree un año académico para comenzar a inscribir estudiantes
+            </CardContent>
+          </Card>
+        ) : step === "upload" ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>1. Archivo</CardTitle>
+              <CardDescription>Los estudiantes se inscribirán en {selectedYear.name}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="importFile">Archivo CSV o XLSX</Label>
+                <Input id="importFile" type="file" accept=".csv,.xlsx,.xls" onChange={handleFile} />
+              </div>
+              <Button variant="outline" onClick={downloadImportTemplate}>
+                <Download className="mr-2 h-4 w-4" />
+                Descargar plantilla
+              </Button>
+            </CardContent>
+          </Card>
+        ) : step === "mapping" ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>2. Columnas</CardTitle>
+              <CardDescription>
+                {fileName}: {sheet?.rows.length} fila(s). Indique qué columna corresponde a cada campo.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Campo</TableHead>
+                    <TableHead>Columna del archivo</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {IMPORT_FIELDS.map((field) => (
+                    <TableRow key={field.key}>
+                      <TableCell className="font-medium">
+                        {field.label}
+                        {field.required && <span className="text-destructive"> *</span>}
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={mapping[field.key] || UNMAPPED}
+                          onValueChange={(value) =>
+                            setMapping({ ...mapping, [field.key]: value === UNMAPPED ? undefined : value })
+                          }
+                        >
+                          <SelectTrigger className="w-64">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={UNMAPPED}>Sin asignar</SelectItem>
+                            {sheet?.headers.filter(Boolean).map((header) => (
+                              <SelectItem key={header} value={header}>
+                                {header}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <div className="flex justify-between">
+                <Button variant="outline" onClick={() => setStep("upload")}>
+                  <ArrowLeft className="mr-2 h-4 w-4" />
+                  Atrás
+                </Button>
+                <Button onClick={validateRows} disabled={validating}>
+                  {validating ? "Validando..." : "Validar filas"}
+                  <ArrowRight className="ml-2 h-4 w-4" />
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ) : step === "review" ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>3. Revisión</CardTitle>
+              <CardDescription>
+                <Badge className="bg-success text-success-foreground mr-2">{validCount} válida(s)</Badge>
+                <Badge className="bg-destructive text-destructive-foreground">{invalidCount} con errores</Badge>
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Fila</TableHead>
+                    <TableHead>Estudiante</TableHead>
+                    <TableHead>DNI</TableHead>
+                    <TableHead>Grado</TableHead>
+                    <TableHead>Apoderado</TableHead>
+                    <TableHead>Resultado</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => (
+                    <TableRow key={row.line}>
+                      <TableCell>{row.line}</TableCell>
+                      <TableCell className="font-medium">
+                        {row.data.firstName} {row.data.lastName}
+                      </TableCell>
+                      <TableCell>{row.data.idNumber}</TableCell>
+                      <TableCell>{row.gradeLevelName}</TableCell>
+                      <TableCell>{row.data.guardians[0].fullName}</TableCell>
+                      <TableCell>
+                        {row.errors.length === 0 ? (
+                          <Badge className="bg-success text-success-foreground">Válida</Badge>
+                        ) : (
+                          <ul className="text-sm text-destructive list-disc pl-4">
+                            {row.errors.map((error) => (
+                              <li key={error}>{error}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {invalidCount > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Las filas con errores no se importarán. Corrija el archivo y vuelva a cargarlo para incluirlas.
+                </p>
+              )}
+              <div className="flex justify-between">
+                <Button variant="outline" onClick={() => setStep("mapping")}>
+                  <ArrowLeft className="mr-2 h-4 w-4" />
+                  Atrás
+                </Button>
+                <Button onClick={handleImport} disabled={importing || validCount === 0}>
+                  <Upload className="mr-2 h-4 w-4" />
+                  {importing ? "Importando..." : `Importar ${validCount} estudiante(s)`}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent className="text-center py-12 space-y-4">
+              <CheckCircle2 className="h-12 w-12 text-success mx-auto" />
+              <p className="text-lg font-semibold">{importedCount} estudiante(s) inscrito(s) en {selectedYear.name}</p>
+              <div className="flex justify-center gap-3">
+                <Button variant="outline" onClick={() => setStep("upload")}>
+                  Importar otro archivo
+                </Button>
+                <Button onClick={() => navigate("/students")}>Ver estudiantes</Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default StudentImport;
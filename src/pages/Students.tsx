@@ -4,27 +4,51 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { supabase } from "@/integrations/supabase/client";
+import { toSearchKey } from "@/lib/utils";
+import { useAcademicYear } from "@/hooks/use-academic-year";
+import { useGradeLevels } from "@/hooks/use-grade-levels";
 import { toast } from "sonner";
-import { Plus, Search, Eye } from "lucide-react";
-import { useNavigate } from "react-router-dom";
+import { DeleteStudentDialog } from "@/components/DeleteStudentDialog";
+import { StudentStatusDialog } from "@/components/StudentStatusDialog";
+import { GuardiansFieldset } from "@/components/GuardiansFieldset";
+import { FieldError } from "@/components/FieldError";
+import { CustomFieldInputs } from "@/components/CustomFieldInputs";
+import { useCustomFields } from "@/hooks/use-custom-fields";
+import { CustomField, CustomFieldValues, toCustomFieldFormValues } from "@/lib/customFields";
+import { GuardianFormData, emptyGuardian, fromParentRow, toParentFields } from "@/lib/guardians";
+import { buildStudentSchema } from "@/lib/studentSchema";
+import { PAYMENT_METHODS, PaymentMethod, paymentMethodLabels, requiresPaymentReference } from "@/lib/payments";
+import { ExportStudent, PrimaryGuardianFields, exportStudentsSpreadsheet } from "@/lib/studentExport";
+import { STUDENT_STATUSES, getStudentStatusColor, getStudentStatusLabel, studentStatusLabels } from "@/lib/studentStatus";
+import { ArrowDown, ArrowUp, ArrowUpDown, ChevronLeft, ChevronRight, Plus, Search, Copy, Eye, IdCard, Pencil, Trash2, MoreHorizontal, RefreshCw, RotateCcw, Upload, Download, Users as UsersIcon } from "lucide-react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { z } from "zod";
 
-const studentSchema = z.object({
-  firstName: z.string().min(2, "El nombre debe tener al menos 2 caracteres"),
-  lastName: z.string().min(2, "El apellido debe tener al menos 2 caracteres"),
-  idNumber: z.string().min(5, "El número de identificación debe tener al menos 5 caracteres"),
-  dateOfBirth: z.string().min(1, "La fecha de nacimiento es requerida"),
-  gradeLevel: z.string().min(1, "El grado es requerido"),
-  totalTuition: z.number().min(0, "La matrícula debe ser un valor positivo"),
-  parentName: z.string().min(2, "El nombre del padre debe tener al menos 2 caracteres"),
-  parentIdNumber: z.string().min(5, "La identificación del padre debe tener al menos 5 caracteres"),
-  parentPhone: z.string().min(10, "El teléfono debe tener al menos 10 caracteres"),
-  parentAddress: z.string().optional(),
-});
+const buildRegistrationSchema = (studentFields: CustomField[], guardianFields: CustomField[]) =>
+  buildStudentSchema(studentFields, guardianFields).extend({
+    initialPaymentAmount: z.number().min(0, "El pago inicial debe ser un valor positivo"),
+    initialPaymentMethod: z.enum(PAYMENT_METHODS),
+    initialPaymentReference: z.string().optional(),
+    initialPaymentNotes: z.string().optional(),
+  });
+
+interface LinkedFamily {
+  id: string;
+  name: string;
+  siblings: string[];
+}
 
 interface Student {
   id: string;
@@ -32,43 +56,216 @@ interface Student {
   last_name: string;
   id_number: string;
   date_of_birth: string;
+  status: string;
+  status_effective_date: string;
+  family_id: string | null;
+  created_at: string;
+  // From the enrollment in the selected academic year
+  enrollment_id: string;
   grade_level: string;
+  grade_level_id: string | null;
+  section_id: string | null;
+  section_name: string | null;
   total_tuition: number;
-  created_at: string;
+  total_paid: number;
+  balance: number;
+  guardian_names: string | null;
+  missing_documents: number;
+  custom_fields: CustomFieldValues;
 }
 
+const PAGE_SIZE = 25;
+
+// The URL is user-editable, so only these directory columns are passed to ORDER BY
+const SORTABLE_COLUMNS = [
+  "created_at",
+  "last_name",
+  "id_number",
+  "grade_level",
+  "date_of_birth",
+  "total_tuition",
+  "balance",
+  "status",
+] as const;
+
+type SortColumn = (typeof SORTABLE_COLUMNS)[number];
+
+const isSortColumn = (value: string): value is SortColumn => (SORTABLE_COLUMNS as readonly string[]).includes(value);
+const EXPORT_BATCH_SIZE = 1000;
+
+// List state lives in the URL so a filtered page can be bookmarked or shared
+const DEFAULT_PARAMS: Record<string, string> = {
+  q: "",
+  status: "active",
+  grade: "all",
+  debt: "all",
+  sort: "created_at",
+  dir: "desc",
+  page: "1",
+  field: "",
+  value: "",
+};
+
+const emptyForm = {
+  firstName: "",
+  lastName: "",
+  idNumber: "",
+  dateOfBirth: "",
+  gradeLevelId: "",
+  sectionId: "",
+  totalTuition: 0,
+  customFields: {} as CustomFieldValues,
+  guardians: [emptyGuardian(true)] as GuardianFormData[],
+  initialPaymentAmount: 0,
+  initialPaymentMethod: "cash" as PaymentMethod,
+  initialPaymentReference: "",
+  initialPaymentNotes: "",
+};
+
 const Students = () => {
   const navigate = useNavigate();
+  const { selectedYear } = useAcademicYear();
+  const { gradeLevels } = useGradeLevels();
+  const { studentFields, guardianFields } = useCustomFields();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const param = (key: string) => searchParams.get(key) || DEFAULT_PARAMS[key];
+  const searchTerm = param("q");
+  const filterStatus = param("status");
+  const filterGradeLevel = param("grade");
+  const filterDebt = param("debt");
+  const filterField = studentFields.find((field) => field.key === param("field"));
+  const filterValue = param("value");
+  const sortParam = param("sort");
+  const sortColumn: SortColumn = isSortColumn(sortParam) ? sortParam : "created_at";
+  const sortAscending = param("dir") === "asc";
+  const page = Math.max(1, Number(param("page")) || 1);
+  const listQuery = searchParams.toString();
   const [students, setStudents] = useState<Student[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
   const [loading, setLoading] = useState(true);
-  const [searchTerm, setSearchTerm] = useState("");
+  const [searchInput, setSearchInput] = useState(searchTerm);
+  const [valueInput, setValueInput] = useState(filterValue);
+  const [exporting, setExporting] = useState(false);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
-  const [formData, setFormData] = useState({
-    firstName: "",
-    lastName: "",
-    idNumber: "",
-    dateOfBirth: "",
-    gradeLevel: "",
-    totalTuition: 0,
-    parentName: "",
-    parentIdNumber: "",
-    parentPhone: "",
-    parentAddress: "",
-  });
+  const [editingStudentId, setEditingStudentId] = useState<string | null>(null);
+  const [editingEnrollmentId, setEditingEnrollmentId] = useState<string | null>(null);
+  const [familyLookup, setFamilyLookup] = useState("");
+  const [linkedFamily, setLinkedFamily] = useState<LinkedFamily | null>(null);
+  const [studentToDelete, setStudentToDelete] = useState<Student | null>(null);
+  const [statusStudent, setStatusStudent] = useState<Student | null>(null);
+  const [isReactivating, setIsReactivating] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (selectedYear) {
+      loadStudents();
+    } else {
+      setStudents([]);
+      setTotalCount(0);
+      setLoading(false);
+    }
+  }, [selectedYear?.id, listQuery, filterField?.id]);
+
+  useEffect(() => {
+    setSearchInput(searchTerm);
+  }, [searchTerm]);
+
+  useEffect(() => {
+    setValueInput(filterValue);
+  }, [filterValue]);
 
+  // Debounce typing before it reaches the URL and the server
   useEffect(() => {
-    loadStudents();
-  }, []);
+    const timeout = setTimeout(() => {
+      if (searchInput.trim() !== searchTerm) {
+        updateParams({ q: searchInput.trim() });
+      }
+      if (valueInput.trim() !== filterValue) {
+        updateParams({ value: valueInput.trim() });
+      }
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput, valueInput]);
+
+  // Any change other than the page itself goes back to the first page
+  const updateParams = (changes: Record<string, string>) => {
+    setSearchParams(
+      (current) => {
+        const next = new URLSearchParams(current);
+        Object.entries(changes).forEach(([key, value]) => {
+          if (value === DEFAULT_PARAMS[key]) {
+            next.delete(key);
+          } else {
+            next.set(key, value);
+          }
+        });
+        if (!("page" in changes)) {
+          next.delete("page");
+        }
+        return next;
+      },
+      { replace: true }
+    );
+  };
+
+  const toggleSort = (column: SortColumn) => {
+    updateParams({
+      sort: column,
+      dir: column === sortColumn && sortAscending ? "desc" : "asc",
+    });
+  };
+
+  // Directory query with the filters from the URL, shared by the list and the export
+  const buildListQuery = () => {
+    let query = supabase
+      .from("student_directory")
+      .select("*", { count: "exact" })
+      .eq("academic_year_id", selectedYear.id);
+
+    if (filterStatus !== "all") {
+      query = query.eq("status", filterStatus);
+    }
+    if (filterGradeLevel !== "all") {
+      query = query.eq("grade_level_id", filterGradeLevel);
+    }
+    if (filterDebt === "with_debt") {
+      query = query.gt("balance", 0);
+    } else if (filterDebt === "no_debt") {
+      query = query.lte("balance", 0);
+    }
+
+    // Prefix match on every word over names, ID number and guardian names
+    const terms = toSearchKey(searchTerm).split(" ").filter(Boolean);
+    if (terms.length > 0) {
+      query = query.textSearch("search_vector", terms.map((term) => `${term}:*`).join(" & "), { config: "simple" });
+    }
+
+    if (filterField && filterValue) {
+      const column = `custom_fields->>${filterField.key}`;
+      if (filterField.field_type === "text") {
+        query = query.filter(column, "ilike", `%${filterValue}%`);
+      } else if (filterField.field_type === "checkbox" && filterValue === "false") {
+        // Unchecked boxes may never have been saved
+        query = query.or(`${column}.is.null,${column}.eq.false`);
+      } else {
+        query = query.filter(column, "eq", filterValue);
+      }
+    }
+
+    return query.order(sortColumn, { ascending: sortAscending }).order("id", { ascending: true });
+  };
 
   const loadStudents = async () => {
+    setLoading(true);
     try {
-      const { data, error } = await supabase
-        .from("students")
-        .select("*")
-        .order("created_at", { ascending: false });
+      const from = (page - 1) * PAGE_SIZE;
+      const { data, error, count } = await buildListQuery()
+        .range(from, from + PAGE_SIZE - 1);
 
       if (error) throw error;
-      setStudents(data || []);
+      setStudents((data || []) as Student[]);
+      setTotalCount(count || 0);
     } catch (error: any) {
       toast.error("Error loading students: " + error.message);
     } finally {
@@ -76,74 +273,244 @@ const Students = () => {
     }
   };
 
+  // Exports every row matching the current filters, not just the visible page
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const rows: ExportStudent[] = [];
+      for (let from = 0; from < totalCount; from += EXPORT_BATCH_SIZE) {
+        const { data, error } = await buildListQuery().range(from, from + EXPORT_BATCH_SIZE - 1);
+        if (error) throw error;
+        rows.push(...((data || []) as ExportStudent[]));
+      }
+
+      const primaryGuardianFields: PrimaryGuardianFields = {};
+      const familyIds = [...new Set(rows.map((row) => row.family_id).filter(Boolean))];
+      if (guardianFields.length > 0 && familyIds.length > 0) {
+        const { data, error } = await supabase
+          .from("parents")
+          .select("family_id, custom_fields")
+          .eq("is_primary_contact", true)
+          .in("family_id", familyIds);
+        if (error) throw error;
+        data?.forEach((guardian) => {
+          primaryGuardianFields[guardian.family_id] = guardian.custom_fields as CustomFieldValues;
+        });
+      }
+
+      exportStudentsSpreadsheet(
+        rows,
+        studentFields,
+        guardianFields,
+        primaryGuardianFields,
+        `estudiantes_${selectedYear.name}.xlsx`
+      );
+    } catch (error: any) {
+      toast.error("Error exporting students: " + error.message);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const openCreateDialog = () => {
+    setEditingStudentId(null);
+    setEditingEnrollmentId(null);
+    setFamilyLookup("");
+    setLinkedFamily(null);
+    setFormData({
+      ...emptyForm,
+      customFields: toCustomFieldFormValues(studentFields, {}),
+      guardians: [{ ...emptyGuardian(true), customFields: toCustomFieldFormValues(guardianFields, {}) }],
+    });
+    setFieldErrors({});
+    setIsDialogOpen(true);
+  };
+
+  const loadFamilyGuardians = async (familyId: string) => {
+    const { data, error } = await supabase
+      .from("parents")
+      .select("*")
+      .eq("family_id", familyId)
+      .order("is_primary_contact", { ascending: false })
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map((parent) => {
+      const guardian = fromParentRow(parent);
+      return { ...guardian, customFields: toCustomFieldFormValues(guardianFields, guardian.customFields) };
+    });
+  };
+
+  // Reuse the guardians of an existing family when registering a sibling
+  const lookupFamily = async () => {
+    const idNumber = familyLookup.trim();
+    if (!idNumber) return;
+
+    try {
+      const { data: match, error } = await supabase
+        .from("parents")
+        .select("family_id, families(name)")
+        .eq("id_number", idNumber)
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!match) {
+        toast.info("No se encontró un apoderado con ese DNI, se creará una nueva familia");
+        return;
+      }
+
+      const [guardians, siblingsRes] = await Promise.all([
+        loadFamilyGuardians(match.family_id),
+        supabase.from("students").select("first_name, last_name").eq("family_id", match.family_id),
+      ]);
+
+      if (siblingsRes.error) throw siblingsRes.error;
+
+      setLinkedFamily({
+        id: match.family_id,
+        name: match.families?.name || "Familia",
+        siblings: (siblingsRes.data || []).map((sibling) => `${sibling.first_name} ${sibling.last_name}`),
+      });
+      setFormData({ ...formData, guardians });
+    } catch (error: any) {
+      toast.error("Error searching family: " + error.message);
+    }
+  };
+
+  const unlinkFamily = () => {
+    setLinkedFamily(null);
+    setFormData({ ...formData, guardians: emptyForm.guardians });
+  };
+
+  const openEditDialog = async (student: Student) => {
+    try {
+      const guardians = student.family_id ? await loadFamilyGuardians(student.family_id) : [];
+
+      setEditingStudentId(student.id);
+      setEditingEnrollmentId(student.enrollment_id);
+      setLinkedFamily(null);
+      setFormData({
+        firstName: student.first_name,
+        lastName: student.last_name,
+        idNumber: student.id_number,
+        dateOfBirth: student.date_of_birth,
+        gradeLevelId: student.grade_level_id || "",
+        sectionId: student.section_id || "",
+        totalTuition: Number(student.total_tuition),
+        customFields: toCustomFieldFormValues(studentFields, student.custom_fields),
+        guardians: guardians.length > 0 ? guardians : [emptyGuardian(true)],
+        initialPaymentAmount: 0,
+        initialPaymentMethod: "cash",
+        initialPaymentReference: "",
+        initialPaymentNotes: "",
+      });
+      setFieldErrors({});
+      setIsDialogOpen(true);
+    } catch (error: any) {
+      toast.error("Error loading student: " + error.message);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    setFieldErrors({});
 
     try {
-      const validated = studentSchema.parse(formData);
+      const validated = buildRegistrationSchema(studentFields, guardianFields).parse(formData);
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error("Not authenticated");
+      if (!selectedYear) throw new Error("Seleccione un año académico");
 
-      // Insert student
-      const { data: student, error: studentError } = await supabase
-        .from("students")
-        .insert({
-          first_name: validated.firstName,
-          last_name: validated.lastName,
-          id_number: validated.idNumber,
-          date_of_birth: validated.dateOfBirth,
-          grade_level: validated.gradeLevel,
-          total_tuition: validated.totalTuition,
-          created_by: user.id,
-        })
-        .select()
-        .single();
-
-      if (studentError) throw studentError;
-
-      // Insert parent
-      const { error: parentError } = await supabase
-        .from("parents")
-        .insert({
-          student_id: student.id,
-          full_name: validated.parentName,
-          id_number: validated.parentIdNumber,
-          cell_phone: validated.parentPhone,
-          address: validated.parentAddress || null,
+      const guardians = validated.guardians as GuardianFormData[];
+      const customFields = validated.customFields as CustomFieldValues;
+
+      if (editingStudentId) {
+        // Student, guardians and enrollment are saved in one transaction
+        const { error } = await supabase.rpc("update_student", {
+          p_student_id: editingStudentId,
+          p_enrollment_id: editingEnrollmentId!,
+          p_first_name: validated.firstName,
+          p_last_name: validated.lastName,
+          p_id_number: validated.idNumber,
+          p_date_of_birth: validated.dateOfBirth,
+          p_grade_level_id: validated.gradeLevelId,
+          p_section_id: validated.sectionId || undefined,
+          p_total_tuition: validated.totalTuition,
+          p_guardians: guardians.map((guardian) => ({ id: guardian.id, ...toParentFields(guardian) })),
+          p_custom_fields: customFields,
         });
 
-      if (parentError) throw parentError;
+        if (error) throw error;
+
+        toast.success("Student updated successfully!");
+      } else {
+        // Student, guardians, enrollment and first payment are saved in one transaction
+        const { error } = await supabase.rpc("register_student", {
+          p_academic_year_id: selectedYear.id,
+          p_first_name: validated.firstName,
+          p_last_name: validated.lastName,
+          p_id_number: validated.idNumber,
+          p_date_of_birth: validated.dateOfBirth,
+          p_grade_level_id: validated.gradeLevelId,
+          p_section_id: validated.sectionId || undefined,
+          p_total_tuition: validated.totalTuition,
+          p_guardians: guardians.map((guardian) => ({ id: guardian.id, ...toParentFields(guardian) })),
+          p_family_id: linkedFamily?.id,
+          p_initial_payment_amount: validated.initialPaymentAmount,
+          p_initial_payment_method: validated.initialPaymentMethod,
+          p_initial_payment_reference: validated.initialPaymentReference || undefined,
+          p_initial_payment_notes: validated.initialPaymentNotes,
+          p_custom_fields: customFields,
+        });
+
+        if (error) throw error;
+
+        toast.success("Student registered successfully!");
+      }
 
-      toast.success("Student registered successfully!");
       setIsDialogOpen(false);
-      setFormData({
-        firstName: "",
-        lastName: "",
-        idNumber: "",
-        dateOfBirth: "",
-        gradeLevel: "",
-        totalTuition: 0,
-        parentName: "",
-        parentIdNumber: "",
-        parentPhone: "",
-        parentAddress: "",
-      });
+      setEditingStudentId(null);
+      setEditingEnrollmentId(null);
+      setLinkedFamily(null);
+      setFormData(emptyForm);
       loadStudents();
     } catch (error: any) {
       if (error instanceof z.ZodError) {
+        setFieldErrors(Object.fromEntries([...error.errors].reverse().map((issue) => [issue.path.join("."), issue.message])));
         toast.error(error.errors[0].message);
       } else {
-        toast.error(error.message || "Error registering student");
+        // The registration function reports the offending form field in the hint
+        if (error.hint) {
+          setFieldErrors({ [error.hint]: error.message });
+        }
+        toast.error(error.message || (editingStudentId ? "Error updating student" : "Error registering student"));
       }
     }
   };
 
-  const filteredStudents = students.filter(
-    (student) =>
-      student.first_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      student.last_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      student.id_number.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      student.grade_level.toLowerCase().includes(searchTerm.toLowerCase())
+  const openStatusDialog = (student: Student, reactivate: boolean) => {
+    setIsReactivating(reactivate);
+    setStatusStudent(student);
+  };
+
+  const sectionsForLevel = gradeLevels.find((level) => level.id === formData.gradeLevelId)?.sections || [];
+
+  const pageCount = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+
+  const renderSortableHead = (column: SortColumn, label: string, className = "") => (
+    <TableHead className={className}>
+      <button type="button" className="inline-flex items-center gap-1 hover:text-foreground" onClick={() => toggleSort(column)}>
+        {label}
+        {sortColumn !== column ? (
+          <ArrowUpDown className="h-3 w-3" />
+        ) : sortAscending ? (
+          <ArrowUp className="h-3 w-3" />
+        ) : (
+          <ArrowDown className="h-3 w-3" />
+        )}
+      </button>
+    </TableHead>
   );
 
   return (
@@ -157,15 +524,33 @@ const Students = () => {
             </p>
           </div>
           <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-            <DialogTrigger asChild>
-              <Button size="lg">
+            <div className="flex gap-3">
+              <Button size="lg" variant="outline" onClick={handleExport} disabled={!selectedYear || exporting || totalCount === 0}>
+                <Download className="mr-2 h-5 w-5" />
+                {exporting ? "Exportando..." : "Exportar"}
+              </Button>
+              <Button size="lg" variant="outline" onClick={() => navigate("/students/id-cards")} disabled={!selectedYear}>
+                <IdCard className="mr-2 h-5 w-5" />
+                Carnets
+              </Button>
+              <Button size="lg" variant="outline" onClick={() => navigate("/students/duplicates")}>
+                <Copy className="mr-2 h-5 w-5" />
+                Duplicados
+              </Button>
+              <Button size="lg" variant="outline" onClick={() => navigate("/students/import")} disabled={!selectedYear}>
+                <Upload className="mr-2 h-5 w-5" />
+                Importar
+              </Button>
+              <Button size="lg" onClick={openCreateDialog} disabled={!selectedYear}>
                 <Plus className="mr-2 h-5 w-5" />
                 Registrar Estudiante
               </Button>
-            </DialogTrigger>
+            </div>
             <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
               <DialogHeader>
-                <DialogTitle>Registrar nuevo estudiante</DialogTitle>
+                <DialogTitle>
+                  {editingStudentId ? "Editar estudiante" : "Registrar nuevo estudiante"}
+                </DialogTitle>
               </DialogHeader>
               <form onSubmit={handleSubmit} className="space-y-6">
                 <div className="space-y-4">
@@ -179,6 +564,7 @@ const Students = () => {
                         onChange={(e) => setFormData({ ...formData, firstName: e.target.value })}
                         required
                       />
+                      <FieldError message={fieldErrors.firstName} />
                     </div>
                     <div className="space-y-2">
                       <Label htmlFor="lastName">Apellido </Label>
@@ -188,6 +574,7 @@ const Students = () => {
                         onChange={(e) => setFormData({ ...formData, lastName: e.target.value })}
                         required
                       />
+                      <FieldError message={fieldErrors.lastName} />
                     </div>
                     <div className="space-y-2">
                       <Label htmlFor="idNumber">DNI</Label>
@@ -197,6 +584,7 @@ const Students = () => {
                         onChange={(e) => setFormData({ ...formData, idNumber: e.target.value })}
                         required
                       />
+                      <FieldError message={fieldErrors.idNumber} />
                     </div>
                     <div className="space-y-2">
                       <Label htmlFor="dateOfBirth">Fecha de nacimiento </Label>
@@ -207,15 +595,47 @@ const Students = () => {
                         onChange={(e) => setFormData({ ...formData, dateOfBirth: e.target.value })}
                         required
                       />
+                      <FieldError message={fieldErrors.dateOfBirth} />
                     </div>
                     <div className="space-y-2">
                       <Label htmlFor="gradeLevel">Grado/Nivel </Label>
-                      <Input
-                        id="gradeLevel"
-                        value={formData.gradeLevel}
-                        onChange={(e) => setFormData({ ...formData, gradeLevel: e.target.value })}
-                        required
-                      />
+                      <Select
+                        value={formData.gradeLevelId}
+                        onValueChange={(value) => setFormData({ ...formData, gradeLevelId: value, sectionId: "" })}
+                      >
+                        <SelectTrigger id="gradeLevel">
+                          <SelectValue placeholder="Seleccionar grado" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {gradeLevels.map((level) => (
+                            <SelectItem key={level.id} value={level.id}>
+                              {level.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FieldError message={fieldErrors.gradeLevelId} />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="section">Sección (opcional)</Label>
+                      <Select
+                        value={formData.sectionId}
+                        onValueChange={(value) => setFormData({ ...formData, sectionId: value })}
+                        disabled={sectionsForLevel.length === 0}
+                      >
+                        <SelectTrigger id="section">
+                          <SelectValue placeholder="Sin sección" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {sectionsForLevel.map((section) => (
+                            <SelectItem key={section.id} value={section.id}>
+                              {section.name}
+                              {section.capacity !== null && ` (capacidad ${section.capacity})`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FieldError message={fieldErrors.sectionId} />
                     </div>
                     <div className="space-y-2">
                       <Label htmlFor="totalTuition">Matrícula total </Label>
@@ -227,57 +647,130 @@ const Students = () => {
                         onChange={(e) => setFormData({ ...formData, totalTuition: parseFloat(e.target.value) })}
                         required
                       />
+                      <FieldError message={fieldErrors.totalTuition} />
                     </div>
                   </div>
+                  <CustomFieldInputs
+                    fields={studentFields}
+                    values={formData.customFields}
+                    onChange={(customFields) => setFormData({ ...formData, customFields })}
+                    path="customFields"
+                    errors={fieldErrors}
+                  />
                 </div>
 
-                <div className="space-y-4">
-                  <h3 className="font-semibold text-lg">Información para padres</h3>
-                  <div className="grid grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="parentName">Nombre completo</Label>
+                {!editingStudentId && (
+                  <div className="space-y-2">
+                    <Label htmlFor="familyLookup">Buscar familia por DNI del apoderado</Label>
+                    <div className="flex gap-2">
                       <Input
-                        id="parentName"
-                        value={formData.parentName}
-                        onChange={(e) => setFormData({ ...formData, parentName: e.target.value })}
-                        required
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="parentIdNumber">DNI</Label>
-                      <Input
-                        id="parentIdNumber"
-                        value={formData.parentIdNumber}
-                        onChange={(e) => setFormData({ ...formData, parentIdNumber: e.target.value })}
-                        required
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="parentPhone">Celular</Label>
-                      <Input
-                        id="parentPhone"
-                        type="tel"
-                        value={formData.parentPhone}
-                        onChange={(e) => setFormData({ ...formData, parentPhone: e.target.value })}
-                        required
+                        id="familyLookup"
+                        value={familyLookup}
+                        onChange={(e) => setFamilyLookup(e.target.value)}
+                        placeholder="DNI de un apoderado ya registrado"
+                        disabled={!!linkedFamily}
                       />
+                      {linkedFamily ? (
+                        <Button type="button" variant="outline" onClick={unlinkFamily}>
+                          Desvincular
+                        </Button>
+                      ) : (
+                        <Button type="button" variant="outline" onClick={lookupFamily}>
+                          <Search className="h-4 w-4 mr-2" />
+                          Buscar
+                        </Button>
+                      )}
                     </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="parentAddress">Direcciòn (Optional)</Label>
-                      <Input
-                        id="parentAddress"
-                        value={formData.parentAddress}
-                        onChange={(e) => setFormData({ ...formData, parentAddress: e.target.value })}
-                      />
+                    {linkedFamily && (
+                      <p className="text-sm text-muted-foreground">
+                        Se vinculará a la {linkedFamily.name}
+                        {linkedFamily.siblings.length > 0 && ` (hermanos: ${linkedFamily.siblings.join(", ")})`}
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                <GuardiansFieldset
+                  guardians={formData.guardians}
+                  onChange={(guardians) => setFormData({ ...formData, guardians })}
+                  errors={fieldErrors}
+                  customFields={guardianFields}
+                />
+                {(editingStudentId || linkedFamily) && (
+                  <p className="text-sm text-muted-foreground">
+                    Los cambios en los apoderados se aplican a todos los hermanos de la familia.
+                  </p>
+                )}
+
+                {!editingStudentId && (
+                  <div className="space-y-4">
+                    <h3 className="font-semibold text-lg">Pago inicial (opcional)</h3>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="initialPaymentAmount">Monto</Label>
+                        <Input
+                          id="initialPaymentAmount"
+                          type="number"
+                          step="0.01"
+                          value={formData.initialPaymentAmount}
+                          onChange={(e) =>
+                            setFormData({ ...formData, initialPaymentAmount: parseFloat(e.target.value) || 0 })
+                          }
+                        />
+                        <FieldError message={fieldErrors.initialPaymentAmount} />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="initialPaymentMethod">Método de pago</Label>
+                        <Select
+                          value={formData.initialPaymentMethod}
+                          onValueChange={(value) =>
+                            setFormData({ ...formData, initialPaymentMethod: value as PaymentMethod })
+                          }
+                        >
+                          <SelectTrigger id="initialPaymentMethod">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {PAYMENT_METHODS.map((method) => (
+                              <SelectItem key={method} value={method}>
+                                {paymentMethodLabels[method]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FieldError message={fieldErrors.initialPaymentMethod} />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="initialPaymentReference">
+                          N° de referencia
+                          {requiresPaymentReference(formData.initialPaymentMethod) ? "" : " (opcional)"}
+                        </Label>
+                        <Input
+                          id="initialPaymentReference"
+                          value={formData.initialPaymentReference}
+                          onChange={(e) => setFormData({ ...formData, initialPaymentReference: e.target.value })}
+                        />
+                        <FieldError message={fieldErrors.initialPaymentReference} />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="initialPaymentNotes">Notas</Label>
+                        <Input
+                          id="initialPaymentNotes"
+                          value={formData.initialPaymentNotes}
+                          onChange={(e) => setFormData({ ...formData, initialPaymentNotes: e.target.value })}
+                        />
+                      </div>
                     </div>
                   </div>
-                </div>
+                )}
 
                 <div className="flex justify-end gap-3">
                   <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
                     Cancel
                   </Button>
-                  <Button type="submit">Registrar Estudiante</Button>
+                  <Button type="submit">
+                    {editingStudentId ? "Guardar cambios" : "Registrar Estudiante"}
+                  </Button>
                 </div>
               </form>
             </DialogContent>
@@ -290,47 +783,159 @@ const Students = () => {
               <div className="relative flex-1">
                 <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                 <Input
-                  placeholder="Search by name, ID, or grade..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
+                  placeholder="Buscar por nombre, DNI o apoderado..."
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
                   className="pl-10"
                 />
               </div>
+              <Select value={filterGradeLevel} onValueChange={(value) => updateParams({ grade: value })}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todos los grados</SelectItem>
+                  {gradeLevels.map((level) => (
+                    <SelectItem key={level.id} value={level.id}>
+                      {level.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={filterStatus} onValueChange={(value) => updateParams({ status: value })}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todos los estados</SelectItem>
+                  {STUDENT_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {studentStatusLabels[status]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={filterDebt} onValueChange={(value) => updateParams({ debt: value })}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todos los saldos</SelectItem>
+                  <SelectItem value="with_debt">Con deuda</SelectItem>
+                  <SelectItem value="no_debt">Sin deuda</SelectItem>
+                </SelectContent>
+              </Select>
             </div>
+            {studentFields.length > 0 && (
+              <div className="flex items-center gap-4">
+                <Select
+                  value={filterField?.key || "none"}
+                  onValueChange={(value) => updateParams({ field: value === "none" ? "" : value, value: "" })}
+                >
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Sin filtro por campo</SelectItem>
+                    {studentFields.map((field) => (
+                      <SelectItem key={field.id} value={field.key}>
+                        {field.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {filterField &&
+                  (filterField.field_type === "select" || filterField.field_type === "checkbox" ? (
+                    <Select value={filterValue || "any"} onValueChange={(value) => updateParams({ value: value === "any" ? "" : value })}>
+                      <SelectTrigger className="w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="any">Cualquier valor</SelectItem>
+                        {filterField.field_type === "checkbox" ? (
+                          <>
+                            <SelectItem value="true">Sí</SelectItem>
+                            <SelectItem value="false">No</SelectItem>
+                          </>
+                        ) : (
+                          filterField.options.map((option) => (
+                            <SelectItem key={option} value={option}>
+                              {option}
+                            </SelectItem>
+                          ))
+                        )}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Input
+                      className="w-48"
+                      type={filterField.field_type === "number" ? "number" : filterField.field_type === "date" ? "date" : "text"}
+                      placeholder="Valor"
+                      value={valueInput}
+                      onChange={(e) => setValueInput(e.target.value)}
+                    />
+                  ))}
+              </div>
+            )}
           </CardHeader>
           <CardContent>
             {loading ? (
               <div className="text-center py-8">
                 <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
               </div>
-            ) : filteredStudents.length === 0 ? (
+            ) : !selectedYear ? (
+              <div className="text-center py-8 text-muted-foreground">
+                Cree un año académico para comenzar a inscribir estudiantes
+              </div>
+            ) : students.length === 0 ? (
               <div className="text-center py-8 text-muted-foreground">
-                No se encontraron estudiantes
+                No se encontraron estudiantes inscritos en {selectedYear.name}
               </div>
             ) : (
               <Table>
                 <TableHeader>
                   <TableRow>
-                    <TableHead>Nombre</TableHead>
-                    <TableHead>DNI</TableHead>
-                    <TableHead>Calificación</TableHead>
-                    <TableHead>Fecha de nacimiento</TableHead>
-                    <TableHead>Matrícula</TableHead>
+                    {renderSortableHead("last_name", "Nombre")}
+                    {renderSortableHead("id_number", "DNI")}
+                    {renderSortableHead("grade_level", "Calificación")}
+                    {renderSortableHead("date_of_birth", "Fecha de nacimiento")}
+                    {renderSortableHead("total_tuition", "Matrícula")}
+                    {renderSortableHead("balance", "Saldo")}
+                    {renderSortableHead("status", "Estado")}
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {filteredStudents.map((student) => (
+                  {students.map((student) => (
                     <TableRow key={student.id}>
                       <TableCell className="font-medium">
                         {student.first_name} {student.last_name}
+                        {student.guardian_names && (
+                          <p className="text-xs text-muted-foreground font-normal">{student.guardian_names}</p>
+                        )}
                       </TableCell>
                       <TableCell>{student.id_number}</TableCell>
                       <TableCell>
-                        <Badge variant="secondary">{student.grade_level}</Badge>
+                        <Badge variant="secondary">
+                          {student.grade_level}
+                          {student.section_name && ` ${student.section_name}`}
+                        </Badge>
                       </TableCell>
                       <TableCell>{new Date(student.date_of_birth).toLocaleDateString()}</TableCell>
                       <TableCell>${Number(student.total_tuition).toFixed(2)}</TableCell>
+                      <TableCell className={Number(student.balance) > 0 ? "text-destructive font-medium" : ""}>
+                        ${Number(student.balance).toFixed(2)}
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={getStudentStatusColor(student.status)}>
+                          {getStudentStatusLabel(student.status)}
+                        </Badge>
+                        {student.missing_documents > 0 && (
+                          <Badge className="ml-2 bg-warning text-warning-foreground">
+                            Faltan {student.missing_documents} doc.
+                          </Badge>
+                        )}
+                      </TableCell>
                       <TableCell className="text-right">
                         <Button
                           variant="ghost"
@@ -340,14 +945,96 @@ const Students = () => {
                           <Eye className="h-4 w-4 mr-2" />
                           Vista
                         </Button>
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="sm">
+                              <MoreHorizontal className="h-4 w-4" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuItem onClick={() => openEditDialog(student)}>
+                              <Pencil className="h-4 w-4 mr-2" />
+                              Editar
+                            </DropdownMenuItem>
+                            {student.family_id && (
+                              <DropdownMenuItem onClick={() => navigate(`/family/${student.family_id}`)}>
+                                <UsersIcon className="h-4 w-4 mr-2" />
+                                Ver familia
+                              </DropdownMenuItem>
+                            )}
+                            {student.status === "active" ? (
+                              <DropdownMenuItem onClick={() => openStatusDialog(student, false)}>
+                                <RefreshCw className="h-4 w-4 mr-2" />
+                                Cambiar estado
+                              </DropdownMenuItem>
+                            ) : (
+                              <DropdownMenuItem onClick={() => openStatusDialog(student, true)}>
+                                <RotateCcw className="h-4 w-4 mr-2" />
+                                Reactivar
+                              </DropdownMenuItem>
+                            )}
+                            <DropdownMenuSeparator />
+                            <DropdownMenuItem
+                              className="text-destructive focus:text-destructive"
+                              onClick={() => setStudentToDelete(student)}
+                            >
+                              <Trash2 className="h-4 w-4 mr-2" />
+                              Eliminar
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
                       </TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
               </Table>
             )}
+            {selectedYear && totalCount > 0 && (
+              <div className="flex items-center justify-between pt-4">
+                <p className="text-sm text-muted-foreground">
+                  Mostrando {(page - 1) * PAGE_SIZE + 1}–{Math.min(page * PAGE_SIZE, totalCount)} de {totalCount}{" "}
+                  estudiante(s)
+                </p>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateParams({ page: String(page - 1) })}
+                    disabled={page <= 1}
+                  >
+                    <ChevronLeft className="h-4 w-4 mr-1" />
+                    Anterior
+                  </Button>
+                  <span className="text-sm">
+                    Página {page} de {pageCount}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateParams({ page: String(page + 1) })}
+                    disabled={page >= pageCount}
+                  >
+                    Siguiente
+                    <ChevronRight className="h-4 w-4 ml-1" />
+                  </Button>
+                </div>
+              </div>
+            )}
           </CardContent>
         </Card>
+
+        <DeleteStudentDialog
+          student={studentToDelete}
+          onOpenChange={(open) => !open && setStudentToDelete(null)}
+          onDeleted={loadStudents}
+        />
+
+        <StudentStatusDialog
+          student={statusStudent}
+          reactivate={isReactivating}
+          onOpenChange={(open) => !open && setStatusStudent(null)}
+          onSaved={loadStudents}
+        />
       </div>
     </DashboardLayout>
   );
@@ -0,0 +1,66 @@
+-- Student status lifecycle
+ALTER TABLE public.students
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'withdrawn', 'graduated', 'transferred')),
+  ADD COLUMN status_effective_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  ADD COLUMN status_reason TEXT;
+
+CREATE INDEX students_status_idx ON public.students (status);
+
+-- Create student status history table
+CREATE TABLE public.student_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id UUID REFERENCES public.students(id) ON DELETE CASCADE NOT NULL,
+  previous_status TEXT,
+  status TEXT NOT NULL,
+  effective_date DATE NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id)
+);
+
+ALTER TABLE public.student_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view all student status history"
+  ON public.student_status_history FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can insert student status history"
+  ON public.student_status_history FOR INSERT
+  WITH CHECK (auth.role() = 'authenticated');
+
+-- Record every status change so reactivations keep the full trail
+CREATE OR REPLACE FUNCTION public.log_student_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT'
+     OR NEW.status IS DISTINCT FROM OLD.status
+     OR NEW.status_effective_date IS DISTINCT FROM OLD.status_effective_date
+     OR NEW.status_reason IS DISTINCT FROM OLD.status_reason THEN
+    INSERT INTO public.student_status_history (
+      student_id, previous_status, status, effective_date, reason, created_by
+    )
+    VALUES (
+      NEW.id,
+      CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+      NEW.status,
+      NEW.status_effective_date,
+      NEW.status_reason,
+      auth.uid()
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_student_status_change
+  AFTER INSERT OR UPDATE OF status, status_effective_date, status_reason ON public.students
+  FOR EACH ROW EXECUTE FUNCTION public.log_student_status_change();
+
+-- Seed history for students that existed before the lifecycle
+INSERT INTO public.student_status_history (student_id, status, effective_date, created_by, created_at)
+SELECT id, status, created_at::date, created_by, created_at
+FROM public.students;
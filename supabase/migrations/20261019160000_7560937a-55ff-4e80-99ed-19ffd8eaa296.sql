@@ -0,0 +1,112 @@
+-- Create academic years table
+CREATE TABLE public.academic_years (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  is_current BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (end_date > start_date)
+);
+
+-- Only one year can be flagged as current
+CREATE UNIQUE INDEX academic_years_single_current_idx
+  ON public.academic_years (is_current) WHERE is_current;
+
+ALTER TABLE public.academic_years ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view all academic years"
+  ON public.academic_years FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can insert academic years"
+  ON public.academic_years FOR INSERT
+  WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can update academic years"
+  ON public.academic_years FOR UPDATE
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can delete academic years"
+  ON public.academic_years FOR DELETE
+  USING (auth.role() = 'authenticated');
+
+-- Create enrollments table (one per student per academic year)
+CREATE TABLE public.enrollments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id UUID REFERENCES public.students(id) ON DELETE CASCADE NOT NULL,
+  academic_year_id UUID REFERENCES public.academic_years(id) ON DELETE RESTRICT NOT NULL,
+  grade_level TEXT NOT NULL,
+  total_tuition DECIMAL(10,2) NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'enrolled'
+    CHECK (status IN ('enrolled', 'promoted', 'retained', 'withdrawn', 'graduated', 'transferred')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id) NOT NULL,
+  UNIQUE(student_id, academic_year_id)
+);
+
+CREATE INDEX enrollments_academic_year_id_idx ON public.enrollments (academic_year_id);
+
+ALTER TABLE public.enrollments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view all enrollments"
+  ON public.enrollments FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can insert enrollments"
+  ON public.enrollments FOR INSERT
+  WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can update enrollments"
+  ON public.enrollments FOR UPDATE
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can delete enrollments"
+  ON public.enrollments FOR DELETE
+  USING (auth.role() = 'authenticated');
+
+-- Payments and grades belong to an academic year
+ALTER TABLE public.payments
+  ADD COLUMN academic_year_id UUID REFERENCES public.academic_years(id) ON DELETE RESTRICT;
+
+ALTER TABLE public.grades
+  ADD COLUMN academic_year_id UUID REFERENCES public.academic_years(id) ON DELETE RESTRICT;
+
+-- Move existing data into a first academic year
+INSERT INTO public.academic_years (name, start_date, end_date, is_current)
+VALUES (
+  EXTRACT(YEAR FROM NOW())::TEXT,
+  date_trunc('year', NOW())::DATE,
+  (date_trunc('year', NOW()) + INTERVAL '1 year - 1 day')::DATE,
+  true
+);
+
+INSERT INTO public.enrollments (student_id, academic_year_id, grade_level, total_tuition, status, created_by, created_at)
+SELECT
+  s.id,
+  y.id,
+  s.grade_level,
+  s.total_tuition,
+  CASE WHEN s.status = 'active' THEN 'enrolled' ELSE s.status END,
+  s.created_by,
+  s.created_at
+FROM public.students s
+CROSS JOIN public.academic_years y
+WHERE y.is_current;
+
+UPDATE public.payments
+SET academic_year_id = (SELECT id FROM public.academic_years WHERE is_current);
+
+UPDATE public.grades
+SET academic_year_id = (SELECT id FROM public.academic_years WHERE is_current);
+
+ALTER TABLE public.payments ALTER COLUMN academic_year_id SET NOT NULL;
+ALTER TABLE public.grades ALTER COLUMN academic_year_id SET NOT NULL;
+
+CREATE INDEX payments_academic_year_id_idx ON public.payments (academic_year_id);
+CREATE INDEX grades_academic_year_id_idx ON public.grades (academic_year_id);
+
+-- Grade level and tuition now live on the enrollment
+ALTER TABLE public.students
+  DROP COLUMN grade_level,
+  DROP COLUMN total_tuition;
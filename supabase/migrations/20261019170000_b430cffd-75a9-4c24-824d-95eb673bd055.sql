@@ -0,0 +1,7 @@
+-- Passing mark used by the end-of-year promotion wizard
+ALTER TABLE public.academic_years
+  ADD COLUMN passing_grade DECIMAL(5,2) NOT NULL DEFAULT 11;
+
+-- Promotions look up enrollments by year and grade level
+CREATE INDEX enrollments_year_grade_level_idx
+  ON public.enrollments (academic_year_id, grade_level);
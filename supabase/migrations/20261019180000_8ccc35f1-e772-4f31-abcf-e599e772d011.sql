@@ -0,0 +1,246 @@
+-- Create grade levels catalog
+CREATE TABLE public.grade_levels (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.grade_levels ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view all grade levels"
+  ON public.grade_levels FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can insert grade levels"
+  ON public.grade_levels FOR INSERT
+  WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can update grade levels"
+  ON public.grade_levels FOR UPDATE
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can delete grade levels"
+  ON public.grade_levels FOR DELETE
+  USING (auth.role() = 'authenticated');
+
+-- Create sections (parallels) table
+CREATE TABLE public.sections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  grade_level_id UUID REFERENCES public.grade_levels(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  capacity INTEGER CHECK (capacity IS NULL OR capacity > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(grade_level_id, name)
+);
+
+ALTER TABLE public.sections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view all sections"
+  ON public.sections FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can insert sections"
+  ON public.sections FOR INSERT
+  WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can update sections"
+  ON public.sections FOR UPDATE
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can delete sections"
+  ON public.sections FOR DELETE
+  USING (auth.role() = 'authenticated');
+
+-- Free-text spellings that map onto a catalog entry
+CREATE TABLE public.grade_level_aliases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  alias TEXT NOT NULL UNIQUE,
+  grade_level_id UUID REFERENCES public.grade_levels(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.grade_level_aliases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view all grade level aliases"
+  ON public.grade_level_aliases FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can insert grade level aliases"
+  ON public.grade_level_aliases FOR INSERT
+  WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can delete grade level aliases"
+  ON public.grade_level_aliases FOR DELETE
+  USING (auth.role() = 'authenticated');
+
+-- "1° Grado", "1o grado" and "1 GRADO" all normalize to the same key
+CREATE OR REPLACE FUNCTION public.normalize_grade_level(value TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT trim(regexp_replace(
+    translate(lower(trim(value)), 'áéíóúüº°ª', 'aeiouuooa'),
+    '[^a-z0-9]+', ' ', 'g'
+  ));
+$$;
+
+-- Seed the catalog
+INSERT INTO public.grade_levels (name, sort_order)
+SELECT n || '° grado', n FROM generate_series(1, 6) AS n;
+
+INSERT INTO public.grade_levels (name, sort_order)
+SELECT n || '° secundaria', 6 + n FROM generate_series(1, 5) AS n;
+
+WITH ordinals(n, word, suffixes) AS (
+  VALUES
+    (1, 'primero', ARRAY['o', 'ro', 'er']),
+    (2, 'segundo', ARRAY['o', 'do']),
+    (3, 'tercero', ARRAY['o', 'ro', 'er']),
+    (4, 'cuarto', ARRAY['o', 'to']),
+    (5, 'quinto', ARRAY['o', 'to']),
+    (6, 'sexto', ARRAY['o', 'to'])
+),
+spellings AS (
+  SELECT n, word AS stem FROM ordinals
+  UNION SELECT n, n::TEXT FROM ordinals
+  UNION SELECT n, n || unnest(suffixes) FROM ordinals
+)
+INSERT INTO public.grade_level_aliases (alias, grade_level_id)
+SELECT DISTINCT public.normalize_grade_level(s.stem || x.tail), g.id
+FROM spellings s
+CROSS JOIN (VALUES (''), (' grado'), (' de primaria'), (' primaria'), (' grado primaria'), (' grado de primaria')) AS x(tail)
+JOIN public.grade_levels g ON g.name = s.n || '° grado'
+ON CONFLICT (alias) DO NOTHING;
+
+WITH ordinals(n, word, suffixes) AS (
+  VALUES
+    (1, 'primero', ARRAY['o', 'ro', 'er']),
+    (2, 'segundo', ARRAY['o', 'do']),
+    (3, 'tercero', ARRAY['o', 'ro', 'er']),
+    (4, 'cuarto', ARRAY['o', 'to']),
+    (5, 'quinto', ARRAY['o', 'to'])
+),
+spellings AS (
+  SELECT n, word AS stem FROM ordinals
+  UNION SELECT n, n::TEXT FROM ordinals
+  UNION SELECT n, n || unnest(suffixes) FROM ordinals
+)
+INSERT INTO public.grade_level_aliases (alias, grade_level_id)
+SELECT DISTINCT public.normalize_grade_level(s.stem || x.tail), g.id
+FROM spellings s
+CROSS JOIN (VALUES (' secundaria'), (' de secundaria'), (' sec'), (' ano'), (' ano secundaria'), (' ano de secundaria')) AS x(tail)
+JOIN public.grade_levels g ON g.name = s.n || '° secundaria'
+ON CONFLICT (alias) DO NOTHING;
+
+-- Enrollments point at the catalog; grade_level keeps the display name
+ALTER TABLE public.enrollments
+  ADD COLUMN grade_level_id UUID REFERENCES public.grade_levels(id) ON DELETE RESTRICT,
+  ADD COLUMN section_id UUID REFERENCES public.sections(id) ON DELETE SET NULL,
+  ALTER COLUMN grade_level SET DEFAULT '';
+
+CREATE INDEX enrollments_grade_level_id_idx ON public.enrollments (grade_level_id);
+CREATE INDEX enrollments_section_id_idx ON public.enrollments (section_id);
+
+UPDATE public.enrollments e
+SET grade_level_id = a.grade_level_id
+FROM public.grade_level_aliases a
+WHERE a.alias = public.normalize_grade_level(e.grade_level);
+
+UPDATE public.enrollments e
+SET grade_level = g.name
+FROM public.grade_levels g
+WHERE g.id = e.grade_level_id;
+
+-- Resolve the catalog entry, copy its name and enforce section capacity
+CREATE OR REPLACE FUNCTION public.sync_enrollment_grade_level()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_section public.sections%ROWTYPE;
+  v_taken INTEGER;
+BEGIN
+  IF NEW.grade_level_id IS NULL AND NEW.grade_level <> '' THEN
+    SELECT grade_level_id INTO NEW.grade_level_id
+    FROM public.grade_level_aliases
+    WHERE alias = public.normalize_grade_level(NEW.grade_level);
+  END IF;
+
+  IF NEW.grade_level_id IS NOT NULL THEN
+    SELECT name INTO NEW.grade_level FROM public.grade_levels WHERE id = NEW.grade_level_id;
+  END IF;
+
+  IF NEW.section_id IS NOT NULL AND (
+    TG_OP = 'INSERT'
+    OR NEW.section_id IS DISTINCT FROM OLD.section_id
+    OR NEW.academic_year_id IS DISTINCT FROM OLD.academic_year_id
+  ) THEN
+    SELECT * INTO v_section FROM public.sections WHERE id = NEW.section_id;
+
+    IF v_section.grade_level_id IS DISTINCT FROM NEW.grade_level_id THEN
+      RAISE EXCEPTION 'La sección % no pertenece al grado %', v_section.name, NEW.grade_level;
+    END IF;
+
+    IF v_section.capacity IS NOT NULL THEN
+      SELECT COUNT(*) INTO v_taken
+      FROM public.enrollments
+      WHERE section_id = NEW.section_id
+        AND academic_year_id = NEW.academic_year_id
+        AND id <> NEW.id;
+
+      IF v_taken >= v_section.capacity THEN
+        RAISE EXCEPTION 'La sección % de % está completa (capacidad %)',
+          v_section.name, NEW.grade_level, v_section.capacity;
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_enrollment_grade_level_change
+  BEFORE INSERT OR UPDATE ON public.enrollments
+  FOR EACH ROW EXECUTE FUNCTION public.sync_enrollment_grade_level();
+
+-- Renaming a catalog entry renames it on every enrollment
+CREATE OR REPLACE FUNCTION public.propagate_grade_level_name()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.enrollments SET grade_level = NEW.name WHERE grade_level_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_grade_level_renamed
+  AFTER UPDATE OF name ON public.grade_levels
+  FOR EACH ROW EXECUTE FUNCTION public.propagate_grade_level_name();
+
+-- Review screen: map an unmatched free-text value onto a catalog entry
+CREATE OR REPLACE FUNCTION public.map_grade_level(p_value TEXT, p_grade_level_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  INSERT INTO public.grade_level_aliases (alias, grade_level_id)
+  VALUES (public.normalize_grade_level(p_value), p_grade_level_id)
+  ON CONFLICT (alias) DO UPDATE SET grade_level_id = EXCLUDED.grade_level_id;
+
+  UPDATE public.enrollments
+  SET grade_level_id = p_grade_level_id
+  WHERE grade_level_id IS NULL
+    AND public.normalize_grade_level(grade_level) = public.normalize_grade_level(p_value);
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated;
+END;
+$$;
@@ -0,0 +1,25 @@
+-- Guardians: relationship, email and contact flags
+ALTER TABLE public.parents
+  ADD COLUMN relationship TEXT NOT NULL DEFAULT 'tutor'
+    CHECK (relationship IN ('mother', 'father', 'tutor', 'grandparent', 'other')),
+  ADD COLUMN email TEXT,
+  ADD COLUMN is_primary_contact BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN is_financially_responsible BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX parents_student_id_idx ON public.parents (student_id);
+
+-- The guardian registered first becomes the primary contact
+UPDATE public.parents p
+SET is_primary_contact = true,
+    is_financially_responsible = true
+WHERE p.id = (
+  SELECT first.id
+  FROM public.parents first
+  WHERE first.student_id = p.student_id
+  ORDER BY first.created_at, first.id
+  LIMIT 1
+);
+
+-- At most one primary contact per student
+CREATE UNIQUE INDEX parents_single_primary_contact_idx
+  ON public.parents (student_id) WHERE is_primary_contact;
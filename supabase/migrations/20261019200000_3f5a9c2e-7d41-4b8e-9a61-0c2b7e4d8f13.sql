@@ -0,0 +1,89 @@
+-- Create families table
+CREATE TABLE public.families (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.families ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view all families"
+  ON public.families FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can insert families"
+  ON public.families FOR INSERT
+  WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can update families"
+  ON public.families FOR UPDATE
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can delete families"
+  ON public.families FOR DELETE
+  USING (auth.role() = 'authenticated');
+
+ALTER TABLE public.students
+  ADD COLUMN family_id UUID REFERENCES public.families(id) ON DELETE SET NULL;
+
+ALTER TABLE public.parents
+  ADD COLUMN family_id UUID REFERENCES public.families(id) ON DELETE CASCADE;
+
+-- Siblings share a family when their primary contacts share an id_number
+CREATE TEMP TABLE family_keys AS
+SELECT s.id AS student_id, s.last_name, COALESCE(p.id_number, s.id::TEXT) AS family_key
+FROM public.students s
+LEFT JOIN public.parents p ON p.student_id = s.id AND p.is_primary_contact;
+
+CREATE TEMP TABLE family_map AS
+SELECT family_key, gen_random_uuid() AS family_id, MIN(last_name) AS last_name
+FROM family_keys
+GROUP BY family_key;
+
+INSERT INTO public.families (id, name)
+SELECT family_id, 'Familia ' || last_name FROM family_map;
+
+UPDATE public.students s
+SET family_id = m.family_id
+FROM family_keys k
+JOIN family_map m ON m.family_key = k.family_key
+WHERE k.student_id = s.id;
+
+UPDATE public.parents p
+SET family_id = s.family_id
+FROM public.students s
+WHERE s.id = p.student_id;
+
+-- Keep one row per person and family, preferring the primary contact and the latest data
+DELETE FROM public.parents
+WHERE id IN (
+  SELECT id FROM (
+    SELECT id, ROW_NUMBER() OVER (
+      PARTITION BY family_id, id_number
+      ORDER BY is_primary_contact DESC, created_at DESC
+    ) AS position
+    FROM public.parents
+  ) duplicates
+  WHERE position > 1
+);
+
+DROP TABLE family_keys;
+DROP TABLE family_map;
+
+-- Guardians now belong to the family instead of a single student
+DROP INDEX public.parents_single_primary_contact_idx;
+DROP INDEX public.parents_student_id_idx;
+
+ALTER TABLE public.parents
+  DROP COLUMN student_id,
+  ALTER COLUMN family_id SET NOT NULL;
+
+ALTER TABLE public.parents
+  ADD CONSTRAINT parents_family_id_id_number_key UNIQUE (family_id, id_number);
+
+CREATE INDEX parents_id_number_idx ON public.parents (id_number);
+CREATE INDEX students_family_id_idx ON public.students (family_id);
+
+-- At most one primary contact per family
+CREATE UNIQUE INDEX parents_single_primary_contact_idx
+  ON public.parents (family_id) WHERE is_primary_contact;
@@ -0,0 +1,76 @@
+-- Bulk import: every row of the batch is inserted in a single transaction
+CREATE OR REPLACE FUNCTION public.import_students(p_academic_year_id UUID, p_rows JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_row JSONB;
+  v_guardian JSONB;
+  v_family_id UUID;
+  v_student_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_row IN SELECT * FROM jsonb_array_elements(p_rows) LOOP
+    BEGIN
+      v_guardian := v_row -> 'guardian';
+
+      -- Siblings join the family of an already registered guardian
+      SELECT family_id INTO v_family_id
+      FROM public.parents
+      WHERE id_number = v_guardian ->> 'id_number'
+      ORDER BY created_at
+      LIMIT 1;
+
+      IF v_family_id IS NULL THEN
+        INSERT INTO public.families (name)
+        VALUES ('Familia ' || (v_row ->> 'last_name'))
+        RETURNING id INTO v_family_id;
+
+        INSERT INTO public.parents (
+          family_id, full_name, id_number, cell_phone, email, address,
+          relationship, is_primary_contact, is_financially_responsible
+        )
+        VALUES (
+          v_family_id,
+          v_guardian ->> 'full_name',
+          v_guardian ->> 'id_number',
+          v_guardian ->> 'cell_phone',
+          NULLIF(v_guardian ->> 'email', ''),
+          NULLIF(v_guardian ->> 'address', ''),
+          v_guardian ->> 'relationship',
+          true,
+          true
+        );
+      END IF;
+
+      INSERT INTO public.students (first_name, last_name, id_number, date_of_birth, family_id, created_by)
+      VALUES (
+        v_row ->> 'first_name',
+        v_row ->> 'last_name',
+        v_row ->> 'id_number',
+        (v_row ->> 'date_of_birth')::DATE,
+        v_family_id,
+        auth.uid()
+      )
+      RETURNING id INTO v_student_id;
+
+      INSERT INTO public.enrollments (student_id, academic_year_id, grade_level_id, section_id, total_tuition, created_by)
+      VALUES (
+        v_student_id,
+        p_academic_year_id,
+        (v_row ->> 'grade_level_id')::UUID,
+        NULLIF(v_row ->> 'section_id', '')::UUID,
+        (v_row ->> 'total_tuition')::DECIMAL,
+        auth.uid()
+      );
+    EXCEPTION WHEN OTHERS THEN
+      RAISE EXCEPTION 'Fila %: %', v_row ->> 'line', SQLERRM;
+    END;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
@@ -0,0 +1,137 @@
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+CREATE EXTENSION IF NOT EXISTS fuzzystrmatch WITH SCHEMA extensions;
+
+-- Lowercase, accent-free full name used for fuzzy matching
+CREATE OR REPLACE FUNCTION public.student_name_key(p_first_name TEXT, p_last_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT trim(regexp_replace(
+    translate(lower(p_first_name || ' ' || p_last_name), 'áéíóúüñ', 'aeiouun'),
+    '[^a-z0-9]+', ' ', 'g'
+  ));
+$$;
+
+CREATE INDEX students_name_key_trgm_idx
+  ON public.students USING gin (public.student_name_key(first_name, last_name) extensions.gin_trgm_ops);
+
+-- Audit trail of merged duplicates
+CREATE TABLE public.student_merges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  survivor_id UUID REFERENCES public.students(id) ON DELETE CASCADE NOT NULL,
+  duplicate_snapshot JSONB NOT NULL,
+  payments_moved INTEGER NOT NULL DEFAULT 0,
+  grades_moved INTEGER NOT NULL DEFAULT 0,
+  enrollments_moved INTEGER NOT NULL DEFAULT 0,
+  guardians_moved INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  merged_by UUID REFERENCES auth.users(id)
+);
+
+ALTER TABLE public.student_merges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view all student merges"
+  ON public.student_merges FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can insert student merges"
+  ON public.student_merges FOR INSERT
+  WITH CHECK (auth.role() = 'authenticated');
+
+-- Pairs with similar names that share a birth date or have nearly the same ID number
+CREATE OR REPLACE FUNCTION public.find_duplicate_students(p_threshold REAL DEFAULT 0.5)
+RETURNS TABLE (student_id UUID, duplicate_id UUID, name_similarity REAL, reason TEXT)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    a.id,
+    b.id,
+    similarity(public.student_name_key(a.first_name, a.last_name), public.student_name_key(b.first_name, b.last_name)),
+    CASE WHEN a.date_of_birth = b.date_of_birth THEN 'same_birth_date' ELSE 'similar_id_number' END
+  FROM public.students a
+  JOIN public.students b
+    ON a.created_at < b.created_at OR (a.created_at = b.created_at AND a.id < b.id)
+  WHERE public.student_name_key(a.first_name, a.last_name) % public.student_name_key(b.first_name, b.last_name)
+    AND similarity(public.student_name_key(a.first_name, a.last_name), public.student_name_key(b.first_name, b.last_name)) >= p_threshold
+    AND (a.date_of_birth = b.date_of_birth OR levenshtein(a.id_number, b.id_number) <= 2)
+  ORDER BY 3 DESC;
+$$;
+
+-- Move everything from the duplicate onto the survivor, log it and delete the duplicate
+CREATE OR REPLACE FUNCTION public.merge_students(p_survivor_id UUID, p_duplicate_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_survivor public.students%ROWTYPE;
+  v_duplicate public.students%ROWTYPE;
+  v_payments INTEGER;
+  v_grades INTEGER;
+  v_enrollments INTEGER;
+  v_guardians INTEGER := 0;
+  v_merge_id UUID;
+BEGIN
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'No se puede fusionar un estudiante consigo mismo';
+  END IF;
+
+  SELECT * INTO v_survivor FROM public.students WHERE id = p_survivor_id FOR UPDATE;
+  SELECT * INTO v_duplicate FROM public.students WHERE id = p_duplicate_id FOR UPDATE;
+
+  IF v_survivor.id IS NULL OR v_duplicate.id IS NULL THEN
+    RAISE EXCEPTION 'Estudiante no encontrado';
+  END IF;
+
+  UPDATE public.payments SET student_id = p_survivor_id WHERE student_id = p_duplicate_id;
+  GET DIAGNOSTICS v_payments = ROW_COUNT;
+
+  UPDATE public.grades SET student_id = p_survivor_id WHERE student_id = p_duplicate_id;
+  GET DIAGNOSTICS v_grades = ROW_COUNT;
+
+  -- The survivor keeps its own enrollment when both were enrolled in the same year
+  UPDATE public.enrollments
+  SET student_id = p_survivor_id
+  WHERE student_id = p_duplicate_id
+    AND academic_year_id NOT IN (
+      SELECT academic_year_id FROM public.enrollments WHERE student_id = p_survivor_id
+    );
+  GET DIAGNOSTICS v_enrollments = ROW_COUNT;
+
+  UPDATE public.student_status_history SET student_id = p_survivor_id WHERE student_id = p_duplicate_id;
+
+  IF v_duplicate.family_id IS NOT NULL AND v_duplicate.family_id IS DISTINCT FROM v_survivor.family_id THEN
+    IF v_survivor.family_id IS NULL THEN
+      UPDATE public.students SET family_id = v_duplicate.family_id WHERE id = p_survivor_id;
+    ELSE
+      -- Guardians not already in the survivor's family join it as secondary contacts
+      UPDATE public.parents
+      SET family_id = v_survivor.family_id,
+          is_primary_contact = false
+      WHERE family_id = v_duplicate.family_id
+        AND id_number NOT IN (SELECT id_number FROM public.parents WHERE family_id = v_survivor.family_id);
+      GET DIAGNOSTICS v_guardians = ROW_COUNT;
+
+      -- Siblings of the duplicate are siblings of the survivor
+      UPDATE public.students
+      SET family_id = v_survivor.family_id
+      WHERE family_id = v_duplicate.family_id AND id <> p_duplicate_id;
+
+      DELETE FROM public.families WHERE id = v_duplicate.family_id;
+    END IF;
+  END IF;
+
+  INSERT INTO public.student_merges (
+    survivor_id, duplicate_snapshot, payments_moved, grades_moved, enrollments_moved, guardians_moved, merged_by
+  )
+  VALUES (p_survivor_id, to_jsonb(v_duplicate), v_payments, v_grades, v_enrollments, v_guardians, auth.uid())
+  RETURNING id INTO v_merge_id;
+
+  DELETE FROM public.students WHERE id = p_duplicate_id;
+
+  RETURN v_merge_id;
+END;
+$$;
@@ -0,0 +1,55 @@
+-- Lowercase, accent-free text for search
+CREATE OR REPLACE FUNCTION public.search_key(p_value TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT trim(regexp_replace(
+    translate(lower(coalesce(p_value, '')), 'áéíóúüñ', 'aeiouun'),
+    '[^a-z0-9]+', ' ', 'g'
+  ));
+$$;
+
+-- One row per enrollment with its balance and guardian names, for paging, sorting and searching on the server
+CREATE VIEW public.student_directory
+WITH (security_invoker = true)
+AS
+SELECT
+  s.id,
+  s.first_name,
+  s.last_name,
+  s.id_number,
+  s.date_of_birth,
+  s.status,
+  s.status_effective_date,
+  s.family_id,
+  s.created_at,
+  e.id AS enrollment_id,
+  e.academic_year_id,
+  e.grade_level,
+  e.grade_level_id,
+  e.section_id,
+  sec.name AS section_name,
+  e.total_tuition,
+  COALESCE(paid.total_paid, 0) AS total_paid,
+  e.total_tuition - COALESCE(paid.total_paid, 0) AS balance,
+  guardians.guardian_names,
+  to_tsvector(
+    'simple',
+    public.search_key(s.first_name || ' ' || s.last_name || ' ' || s.id_number || ' ' || COALESCE(guardians.guardian_names, ''))
+  ) AS search_vector
+FROM public.enrollments e
+JOIN public.students s ON s.id = e.student_id
+LEFT JOIN public.sections sec ON sec.id = e.section_id
+LEFT JOIN LATERAL (
+  SELECT SUM(p.amount) AS total_paid
+  FROM public.payments p
+  WHERE p.student_id = s.id AND p.academic_year_id = e.academic_year_id
+) paid ON true
+LEFT JOIN LATERAL (
+  SELECT string_agg(g.full_name, ', ' ORDER BY g.is_primary_contact DESC, g.created_at) AS guardian_names
+  FROM public.parents g
+  WHERE g.family_id = s.family_id
+) guardians ON true;
+
+CREATE INDEX payments_student_year_idx ON public.payments (student_id, academic_year_id);
@@ -0,0 +1,165 @@
+-- Private bucket with one folder per student
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('student-documents', 'student-documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Admins can view student documents"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'student-documents' AND auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can upload student documents"
+  ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'student-documents' AND auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can delete student documents"
+  ON storage.objects FOR DELETE
+  USING (bucket_id = 'student-documents' AND auth.role() = 'authenticated');
+
+-- Create document types table
+CREATE TABLE public.document_types (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT UNIQUE,
+  name TEXT NOT NULL UNIQUE,
+  has_expiry BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.document_types ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view all document types"
+  ON public.document_types FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can insert document types"
+  ON public.document_types FOR INSERT
+  WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can update document types"
+  ON public.document_types FOR UPDATE
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can delete document types"
+  ON public.document_types FOR DELETE
+  USING (auth.role() = 'authenticated');
+
+INSERT INTO public.document_types (code, name, has_expiry) VALUES
+  ('photo', 'Foto', false),
+  ('birth_certificate', 'Partida de nacimiento', false),
+  ('id_copy', 'Copia de DNI', false),
+  ('previous_report_card', 'Libreta de notas del colegio anterior', false),
+  ('medical_certificate', 'Certificado médico', true);
+
+-- Checklist of documents each grade level requires
+CREATE TABLE public.grade_level_required_documents (
+  grade_level_id UUID REFERENCES public.grade_levels(id) ON DELETE CASCADE NOT NULL,
+  document_type_id UUID REFERENCES public.document_types(id) ON DELETE CASCADE NOT NULL,
+  PRIMARY KEY (grade_level_id, document_type_id)
+);
+
+ALTER TABLE public.grade_level_required_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view all required documents"
+  ON public.grade_level_required_documents FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can insert required documents"
+  ON public.grade_level_required_documents FOR INSERT
+  WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can delete required documents"
+  ON public.grade_level_required_documents FOR DELETE
+  USING (auth.role() = 'authenticated');
+
+-- Every grade starts by requiring the birth certificate, ID copy and photo
+INSERT INTO public.grade_level_required_documents (grade_level_id, document_type_id)
+SELECT g.id, d.id
+FROM public.grade_levels g
+CROSS JOIN public.document_types d
+WHERE d.code IN ('photo', 'birth_certificate', 'id_copy');
+
+-- Create student documents table
+CREATE TABLE public.student_documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id UUID REFERENCES public.students(id) ON DELETE CASCADE NOT NULL,
+  document_type_id UUID REFERENCES public.document_types(id) ON DELETE RESTRICT NOT NULL,
+  file_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  mime_type TEXT,
+  size_bytes BIGINT,
+  expires_on DATE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  uploaded_by UUID REFERENCES auth.users(id)
+);
+
+CREATE INDEX student_documents_student_id_idx ON public.student_documents (student_id);
+
+ALTER TABLE public.student_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view all student documents"
+  ON public.student_documents FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can insert student documents"
+  ON public.student_documents FOR INSERT
+  WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can update student documents"
+  ON public.student_documents FOR UPDATE
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can delete student documents"
+  ON public.student_documents FOR DELETE
+  USING (auth.role() = 'authenticated');
+
+-- Flag enrollments missing a required document, or holding only an expired one
+CREATE OR REPLACE VIEW public.student_directory
+WITH (security_invoker = true)
+AS
+SELECT
+  s.id,
+  s.first_name,
+  s.last_name,
+  s.id_number,
+  s.date_of_birth,
+  s.status,
+  s.status_effective_date,
+  s.family_id,
+  s.created_at,
+  e.id AS enrollment_id,
+  e.academic_year_id,
+  e.grade_level,
+  e.grade_level_id,
+  e.section_id,
+  sec.name AS section_name,
+  e.total_tuition,
+  COALESCE(paid.total_paid, 0) AS total_paid,
+  e.total_tuition - COALESCE(paid.total_paid, 0) AS balance,
+  guardians.guardian_names,
+  to_tsvector(
+    'simple',
+    public.search_key(s.first_name || ' ' || s.last_name || ' ' || s.id_number || ' ' || COALESCE(guardians.guardian_names, ''))
+  ) AS search_vector,
+  (
+    SELECT COUNT(*)::INTEGER
+    FROM public.grade_level_required_documents r
+    WHERE r.grade_level_id = e.grade_level_id
+      AND NOT EXISTS (
+        SELECT 1 FROM public.student_documents d
+        WHERE d.student_id = s.id
+          AND d.document_type_id = r.document_type_id
+          AND (d.expires_on IS NULL OR d.expires_on >= CURRENT_DATE)
+      )
+  ) AS missing_documents
+FROM public.enrollments e
+JOIN public.students s ON s.id = e.student_id
+LEFT JOIN public.sections sec ON sec.id = e.section_id
+LEFT JOIN LATERAL (
+  SELECT SUM(p.amount) AS total_paid
+  FROM public.payments p
+  WHERE p.student_id = s.id AND p.academic_year_id = e.academic_year_id
+) paid ON true
+LEFT JOIN LATERAL (
+  SELECT string_agg(g.full_name, ', ' ORDER BY g.is_primary_contact DESC, g.created_at) AS guardian_names
+  FROM public.parents g
+  WHERE g.family_id = s.family_id
+) guardians ON true;
@@ -0,0 +1,204 @@
+-- Staff roles: every account so far has been an administrator, new sign-ups start as general staff
+ALTER TABLE public.profiles ALTER COLUMN role SET DEFAULT 'staff';
+
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_role_check CHECK (role IN ('admin', 'nurse', 'staff'));
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, full_name)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data->>'full_name', 'Admin User')
+  );
+  RETURN NEW;
+END;
+$$;
+
+-- Security definer so policies on profiles itself can call it without recursing
+CREATE OR REPLACE FUNCTION public.current_user_has_role(p_roles TEXT[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = ANY(p_roles)
+  );
+$$;
+
+CREATE POLICY "Admins can view all profiles"
+  ON public.profiles FOR SELECT
+  USING (public.current_user_has_role(ARRAY['admin']));
+
+CREATE POLICY "Admins can update all profiles"
+  ON public.profiles FOR UPDATE
+  USING (public.current_user_has_role(ARRAY['admin']));
+
+-- Users may edit their own profile but not promote themselves
+CREATE OR REPLACE FUNCTION public.protect_profile_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role AND NOT public.current_user_has_role(ARRAY['admin']) THEN
+    RAISE EXCEPTION 'Solo un administrador puede cambiar el rol de un usuario';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profile_role
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_profile_role();
+
+-- Medical record, one row per student
+CREATE TABLE public.student_medical_info (
+  student_id UUID PRIMARY KEY REFERENCES public.students(id) ON DELETE CASCADE,
+  blood_type TEXT CHECK (blood_type IN ('A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-')),
+  allergies TEXT,
+  chronic_conditions TEXT,
+  medications TEXT,
+  insurance_provider TEXT,
+  insurance_policy_number TEXT,
+  notes TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_by UUID REFERENCES auth.users(id)
+);
+
+ALTER TABLE public.student_medical_info ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Medical staff can view medical info"
+  ON public.student_medical_info FOR SELECT
+  USING (public.current_user_has_role(ARRAY['admin', 'nurse']));
+
+CREATE POLICY "Medical staff can insert medical info"
+  ON public.student_medical_info FOR INSERT
+  WITH CHECK (public.current_user_has_role(ARRAY['admin', 'nurse']));
+
+CREATE POLICY "Medical staff can update medical info"
+  ON public.student_medical_info FOR UPDATE
+  USING (public.current_user_has_role(ARRAY['admin', 'nurse']));
+
+CREATE POLICY "Medical staff can delete medical info"
+  ON public.student_medical_info FOR DELETE
+  USING (public.current_user_has_role(ARRAY['admin', 'nurse']));
+
+-- Emergency contacts who are not necessarily guardians
+CREATE TABLE public.student_emergency_contacts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id UUID REFERENCES public.students(id) ON DELETE CASCADE NOT NULL,
+  full_name TEXT NOT NULL,
+  relationship TEXT,
+  phone TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX student_emergency_contacts_student_id_idx ON public.student_emergency_contacts (student_id);
+
+ALTER TABLE public.student_emergency_contacts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Medical staff can view emergency contacts"
+  ON public.student_emergency_contacts FOR SELECT
+  USING (public.current_user_has_role(ARRAY['admin', 'nurse']));
+
+CREATE POLICY "Medical staff can insert emergency contacts"
+  ON public.student_emergency_contacts FOR INSERT
+  WITH CHECK (public.current_user_has_role(ARRAY['admin', 'nurse']));
+
+CREATE POLICY "Medical staff can update emergency contacts"
+  ON public.student_emergency_contacts FOR UPDATE
+  USING (public.current_user_has_role(ARRAY['admin', 'nurse']));
+
+CREATE POLICY "Medical staff can delete emergency contacts"
+  ON public.student_emergency_contacts FOR DELETE
+  USING (public.current_user_has_role(ARRAY['admin', 'nurse']));
+
+-- Merging also carries over documents, emergency contacts and the medical record
+CREATE OR REPLACE FUNCTION public.merge_students(p_survivor_id UUID, p_duplicate_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_survivor public.students%ROWTYPE;
+  v_duplicate public.students%ROWTYPE;
+  v_payments INTEGER;
+  v_grades INTEGER;
+  v_enrollments INTEGER;
+  v_guardians INTEGER := 0;
+  v_merge_id UUID;
+BEGIN
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'No se puede fusionar un estudiante consigo mismo';
+  END IF;
+
+  SELECT * INTO v_survivor FROM public.students WHERE id = p_survivor_id FOR UPDATE;
+  SELECT * INTO v_duplicate FROM public.students WHERE id = p_duplicate_id FOR UPDATE;
+
+  IF v_survivor.id IS NULL OR v_duplicate.id IS NULL THEN
+    RAISE EXCEPTION 'Estudiante no encontrado';
+  END IF;
+
+  UPDATE public.payments SET student_id = p_survivor_id WHERE student_id = p_duplicate_id;
+  GET DIAGNOSTICS v_payments = ROW_COUNT;
+
+  UPDATE public.grades SET student_id = p_survivor_id WHERE student_id = p_duplicate_id;
+  GET DIAGNOSTICS v_grades = ROW_COUNT;
+
+  -- The survivor keeps its own enrollment when both were enrolled in the same year
+  UPDATE public.enrollments
+  SET student_id = p_survivor_id
+  WHERE student_id = p_duplicate_id
+    AND academic_year_id NOT IN (
+      SELECT academic_year_id FROM public.enrollments WHERE student_id = p_survivor_id
+    );
+  GET DIAGNOSTICS v_enrollments = ROW_COUNT;
+
+  UPDATE public.student_status_history SET student_id = p_survivor_id WHERE student_id = p_duplicate_id;
+  UPDATE public.student_documents SET student_id = p_survivor_id WHERE student_id = p_duplicate_id;
+  UPDATE public.student_emergency_contacts SET student_id = p_survivor_id WHERE student_id = p_duplicate_id;
+
+  -- The survivor keeps its own medical record when both have one
+  UPDATE public.student_medical_info
+  SET student_id = p_survivor_id
+  WHERE student_id = p_duplicate_id
+    AND NOT EXISTS (SELECT 1 FROM public.student_medical_info WHERE student_id = p_survivor_id);
+
+  IF v_duplicate.family_id IS NOT NULL AND v_duplicate.family_id IS DISTINCT FROM v_survivor.family_id THEN
+    IF v_survivor.family_id IS NULL THEN
+      UPDATE public.students SET family_id = v_duplicate.family_id WHERE id = p_survivor_id;
+    ELSE
+      -- Guardians not already in the survivor's family join it as secondary contacts
+      UPDATE public.parents
+      SET family_id = v_survivor.family_id,
+          is_primary_contact = false
+      WHERE family_id = v_duplicate.family_id
+        AND id_number NOT IN (SELECT id_number FROM public.parents WHERE family_id = v_survivor.family_id);
+      GET DIAGNOSTICS v_guardians = ROW_COUNT;
+
+      -- Siblings of the duplicate are siblings of the survivor
+      UPDATE public.students
+      SET family_id = v_survivor.family_id
+      WHERE family_id = v_duplicate.family_id AND id <> p_duplicate_id;
+
+      DELETE FROM public.families WHERE id = v_duplicate.family_id;
+    END IF;
+  END IF;
+
+  INSERT INTO public.student_merges (
+    survivor_id, duplicate_snapshot, payments_moved, grades_moved, enrollments_moved, guardians_moved, merged_by
+  )
+  VALUES (p_survivor_id, to_jsonb(v_duplicate), v_payments, v_grades, v_enrollments, v_guardians, auth.uid())
+  RETURNING id INTO v_merge_id;
+
+  DELETE FROM public.students WHERE id = p_duplicate_id;
+
+  RETURN v_merge_id;
+END;
+$$;
@@ -0,0 +1,264 @@
+-- Payment corrections: edits, voids and refunds, each with a reason
+ALTER TABLE public.payments
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'posted' CHECK (status IN ('posted', 'voided')),
+  ADD COLUMN refund_of UUID REFERENCES public.payments(id) ON DELETE CASCADE,
+  ADD COLUMN void_reason TEXT,
+  ADD COLUMN voided_at TIMESTAMPTZ,
+  ADD COLUMN voided_by UUID REFERENCES auth.users(id);
+
+CREATE INDEX payments_refund_of_idx ON public.payments (refund_of);
+
+-- Audit trail of every correction, with the values before the change
+CREATE TABLE public.payment_adjustments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id UUID REFERENCES public.payments(id) ON DELETE CASCADE NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('edit', 'void', 'refund')),
+  reason TEXT NOT NULL,
+  previous_amount DECIMAL(10,2),
+  previous_payment_date TIMESTAMPTZ,
+  previous_notes TEXT,
+  refund_payment_id UUID REFERENCES public.payments(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id)
+);
+
+CREATE INDEX payment_adjustments_payment_id_idx ON public.payment_adjustments (payment_id);
+
+ALTER TABLE public.payment_adjustments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view all payment adjustments"
+  ON public.payment_adjustments FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can insert payment adjustments"
+  ON public.payment_adjustments FOR INSERT
+  WITH CHECK (auth.role() = 'authenticated');
+
+-- Amount still refundable: the payment minus its refunds that were not voided
+CREATE OR REPLACE FUNCTION public.payment_refundable_amount(p_payment_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT p.amount + COALESCE((
+    SELECT SUM(r.amount)
+    FROM public.payments r
+    WHERE r.refund_of = p.id AND r.status = 'posted'
+  ), 0)
+  FROM public.payments p
+  WHERE p.id = p_payment_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.edit_payment(
+  p_payment_id UUID,
+  p_amount NUMERIC,
+  p_payment_date DATE,
+  p_notes TEXT,
+  p_reason TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_payment public.payments%ROWTYPE;
+BEGIN
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Indique el motivo de la corrección';
+  END IF;
+
+  SELECT * INTO v_payment FROM public.payments WHERE id = p_payment_id FOR UPDATE;
+
+  IF v_payment.id IS NULL THEN
+    RAISE EXCEPTION 'Pago no encontrado';
+  END IF;
+
+  IF v_payment.status = 'voided' THEN
+    RAISE EXCEPTION 'No se puede modificar un pago anulado';
+  END IF;
+
+  IF v_payment.refund_of IS NOT NULL THEN
+    RAISE EXCEPTION 'Un reembolso no se puede editar; anúlelo y registre uno nuevo';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'El monto debe ser mayor a 0';
+  END IF;
+
+  -- The new amount must still cover what was already refunded
+  IF p_amount < v_payment.amount - public.payment_refundable_amount(p_payment_id) THEN
+    RAISE EXCEPTION 'El monto no puede ser menor a lo ya reembolsado';
+  END IF;
+
+  INSERT INTO public.payment_adjustments (
+    payment_id, action, reason, previous_amount, previous_payment_date, previous_notes, created_by
+  )
+  VALUES (
+    p_payment_id, 'edit', trim(p_reason), v_payment.amount, v_payment.payment_date, v_payment.notes, auth.uid()
+  );
+
+  UPDATE public.payments
+  SET amount = p_amount,
+      payment_date = p_payment_date,
+      notes = NULLIF(trim(p_notes), '')
+  WHERE id = p_payment_id;
+END;
+$$;
+
+-- Voided payments are kept on record but no longer count toward what was paid
+CREATE OR REPLACE FUNCTION public.void_payment(p_payment_id UUID, p_reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_payment public.payments%ROWTYPE;
+BEGIN
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Indique el motivo de la anulación';
+  END IF;
+
+  SELECT * INTO v_payment FROM public.payments WHERE id = p_payment_id FOR UPDATE;
+
+  IF v_payment.id IS NULL THEN
+    RAISE EXCEPTION 'Pago no encontrado';
+  END IF;
+
+  IF v_payment.status = 'voided' THEN
+    RAISE EXCEPTION 'El pago ya está anulado';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.payments WHERE refund_of = p_payment_id AND status = 'posted') THEN
+    RAISE EXCEPTION 'Anule primero los reembolsos de este pago';
+  END IF;
+
+  INSERT INTO public.payment_adjustments (
+    payment_id, action, reason, previous_amount, previous_payment_date, previous_notes, created_by
+  )
+  VALUES (
+    p_payment_id, 'void', trim(p_reason), v_payment.amount, v_payment.payment_date, v_payment.notes, auth.uid()
+  );
+
+  UPDATE public.payments
+  SET status = 'voided',
+      void_reason = trim(p_reason),
+      voided_at = NOW(),
+      voided_by = auth.uid()
+  WHERE id = p_payment_id;
+END;
+$$;
+
+-- A refund is a negative movement linked to the payment it returns
+CREATE OR REPLACE FUNCTION public.refund_payment(
+  p_payment_id UUID,
+  p_amount NUMERIC,
+  p_payment_date DATE,
+  p_reason TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_payment public.payments%ROWTYPE;
+  v_refundable NUMERIC;
+  v_refund_id UUID;
+BEGIN
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Indique el motivo del reembolso';
+  END IF;
+
+  SELECT * INTO v_payment FROM public.payments WHERE id = p_payment_id FOR UPDATE;
+
+  IF v_payment.id IS NULL THEN
+    RAISE EXCEPTION 'Pago no encontrado';
+  END IF;
+
+  IF v_payment.status = 'voided' THEN
+    RAISE EXCEPTION 'No se puede reembolsar un pago anulado';
+  END IF;
+
+  IF v_payment.refund_of IS NOT NULL THEN
+    RAISE EXCEPTION 'No se puede reembolsar un reembolso';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'El monto debe ser mayor a 0';
+  END IF;
+
+  v_refundable := public.payment_refundable_amount(p_payment_id);
+  IF p_amount > v_refundable THEN
+    RAISE EXCEPTION 'El reembolso supera el monto reembolsable (%)', v_refundable;
+  END IF;
+
+  INSERT INTO public.payments (student_id, academic_year_id, amount, payment_date, notes, refund_of, created_by)
+  VALUES (
+    v_payment.student_id, v_payment.academic_year_id, -p_amount, p_payment_date, trim(p_reason), p_payment_id, auth.uid()
+  )
+  RETURNING id INTO v_refund_id;
+
+  INSERT INTO public.payment_adjustments (
+    payment_id, action, reason, previous_amount, previous_payment_date, previous_notes, refund_payment_id, created_by
+  )
+  VALUES (
+    p_payment_id, 'refund', trim(p_reason), v_payment.amount, v_payment.payment_date, v_payment.notes, v_refund_id, auth.uid()
+  );
+
+  RETURN v_refund_id;
+END;
+$$;
+
+-- Directory balances ignore voided movements; refunds lower what was paid
+CREATE OR REPLACE VIEW public.student_directory
+WITH (security_invoker = true)
+AS
+SELECT
+  s.id,
+  s.first_name,
+  s.last_name,
+  s.id_number,
+  s.date_of_birth,
+  s.status,
+  s.status_effective_date,
+  s.family_id,
+  s.created_at,
+  e.id AS enrollment_id,
+  e.academic_year_id,
+  e.grade_level,
+  e.grade_level_id,
+  e.section_id,
+  sec.name AS section_name,
+  e.total_tuition,
+  COALESCE(paid.total_paid, 0) AS total_paid,
+  e.total_tuition - COALESCE(paid.total_paid, 0) AS balance,
+  guardians.guardian_names,
+  to_tsvector(
+    'simple',
+    public.search_key(s.first_name || ' ' || s.last_name || ' ' || s.id_number || ' ' || COALESCE(guardians.guardian_names, ''))
+  ) AS search_vector,
+  (
+    SELECT COUNT(*)::INTEGER
+    FROM public.grade_level_required_documents r
+    WHERE r.grade_level_id = e.grade_level_id
+      AND NOT EXISTS (
+        SELECT 1 FROM public.student_documents d
+        WHERE d.student_id = s.id
+          AND d.document_type_id = r.document_type_id
+          AND (d.expires_on IS NULL OR d.expires_on >= CURRENT_DATE)
+      )
+  ) AS missing_documents,
+  s.custom_fields
+FROM public.enrollments e
+JOIN public.students s ON s.id = e.student_id
+LEFT JOIN public.sections sec ON sec.id = e.section_id
+LEFT JOIN LATERAL (
+  SELECT SUM(p.amount) AS total_paid
+  FROM public.payments p
+  WHERE p.student_id = s.id AND p.academic_year_id = e.academic_year_id AND p.status = 'posted'
+) paid ON true
+LEFT JOIN LATERAL (
+  SELECT string_agg(g.full_name, ', ' ORDER BY g.is_primary_contact DESC, g.created_at) AS guardian_names
+  FROM public.parents g
+  WHERE g.family_id = s.family_id
+) guardians ON true;
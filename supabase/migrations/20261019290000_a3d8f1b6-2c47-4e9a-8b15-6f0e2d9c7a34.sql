@@ -0,0 +1,69 @@
+-- School details for printed documents; a single row, also holding the receipt counter
+CREATE TABLE public.school_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  name TEXT NOT NULL,
+  address TEXT,
+  phone TEXT,
+  email TEXT,
+  tax_id TEXT,
+  next_receipt_number INTEGER NOT NULL DEFAULT 1 CHECK (next_receipt_number > 0),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.school_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view all school settings"
+  ON public.school_settings FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can update school settings"
+  ON public.school_settings FOR UPDATE
+  USING (public.current_user_has_role(ARRAY['admin']));
+
+INSERT INTO public.school_settings (name) VALUES ('Registro Académico');
+
+-- Receipt data is fixed when the payment is recorded so reprints always match the original
+ALTER TABLE public.payments
+  ADD COLUMN receipt_number INTEGER UNIQUE,
+  ADD COLUMN cashier_name TEXT;
+
+UPDATE public.payments p
+SET receipt_number = numbered.receipt_number,
+    cashier_name = pr.full_name
+FROM (
+  SELECT id, created_by, ROW_NUMBER() OVER (ORDER BY created_at, id) AS receipt_number
+  FROM public.payments
+) numbered
+LEFT JOIN public.profiles pr ON pr.id = numbered.created_by
+WHERE p.id = numbered.id;
+
+UPDATE public.school_settings
+SET next_receipt_number = COALESCE((SELECT MAX(receipt_number) FROM public.payments), 0) + 1;
+
+ALTER TABLE public.payments ALTER COLUMN receipt_number SET NOT NULL;
+
+-- The counter row is locked until the inserting transaction ends, so a rolled back
+-- payment gives its number back instead of leaving a gap
+CREATE OR REPLACE FUNCTION public.assign_payment_receipt()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.school_settings
+    SET next_receipt_number = next_receipt_number + 1
+    RETURNING next_receipt_number - 1 INTO NEW.receipt_number;
+
+    SELECT full_name INTO NEW.cashier_name FROM public.profiles WHERE id = NEW.created_by;
+  ELSE
+    NEW.receipt_number := OLD.receipt_number;
+    NEW.cashier_name := OLD.cashier_name;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_payment_receipt
+  BEFORE INSERT OR UPDATE ON public.payments
+  FOR EACH ROW EXECUTE FUNCTION public.assign_payment_receipt();
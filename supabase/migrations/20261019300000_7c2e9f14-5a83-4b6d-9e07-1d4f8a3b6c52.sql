@@ -0,0 +1,204 @@
+-- Fee plans: reusable installment schedules per academic year
+CREATE TABLE public.fee_plans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  academic_year_id UUID REFERENCES public.academic_years(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(academic_year_id, name)
+);
+
+ALTER TABLE public.fee_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view all fee plans"
+  ON public.fee_plans FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can insert fee plans"
+  ON public.fee_plans FOR INSERT
+  WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can update fee plans"
+  ON public.fee_plans FOR UPDATE
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can delete fee plans"
+  ON public.fee_plans FOR DELETE
+  USING (auth.role() = 'authenticated');
+
+CREATE TABLE public.fee_plan_installments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  fee_plan_id UUID REFERENCES public.fee_plans(id) ON DELETE CASCADE NOT NULL,
+  sequence INTEGER NOT NULL,
+  label TEXT NOT NULL,
+  due_date DATE NOT NULL,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  UNIQUE(fee_plan_id, sequence)
+);
+
+ALTER TABLE public.fee_plan_installments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view all fee plan installments"
+  ON public.fee_plan_installments FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can insert fee plan installments"
+  ON public.fee_plan_installments FOR INSERT
+  WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can update fee plan installments"
+  ON public.fee_plan_installments FOR UPDATE
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can delete fee plan installments"
+  ON public.fee_plan_installments FOR DELETE
+  USING (auth.role() = 'authenticated');
+
+-- Each enrollment gets its own copy of the schedule so later plan edits do not rewrite it
+ALTER TABLE public.enrollments
+  ADD COLUMN fee_plan_id UUID REFERENCES public.fee_plans(id) ON DELETE SET NULL;
+
+CREATE TABLE public.student_installments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  enrollment_id UUID REFERENCES public.enrollments(id) ON DELETE CASCADE NOT NULL,
+  sequence INTEGER NOT NULL,
+  label TEXT NOT NULL,
+  due_date DATE NOT NULL,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(enrollment_id, sequence)
+);
+
+ALTER TABLE public.student_installments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view all student installments"
+  ON public.student_installments FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can insert student installments"
+  ON public.student_installments FOR INSERT
+  WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can update student installments"
+  ON public.student_installments FOR UPDATE
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can delete student installments"
+  ON public.student_installments FOR DELETE
+  USING (auth.role() = 'authenticated');
+
+-- Replaces the schedule of the given enrollments; total tuition follows the plan
+CREATE OR REPLACE FUNCTION public.apply_fee_plan(p_fee_plan_id UUID, p_enrollment_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_plan public.fee_plans%ROWTYPE;
+  v_total NUMERIC;
+  v_count INTEGER;
+BEGIN
+  SELECT * INTO v_plan FROM public.fee_plans WHERE id = p_fee_plan_id;
+
+  IF v_plan.id IS NULL THEN
+    RAISE EXCEPTION 'Plan de pagos no encontrado';
+  END IF;
+
+  SELECT SUM(amount) INTO v_total FROM public.fee_plan_installments WHERE fee_plan_id = p_fee_plan_id;
+
+  IF v_total IS NULL THEN
+    RAISE EXCEPTION 'El plan de pagos no tiene cuotas';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.enrollments
+    WHERE id = ANY(p_enrollment_ids) AND academic_year_id <> v_plan.academic_year_id
+  ) THEN
+    RAISE EXCEPTION 'El plan de pagos pertenece a otro año académico';
+  END IF;
+
+  DELETE FROM public.student_installments WHERE enrollment_id = ANY(p_enrollment_ids);
+
+  INSERT INTO public.student_installments (enrollment_id, sequence, label, due_date, amount)
+  SELECT e.id, i.sequence, i.label, i.due_date, i.amount
+  FROM public.enrollments e
+  CROSS JOIN public.fee_plan_installments i
+  WHERE e.id = ANY(p_enrollment_ids) AND i.fee_plan_id = p_fee_plan_id;
+
+  UPDATE public.enrollments
+  SET fee_plan_id = p_fee_plan_id,
+      total_tuition = v_total
+  WHERE id = ANY(p_enrollment_ids);
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Payments are allocated to installments oldest first. Enrollments without a plan
+-- owe their total tuition as a single installment due when the year starts
+CREATE OR REPLACE VIEW public.installment_schedule
+WITH (security_invoker = true)
+AS
+WITH schedule AS (
+  SELECT
+    i.id,
+    e.id AS enrollment_id,
+    e.student_id,
+    e.academic_year_id,
+    i.sequence,
+    i.label,
+    i.due_date,
+    i.amount
+  FROM public.enrollments e
+  JOIN public.student_installments i ON i.enrollment_id = e.id
+  UNION ALL
+  SELECT
+    NULL,
+    e.id,
+    e.student_id,
+    e.academic_year_id,
+    1,
+    'Matrícula total',
+    y.start_date,
+    e.total_tuition
+  FROM public.enrollments e
+  JOIN public.academic_years y ON y.id = e.academic_year_id
+  WHERE e.total_tuition > 0
+    AND NOT EXISTS (SELECT 1 FROM public.student_installments i WHERE i.enrollment_id = e.id)
+),
+allocated AS (
+  SELECT
+    s.*,
+    COALESCE(paid.total_paid, 0) - COALESCE(
+      SUM(s.amount) OVER (
+        PARTITION BY s.enrollment_id
+        ORDER BY s.due_date, s.sequence
+        ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+      ),
+      0
+    ) AS available
+  FROM schedule s
+  LEFT JOIN LATERAL (
+    SELECT SUM(p.amount) AS total_paid
+    FROM public.payments p
+    WHERE p.student_id = s.student_id AND p.academic_year_id = s.academic_year_id AND p.status = 'posted'
+  ) paid ON true
+)
+SELECT
+  id,
+  enrollment_id,
+  student_id,
+  academic_year_id,
+  sequence,
+  label,
+  due_date,
+  amount,
+  LEAST(amount, GREATEST(available, 0)) AS paid_amount,
+  amount - LEAST(amount, GREATEST(available, 0)) AS balance,
+  CASE
+    WHEN available >= amount THEN 'paid'
+    WHEN due_date < CURRENT_DATE THEN 'overdue'
+    WHEN available > 0 THEN 'partial'
+    ELSE 'pending'
+  END AS status
+FROM allocated;
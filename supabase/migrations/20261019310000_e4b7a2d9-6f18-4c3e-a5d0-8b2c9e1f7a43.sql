@@ -0,0 +1,433 @@
+-- Catalog of charge concepts besides tuition (uniforms, books, exams, trips, transport...)
+CREATE TABLE public.fee_concepts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  default_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (default_amount >= 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.fee_concepts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view all fee concepts"
+  ON public.fee_concepts FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can insert fee concepts"
+  ON public.fee_concepts FOR INSERT
+  WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can update fee concepts"
+  ON public.fee_concepts FOR UPDATE
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can delete fee concepts"
+  ON public.fee_concepts FOR DELETE
+  USING (auth.role() = 'authenticated');
+
+INSERT INTO public.fee_concepts (name) VALUES
+  ('Matrícula'),
+  ('Uniforme'),
+  ('Libros'),
+  ('Exámenes'),
+  ('Paseos'),
+  ('Transporte');
+
+-- Default amount of a concept for a grade level, overriding the concept default
+CREATE TABLE public.fee_concept_grade_amounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  fee_concept_id UUID REFERENCES public.fee_concepts(id) ON DELETE CASCADE NOT NULL,
+  grade_level_id UUID REFERENCES public.grade_levels(id) ON DELETE CASCADE NOT NULL,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount >= 0),
+  UNIQUE(fee_concept_id, grade_level_id)
+);
+
+ALTER TABLE public.fee_concept_grade_amounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view all fee concept grade amounts"
+  ON public.fee_concept_grade_amounts FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can insert fee concept grade amounts"
+  ON public.fee_concept_grade_amounts FOR INSERT
+  WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can update fee concept grade amounts"
+  ON public.fee_concept_grade_amounts FOR UPDATE
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can delete fee concept grade amounts"
+  ON public.fee_concept_grade_amounts FOR DELETE
+  USING (auth.role() = 'authenticated');
+
+-- Charges owed by an enrollment on top of its tuition installments
+CREATE TABLE public.student_charges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  enrollment_id UUID REFERENCES public.enrollments(id) ON DELETE CASCADE NOT NULL,
+  fee_concept_id UUID REFERENCES public.fee_concepts(id) ON DELETE RESTRICT NOT NULL,
+  description TEXT,
+  due_date DATE NOT NULL,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id)
+);
+
+CREATE INDEX student_charges_enrollment_id_idx ON public.student_charges (enrollment_id);
+
+ALTER TABLE public.student_charges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view all student charges"
+  ON public.student_charges FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can insert student charges"
+  ON public.student_charges FOR INSERT
+  WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can update student charges"
+  ON public.student_charges FOR UPDATE
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can delete student charges"
+  ON public.student_charges FOR DELETE
+  USING (auth.role() = 'authenticated');
+
+-- The part of a payment that settles a given charge; the rest goes to tuition
+CREATE TABLE public.payment_allocations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id UUID REFERENCES public.payments(id) ON DELETE CASCADE NOT NULL,
+  charge_id UUID REFERENCES public.student_charges(id) ON DELETE CASCADE NOT NULL,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  UNIQUE(payment_id, charge_id)
+);
+
+CREATE INDEX payment_allocations_charge_id_idx ON public.payment_allocations (charge_id);
+
+ALTER TABLE public.payment_allocations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view all payment allocations"
+  ON public.payment_allocations FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can insert payment allocations"
+  ON public.payment_allocations FOR INSERT
+  WITH CHECK (auth.role() = 'authenticated');
+
+-- Amount due per concept: the grade level amount, else the concept default
+CREATE OR REPLACE FUNCTION public.assign_fee_charge(
+  p_fee_concept_id UUID,
+  p_enrollment_ids UUID[],
+  p_due_date DATE,
+  p_amount NUMERIC DEFAULT NULL,
+  p_description TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  IF p_amount IS NOT NULL AND p_amount <= 0 THEN
+    RAISE EXCEPTION 'El monto debe ser mayor a 0';
+  END IF;
+
+  INSERT INTO public.student_charges (enrollment_id, fee_concept_id, description, due_date, amount, created_by)
+  SELECT e.id, c.id, NULLIF(trim(p_description), ''), p_due_date, amounts.amount, auth.uid()
+  FROM public.enrollments e
+  JOIN public.fee_concepts c ON c.id = p_fee_concept_id
+  LEFT JOIN public.fee_concept_grade_amounts g
+    ON g.fee_concept_id = c.id AND g.grade_level_id = e.grade_level_id
+  CROSS JOIN LATERAL (SELECT COALESCE(p_amount, g.amount, c.default_amount) AS amount) amounts
+  WHERE e.id = ANY(p_enrollment_ids) AND amounts.amount > 0;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Open balance of each charge; voided payments no longer settle anything
+CREATE OR REPLACE VIEW public.charge_balances
+WITH (security_invoker = true)
+AS
+SELECT
+  c.id,
+  c.enrollment_id,
+  e.student_id,
+  e.academic_year_id,
+  c.fee_concept_id,
+  fc.name AS concept_name,
+  c.description,
+  c.due_date,
+  c.amount,
+  COALESCE(paid.paid_amount, 0) AS paid_amount,
+  c.amount - COALESCE(paid.paid_amount, 0) AS balance,
+  CASE
+    WHEN COALESCE(paid.paid_amount, 0) >= c.amount THEN 'paid'
+    WHEN c.due_date < CURRENT_DATE THEN 'overdue'
+    WHEN COALESCE(paid.paid_amount, 0) > 0 THEN 'partial'
+    ELSE 'pending'
+  END AS status
+FROM public.student_charges c
+JOIN public.enrollments e ON e.id = c.enrollment_id
+JOIN public.fee_concepts fc ON fc.id = c.fee_concept_id
+LEFT JOIN LATERAL (
+  SELECT SUM(a.amount) AS paid_amount
+  FROM public.payment_allocations a
+  JOIN public.payments p ON p.id = a.payment_id
+  WHERE a.charge_id = c.id AND p.status = 'posted'
+) paid ON true;
+
+-- Records a payment and the charges it settles in one step
+CREATE OR REPLACE FUNCTION public.record_payment(
+  p_student_id UUID,
+  p_academic_year_id UUID,
+  p_amount NUMERIC,
+  p_payment_date DATE,
+  p_notes TEXT DEFAULT NULL,
+  p_allocations JSONB DEFAULT '[]'
+)
+RETURNS public.payments
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_payment public.payments%ROWTYPE;
+  v_allocation JSONB;
+  v_charge public.charge_balances%ROWTYPE;
+  v_allocated NUMERIC := 0;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'El monto debe ser mayor a 0';
+  END IF;
+
+  INSERT INTO public.payments (student_id, academic_year_id, amount, payment_date, notes, created_by)
+  VALUES (p_student_id, p_academic_year_id, p_amount, p_payment_date, NULLIF(trim(p_notes), ''), auth.uid())
+  RETURNING * INTO v_payment;
+
+  FOR v_allocation IN SELECT * FROM jsonb_array_elements(COALESCE(p_allocations, '[]'::jsonb))
+  LOOP
+    SELECT * INTO v_charge FROM public.charge_balances WHERE id = (v_allocation->>'charge_id')::UUID;
+
+    IF v_charge.id IS NULL
+       OR v_charge.student_id <> p_student_id
+       OR v_charge.academic_year_id <> p_academic_year_id THEN
+      RAISE EXCEPTION 'El cargo no pertenece al estudiante en este año';
+    END IF;
+
+    IF (v_allocation->>'amount')::NUMERIC <= 0 THEN
+      RAISE EXCEPTION 'El monto asignado a % debe ser mayor a 0', v_charge.concept_name;
+    END IF;
+
+    IF (v_allocation->>'amount')::NUMERIC > v_charge.balance THEN
+      RAISE EXCEPTION 'El monto asignado a % supera su saldo (%)', v_charge.concept_name, v_charge.balance;
+    END IF;
+
+    INSERT INTO public.payment_allocations (payment_id, charge_id, amount)
+    VALUES (v_payment.id, v_charge.id, (v_allocation->>'amount')::NUMERIC);
+
+    v_allocated := v_allocated + (v_allocation->>'amount')::NUMERIC;
+  END LOOP;
+
+  IF v_allocated > p_amount THEN
+    RAISE EXCEPTION 'Los montos asignados superan el monto del pago';
+  END IF;
+
+  RETURN v_payment;
+END;
+$$;
+
+-- A corrected amount must still cover what the payment settles
+CREATE OR REPLACE FUNCTION public.edit_payment(
+  p_payment_id UUID,
+  p_amount NUMERIC,
+  p_payment_date DATE,
+  p_notes TEXT,
+  p_reason TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_payment public.payments%ROWTYPE;
+BEGIN
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Indique el motivo de la corrección';
+  END IF;
+
+  SELECT * INTO v_payment FROM public.payments WHERE id = p_payment_id FOR UPDATE;
+
+  IF v_payment.id IS NULL THEN
+    RAISE EXCEPTION 'Pago no encontrado';
+  END IF;
+
+  IF v_payment.status = 'voided' THEN
+    RAISE EXCEPTION 'No se puede modificar un pago anulado';
+  END IF;
+
+  IF v_payment.refund_of IS NOT NULL THEN
+    RAISE EXCEPTION 'Un reembolso no se puede editar; anúlelo y registre uno nuevo';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'El monto debe ser mayor a 0';
+  END IF;
+
+  -- The new amount must still cover what was already refunded
+  IF p_amount < v_payment.amount - public.payment_refundable_amount(p_payment_id) THEN
+    RAISE EXCEPTION 'El monto no puede ser menor a lo ya reembolsado';
+  END IF;
+
+  IF p_amount < COALESCE((SELECT SUM(amount) FROM public.payment_allocations WHERE payment_id = p_payment_id), 0) THEN
+    RAISE EXCEPTION 'El monto no puede ser menor a lo asignado a otros cargos';
+  END IF;
+
+  INSERT INTO public.payment_adjustments (
+    payment_id, action, reason, previous_amount, previous_payment_date, previous_notes, created_by
+  )
+  VALUES (
+    p_payment_id, 'edit', trim(p_reason), v_payment.amount, v_payment.payment_date, v_payment.notes, auth.uid()
+  );
+
+  UPDATE public.payments
+  SET amount = p_amount,
+      payment_date = p_payment_date,
+      notes = NULLIF(trim(p_notes), '')
+  WHERE id = p_payment_id;
+END;
+$$;
+
+-- Only the part of each payment not settling other charges goes to tuition installments
+CREATE OR REPLACE VIEW public.installment_schedule
+WITH (security_invoker = true)
+AS
+WITH schedule AS (
+  SELECT
+    i.id,
+    e.id AS enrollment_id,
+    e.student_id,
+    e.academic_year_id,
+    i.sequence,
+    i.label,
+    i.due_date,
+    i.amount
+  FROM public.enrollments e
+  JOIN public.student_installments i ON i.enrollment_id = e.id
+  UNION ALL
+  SELECT
+    NULL,
+    e.id,
+    e.student_id,
+    e.academic_year_id,
+    1,
+    'Matrícula total',
+    y.start_date,
+    e.total_tuition
+  FROM public.enrollments e
+  JOIN public.academic_years y ON y.id = e.academic_year_id
+  WHERE e.total_tuition > 0
+    AND NOT EXISTS (SELECT 1 FROM public.student_installments i WHERE i.enrollment_id = e.id)
+),
+allocated AS (
+  SELECT
+    s.*,
+    COALESCE(paid.total_paid, 0) - COALESCE(settled.total_settled, 0) - COALESCE(
+      SUM(s.amount) OVER (
+        PARTITION BY s.enrollment_id
+        ORDER BY s.due_date, s.sequence
+        ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+      ),
+      0
+    ) AS available
+  FROM schedule s
+  LEFT JOIN LATERAL (
+    SELECT SUM(p.amount) AS total_paid
+    FROM public.payments p
+    WHERE p.student_id = s.student_id AND p.academic_year_id = s.academic_year_id AND p.status = 'posted'
+  ) paid ON true
+  LEFT JOIN LATERAL (
+    SELECT SUM(a.amount) AS total_settled
+    FROM public.payment_allocations a
+    JOIN public.payments p ON p.id = a.payment_id
+    WHERE p.student_id = s.student_id AND p.academic_year_id = s.academic_year_id AND p.status = 'posted'
+  ) settled ON true
+)
+SELECT
+  id,
+  enrollment_id,
+  student_id,
+  academic_year_id,
+  sequence,
+  label,
+  due_date,
+  amount,
+  LEAST(amount, GREATEST(available, 0)) AS paid_amount,
+  amount - LEAST(amount, GREATEST(available, 0)) AS balance,
+  CASE
+    WHEN available >= amount THEN 'paid'
+    WHEN due_date < CURRENT_DATE THEN 'overdue'
+    WHEN available > 0 THEN 'partial'
+    ELSE 'pending'
+  END AS status
+FROM allocated;
+
+-- Balances include the other charges next to tuition
+CREATE OR REPLACE VIEW public.student_directory
+WITH (security_invoker = true)
+AS
+SELECT
+  s.id,
+  s.first_name,
+  s.last_name,
+  s.id_number,
+  s.date_of_birth,
+  s.status,
+  s.status_effective_date,
+  s.family_id,
+  s.created_at,
+  e.id AS enrollment_id,
+  e.academic_year_id,
+  e.grade_level,
+  e.grade_level_id,
+  e.section_id,
+  sec.name AS section_name,
+  e.total_tuition,
+  COALESCE(paid.total_paid, 0) AS total_paid,
+  e.total_tuition + COALESCE(charges.total_charges, 0) - COALESCE(paid.total_paid, 0) AS balance,
+  guardians.guardian_names,
+  to_tsvector(
+    'simple',
+    public.search_key(s.first_name || ' ' || s.last_name || ' ' || s.id_number || ' ' || COALESCE(guardians.guardian_names, ''))
+  ) AS search_vector,
+  (
+    SELECT COUNT(*)::INTEGER
+    FROM public.grade_level_required_documents r
+    WHERE r.grade_level_id = e.grade_level_id
+      AND NOT EXISTS (
+        SELECT 1 FROM public.student_documents d
+        WHERE d.student_id = s.id
+          AND d.document_type_id = r.document_type_id
+          AND (d.expires_on IS NULL OR d.expires_on >= CURRENT_DATE)
+      )
+  ) AS missing_documents,
+  s.custom_fields,
+  COALESCE(charges.total_charges, 0) AS total_charges
+FROM public.enrollments e
+JOIN public.students s ON s.id = e.student_id
+LEFT JOIN public.sections sec ON sec.id = e.section_id
+LEFT JOIN LATERAL (
+  SELECT SUM(p.amount) AS total_paid
+  FROM public.payments p
+  WHERE p.student_id = s.id AND p.academic_year_id = e.academic_year_id AND p.status = 'posted'
+) paid ON true
+LEFT JOIN LATERAL (
+  SELECT SUM(c.amount) AS total_charges
+  FROM public.student_charges c
+  WHERE c.enrollment_id = e.id
+) charges ON true
+LEFT JOIN LATERAL (
+  SELECT string_agg(g.full_name, ', ' ORDER BY g.is_primary_contact DESC, g.created_at) AS guardian_names
+  FROM public.parents g
+  WHERE g.family_id = s.family_id
+) guardians ON true;
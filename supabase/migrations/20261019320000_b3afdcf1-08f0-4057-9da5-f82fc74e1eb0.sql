@@ -0,0 +1,385 @@
+-- Discount rules: scholarships and discounts are granted per student, sibling rules apply on their own
+CREATE TABLE public.discount_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  kind TEXT NOT NULL CHECK (kind IN ('scholarship', 'discount', 'sibling')),
+  value_type TEXT NOT NULL CHECK (value_type IN ('percentage', 'fixed')),
+  value DECIMAL(10,2) NOT NULL CHECK (value > 0),
+  -- NULL means tuition installments
+  fee_concept_id UUID REFERENCES public.fee_concepts(id) ON DELETE RESTRICT,
+  -- Sibling rules apply from this child on, oldest first (2 = second child)
+  sibling_position INTEGER CHECK (sibling_position >= 2),
+  valid_from DATE,
+  valid_to DATE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+  CHECK (value_type <> 'percentage' OR value <= 100),
+  CHECK ((kind = 'sibling') = (sibling_position IS NOT NULL)),
+  CHECK (valid_to IS NULL OR valid_from IS NULL OR valid_to >= valid_from)
+);
+
+ALTER TABLE public.discount_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view all discount rules"
+  ON public.discount_rules FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can insert discount rules"
+  ON public.discount_rules FOR INSERT
+  WITH CHECK (public.current_user_has_role(ARRAY['admin']));
+
+CREATE POLICY "Admins can update discount rules"
+  ON public.discount_rules FOR UPDATE
+  USING (public.current_user_has_role(ARRAY['admin']));
+
+CREATE POLICY "Admins can delete discount rules"
+  ON public.discount_rules FOR DELETE
+  USING (public.current_user_has_role(ARRAY['admin']));
+
+-- A scholarship or discount granted to an enrollment; it counts once approved
+CREATE TABLE public.student_discounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  enrollment_id UUID REFERENCES public.enrollments(id) ON DELETE CASCADE NOT NULL,
+  discount_rule_id UUID REFERENCES public.discount_rules(id) ON DELETE RESTRICT NOT NULL,
+  notes TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  requested_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  requested_by UUID REFERENCES auth.users(id),
+  reviewed_at TIMESTAMPTZ,
+  reviewed_by UUID REFERENCES auth.users(id),
+  UNIQUE(enrollment_id, discount_rule_id)
+);
+
+ALTER TABLE public.student_discounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view all student discounts"
+  ON public.student_discounts FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can insert student discounts"
+  ON public.student_discounts FOR INSERT
+  WITH CHECK (auth.role() = 'authenticated' AND status = 'pending');
+
+CREATE POLICY "Admins can update student discounts"
+  ON public.student_discounts FOR UPDATE
+  USING (public.current_user_has_role(ARRAY['admin']));
+
+CREATE POLICY "Admins can delete student discounts"
+  ON public.student_discounts FOR DELETE
+  USING (status = 'pending' OR public.current_user_has_role(ARRAY['admin']));
+
+CREATE OR REPLACE FUNCTION public.review_student_discount(p_student_discount_id UUID, p_approved BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_discount public.student_discounts%ROWTYPE;
+BEGIN
+  IF NOT public.current_user_has_role(ARRAY['admin']) THEN
+    RAISE EXCEPTION 'Solo un administrador puede aprobar descuentos';
+  END IF;
+
+  SELECT * INTO v_discount FROM public.student_discounts WHERE id = p_student_discount_id FOR UPDATE;
+
+  IF v_discount.id IS NULL THEN
+    RAISE EXCEPTION 'Descuento no encontrado';
+  END IF;
+
+  IF v_discount.status <> 'pending' THEN
+    RAISE EXCEPTION 'El descuento ya fue revisado';
+  END IF;
+
+  UPDATE public.student_discounts
+  SET status = CASE WHEN p_approved THEN 'approved' ELSE 'rejected' END,
+      reviewed_at = NOW(),
+      reviewed_by = auth.uid()
+  WHERE id = p_student_discount_id;
+END;
+$$;
+
+-- Everything an enrollment owes, gross: tuition installments (or the total tuition
+-- as a single installment when there is no plan) and the other charges
+CREATE OR REPLACE VIEW public.billable_items
+WITH (security_invoker = true)
+AS
+SELECT
+  i.id::TEXT AS item_key,
+  'installment' AS item_type,
+  i.id AS installment_id,
+  NULL::UUID AS charge_id,
+  e.id AS enrollment_id,
+  e.student_id,
+  e.academic_year_id,
+  NULL::UUID AS fee_concept_id,
+  i.sequence,
+  i.label,
+  i.due_date,
+  i.amount
+FROM public.enrollments e
+JOIN public.student_installments i ON i.enrollment_id = e.id
+UNION ALL
+SELECT
+  'tuition:' || e.id,
+  'installment',
+  NULL,
+  NULL,
+  e.id,
+  e.student_id,
+  e.academic_year_id,
+  NULL,
+  1,
+  'Matrícula total',
+  y.start_date,
+  e.total_tuition
+FROM public.enrollments e
+JOIN public.academic_years y ON y.id = e.academic_year_id
+WHERE e.total_tuition > 0
+  AND NOT EXISTS (SELECT 1 FROM public.student_installments i WHERE i.enrollment_id = e.id)
+UNION ALL
+SELECT
+  c.id::TEXT,
+  'charge',
+  NULL,
+  c.id,
+  e.id,
+  e.student_id,
+  e.academic_year_id,
+  c.fee_concept_id,
+  NULL,
+  fc.name,
+  c.due_date,
+  c.amount
+FROM public.student_charges c
+JOIN public.enrollments e ON e.id = c.enrollment_id
+JOIN public.fee_concepts fc ON fc.id = c.fee_concept_id;
+
+-- One line per rule and discounted item. Percentages apply to every item due within the
+-- rule dates; fixed amounts are used up on the oldest items first
+CREATE OR REPLACE VIEW public.discount_lines
+WITH (security_invoker = true)
+AS
+WITH siblings AS (
+  SELECT
+    e.id AS enrollment_id,
+    ROW_NUMBER() OVER (PARTITION BY s.family_id, e.academic_year_id ORDER BY s.date_of_birth, s.id) AS position
+  FROM public.enrollments e
+  JOIN public.students s ON s.id = e.student_id
+  WHERE s.family_id IS NOT NULL AND s.status = 'active'
+),
+applicable AS (
+  SELECT sd.enrollment_id, sd.id AS student_discount_id, r.*
+  FROM public.student_discounts sd
+  JOIN public.discount_rules r ON r.id = sd.discount_rule_id
+  WHERE sd.status = 'approved' AND r.is_active
+  UNION ALL
+  SELECT sb.enrollment_id, NULL, r.*
+  FROM siblings sb
+  JOIN public.discount_rules r ON r.kind = 'sibling' AND r.is_active AND sb.position >= r.sibling_position
+),
+matched AS (
+  SELECT
+    a.enrollment_id,
+    b.student_id,
+    b.academic_year_id,
+    a.id AS discount_rule_id,
+    a.name AS rule_name,
+    a.kind,
+    a.student_discount_id,
+    b.item_key,
+    b.item_type,
+    CASE
+      WHEN a.value_type = 'percentage' THEN ROUND(b.amount * a.value / 100, 2)
+      ELSE LEAST(
+        b.amount,
+        GREATEST(
+          a.value - COALESCE(
+            SUM(b.amount) OVER (
+              PARTITION BY a.enrollment_id, a.id
+              ORDER BY b.due_date, b.sequence, b.item_key
+              ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+            ),
+            0
+          ),
+          0
+        )
+      )
+    END AS amount
+  FROM applicable a
+  JOIN public.billable_items b
+    ON b.enrollment_id = a.enrollment_id
+    AND b.fee_concept_id IS NOT DISTINCT FROM a.fee_concept_id
+    AND (a.valid_from IS NULL OR b.due_date >= a.valid_from)
+    AND (a.valid_to IS NULL OR b.due_date <= a.valid_to)
+)
+SELECT * FROM matched WHERE amount > 0;
+
+-- Total discount per item, never more than the item itself
+CREATE OR REPLACE VIEW public.item_discounts
+WITH (security_invoker = true)
+AS
+SELECT
+  b.item_key,
+  b.enrollment_id,
+  LEAST(b.amount, SUM(l.amount)) AS discount_amount
+FROM public.billable_items b
+JOIN public.discount_lines l ON l.item_key = b.item_key
+GROUP BY b.item_key, b.enrollment_id, b.amount;
+
+-- Payments go to the net amount of each installment, oldest first
+CREATE OR REPLACE VIEW public.installment_schedule
+WITH (security_invoker = true)
+AS
+WITH schedule AS (
+  SELECT
+    b.*,
+    COALESCE(d.discount_amount, 0) AS discount_amount
+  FROM public.billable_items b
+  LEFT JOIN public.item_discounts d ON d.item_key = b.item_key
+  WHERE b.item_type = 'installment'
+),
+allocated AS (
+  SELECT
+    s.*,
+    s.amount - s.discount_amount AS net_amount,
+    COALESCE(paid.total_paid, 0) - COALESCE(settled.total_settled, 0) - COALESCE(
+      SUM(s.amount - s.discount_amount) OVER (
+        PARTITION BY s.enrollment_id
+        ORDER BY s.due_date, s.sequence
+        ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+      ),
+      0
+    ) AS available
+  FROM schedule s
+  LEFT JOIN LATERAL (
+    SELECT SUM(p.amount) AS total_paid
+    FROM public.payments p
+    WHERE p.student_id = s.student_id AND p.academic_year_id = s.academic_year_id AND p.status = 'posted'
+  ) paid ON true
+  LEFT JOIN LATERAL (
+    SELECT SUM(a.amount) AS total_settled
+    FROM public.payment_allocations a
+    JOIN public.payments p ON p.id = a.payment_id
+    WHERE p.student_id = s.student_id AND p.academic_year_id = s.academic_year_id AND p.status = 'posted'
+  ) settled ON true
+)
+SELECT
+  installment_id AS id,
+  enrollment_id,
+  student_id,
+  academic_year_id,
+  sequence,
+  label,
+  due_date,
+  amount,
+  LEAST(net_amount, GREATEST(available, 0)) AS paid_amount,
+  net_amount - LEAST(net_amount, GREATEST(available, 0)) AS balance,
+  CASE
+    WHEN available >= net_amount OR net_amount <= 0 THEN 'paid'
+    WHEN due_date < CURRENT_DATE THEN 'overdue'
+    WHEN available > 0 THEN 'partial'
+    ELSE 'pending'
+  END AS status,
+  discount_amount
+FROM allocated;
+
+CREATE OR REPLACE VIEW public.charge_balances
+WITH (security_invoker = true)
+AS
+SELECT
+  c.id,
+  c.enrollment_id,
+  e.student_id,
+  e.academic_year_id,
+  c.fee_concept_id,
+  fc.name AS concept_name,
+  c.description,
+  c.due_date,
+  c.amount,
+  COALESCE(paid.paid_amount, 0) AS paid_amount,
+  c.amount - COALESCE(d.discount_amount, 0) - COALESCE(paid.paid_amount, 0) AS balance,
+  CASE
+    WHEN COALESCE(paid.paid_amount, 0) >= c.amount - COALESCE(d.discount_amount, 0) THEN 'paid'
+    WHEN c.due_date < CURRENT_DATE THEN 'overdue'
+    WHEN COALESCE(paid.paid_amount, 0) > 0 THEN 'partial'
+    ELSE 'pending'
+  END AS status,
+  COALESCE(d.discount_amount, 0) AS discount_amount
+FROM public.student_charges c
+JOIN public.enrollments e ON e.id = c.enrollment_id
+JOIN public.fee_concepts fc ON fc.id = c.fee_concept_id
+LEFT JOIN public.item_discounts d ON d.item_key = c.id::TEXT
+LEFT JOIN LATERAL (
+  SELECT SUM(a.amount) AS paid_amount
+  FROM public.payment_allocations a
+  JOIN public.payments p ON p.id = a.payment_id
+  WHERE a.charge_id = c.id AND p.status = 'posted'
+) paid ON true;
+
+-- Balances are net of discounts
+CREATE OR REPLACE VIEW public.student_directory
+WITH (security_invoker = true)
+AS
+SELECT
+  s.id,
+  s.first_name,
+  s.last_name,
+  s.id_number,
+  s.date_of_birth,
+  s.status,
+  s.status_effective_date,
+  s.family_id,
+  s.created_at,
+  e.id AS enrollment_id,
+  e.academic_year_id,
+  e.grade_level,
+  e.grade_level_id,
+  e.section_id,
+  sec.name AS section_name,
+  e.total_tuition,
+  COALESCE(paid.total_paid, 0) AS total_paid,
+  e.total_tuition + COALESCE(charges.total_charges, 0) - COALESCE(discounts.total_discounts, 0)
+    - COALESCE(paid.total_paid, 0) AS balance,
+  guardians.guardian_names,
+  to_tsvector(
+    'simple',
+    public.search_key(s.first_name || ' ' || s.last_name || ' ' || s.id_number || ' ' || COALESCE(guardians.guardian_names, ''))
+  ) AS search_vector,
+  (
+    SELECT COUNT(*)::INTEGER
+    FROM public.grade_level_required_documents r
+    WHERE r.grade_level_id = e.grade_level_id
+      AND NOT EXISTS (
+        SELECT 1 FROM public.student_documents d
+        WHERE d.student_id = s.id
+          AND d.document_type_id = r.document_type_id
+          AND (d.expires_on IS NULL OR d.expires_on >= CURRENT_DATE)
+      )
+  ) AS missing_documents,
+  s.custom_fields,
+  COALESCE(charges.total_charges, 0) AS total_charges,
+  COALESCE(discounts.total_discounts, 0) AS total_discounts
+FROM public.enrollments e
+JOIN public.students s ON s.id = e.student_id
+LEFT JOIN public.sections sec ON sec.id = e.section_id
+LEFT JOIN LATERAL (
+  SELECT SUM(p.amount) AS total_paid
+  FROM public.payments p
+  WHERE p.student_id = s.id AND p.academic_year_id = e.academic_year_id AND p.status = 'posted'
+) paid ON true
+LEFT JOIN LATERAL (
+  SELECT SUM(c.amount) AS total_charges
+  FROM public.student_charges c
+  WHERE c.enrollment_id = e.id
+) charges ON true
+LEFT JOIN LATERAL (
+  SELECT SUM(d.discount_amount) AS total_discounts
+  FROM public.item_discounts d
+  WHERE d.enrollment_id = e.id
+) discounts ON true
+LEFT JOIN LATERAL (
+  SELECT string_agg(g.full_name, ', ' ORDER BY g.is_primary_contact DESC, g.created_at) AS guardian_names
+  FROM public.parents g
+  WHERE g.family_id = s.family_id
+) guardians ON true;
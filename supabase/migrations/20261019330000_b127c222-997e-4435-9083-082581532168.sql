@@ -0,0 +1,335 @@
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+INSERT INTO public.fee_concepts (name) VALUES ('Recargo por mora')
+ON CONFLICT (name) DO NOTHING;
+
+-- Surcharge added once per rule to every item still unpaid after its due date plus the grace days
+CREATE TABLE public.late_fee_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  -- NULL means tuition installments
+  fee_concept_id UUID REFERENCES public.fee_concepts(id) ON DELETE RESTRICT,
+  -- Concept the surcharge is billed under
+  surcharge_concept_id UUID REFERENCES public.fee_concepts(id) ON DELETE RESTRICT NOT NULL,
+  value_type TEXT NOT NULL CHECK (value_type IN ('percentage', 'fixed')),
+  value DECIMAL(10,2) NOT NULL CHECK (value > 0),
+  grace_days INTEGER NOT NULL DEFAULT 0 CHECK (grace_days >= 0),
+  -- Caps per surcharge and per enrollment over the whole year
+  max_amount DECIMAL(10,2) CHECK (max_amount > 0),
+  max_total DECIMAL(10,2) CHECK (max_total > 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+  CHECK (value_type <> 'percentage' OR value <= 100),
+  CHECK (fee_concept_id IS DISTINCT FROM surcharge_concept_id)
+);
+
+ALTER TABLE public.late_fee_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view all late fee rules"
+  ON public.late_fee_rules FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can insert late fee rules"
+  ON public.late_fee_rules FOR INSERT
+  WITH CHECK (public.current_user_has_role(ARRAY['admin']));
+
+CREATE POLICY "Admins can update late fee rules"
+  ON public.late_fee_rules FOR UPDATE
+  USING (public.current_user_has_role(ARRAY['admin']));
+
+CREATE POLICY "Admins can delete late fee rules"
+  ON public.late_fee_rules FOR DELETE
+  USING (public.current_user_has_role(ARRAY['admin']));
+
+-- A surcharge remembers the item it was charged on, so the job never bills it twice,
+-- not even after it was waived
+ALTER TABLE public.student_charges
+  ADD COLUMN late_fee_rule_id UUID REFERENCES public.late_fee_rules(id) ON DELETE RESTRICT,
+  ADD COLUMN source_item_key TEXT,
+  ADD COLUMN waived_at TIMESTAMPTZ,
+  ADD COLUMN waived_by UUID REFERENCES auth.users(id),
+  ADD COLUMN waive_reason TEXT,
+  ADD CONSTRAINT student_charges_late_fee_source_check
+    CHECK ((late_fee_rule_id IS NULL) = (source_item_key IS NULL)),
+  ADD CONSTRAINT student_charges_waive_reason_check
+    CHECK (waived_at IS NULL OR waive_reason IS NOT NULL),
+  ADD CONSTRAINT student_charges_late_fee_unique UNIQUE (late_fee_rule_id, source_item_key);
+
+CREATE OR REPLACE FUNCTION public.waive_late_fee(p_charge_id UUID, p_reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_charge public.student_charges%ROWTYPE;
+BEGIN
+  IF NOT public.current_user_has_role(ARRAY['admin']) THEN
+    RAISE EXCEPTION 'Solo un administrador puede condonar recargos';
+  END IF;
+
+  IF COALESCE(TRIM(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Indique el motivo de la condonación';
+  END IF;
+
+  SELECT * INTO v_charge FROM public.student_charges WHERE id = p_charge_id FOR UPDATE;
+
+  IF v_charge.id IS NULL OR v_charge.late_fee_rule_id IS NULL THEN
+    RAISE EXCEPTION 'Recargo no encontrado';
+  END IF;
+
+  IF v_charge.waived_at IS NOT NULL THEN
+    RAISE EXCEPTION 'El recargo ya fue condonado';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.payment_allocations a
+    JOIN public.payments p ON p.id = a.payment_id
+    WHERE a.charge_id = p_charge_id AND p.status = 'posted'
+  ) THEN
+    RAISE EXCEPTION 'El recargo tiene pagos aplicados; anule o edite el pago primero';
+  END IF;
+
+  UPDATE public.student_charges
+  SET waived_at = NOW(),
+      waived_by = auth.uid(),
+      waive_reason = TRIM(p_reason)
+  WHERE id = p_charge_id;
+END;
+$$;
+
+-- Waived charges are no longer owed
+CREATE OR REPLACE VIEW public.billable_items
+WITH (security_invoker = true)
+AS
+SELECT
+  i.id::TEXT AS item_key,
+  'installment' AS item_type,
+  i.id AS installment_id,
+  NULL::UUID AS charge_id,
+  e.id AS enrollment_id,
+  e.student_id,
+  e.academic_year_id,
+  NULL::UUID AS fee_concept_id,
+  i.sequence,
+  i.label,
+  i.due_date,
+  i.amount
+FROM public.enrollments e
+JOIN public.student_installments i ON i.enrollment_id = e.id
+UNION ALL
+SELECT
+  'tuition:' || e.id,
+  'installment',
+  NULL,
+  NULL,
+  e.id,
+  e.student_id,
+  e.academic_year_id,
+  NULL,
+  1,
+  'Matrícula total',
+  y.start_date,
+  e.total_tuition
+FROM public.enrollments e
+JOIN public.academic_years y ON y.id = e.academic_year_id
+WHERE e.total_tuition > 0
+  AND NOT EXISTS (SELECT 1 FROM public.student_installments i WHERE i.enrollment_id = e.id)
+UNION ALL
+SELECT
+  c.id::TEXT,
+  'charge',
+  NULL,
+  c.id,
+  e.id,
+  e.student_id,
+  e.academic_year_id,
+  c.fee_concept_id,
+  NULL,
+  fc.name,
+  c.due_date,
+  c.amount
+FROM public.student_charges c
+JOIN public.enrollments e ON e.id = c.enrollment_id
+JOIN public.fee_concepts fc ON fc.id = c.fee_concept_id
+WHERE c.waived_at IS NULL;
+
+CREATE OR REPLACE VIEW public.charge_balances
+WITH (security_invoker = true)
+AS
+SELECT
+  c.id,
+  c.enrollment_id,
+  e.student_id,
+  e.academic_year_id,
+  c.fee_concept_id,
+  fc.name AS concept_name,
+  c.description,
+  c.due_date,
+  c.amount,
+  COALESCE(paid.paid_amount, 0) AS paid_amount,
+  c.amount - COALESCE(d.discount_amount, 0) - COALESCE(paid.paid_amount, 0) AS balance,
+  CASE
+    WHEN COALESCE(paid.paid_amount, 0) >= c.amount - COALESCE(d.discount_amount, 0) THEN 'paid'
+    WHEN c.due_date < CURRENT_DATE THEN 'overdue'
+    WHEN COALESCE(paid.paid_amount, 0) > 0 THEN 'partial'
+    ELSE 'pending'
+  END AS status,
+  COALESCE(d.discount_amount, 0) AS discount_amount,
+  c.late_fee_rule_id
+FROM public.student_charges c
+JOIN public.enrollments e ON e.id = c.enrollment_id
+JOIN public.fee_concepts fc ON fc.id = c.fee_concept_id
+LEFT JOIN public.item_discounts d ON d.item_key = c.id::TEXT
+LEFT JOIN LATERAL (
+  SELECT SUM(a.amount) AS paid_amount
+  FROM public.payment_allocations a
+  JOIN public.payments p ON p.id = a.payment_id
+  WHERE a.charge_id = c.id AND p.status = 'posted'
+) paid ON true
+WHERE c.waived_at IS NULL;
+
+CREATE OR REPLACE VIEW public.student_directory
+WITH (security_invoker = true)
+AS
+SELECT
+  s.id,
+  s.first_name,
+  s.last_name,
+  s.id_number,
+  s.date_of_birth,
+  s.status,
+  s.status_effective_date,
+  s.family_id,
+  s.created_at,
+  e.id AS enrollment_id,
+  e.academic_year_id,
+  e.grade_level,
+  e.grade_level_id,
+  e.section_id,
+  sec.name AS section_name,
+  e.total_tuition,
+  COALESCE(paid.total_paid, 0) AS total_paid,
+  e.total_tuition + COALESCE(charges.total_charges, 0) - COALESCE(discounts.total_discounts, 0)
+    - COALESCE(paid.total_paid, 0) AS balance,
+  guardians.guardian_names,
+  to_tsvector(
+    'simple',
+    public.search_key(s.first_name || ' ' || s.last_name || ' ' || s.id_number || ' ' || COALESCE(guardians.guardian_names, ''))
+  ) AS search_vector,
+  (
+    SELECT COUNT(*)::INTEGER
+    FROM public.grade_level_required_documents r
+    WHERE r.grade_level_id = e.grade_level_id
+      AND NOT EXISTS (
+        SELECT 1 FROM public.student_documents d
+        WHERE d.student_id = s.id
+          AND d.document_type_id = r.document_type_id
+          AND (d.expires_on IS NULL OR d.expires_on >= CURRENT_DATE)
+      )
+  ) AS missing_documents,
+  s.custom_fields,
+  COALESCE(charges.total_charges, 0) AS total_charges,
+  COALESCE(discounts.total_discounts, 0) AS total_discounts
+FROM public.enrollments e
+JOIN public.students s ON s.id = e.student_id
+LEFT JOIN public.sections sec ON sec.id = e.section_id
+LEFT JOIN LATERAL (
+  SELECT SUM(p.amount) AS total_paid
+  FROM public.payments p
+  WHERE p.student_id = s.id AND p.academic_year_id = e.academic_year_id AND p.status = 'posted'
+) paid ON true
+LEFT JOIN LATERAL (
+  SELECT SUM(c.amount) AS total_charges
+  FROM public.student_charges c
+  WHERE c.enrollment_id = e.id AND c.waived_at IS NULL
+) charges ON true
+LEFT JOIN LATERAL (
+  SELECT SUM(d.discount_amount) AS total_discounts
+  FROM public.item_discounts d
+  WHERE d.enrollment_id = e.id
+) discounts ON true
+LEFT JOIN LATERAL (
+  SELECT string_agg(g.full_name, ', ' ORDER BY g.is_primary_contact DESC, g.created_at) AS guardian_names
+  FROM public.parents g
+  WHERE g.family_id = s.family_id
+) guardians ON true;
+
+-- Runs unattended from pg_cron, so it bypasses RLS; signed-in callers must be admins.
+-- Percentages apply to the balance still owed on the item when the surcharge is added
+CREATE OR REPLACE FUNCTION public.apply_late_fees(p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_item RECORD;
+  v_amount NUMERIC;
+  v_charged NUMERIC;
+  v_count INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.current_user_has_role(ARRAY['admin']) THEN
+    RAISE EXCEPTION 'Solo un administrador puede aplicar recargos';
+  END IF;
+
+  FOR v_item IN
+    SELECT r.*, o.item_key, o.enrollment_id, o.label, o.balance
+    FROM public.late_fee_rules r
+    JOIN (
+      SELECT COALESCE(i.id::TEXT, 'tuition:' || i.enrollment_id) AS item_key, i.enrollment_id,
+        NULL::UUID AS fee_concept_id, i.label, i.due_date, i.sequence, i.balance
+      FROM public.installment_schedule i
+      UNION ALL
+      SELECT c.id::TEXT, c.enrollment_id, c.fee_concept_id, c.concept_name, c.due_date, NULL, c.balance
+      FROM public.charge_balances c
+      WHERE c.late_fee_rule_id IS NULL
+    ) o ON o.fee_concept_id IS NOT DISTINCT FROM r.fee_concept_id
+    JOIN public.enrollments e ON e.id = o.enrollment_id
+    JOIN public.students s ON s.id = e.student_id
+    WHERE r.is_active
+      AND s.status = 'active'
+      AND o.balance > 0
+      AND o.due_date + r.grace_days < p_as_of
+      AND NOT EXISTS (
+        SELECT 1 FROM public.student_charges c
+        WHERE c.late_fee_rule_id = r.id AND c.source_item_key = o.item_key
+      )
+    ORDER BY o.enrollment_id, r.id, o.due_date, o.sequence
+  LOOP
+    v_amount := CASE
+      WHEN v_item.value_type = 'percentage' THEN ROUND(v_item.balance * v_item.value / 100, 2)
+      ELSE v_item.value
+    END;
+    v_amount := LEAST(v_amount, COALESCE(v_item.max_amount, v_amount));
+
+    IF v_item.max_total IS NOT NULL THEN
+      SELECT COALESCE(SUM(c.amount), 0) INTO v_charged
+      FROM public.student_charges c
+      WHERE c.enrollment_id = v_item.enrollment_id
+        AND c.late_fee_rule_id = v_item.id
+        AND c.waived_at IS NULL;
+
+      v_amount := LEAST(v_amount, v_item.max_total - v_charged);
+    END IF;
+
+    IF v_amount > 0 THEN
+      INSERT INTO public.student_charges (
+        enrollment_id, fee_concept_id, description, due_date, amount, late_fee_rule_id, source_item_key
+      )
+      VALUES (
+        v_item.enrollment_id, v_item.surcharge_concept_id, v_item.name || ': ' || v_item.label, p_as_of,
+        v_amount, v_item.id, v_item.item_key
+      );
+      v_count := v_count + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_late_fees(DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.apply_late_fees(DATE) TO authenticated;
+
+SELECT cron.schedule('apply-late-fees', '0 6 * * *', 'SELECT public.apply_late_fees()');
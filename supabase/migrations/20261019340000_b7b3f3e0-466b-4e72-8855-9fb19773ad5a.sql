@@ -0,0 +1,154 @@
+-- How the money came in and who handed it over, which is often not the guardian on file.
+-- Older payments keep a NULL method
+ALTER TABLE public.payments
+  ADD COLUMN method TEXT CHECK (method IN ('cash', 'transfer', 'card', 'check', 'mobile_wallet')),
+  ADD COLUMN reference TEXT,
+  ADD COLUMN payer_name TEXT,
+  ADD COLUMN payer_id_number TEXT,
+  -- Proof of payment image, stored in the student's folder of the documents bucket
+  ADD COLUMN proof_path TEXT;
+
+CREATE INDEX payments_reference_idx ON public.payments (reference);
+
+DROP FUNCTION public.record_payment(UUID, UUID, NUMERIC, DATE, TEXT, JSONB);
+
+CREATE OR REPLACE FUNCTION public.record_payment(
+  p_student_id UUID,
+  p_academic_year_id UUID,
+  p_amount NUMERIC,
+  p_payment_date DATE,
+  p_method TEXT,
+  p_notes TEXT DEFAULT NULL,
+  p_allocations JSONB DEFAULT '[]',
+  p_reference TEXT DEFAULT NULL,
+  p_payer_name TEXT DEFAULT NULL,
+  p_payer_id_number TEXT DEFAULT NULL,
+  p_proof_path TEXT DEFAULT NULL
+)
+RETURNS public.payments
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_payment public.payments%ROWTYPE;
+  v_allocation JSONB;
+  v_charge public.charge_balances%ROWTYPE;
+  v_allocated NUMERIC := 0;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'El monto debe ser mayor a 0';
+  END IF;
+
+  IF p_method IS NULL THEN
+    RAISE EXCEPTION 'Seleccione el método de pago';
+  END IF;
+
+  IF p_method IN ('transfer', 'check') AND COALESCE(trim(p_reference), '') = '' THEN
+    RAISE EXCEPTION 'Indique el número de referencia';
+  END IF;
+
+  INSERT INTO public.payments (
+    student_id, academic_year_id, amount, payment_date, notes, method, reference, payer_name, payer_id_number,
+    proof_path, created_by
+  )
+  VALUES (
+    p_student_id, p_academic_year_id, p_amount, p_payment_date, NULLIF(trim(p_notes), ''), p_method,
+    NULLIF(trim(p_reference), ''), NULLIF(trim(p_payer_name), ''), NULLIF(trim(p_payer_id_number), ''),
+    p_proof_path, auth.uid()
+  )
+  RETURNING * INTO v_payment;
+
+  FOR v_allocation IN SELECT * FROM jsonb_array_elements(COALESCE(p_allocations, '[]'::jsonb))
+  LOOP
+    SELECT * INTO v_charge FROM public.charge_balances WHERE id = (v_allocation->>'charge_id')::UUID;
+
+    IF v_charge.id IS NULL
+       OR v_charge.student_id <> p_student_id
+       OR v_charge.academic_year_id <> p_academic_year_id THEN
+      RAISE EXCEPTION 'El cargo no pertenece al estudiante en este año';
+    END IF;
+
+    IF (v_allocation->>'amount')::NUMERIC <= 0 THEN
+      RAISE EXCEPTION 'El monto asignado a % debe ser mayor a 0', v_charge.concept_name;
+    END IF;
+
+    IF (v_allocation->>'amount')::NUMERIC > v_charge.balance THEN
+      RAISE EXCEPTION 'El monto asignado a % supera su saldo (%)', v_charge.concept_name, v_charge.balance;
+    END IF;
+
+    INSERT INTO public.payment_allocations (payment_id, charge_id, amount)
+    VALUES (v_payment.id, v_charge.id, (v_allocation->>'amount')::NUMERIC);
+
+    v_allocated := v_allocated + (v_allocation->>'amount')::NUMERIC;
+  END LOOP;
+
+  IF v_allocated > p_amount THEN
+    RAISE EXCEPTION 'Los montos asignados superan el monto del pago';
+  END IF;
+
+  RETURN v_payment;
+END;
+$$;
+
+-- Refunds go back the same way the payment came in
+CREATE OR REPLACE FUNCTION public.refund_payment(
+  p_payment_id UUID,
+  p_amount NUMERIC,
+  p_payment_date DATE,
+  p_reason TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_payment public.payments%ROWTYPE;
+  v_refundable NUMERIC;
+  v_refund_id UUID;
+BEGIN
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Indique el motivo del reembolso';
+  END IF;
+
+  SELECT * INTO v_payment FROM public.payments WHERE id = p_payment_id FOR UPDATE;
+
+  IF v_payment.id IS NULL THEN
+    RAISE EXCEPTION 'Pago no encontrado';
+  END IF;
+
+  IF v_payment.status = 'voided' THEN
+    RAISE EXCEPTION 'No se puede reembolsar un pago anulado';
+  END IF;
+
+  IF v_payment.refund_of IS NOT NULL THEN
+    RAISE EXCEPTION 'No se puede reembolsar un reembolso';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'El monto debe ser mayor a 0';
+  END IF;
+
+  v_refundable := public.payment_refundable_amount(p_payment_id);
+  IF p_amount > v_refundable THEN
+    RAISE EXCEPTION 'El reembolso supera el monto reembolsable (%)', v_refundable;
+  END IF;
+
+  INSERT INTO public.payments (
+    student_id, academic_year_id, amount, payment_date, notes, refund_of, method, payer_name, payer_id_number, created_by
+  )
+  VALUES (
+    v_payment.student_id, v_payment.academic_year_id, -p_amount, p_payment_date, trim(p_reason), p_payment_id,
+    v_payment.method, v_payment.payer_name, v_payment.payer_id_number, auth.uid()
+  )
+  RETURNING id INTO v_refund_id;
+
+  INSERT INTO public.payment_adjustments (
+    payment_id, action, reason, previous_amount, previous_payment_date, previous_notes, refund_payment_id, created_by
+  )
+  VALUES (
+    p_payment_id, 'refund', trim(p_reason), v_payment.amount, v_payment.payment_date, v_payment.notes, v_refund_id, auth.uid()
+  );
+
+  RETURN v_refund_id;
+END;
+$$;
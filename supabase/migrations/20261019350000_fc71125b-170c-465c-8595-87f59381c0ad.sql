@@ -0,0 +1,199 @@
+-- A cashier's shift at the register, from opening to the close-out count
+CREATE TABLE public.cash_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  opened_by UUID REFERENCES auth.users(id) NOT NULL,
+  -- Fixed when the session opens, since cashiers cannot read each other's profiles
+  cashier_name TEXT,
+  opened_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  opening_cash DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (opening_cash >= 0),
+  closed_at TIMESTAMPTZ,
+  closed_by UUID REFERENCES auth.users(id),
+  expected_cash DECIMAL(10,2),
+  counted_cash DECIMAL(10,2) CHECK (counted_cash >= 0),
+  close_notes TEXT,
+  reopened_at TIMESTAMPTZ,
+  reopened_by UUID REFERENCES auth.users(id),
+  reopen_reason TEXT,
+  CHECK (closed_at IS NULL OR (expected_cash IS NOT NULL AND counted_cash IS NOT NULL))
+);
+
+-- One open session per cashier at a time
+CREATE UNIQUE INDEX cash_sessions_open_idx ON public.cash_sessions (opened_by) WHERE closed_at IS NULL;
+
+ALTER TABLE public.cash_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view all cash sessions"
+  ON public.cash_sessions FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can insert cash sessions"
+  ON public.cash_sessions FOR INSERT
+  WITH CHECK (opened_by = auth.uid() AND closed_at IS NULL);
+
+-- Cashiers close their own session; once closed only an admin may touch it
+CREATE POLICY "Admins can update cash sessions"
+  ON public.cash_sessions FOR UPDATE
+  USING ((opened_by = auth.uid() AND closed_at IS NULL) OR public.current_user_has_role(ARRAY['admin']));
+
+ALTER TABLE public.payments
+  ADD COLUMN cash_session_id UUID REFERENCES public.cash_sessions(id);
+
+CREATE INDEX payments_cash_session_id_idx ON public.payments (cash_session_id);
+
+CREATE OR REPLACE FUNCTION public.open_cash_session(p_opening_cash NUMERIC)
+RETURNS public.cash_sessions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_session public.cash_sessions%ROWTYPE;
+BEGIN
+  IF p_opening_cash IS NULL OR p_opening_cash < 0 THEN
+    RAISE EXCEPTION 'El fondo inicial no puede ser negativo';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.cash_sessions WHERE opened_by = auth.uid() AND closed_at IS NULL) THEN
+    RAISE EXCEPTION 'Ya tiene una caja abierta';
+  END IF;
+
+  INSERT INTO public.cash_sessions (opened_by, cashier_name, opening_cash)
+  VALUES (auth.uid(), (SELECT full_name FROM public.profiles WHERE id = auth.uid()), p_opening_cash)
+  RETURNING * INTO v_session;
+
+  RETURN v_session;
+END;
+$$;
+
+-- Expected cash is the opening float plus the cash movements recorded in the session,
+-- refunds included as negative amounts
+CREATE OR REPLACE FUNCTION public.close_cash_session(p_session_id UUID, p_counted_cash NUMERIC, p_notes TEXT DEFAULT NULL)
+RETURNS public.cash_sessions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_session public.cash_sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_session FROM public.cash_sessions WHERE id = p_session_id FOR UPDATE;
+
+  IF v_session.id IS NULL THEN
+    RAISE EXCEPTION 'Caja no encontrada';
+  END IF;
+
+  IF v_session.opened_by <> auth.uid() AND NOT public.current_user_has_role(ARRAY['admin']) THEN
+    RAISE EXCEPTION 'Solo el cajero o un administrador pueden cerrar la caja';
+  END IF;
+
+  IF v_session.closed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'La caja ya está cerrada';
+  END IF;
+
+  IF p_counted_cash IS NULL OR p_counted_cash < 0 THEN
+    RAISE EXCEPTION 'Indique el efectivo contado';
+  END IF;
+
+  UPDATE public.cash_sessions
+  SET closed_at = NOW(),
+      closed_by = auth.uid(),
+      expected_cash = v_session.opening_cash + COALESCE((
+        SELECT SUM(amount)
+        FROM public.payments
+        WHERE cash_session_id = p_session_id AND method = 'cash' AND status = 'posted'
+      ), 0),
+      counted_cash = p_counted_cash,
+      close_notes = NULLIF(trim(p_notes), '')
+  WHERE id = p_session_id
+  RETURNING * INTO v_session;
+
+  RETURN v_session;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reopen_cash_session(p_session_id UUID, p_reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_session public.cash_sessions%ROWTYPE;
+BEGIN
+  IF NOT public.current_user_has_role(ARRAY['admin']) THEN
+    RAISE EXCEPTION 'Solo un administrador puede reabrir una caja';
+  END IF;
+
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Indique el motivo de la reapertura';
+  END IF;
+
+  SELECT * INTO v_session FROM public.cash_sessions WHERE id = p_session_id FOR UPDATE;
+
+  IF v_session.id IS NULL THEN
+    RAISE EXCEPTION 'Caja no encontrada';
+  END IF;
+
+  IF v_session.closed_at IS NULL THEN
+    RAISE EXCEPTION 'La caja ya está abierta';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.cash_sessions WHERE opened_by = v_session.opened_by AND closed_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'El cajero tiene otra caja abierta; ciérrela primero';
+  END IF;
+
+  UPDATE public.cash_sessions
+  SET closed_at = NULL,
+      closed_by = NULL,
+      expected_cash = NULL,
+      counted_cash = NULL,
+      reopened_at = NOW(),
+      reopened_by = auth.uid(),
+      reopen_reason = trim(p_reason)
+  WHERE id = p_session_id;
+END;
+$$;
+
+-- Payments join the open session of whoever records them
+CREATE OR REPLACE FUNCTION public.assign_payment_cash_session()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  SELECT id INTO NEW.cash_session_id
+  FROM public.cash_sessions
+  WHERE opened_by = NEW.created_by AND closed_at IS NULL;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_payment_cash_session
+  BEFORE INSERT ON public.payments
+  FOR EACH ROW EXECUTE FUNCTION public.assign_payment_cash_session();
+
+-- Edits and voids are locked once the session is closed; refunds are new movements
+-- in the current session and stay allowed
+CREATE OR REPLACE FUNCTION public.protect_closed_session_payments()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.cash_sessions WHERE id = OLD.cash_session_id AND closed_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'El pago pertenece a una caja cerrada; un administrador debe reabrirla para modificarlo';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+
+  NEW.cash_session_id := OLD.cash_session_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_closed_session_payments
+  BEFORE UPDATE OR DELETE ON public.payments
+  FOR EACH ROW EXECUTE FUNCTION public.protect_closed_session_payments();
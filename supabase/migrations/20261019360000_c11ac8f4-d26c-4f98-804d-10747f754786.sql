@@ -0,0 +1,84 @@
+-- Open balances of each enrollment by days past due; items due today or later are current
+CREATE OR REPLACE VIEW public.receivables_aging
+WITH (security_invoker = true)
+AS
+WITH open_items AS (
+  SELECT enrollment_id, due_date, balance FROM public.installment_schedule WHERE balance > 0
+  UNION ALL
+  SELECT enrollment_id, due_date, balance FROM public.charge_balances WHERE balance > 0
+)
+SELECT
+  e.id AS enrollment_id,
+  e.student_id,
+  e.academic_year_id,
+  s.first_name,
+  s.last_name,
+  s.id_number,
+  s.status,
+  s.family_id,
+  f.name AS family_name,
+  e.grade_level_id,
+  e.grade_level,
+  COALESCE(SUM(o.balance) FILTER (WHERE o.due_date >= CURRENT_DATE), 0) AS current_amount,
+  COALESCE(SUM(o.balance) FILTER (WHERE CURRENT_DATE - o.due_date BETWEEN 1 AND 30), 0) AS days_1_30,
+  COALESCE(SUM(o.balance) FILTER (WHERE CURRENT_DATE - o.due_date BETWEEN 31 AND 60), 0) AS days_31_60,
+  COALESCE(SUM(o.balance) FILTER (WHERE CURRENT_DATE - o.due_date BETWEEN 61 AND 90), 0) AS days_61_90,
+  COALESCE(SUM(o.balance) FILTER (WHERE CURRENT_DATE - o.due_date > 90), 0) AS days_over_90,
+  SUM(o.balance) AS total
+FROM open_items o
+JOIN public.enrollments e ON e.id = o.enrollment_id
+JOIN public.students s ON s.id = e.student_id
+LEFT JOIN public.families f ON f.id = s.family_id
+GROUP BY e.id, s.id, f.id;
+
+-- The same buckets rolled up by student, family or grade level. Students without a family
+-- count as a family of their own, flagged with is_family = false
+CREATE OR REPLACE FUNCTION public.receivables_aging_summary(p_academic_year_id UUID, p_group_by TEXT)
+RETURNS TABLE (
+  group_id UUID,
+  group_name TEXT,
+  is_family BOOLEAN,
+  students INTEGER,
+  current_amount NUMERIC,
+  days_1_30 NUMERIC,
+  days_31_60 NUMERIC,
+  days_61_90 NUMERIC,
+  days_over_90 NUMERIC,
+  total NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF p_group_by NOT IN ('student', 'family', 'grade_level') THEN
+    RAISE EXCEPTION 'Agrupación no válida: %', p_group_by;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    CASE p_group_by
+      WHEN 'family' THEN COALESCE(a.family_id, a.student_id)
+      WHEN 'grade_level' THEN a.grade_level_id
+      ELSE a.student_id
+    END,
+    CASE p_group_by
+      WHEN 'family' THEN COALESCE(a.family_name, a.last_name || ', ' || a.first_name)
+      WHEN 'grade_level' THEN COALESCE(g.name, a.grade_level)
+      ELSE a.last_name || ', ' || a.first_name
+    END,
+    p_group_by = 'family' AND a.family_id IS NOT NULL,
+    COUNT(*)::INTEGER,
+    SUM(a.current_amount),
+    SUM(a.days_1_30),
+    SUM(a.days_31_60),
+    SUM(a.days_61_90),
+    SUM(a.days_over_90),
+    SUM(a.total)
+  FROM public.receivables_aging a
+  LEFT JOIN public.grade_levels g ON g.id = a.grade_level_id
+  WHERE a.academic_year_id = p_academic_year_id
+  GROUP BY 1, 2, 3
+  ORDER BY MIN(CASE WHEN p_group_by = 'grade_level' THEN g.sort_order END), 2;
+END;
+$$;
@@ -0,0 +1,77 @@
+-- Every movement on a student account, as used by the account statement. Amounts are signed:
+-- positive raises the balance owed, negative lowers it. A voided payment keeps its original
+-- line and gets a reversal on the day it was voided
+CREATE OR REPLACE VIEW public.account_movements
+WITH (security_invoker = true)
+AS
+SELECT
+  'item:' || b.item_key AS movement_key,
+  b.student_id,
+  s.family_id,
+  b.academic_year_id,
+  b.due_date AS movement_date,
+  'charge' AS movement_type,
+  1 AS sort_order,
+  b.label AS description,
+  NULL::UUID AS payment_id,
+  NULL::INTEGER AS receipt_number,
+  NULL::TEXT AS method,
+  b.amount
+FROM public.billable_items b
+JOIN public.students s ON s.id = b.student_id
+UNION ALL
+SELECT
+  'discount:' || b.item_key,
+  b.student_id,
+  s.family_id,
+  b.academic_year_id,
+  b.due_date,
+  'discount',
+  2,
+  b.label || COALESCE(' · ' || rules.rule_names, ''),
+  NULL,
+  NULL,
+  NULL,
+  -d.discount_amount
+FROM public.item_discounts d
+JOIN public.billable_items b ON b.item_key = d.item_key
+JOIN public.students s ON s.id = b.student_id
+LEFT JOIN LATERAL (
+  SELECT string_agg(l.rule_name, ', ' ORDER BY l.rule_name) AS rule_names
+  FROM public.discount_lines l
+  WHERE l.item_key = d.item_key
+) rules ON true
+WHERE d.discount_amount > 0
+UNION ALL
+SELECT
+  'payment:' || p.id,
+  p.student_id,
+  s.family_id,
+  p.academic_year_id,
+  p.payment_date,
+  CASE WHEN p.refund_of IS NULL THEN 'payment' ELSE 'refund' END,
+  CASE WHEN p.refund_of IS NULL THEN 3 ELSE 4 END,
+  p.notes,
+  p.id,
+  p.receipt_number,
+  p.method,
+  -p.amount
+FROM public.payments p
+JOIN public.students s ON s.id = p.student_id
+UNION ALL
+SELECT
+  'void:' || p.id,
+  p.student_id,
+  s.family_id,
+  p.academic_year_id,
+  p.voided_at::DATE,
+  'void',
+  5,
+  p.void_reason,
+  p.id,
+  p.receipt_number,
+  p.method,
+  p.amount
+FROM public.payments p
+JOIN public.students s ON s.id = p.student_id
+WHERE p.status = 'voided';
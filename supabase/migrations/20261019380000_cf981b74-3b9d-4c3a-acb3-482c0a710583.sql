@@ -0,0 +1,121 @@
+-- The directory search used to build a tsvector for every student on each query. It is now a
+-- stored column with a GIN index; guardian names live on parents, so a copy is kept on each
+-- student for the generated column to read
+ALTER TABLE public.students ADD COLUMN guardian_names TEXT;
+
+CREATE OR REPLACE FUNCTION public.family_guardian_names(p_family_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT string_agg(g.full_name, ', ' ORDER BY g.is_primary_contact DESC, g.created_at)
+  FROM public.parents g
+  WHERE g.family_id = p_family_id;
+$$;
+
+UPDATE public.students
+SET guardian_names = public.family_guardian_names(family_id)
+WHERE family_id IS NOT NULL;
+
+ALTER TABLE public.students
+  ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+    to_tsvector(
+      'simple'::regconfig,
+      public.search_key(first_name || ' ' || last_name || ' ' || id_number || ' ' || COALESCE(guardian_names, ''))
+    )
+  ) STORED;
+
+CREATE INDEX students_search_vector_idx ON public.students USING GIN (search_vector);
+
+CREATE OR REPLACE FUNCTION public.set_student_guardian_names()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.guardian_names := public.family_guardian_names(NEW.family_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_student_guardian_names
+  BEFORE INSERT OR UPDATE OF family_id ON public.students
+  FOR EACH ROW EXECUTE FUNCTION public.set_student_guardian_names();
+
+-- Any guardian change refreshes the copy on every student of the families involved
+CREATE OR REPLACE FUNCTION public.refresh_student_guardian_names()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.students
+  SET guardian_names = public.family_guardian_names(family_id)
+  WHERE family_id IN (OLD.family_id, NEW.family_id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_student_guardian_names
+  AFTER INSERT OR UPDATE OF family_id, full_name, is_primary_contact OR DELETE ON public.parents
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_student_guardian_names();
+
+-- Same directory, reading the stored search columns
+CREATE OR REPLACE VIEW public.student_directory
+WITH (security_invoker = true)
+AS
+SELECT
+  s.id,
+  s.first_name,
+  s.last_name,
+  s.id_number,
+  s.date_of_birth,
+  s.status,
+  s.status_effective_date,
+  s.family_id,
+  s.created_at,
+  e.id AS enrollment_id,
+  e.academic_year_id,
+  e.grade_level,
+  e.grade_level_id,
+  e.section_id,
+  sec.name AS section_name,
+  e.total_tuition,
+  COALESCE(paid.total_paid, 0) AS total_paid,
+  e.total_tuition + COALESCE(charges.total_charges, 0) - COALESCE(discounts.total_discounts, 0)
+    - COALESCE(paid.total_paid, 0) AS balance,
+  s.guardian_names,
+  s.search_vector,
+  (
+    SELECT COUNT(*)::INTEGER
+    FROM public.grade_level_required_documents r
+    WHERE r.grade_level_id = e.grade_level_id
+      AND NOT EXISTS (
+        SELECT 1 FROM public.student_documents d
+        WHERE d.student_id = s.id
+          AND d.document_type_id = r.document_type_id
+          AND (d.expires_on IS NULL OR d.expires_on >= CURRENT_DATE)
+      )
+  ) AS missing_documents,
+  s.custom_fields,
+  COALESCE(charges.total_charges, 0) AS total_charges,
+  COALESCE(discounts.total_discounts, 0) AS total_discounts
+FROM public.enrollments e
+JOIN public.students s ON s.id = e.student_id
+LEFT JOIN public.sections sec ON sec.id = e.section_id
+LEFT JOIN LATERAL (
+  SELECT SUM(p.amount) AS total_paid
+  FROM public.payments p
+  WHERE p.student_id = s.id AND p.academic_year_id = e.academic_year_id AND p.status = 'posted'
+) paid ON true
+LEFT JOIN LATERAL (
+  SELECT SUM(c.amount) AS total_charges
+  FROM public.student_charges c
+  WHERE c.enrollment_id = e.id AND c.waived_at IS NULL
+) charges ON true
+LEFT JOIN LATERAL (
+  SELECT SUM(d.discount_amount) AS total_discounts
+  FROM public.item_discounts d
+  WHERE d.enrollment_id = e.id
+) discounts ON true;
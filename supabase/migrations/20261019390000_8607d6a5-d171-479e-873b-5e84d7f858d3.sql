@@ -0,0 +1,210 @@
+-- What each allocation still settles once its payment's refunds are taken out. Refunds come off
+-- the payment's allocations first, latest due charge first, and only the rest off tuition
+CREATE OR REPLACE VIEW public.net_allocations
+WITH (security_invoker = true)
+AS
+SELECT
+  a.id,
+  a.payment_id,
+  a.charge_id,
+  a.amount - LEAST(
+    a.amount,
+    GREATEST(
+      COALESCE(refunded.refunded_amount, 0) - COALESCE(
+        SUM(a.amount) OVER (
+          PARTITION BY a.payment_id
+          ORDER BY c.due_date DESC, a.id
+          ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+        ),
+        0
+      ),
+      0
+    )
+  ) AS amount
+FROM public.payment_allocations a
+JOIN public.payments p ON p.id = a.payment_id
+JOIN public.student_charges c ON c.id = a.charge_id
+LEFT JOIN LATERAL (
+  SELECT -SUM(r.amount) AS refunded_amount
+  FROM public.payments r
+  WHERE r.refund_of = p.id AND r.status = 'posted'
+) refunded ON true
+WHERE p.status = 'posted';
+
+CREATE OR REPLACE VIEW public.installment_schedule
+WITH (security_invoker = true)
+AS
+WITH schedule AS (
+  SELECT
+    b.*,
+    COALESCE(d.discount_amount, 0) AS discount_amount
+  FROM public.billable_items b
+  LEFT JOIN public.item_discounts d ON d.item_key = b.item_key
+  WHERE b.item_type = 'installment'
+),
+allocated AS (
+  SELECT
+    s.*,
+    s.amount - s.discount_amount AS net_amount,
+    COALESCE(paid.total_paid, 0) - COALESCE(settled.total_settled, 0) - COALESCE(
+      SUM(s.amount - s.discount_amount) OVER (
+        PARTITION BY s.enrollment_id
+        ORDER BY s.due_date, s.sequence
+        ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+      ),
+      0
+    ) AS available
+  FROM schedule s
+  LEFT JOIN LATERAL (
+    SELECT SUM(p.amount) AS total_paid
+    FROM public.payments p
+    WHERE p.student_id = s.student_id AND p.academic_year_id = s.academic_year_id AND p.status = 'posted'
+  ) paid ON true
+  LEFT JOIN LATERAL (
+    SELECT SUM(a.amount) AS total_settled
+    FROM public.net_allocations a
+    JOIN public.payments p ON p.id = a.payment_id
+    WHERE p.student_id = s.student_id AND p.academic_year_id = s.academic_year_id
+  ) settled ON true
+)
+SELECT
+  installment_id AS id,
+  enrollment_id,
+  student_id,
+  academic_year_id,
+  sequence,
+  label,
+  due_date,
+  amount,
+  LEAST(net_amount, GREATEST(available, 0)) AS paid_amount,
+  net_amount - LEAST(net_amount, GREATEST(available, 0)) AS balance,
+  CASE
+    WHEN available >= net_amount OR net_amount <= 0 THEN 'paid'
+    WHEN due_date < CURRENT_DATE THEN 'overdue'
+    WHEN available > 0 THEN 'partial'
+    ELSE 'pending'
+  END AS status,
+  discount_amount
+FROM allocated;
+
+CREATE OR REPLACE VIEW public.charge_balances
+WITH (security_invoker = true)
+AS
+SELECT
+  c.id,
+  c.enrollment_id,
+  e.student_id,
+  e.academic_year_id,
+  c.fee_concept_id,
+  fc.name AS concept_name,
+  c.description,
+  c.due_date,
+  c.amount,
+  COALESCE(paid.paid_amount, 0) AS paid_amount,
+  c.amount - COALESCE(d.discount_amount, 0) - COALESCE(paid.paid_amount, 0) AS balance,
+  CASE
+    WHEN COALESCE(paid.paid_amount, 0) >= c.amount - COALESCE(d.discount_amount, 0) THEN 'paid'
+    WHEN c.due_date < CURRENT_DATE THEN 'overdue'
+    WHEN COALESCE(paid.paid_amount, 0) > 0 THEN 'partial'
+    ELSE 'pending'
+  END AS status,
+  COALESCE(d.discount_amount, 0) AS discount_amount,
+  c.late_fee_rule_id
+FROM public.student_charges c
+JOIN public.enrollments e ON e.id = c.enrollment_id
+JOIN public.fee_concepts fc ON fc.id = c.fee_concept_id
+LEFT JOIN public.item_discounts d ON d.item_key = c.id::TEXT
+LEFT JOIN LATERAL (
+  SELECT SUM(a.amount) AS paid_amount
+  FROM public.net_allocations a
+  WHERE a.charge_id = c.id
+) paid ON true
+WHERE c.waived_at IS NULL;
+
+-- Charge rows are locked before their balances are checked so two payments cannot both
+-- settle the same balance
+CREATE OR REPLACE FUNCTION public.record_payment(
+  p_student_id UUID,
+  p_academic_year_id UUID,
+  p_amount NUMERIC,
+  p_payment_date DATE,
+  p_method TEXT,
+  p_notes TEXT DEFAULT NULL,
+  p_allocations JSONB DEFAULT '[]',
+  p_reference TEXT DEFAULT NULL,
+  p_payer_name TEXT DEFAULT NULL,
+  p_payer_id_number TEXT DEFAULT NULL,
+  p_proof_path TEXT DEFAULT NULL
+)
+RETURNS public.payments
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_payment public.payments%ROWTYPE;
+  v_allocation JSONB;
+  v_charge public.charge_balances%ROWTYPE;
+  v_allocated NUMERIC := 0;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'El monto debe ser mayor a 0';
+  END IF;
+
+  IF p_method IS NULL THEN
+    RAISE EXCEPTION 'Seleccione el método de pago';
+  END IF;
+
+  IF p_method IN ('transfer', 'check') AND COALESCE(trim(p_reference), '') = '' THEN
+    RAISE EXCEPTION 'Indique el número de referencia';
+  END IF;
+
+  PERFORM 1
+  FROM public.student_charges
+  WHERE id IN (
+    SELECT (value->>'charge_id')::UUID FROM jsonb_array_elements(COALESCE(p_allocations, '[]'::jsonb))
+  )
+  ORDER BY id
+  FOR UPDATE;
+
+  INSERT INTO public.payments (
+    student_id, academic_year_id, amount, payment_date, notes, method, reference, payer_name, payer_id_number,
+    proof_path, created_by
+  )
+  VALUES (
+    p_student_id, p_academic_year_id, p_amount, p_payment_date, NULLIF(trim(p_notes), ''), p_method,
+    NULLIF(trim(p_reference), ''), NULLIF(trim(p_payer_name), ''), NULLIF(trim(p_payer_id_number), ''),
+    p_proof_path, auth.uid()
+  )
+  RETURNING * INTO v_payment;
+
+  FOR v_allocation IN SELECT * FROM jsonb_array_elements(COALESCE(p_allocations, '[]'::jsonb))
+  LOOP
+    SELECT * INTO v_charge FROM public.charge_balances WHERE id = (v_allocation->>'charge_id')::UUID;
+
+    IF v_charge.id IS NULL
+       OR v_charge.student_id <> p_student_id
+       OR v_charge.academic_year_id <> p_academic_year_id THEN
+      RAISE EXCEPTION 'El cargo no pertenece al estudiante en este año';
+    END IF;
+
+    IF (v_allocation->>'amount')::NUMERIC <= 0 THEN
+      RAISE EXCEPTION 'El monto asignado a % debe ser mayor a 0', v_charge.concept_name;
+    END IF;
+
+    IF (v_allocation->>'amount')::NUMERIC > v_charge.balance THEN
+      RAISE EXCEPTION 'El monto asignado a % supera su saldo (%)', v_charge.concept_name, v_charge.balance;
+    END IF;
+
+    INSERT INTO public.payment_allocations (payment_id, charge_id, amount)
+    VALUES (v_payment.id, v_charge.id, (v_allocation->>'amount')::NUMERIC);
+
+    v_allocated := v_allocated + (v_allocation->>'amount')::NUMERIC;
+  END LOOP;
+
+  IF v_allocated > p_amount THEN
+    RAISE EXCEPTION 'Los montos asignados superan el monto del pago';
+  END IF;
+
+  RETURN v_payment;
+END;
+$$;
@@ -0,0 +1,91 @@
+-- Emergency contacts and the medical record are hidden from general staff by RLS and would
+-- cascade away with the duplicate, so merging bypasses RLS and is limited to admins
+CREATE OR REPLACE FUNCTION public.merge_students(p_survivor_id UUID, p_duplicate_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_survivor public.students%ROWTYPE;
+  v_duplicate public.students%ROWTYPE;
+  v_payments INTEGER;
+  v_grades INTEGER;
+  v_enrollments INTEGER;
+  v_guardians INTEGER := 0;
+  v_merge_id UUID;
+BEGIN
+  IF NOT public.current_user_has_role(ARRAY['admin']) THEN
+    RAISE EXCEPTION 'Solo un administrador puede fusionar estudiantes';
+  END IF;
+
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'No se puede fusionar un estudiante consigo mismo';
+  END IF;
+
+  SELECT * INTO v_survivor FROM public.students WHERE id = p_survivor_id FOR UPDATE;
+  SELECT * INTO v_duplicate FROM public.students WHERE id = p_duplicate_id FOR UPDATE;
+
+  IF v_survivor.id IS NULL OR v_duplicate.id IS NULL THEN
+    RAISE EXCEPTION 'Estudiante no encontrado';
+  END IF;
+
+  UPDATE public.payments SET student_id = p_survivor_id WHERE student_id = p_duplicate_id;
+  GET DIAGNOSTICS v_payments = ROW_COUNT;
+
+  UPDATE public.grades SET student_id = p_survivor_id WHERE student_id = p_duplicate_id;
+  GET DIAGNOSTICS v_grades = ROW_COUNT;
+
+  -- The survivor keeps its own enrollment when both were enrolled in the same year
+  UPDATE public.enrollments
+  SET student_id = p_survivor_id
+  WHERE student_id = p_duplicate_id
+    AND academic_year_id NOT IN (
+      SELECT academic_year_id FROM public.enrollments WHERE student_id = p_survivor_id
+    );
+  GET DIAGNOSTICS v_enrollments = ROW_COUNT;
+
+  UPDATE public.student_status_history SET student_id = p_survivor_id WHERE student_id = p_duplicate_id;
+  UPDATE public.student_documents SET student_id = p_survivor_id WHERE student_id = p_duplicate_id;
+  UPDATE public.student_emergency_contacts SET student_id = p_survivor_id WHERE student_id = p_duplicate_id;
+
+  -- The survivor keeps its own medical record when both have one
+  UPDATE public.student_medical_info
+  SET student_id = p_survivor_id
+  WHERE student_id = p_duplicate_id
+    AND NOT EXISTS (SELECT 1 FROM public.student_medical_info WHERE student_id = p_survivor_id);
+
+  IF v_duplicate.family_id IS NOT NULL AND v_duplicate.family_id IS DISTINCT FROM v_survivor.family_id THEN
+    IF v_survivor.family_id IS NULL THEN
+      UPDATE public.students SET family_id = v_duplicate.family_id WHERE id = p_survivor_id;
+    ELSE
+      -- Guardians not already in the survivor's family join it as secondary contacts
+      UPDATE public.parents
+      SET family_id = v_survivor.family_id,
+          is_primary_contact = false
+      WHERE family_id = v_duplicate.family_id
+        AND id_number NOT IN (SELECT id_number FROM public.parents WHERE family_id = v_survivor.family_id);
+      GET DIAGNOSTICS v_guardians = ROW_COUNT;
+
+      -- Siblings of the duplicate are siblings of the survivor
+      UPDATE public.students
+      SET family_id = v_survivor.family_id
+      WHERE family_id = v_duplicate.family_id AND id <> p_duplicate_id;
+
+      DELETE FROM public.families WHERE id = v_duplicate.family_id;
+    END IF;
+  END IF;
+
+  INSERT INTO public.student_merges (
+    survivor_id, duplicate_snapshot, payments_moved, grades_moved, enrollments_moved, guardians_moved, merged_by
+  )
+  VALUES (p_survivor_id, to_jsonb(v_duplicate), v_payments, v_grades, v_enrollments, v_guardians, auth.uid())
+  RETURNING id INTO v_merge_id;
+
+  DELETE FROM public.students WHERE id = p_duplicate_id;
+
+  RETURN v_merge_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.merge_students(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.merge_students(UUID, UUID) TO authenticated;
@@ -0,0 +1,117 @@
+-- Payment dates are timestamps, so they are cast to match the other movement dates. A waived
+-- late fee stays on the statement as the original surcharge plus its waiver, so statements
+-- printed before the waiver still reconcile. The column type changes, so the view is recreated
+DROP VIEW public.account_movements;
+
+CREATE VIEW public.account_movements
+WITH (security_invoker = true)
+AS
+SELECT
+  'item:' || b.item_key AS movement_key,
+  b.student_id,
+  s.family_id,
+  b.academic_year_id,
+  b.due_date AS movement_date,
+  'charge' AS movement_type,
+  1 AS sort_order,
+  b.label AS description,
+  NULL::UUID AS payment_id,
+  NULL::INTEGER AS receipt_number,
+  NULL::TEXT AS method,
+  b.amount
+FROM public.billable_items b
+JOIN public.students s ON s.id = b.student_id
+UNION ALL
+SELECT
+  'discount:' || b.item_key,
+  b.student_id,
+  s.family_id,
+  b.academic_year_id,
+  b.due_date,
+  'discount',
+  2,
+  b.label || COALESCE(' · ' || rules.rule_names, ''),
+  NULL,
+  NULL,
+  NULL,
+  -d.discount_amount
+FROM public.item_discounts d
+JOIN public.billable_items b ON b.item_key = d.item_key
+JOIN public.students s ON s.id = b.student_id
+LEFT JOIN LATERAL (
+  SELECT string_agg(l.rule_name, ', ' ORDER BY l.rule_name) AS rule_names
+  FROM public.discount_lines l
+  WHERE l.item_key = d.item_key
+) rules ON true
+WHERE d.discount_amount > 0
+UNION ALL
+SELECT
+  'payment:' || p.id,
+  p.student_id,
+  s.family_id,
+  p.academic_year_id,
+  p.payment_date::DATE,
+  CASE WHEN p.refund_of IS NULL THEN 'payment' ELSE 'refund' END,
+  CASE WHEN p.refund_of IS NULL THEN 3 ELSE 4 END,
+  p.notes,
+  p.id,
+  p.receipt_number,
+  p.method,
+  -p.amount
+FROM public.payments p
+JOIN public.students s ON s.id = p.student_id
+UNION ALL
+SELECT
+  'void:' || p.id,
+  p.student_id,
+  s.family_id,
+  p.academic_year_id,
+  p.voided_at::DATE,
+  'void',
+  5,
+  p.void_reason,
+  p.id,
+  p.receipt_number,
+  p.method,
+  p.amount
+FROM public.payments p
+JOIN public.students s ON s.id = p.student_id
+WHERE p.status = 'voided'
+UNION ALL
+SELECT
+  'item:' || c.id,
+  e.student_id,
+  s.family_id,
+  e.academic_year_id,
+  c.due_date,
+  'charge',
+  1,
+  fc.name,
+  NULL,
+  NULL,
+  NULL,
+  c.amount
+FROM public.student_charges c
+JOIN public.enrollments e ON e.id = c.enrollment_id
+JOIN public.students s ON s.id = e.student_id
+JOIN public.fee_concepts fc ON fc.id = c.fee_concept_id
+WHERE c.waived_at IS NOT NULL
+UNION ALL
+SELECT
+  'waiver:' || c.id,
+  e.student_id,
+  s.family_id,
+  e.academic_year_id,
+  c.waived_at::DATE,
+  'waiver',
+  6,
+  fc.name || ' · ' || c.waive_reason,
+  NULL,
+  NULL,
+  NULL,
+  -c.amount
+FROM public.student_charges c
+JOIN public.enrollments e ON e.id = c.enrollment_id
+JOIN public.students s ON s.id = e.student_id
+JOIN public.fee_concepts fc ON fc.id = c.fee_concept_id
+WHERE c.waived_at IS NOT NULL;
@@ -0,0 +1,15 @@
+-- Payments are only changed through edit_payment, void_payment and refund_payment, which require
+-- a reason and leave an adjustment behind
+DROP POLICY "Admins can update payments" ON public.payments;
+DROP POLICY "Admins can delete payments" ON public.payments;
+
+ALTER FUNCTION public.edit_payment(UUID, NUMERIC, DATE, TEXT, TEXT) SECURITY DEFINER;
+ALTER FUNCTION public.void_payment(UUID, TEXT) SECURITY DEFINER;
+ALTER FUNCTION public.refund_payment(UUID, NUMERIC, DATE, TEXT) SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.edit_payment(UUID, NUMERIC, DATE, TEXT, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.void_payment(UUID, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.refund_payment(UUID, NUMERIC, DATE, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.edit_payment(UUID, NUMERIC, DATE, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.void_payment(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.refund_payment(UUID, NUMERIC, DATE, TEXT) TO authenticated;
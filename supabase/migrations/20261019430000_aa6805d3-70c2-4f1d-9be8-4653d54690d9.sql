@@ -0,0 +1,49 @@
+-- The section row is locked before counting its enrollments, so two enrollments saved at the
+-- same time cannot both take the last seat
+CREATE OR REPLACE FUNCTION public.sync_enrollment_grade_level()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_section public.sections%ROWTYPE;
+  v_taken INTEGER;
+BEGIN
+  IF NEW.grade_level_id IS NULL AND NEW.grade_level <> '' THEN
+    SELECT grade_level_id INTO NEW.grade_level_id
+    FROM public.grade_level_aliases
+    WHERE alias = public.normalize_grade_level(NEW.grade_level);
+  END IF;
+
+  IF NEW.grade_level_id IS NOT NULL THEN
+    SELECT name INTO NEW.grade_level FROM public.grade_levels WHERE id = NEW.grade_level_id;
+  END IF;
+
+  IF NEW.section_id IS NOT NULL AND (
+    TG_OP = 'INSERT'
+    OR NEW.section_id IS DISTINCT FROM OLD.section_id
+    OR NEW.academic_year_id IS DISTINCT FROM OLD.academic_year_id
+  ) THEN
+    SELECT * INTO v_section FROM public.sections WHERE id = NEW.section_id FOR UPDATE;
+
+    IF v_section.grade_level_id IS DISTINCT FROM NEW.grade_level_id THEN
+      RAISE EXCEPTION 'La sección % no pertenece al grado %', v_section.name, NEW.grade_level;
+    END IF;
+
+    IF v_section.capacity IS NOT NULL THEN
+      SELECT COUNT(*) INTO v_taken
+      FROM public.enrollments
+      WHERE section_id = NEW.section_id
+        AND academic_year_id = NEW.academic_year_id
+        AND id <> NEW.id;
+
+      IF v_taken >= v_section.capacity THEN
+        RAISE EXCEPTION 'La sección % de % está completa (capacidad %)',
+          v_section.name, NEW.grade_level, v_section.capacity;
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,182 @@
+-- Every payment belongs to a cash session, so none escapes a close-out
+CREATE OR REPLACE FUNCTION public.assign_payment_cash_session()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  SELECT id INTO NEW.cash_session_id
+  FROM public.cash_sessions
+  WHERE opened_by = NEW.created_by AND closed_at IS NULL;
+
+  IF NEW.cash_session_id IS NULL THEN
+    RAISE EXCEPTION 'Abra la caja antes de registrar pagos';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- A payment only moves to another student when the two are merged. Once its session is closed
+-- nothing else about it may change and it cannot be deleted, not even along with its student;
+-- refunds are new movements in the current session and stay allowed
+CREATE OR REPLACE FUNCTION public.protect_closed_session_payments()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.student_id IS DISTINCT FROM OLD.student_id
+     AND current_setting('app.merging_students', true) IS DISTINCT FROM 'on' THEN
+    RAISE EXCEPTION 'Un pago solo puede pasar a otro estudiante al fusionarlos';
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    NEW.cash_session_id := OLD.cash_session_id;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.cash_sessions WHERE id = OLD.cash_session_id AND closed_at IS NOT NULL
+  ) AND (
+    TG_OP = 'DELETE'
+    OR (to_jsonb(NEW) - 'student_id') IS DISTINCT FROM (to_jsonb(OLD) - 'student_id')
+  ) THEN
+    RAISE EXCEPTION 'El pago pertenece a una caja cerrada; un administrador debe reabrirla para modificarlo';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.merge_students(p_survivor_id UUID, p_duplicate_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_survivor public.students%ROWTYPE;
+  v_duplicate public.students%ROWTYPE;
+  v_payments INTEGER;
+  v_grades INTEGER;
+  v_enrollments INTEGER;
+  v_guardians INTEGER := 0;
+  v_merge_id UUID;
+  v_pair RECORD;
+BEGIN
+  IF NOT public.current_user_has_role(ARRAY['admin']) THEN
+    RAISE EXCEPTION 'Solo un administrador puede fusionar estudiantes';
+  END IF;
+
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'No se puede fusionar un estudiante consigo mismo';
+  END IF;
+
+  SELECT * INTO v_survivor FROM public.students WHERE id = p_survivor_id FOR UPDATE;
+  SELECT * INTO v_duplicate FROM public.students WHERE id = p_duplicate_id FOR UPDATE;
+
+  IF v_survivor.id IS NULL OR v_duplicate.id IS NULL THEN
+    RAISE EXCEPTION 'Estudiante no encontrado';
+  END IF;
+
+  -- The only place a payment may change student, see protect_closed_session_payments
+  PERFORM set_config('app.merging_students', 'on', true);
+  UPDATE public.payments SET student_id = p_survivor_id WHERE student_id = p_duplicate_id;
+  GET DIAGNOSTICS v_payments = ROW_COUNT;
+  PERFORM set_config('app.merging_students', 'off', true);
+
+  UPDATE public.grades SET student_id = p_survivor_id WHERE student_id = p_duplicate_id;
+  GET DIAGNOSTICS v_grades = ROW_COUNT;
+
+  -- The survivor keeps its own enrollment when both were enrolled in the same year
+  UPDATE public.enrollments
+  SET student_id = p_survivor_id
+  WHERE student_id = p_duplicate_id
+    AND academic_year_id NOT IN (
+      SELECT academic_year_id FROM public.enrollments WHERE student_id = p_survivor_id
+    );
+  GET DIAGNOSTICS v_enrollments = ROW_COUNT;
+
+  -- Where both were enrolled, the money attached to the duplicate's enrollment moves onto the
+  -- survivor's instead of cascading away with it. Charges carry their payment allocations along
+  FOR v_pair IN
+    SELECT d.id AS duplicate_enrollment_id, s.id AS survivor_enrollment_id, y.name AS year_name
+    FROM public.enrollments d
+    JOIN public.enrollments s ON s.academic_year_id = d.academic_year_id AND s.student_id = p_survivor_id
+    JOIN public.academic_years y ON y.id = d.academic_year_id
+    WHERE d.student_id = p_duplicate_id
+  LOOP
+    IF EXISTS (SELECT 1 FROM public.student_installments WHERE enrollment_id = v_pair.duplicate_enrollment_id)
+       AND EXISTS (SELECT 1 FROM public.student_installments WHERE enrollment_id = v_pair.survivor_enrollment_id) THEN
+      RAISE EXCEPTION 'Ambos estudiantes tienen un plan de cuotas en %; deje uno solo antes de fusionar',
+        v_pair.year_name;
+    END IF;
+
+    UPDATE public.student_installments
+    SET enrollment_id = v_pair.survivor_enrollment_id
+    WHERE enrollment_id = v_pair.duplicate_enrollment_id;
+
+    UPDATE public.student_charges
+    SET enrollment_id = v_pair.survivor_enrollment_id
+    WHERE enrollment_id = v_pair.duplicate_enrollment_id;
+
+    -- The survivor keeps its own request when both asked for the same discount
+    UPDATE public.student_discounts
+    SET enrollment_id = v_pair.survivor_enrollment_id
+    WHERE enrollment_id = v_pair.duplicate_enrollment_id
+      AND discount_rule_id NOT IN (
+        SELECT discount_rule_id FROM public.student_discounts WHERE enrollment_id = v_pair.survivor_enrollment_id
+      );
+  END LOOP;
+
+  -- Custom field values the survivor lacks are taken from the duplicate
+  UPDATE public.students
+  SET custom_fields = v_duplicate.custom_fields || jsonb_strip_nulls(v_survivor.custom_fields)
+  WHERE id = p_survivor_id;
+
+  UPDATE public.student_status_history SET student_id = p_survivor_id WHERE student_id = p_duplicate_id;
+  UPDATE public.student_documents SET student_id = p_survivor_id WHERE student_id = p_duplicate_id;
+  UPDATE public.student_emergency_contacts SET student_id = p_survivor_id WHERE student_id = p_duplicate_id;
+
+  -- The survivor keeps its own medical record when both have one
+  UPDATE public.student_medical_info
+  SET student_id = p_survivor_id
+  WHERE student_id = p_duplicate_id
+    AND NOT EXISTS (SELECT 1 FROM public.student_medical_info WHERE student_id = p_survivor_id);
+
+  IF v_duplicate.family_id IS NOT NULL AND v_duplicate.family_id IS DISTINCT FROM v_survivor.family_id THEN
+    IF v_survivor.family_id IS NULL THEN
+      UPDATE public.students SET family_id = v_duplicate.family_id WHERE id = p_survivor_id;
+    ELSE
+      -- Guardians not already in the survivor's family join it as secondary contacts
+      UPDATE public.parents
+      SET family_id = v_survivor.family_id,
+          is_primary_contact = false
+      WHERE family_id = v_duplicate.family_id
+        AND id_number NOT IN (SELECT id_number FROM public.parents WHERE family_id = v_survivor.family_id);
+      GET DIAGNOSTICS v_guardians = ROW_COUNT;
+
+      -- Siblings of the duplicate are siblings of the survivor
+      UPDATE public.students
+      SET family_id = v_survivor.family_id
+      WHERE family_id = v_duplicate.family_id AND id <> p_duplicate_id;
+
+      DELETE FROM public.families WHERE id = v_duplicate.family_id;
+    END IF;
+  END IF;
+
+  INSERT INTO public.student_merges (
+    survivor_id, duplicate_snapshot, payments_moved, grades_moved, enrollments_moved, guardians_moved, merged_by
+  )
+  VALUES (p_survivor_id, to_jsonb(v_duplicate), v_payments, v_grades, v_enrollments, v_guardians, auth.uid())
+  RETURNING id INTO v_merge_id;
+
+  DELETE FROM public.students WHERE id = p_duplicate_id;
+
+  RETURN v_merge_id;
+END;
+$$;
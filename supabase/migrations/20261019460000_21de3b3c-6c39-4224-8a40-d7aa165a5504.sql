@@ -0,0 +1,43 @@
+-- Everything deleted along with a student, for the confirmation before deleting. Medical records
+-- and emergency contacts are hidden from most staff by RLS, so the counts bypass it
+CREATE OR REPLACE FUNCTION public.student_delete_preview(p_student_id UUID)
+RETURNS TABLE (
+  enrollments INTEGER,
+  installments INTEGER,
+  charges INTEGER,
+  discounts INTEGER,
+  payments INTEGER,
+  closed_session_payments INTEGER,
+  grades INTEGER,
+  documents INTEGER,
+  medical_records INTEGER,
+  emergency_contacts INTEGER,
+  status_changes INTEGER,
+  merges INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT
+    (SELECT COUNT(*) FROM public.enrollments WHERE student_id = p_student_id)::INTEGER,
+    (SELECT COUNT(*) FROM public.student_installments i
+      JOIN public.enrollments e ON e.id = i.enrollment_id WHERE e.student_id = p_student_id)::INTEGER,
+    (SELECT COUNT(*) FROM public.student_charges c
+      JOIN public.enrollments e ON e.id = c.enrollment_id WHERE e.student_id = p_student_id)::INTEGER,
+    (SELECT COUNT(*) FROM public.student_discounts d
+      JOIN public.enrollments e ON e.id = d.enrollment_id WHERE e.student_id = p_student_id)::INTEGER,
+    (SELECT COUNT(*) FROM public.payments WHERE student_id = p_student_id)::INTEGER,
+    (SELECT COUNT(*) FROM public.payments p
+      JOIN public.cash_sessions s ON s.id = p.cash_session_id
+      WHERE p.student_id = p_student_id AND s.closed_at IS NOT NULL)::INTEGER,
+    (SELECT COUNT(*) FROM public.grades WHERE student_id = p_student_id)::INTEGER,
+    (SELECT COUNT(*) FROM public.student_documents WHERE student_id = p_student_id)::INTEGER,
+    (SELECT COUNT(*) FROM public.student_medical_info WHERE student_id = p_student_id)::INTEGER,
+    (SELECT COUNT(*) FROM public.student_emergency_contacts WHERE student_id = p_student_id)::INTEGER,
+    (SELECT COUNT(*) FROM public.student_status_history WHERE student_id = p_student_id)::INTEGER,
+    (SELECT COUNT(*) FROM public.student_merges WHERE survivor_id = p_student_id)::INTEGER;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.student_delete_preview(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.student_delete_preview(UUID) TO authenticated;
@@ -0,0 +1,218 @@
+-- Editing a student saves the student, the enrollment and the family's guardians in one
+-- transaction, with the same validation and form field hints as register_student
+CREATE OR REPLACE FUNCTION public.save_family_guardians(p_family_id UUID, p_guardians JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_guardian JSONB;
+  v_index INTEGER;
+  v_field public.custom_fields%ROWTYPE;
+BEGIN
+  IF jsonb_typeof(p_guardians) IS DISTINCT FROM 'array' OR jsonb_array_length(p_guardians) = 0 THEN
+    RAISE EXCEPTION USING MESSAGE = 'Debe registrar al menos un apoderado',
+      DETAIL = 'guardians_required', HINT = 'guardians';
+  END IF;
+
+  IF (SELECT COUNT(*) FROM jsonb_array_elements(p_guardians) g WHERE (g ->> 'is_primary_contact')::BOOLEAN) <> 1 THEN
+    RAISE EXCEPTION USING MESSAGE = 'Debe marcar exactamente un apoderado como contacto principal',
+      DETAIL = 'primary_contact_required', HINT = 'guardians';
+  END IF;
+
+  FOR v_guardian, v_index IN
+    SELECT value, ordinality - 1 FROM jsonb_array_elements(p_guardians) WITH ORDINALITY
+  LOOP
+    IF length(trim(coalesce(v_guardian ->> 'full_name', ''))) < 2 THEN
+      RAISE EXCEPTION USING MESSAGE = 'El nombre del apoderado debe tener al menos 2 caracteres',
+        DETAIL = 'invalid_guardian_name', HINT = format('guardians.%s.fullName', v_index);
+    END IF;
+
+    IF length(trim(coalesce(v_guardian ->> 'id_number', ''))) < 5 THEN
+      RAISE EXCEPTION USING MESSAGE = 'La identificación del apoderado debe tener al menos 5 caracteres',
+        DETAIL = 'invalid_guardian_id_number', HINT = format('guardians.%s.idNumber', v_index);
+    END IF;
+
+    IF (SELECT COUNT(*) FROM jsonb_array_elements(p_guardians) g WHERE g ->> 'id_number' = v_guardian ->> 'id_number') > 1 THEN
+      RAISE EXCEPTION USING MESSAGE = 'El mismo apoderado está registrado dos veces',
+        DETAIL = 'duplicate_guardian', HINT = format('guardians.%s.idNumber', v_index);
+    END IF;
+
+    IF length(trim(coalesce(v_guardian ->> 'cell_phone', ''))) < 10 THEN
+      RAISE EXCEPTION USING MESSAGE = 'El teléfono debe tener al menos 10 caracteres',
+        DETAIL = 'invalid_guardian_phone', HINT = format('guardians.%s.phone', v_index);
+    END IF;
+
+    IF coalesce(v_guardian ->> 'relationship', '') NOT IN ('mother', 'father', 'tutor', 'grandparent', 'other') THEN
+      RAISE EXCEPTION USING MESSAGE = 'Parentesco no válido',
+        DETAIL = 'invalid_guardian_relationship', HINT = format('guardians.%s.relationship', v_index);
+    END IF;
+
+    IF v_guardian ? 'id' AND NOT EXISTS (
+      SELECT 1 FROM public.parents WHERE id = (v_guardian ->> 'id')::UUID AND family_id = p_family_id
+    ) THEN
+      RAISE EXCEPTION USING MESSAGE = 'El apoderado no pertenece a la familia seleccionada',
+        DETAIL = 'guardian_not_in_family', HINT = format('guardians.%s.idNumber', v_index);
+    END IF;
+
+    v_field := public.first_missing_custom_field('guardian', COALESCE(v_guardian -> 'custom_fields', '{}'));
+    IF v_field.id IS NOT NULL THEN
+      RAISE EXCEPTION USING MESSAGE = format('%s es requerido', v_field.label),
+        DETAIL = 'custom_field_required', HINT = format('guardians.%s.customFields.%s', v_index, v_field.key);
+    END IF;
+  END LOOP;
+
+  -- Guardians dropped from the form leave the family
+  DELETE FROM public.parents
+  WHERE family_id = p_family_id
+    AND id NOT IN (
+      SELECT (g ->> 'id')::UUID FROM jsonb_array_elements(p_guardians) g WHERE g ? 'id'
+    );
+
+  -- The primary contact goes last so the single-primary index never sees two at once
+  FOR v_guardian IN
+    SELECT value FROM jsonb_array_elements(p_guardians)
+    ORDER BY (value ->> 'is_primary_contact')::BOOLEAN
+  LOOP
+    IF v_guardian ? 'id' THEN
+      UPDATE public.parents
+      SET full_name = trim(v_guardian ->> 'full_name'),
+          id_number = trim(v_guardian ->> 'id_number'),
+          cell_phone = trim(v_guardian ->> 'cell_phone'),
+          email = NULLIF(v_guardian ->> 'email', ''),
+          address = NULLIF(v_guardian ->> 'address', ''),
+          relationship = v_guardian ->> 'relationship',
+          is_primary_contact = (v_guardian ->> 'is_primary_contact')::BOOLEAN,
+          is_financially_responsible = (v_guardian ->> 'is_financially_responsible')::BOOLEAN,
+          custom_fields = COALESCE(v_guardian -> 'custom_fields', '{}')
+      WHERE id = (v_guardian ->> 'id')::UUID;
+    ELSE
+      INSERT INTO public.parents (
+        family_id, full_name, id_number, cell_phone, email, address,
+        relationship, is_primary_contact, is_financially_responsible, custom_fields
+      )
+      VALUES (
+        p_family_id,
+        trim(v_guardian ->> 'full_name'),
+        trim(v_guardian ->> 'id_number'),
+        trim(v_guardian ->> 'cell_phone'),
+        NULLIF(v_guardian ->> 'email', ''),
+        NULLIF(v_guardian ->> 'address', ''),
+        v_guardian ->> 'relationship',
+        (v_guardian ->> 'is_primary_contact')::BOOLEAN,
+        (v_guardian ->> 'is_financially_responsible')::BOOLEAN,
+        COALESCE(v_guardian -> 'custom_fields', '{}')
+      );
+    END IF;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_student(
+  p_student_id UUID,
+  p_enrollment_id UUID,
+  p_first_name TEXT,
+  p_last_name TEXT,
+  p_id_number TEXT,
+  p_date_of_birth DATE,
+  p_grade_level_id UUID,
+  p_total_tuition DECIMAL,
+  p_guardians JSONB,
+  p_section_id UUID DEFAULT NULL,
+  p_custom_fields JSONB DEFAULT '{}'
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_student public.students%ROWTYPE;
+  v_family_id UUID;
+  v_field public.custom_fields%ROWTYPE;
+BEGIN
+  SELECT * INTO v_student FROM public.students WHERE id = p_student_id FOR UPDATE;
+
+  IF v_student.id IS NULL THEN
+    RAISE EXCEPTION 'Estudiante no encontrado';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.enrollments WHERE id = p_enrollment_id AND student_id = p_student_id) THEN
+    RAISE EXCEPTION 'La matrícula no pertenece al estudiante';
+  END IF;
+
+  IF length(trim(coalesce(p_first_name, ''))) < 2 THEN
+    RAISE EXCEPTION USING MESSAGE = 'El nombre debe tener al menos 2 caracteres',
+      DETAIL = 'invalid_first_name', HINT = 'firstName';
+  END IF;
+
+  IF length(trim(coalesce(p_last_name, ''))) < 2 THEN
+    RAISE EXCEPTION USING MESSAGE = 'El apellido debe tener al menos 2 caracteres',
+      DETAIL = 'invalid_last_name', HINT = 'lastName';
+  END IF;
+
+  IF length(trim(coalesce(p_id_number, ''))) < 5 THEN
+    RAISE EXCEPTION USING MESSAGE = 'El número de identificación debe tener al menos 5 caracteres',
+      DETAIL = 'invalid_id_number', HINT = 'idNumber';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.students WHERE id_number = trim(p_id_number) AND id <> p_student_id) THEN
+    RAISE EXCEPTION USING MESSAGE = format('Ya existe un estudiante con el DNI %s', trim(p_id_number)),
+      DETAIL = 'id_number_taken', HINT = 'idNumber';
+  END IF;
+
+  IF p_date_of_birth IS NULL OR p_date_of_birth > CURRENT_DATE THEN
+    RAISE EXCEPTION USING MESSAGE = 'La fecha de nacimiento es requerida',
+      DETAIL = 'invalid_date_of_birth', HINT = 'dateOfBirth';
+  END IF;
+
+  IF p_grade_level_id IS NULL THEN
+    RAISE EXCEPTION USING MESSAGE = 'El grado es requerido',
+      DETAIL = 'grade_level_required', HINT = 'gradeLevelId';
+  END IF;
+
+  IF p_total_tuition IS NULL OR p_total_tuition < 0 THEN
+    RAISE EXCEPTION USING MESSAGE = 'La matrícula debe ser un valor positivo',
+      DETAIL = 'invalid_tuition', HINT = 'totalTuition';
+  END IF;
+
+  v_field := public.first_missing_custom_field('student', COALESCE(p_custom_fields, '{}'));
+  IF v_field.id IS NOT NULL THEN
+    RAISE EXCEPTION USING MESSAGE = format('%s es requerido', v_field.label),
+      DETAIL = 'custom_field_required', HINT = 'customFields.' || v_field.key;
+  END IF;
+
+  v_family_id := v_student.family_id;
+  IF v_family_id IS NULL THEN
+    INSERT INTO public.families (name)
+    VALUES ('Familia ' || trim(p_last_name))
+    RETURNING id INTO v_family_id;
+  END IF;
+
+  PERFORM public.save_family_guardians(v_family_id, p_guardians);
+
+  BEGIN
+    UPDATE public.students
+    SET first_name = trim(p_first_name),
+        last_name = trim(p_last_name),
+        id_number = trim(p_id_number),
+        date_of_birth = p_date_of_birth,
+        family_id = v_family_id,
+        custom_fields = COALESCE(p_custom_fields, '{}')
+    WHERE id = p_student_id;
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION USING MESSAGE = format('Ya existe un estudiante con el DNI %s', trim(p_id_number)),
+      DETAIL = 'id_number_taken', HINT = 'idNumber';
+  END;
+
+  -- Section membership and capacity are checked by the enrollment trigger
+  BEGIN
+    UPDATE public.enrollments
+    SET grade_level_id = p_grade_level_id,
+        section_id = p_section_id,
+        total_tuition = p_total_tuition
+    WHERE id = p_enrollment_id;
+  EXCEPTION WHEN raise_exception THEN
+    RAISE EXCEPTION USING MESSAGE = SQLERRM, DETAIL = 'section_unavailable', HINT = 'sectionId';
+  END;
+END;
+$$;
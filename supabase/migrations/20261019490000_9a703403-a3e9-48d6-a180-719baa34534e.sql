@@ -0,0 +1,36 @@
+-- The balance printed on a receipt is stored with the payment, using the same totals as
+-- student_directory, so a reprint always matches the original
+ALTER TABLE public.payments ADD COLUMN balance_after DECIMAL(10,2);
+
+CREATE OR REPLACE FUNCTION public.set_payment_balance_after()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    -- An edited amount moves the balance by the difference
+    NEW.balance_after := OLD.balance_after + OLD.amount - NEW.amount;
+    RETURN NEW;
+  END IF;
+
+  NEW.balance_after := COALESCE(
+    (
+      SELECT balance
+      FROM public.student_directory
+      WHERE id = NEW.student_id AND academic_year_id = NEW.academic_year_id
+    ),
+    -(
+      SELECT COALESCE(SUM(amount), 0)
+      FROM public.payments
+      WHERE student_id = NEW.student_id AND academic_year_id = NEW.academic_year_id AND status = 'posted'
+    )
+  ) - NEW.amount;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_payment_balance_after
+  BEFORE INSERT OR UPDATE OF amount ON public.payments
+  FOR EACH ROW EXECUTE FUNCTION public.set_payment_balance_after();